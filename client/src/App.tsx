@@ -4,6 +4,7 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { useAuth } from "@/hooks/useAuth";
+import { useDocumentEvents } from "@/hooks/useDocumentEvents";
 import { Layout } from "@/components/Layout";
 import Landing from "@/pages/Landing";
 import Dashboard from "@/pages/Dashboard";
@@ -13,10 +14,13 @@ import TaxComparison from "@/pages/TaxComparison";
 import TaxPlanning from "@/pages/TaxPlanning";
 import YearAnalysis from "@/pages/YearAnalysis";
 import AdditionalIncome from "@/pages/AdditionalIncome";
+import AdvanceTax from "@/pages/AdvanceTax";
+import Reconciliation from "@/pages/Reconciliation";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   const { isAuthenticated, isLoading } = useAuth();
+  useDocumentEvents(isAuthenticated);
 
   if (isLoading) {
     return (
@@ -43,6 +47,8 @@ function Router() {
             <Route path="/tax-planning" component={TaxPlanning} />
             <Route path="/year-analysis" component={YearAnalysis} />
             <Route path="/additional-income" component={AdditionalIncome} />
+            <Route path="/advance-tax" component={AdvanceTax} />
+            <Route path="/reconciliation" component={Reconciliation} />
             <Route component={NotFound} />
           </Switch>
         </Layout>
@@ -0,0 +1,432 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { LineChart, Plus, Save, Trash2 } from "lucide-react";
+
+interface CapitalGainTransaction {
+  id: string;
+  assetClass: string;
+  description?: string;
+  purchaseDate: string;
+  saleDate: string;
+  costOfAcquisition: string;
+  saleValue: string;
+  assessmentYear: string;
+}
+
+interface CapitalGainLine {
+  id?: string;
+  term: 'short' | 'long';
+  section: string;
+  rate: number | null;
+  holdingMonths: number;
+  costBasis: number;
+  gain: number;
+  note?: string;
+}
+
+interface CapitalGainsSummary {
+  transactions: CapitalGainLine[];
+  shortTermGains: number;
+  longTermGains: number;
+  lossSetOff: number;
+  exemption112A: number;
+  slabIncome: number;
+  specialRateIncome: { section: string; rate: number; income: number }[];
+  shortTermLossCarriedForward: number;
+  longTermLossCarriedForward: number;
+}
+
+interface CapitalGainsCardProps {
+  assessmentYear: string;
+}
+
+const assetClassOptions = [
+  { value: 'listed_equity', label: 'Listed Shares' },
+  { value: 'equity_mutual_fund', label: 'Equity Mutual Fund' },
+  { value: 'debt_mutual_fund', label: 'Debt Mutual Fund' },
+  { value: 'listed_bond', label: 'Listed Bonds / Debentures' },
+  { value: 'unlisted_shares', label: 'Unlisted Shares' },
+  { value: 'property', label: 'Land / Building' },
+  { value: 'gold', label: 'Gold' },
+  { value: 'other', label: 'Other Asset' }
+];
+
+const EQUITY_CLASSES = ['listed_equity', 'equity_mutual_fund'];
+
+const emptyForm = {
+  assetClass: '',
+  description: '',
+  purchaseDate: '',
+  saleDate: '',
+  costOfAcquisition: '',
+  saleValue: '',
+  transferExpenses: '',
+  fairMarketValue2018: '',
+  indexationEligible: false
+};
+
+export function CapitalGainsCard({ assessmentYear }: CapitalGainsCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const { data: transactions } = useQuery<CapitalGainTransaction[]>({
+    queryKey: ['/api/capital-gains', assessmentYear],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/capital-gains?assessmentYear=${assessmentYear}`);
+      return await response.json();
+    },
+    retry: false,
+  });
+
+  const { data: summary } = useQuery<CapitalGainsSummary>({
+    queryKey: ['/api/capital-gains', assessmentYear, 'summary'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/capital-gains/summary?assessmentYear=${assessmentYear}`);
+      return await response.json();
+    },
+    retry: false,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: any) => {
+      const response = await apiRequest('POST', '/api/capital-gains', data);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/capital-gains'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard'] });
+      toast({ title: "Transaction added successfully" });
+      setFormData(emptyForm);
+      setIsFormOpen(false);
+    },
+    onError: handleError
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/capital-gains/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/capital-gains'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard'] });
+      toast({ title: "Transaction deleted successfully" });
+    },
+    onError: handleError
+  });
+
+  function handleError(error: Error) {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: "An error occurred. Please try again.",
+      variant: "destructive",
+    });
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.assetClass || !formData.purchaseDate || !formData.saleDate || !formData.costOfAcquisition || !formData.saleValue) {
+      toast({
+        title: "Missing Information",
+        description: "Please enter the asset, dates, cost and sale value",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (formData.saleDate < formData.purchaseDate) {
+      toast({
+        title: "Invalid Dates",
+        description: "Sale date cannot be before the purchase date",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    createMutation.mutate({
+      assetClass: formData.assetClass,
+      description: formData.description,
+      purchaseDate: formData.purchaseDate,
+      saleDate: formData.saleDate,
+      costOfAcquisition: formData.costOfAcquisition,
+      saleValue: formData.saleValue,
+      transferExpenses: formData.transferExpenses || '0',
+      fairMarketValue2018: formData.fairMarketValue2018 || null,
+      indexationEligible: formData.indexationEligible,
+      assessmentYear
+    });
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      maximumFractionDigits: 0
+    }).format(amount);
+  };
+
+  const isEquity = EQUITY_CLASSES.includes(formData.assetClass);
+
+  return (
+    <Card data-testid="card-capital-gains">
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle className="flex items-center space-x-2">
+            <LineChart className="h-5 w-5" />
+            <span>Capital Gains</span>
+          </CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setIsFormOpen(open => !open)}
+            data-testid="button-add-capital-gain"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Sale
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isFormOpen && (
+          <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 border border-border rounded-lg">
+            <div>
+              <Label>Asset</Label>
+              <Select
+                value={formData.assetClass}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, assetClass: value }))}
+              >
+                <SelectTrigger data-testid="select-capital-gain-asset">
+                  <SelectValue placeholder="Select asset type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {assetClassOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label>Description (Optional)</Label>
+              <Input
+                placeholder="e.g., Nifty 50 index fund"
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                data-testid="input-capital-gain-description"
+              />
+            </div>
+
+            <div>
+              <Label>Purchase Date</Label>
+              <Input
+                type="date"
+                value={formData.purchaseDate}
+                onChange={(e) => setFormData(prev => ({ ...prev, purchaseDate: e.target.value }))}
+                data-testid="input-capital-gain-purchase-date"
+              />
+            </div>
+
+            <div>
+              <Label>Sale Date</Label>
+              <Input
+                type="date"
+                value={formData.saleDate}
+                onChange={(e) => setFormData(prev => ({ ...prev, saleDate: e.target.value }))}
+                data-testid="input-capital-gain-sale-date"
+              />
+            </div>
+
+            <div>
+              <Label>Cost of Acquisition (₹)</Label>
+              <Input
+                type="number"
+                value={formData.costOfAcquisition}
+                onChange={(e) => setFormData(prev => ({ ...prev, costOfAcquisition: e.target.value }))}
+                data-testid="input-capital-gain-cost"
+              />
+            </div>
+
+            <div>
+              <Label>Sale Value (₹)</Label>
+              <Input
+                type="number"
+                value={formData.saleValue}
+                onChange={(e) => setFormData(prev => ({ ...prev, saleValue: e.target.value }))}
+                data-testid="input-capital-gain-sale-value"
+              />
+            </div>
+
+            <div>
+              <Label>Transfer Expenses (₹)</Label>
+              <Input
+                type="number"
+                placeholder="Brokerage, stamp duty"
+                value={formData.transferExpenses}
+                onChange={(e) => setFormData(prev => ({ ...prev, transferExpenses: e.target.value }))}
+                data-testid="input-capital-gain-expenses"
+              />
+            </div>
+
+            {isEquity ? (
+              <div>
+                <Label>FMV on 31-Jan-2018 (₹)</Label>
+                <Input
+                  type="number"
+                  placeholder="Only for holdings bought before Feb 2018"
+                  value={formData.fairMarketValue2018}
+                  onChange={(e) => setFormData(prev => ({ ...prev, fairMarketValue2018: e.target.value }))}
+                  data-testid="input-capital-gain-fmv-2018"
+                />
+              </div>
+            ) : (
+              <div className="flex items-center space-x-2 pt-6">
+                <Checkbox
+                  id="capital-gain-indexation"
+                  checked={formData.indexationEligible}
+                  onCheckedChange={(checked) => setFormData(prev => ({ ...prev, indexationEligible: checked === true }))}
+                  data-testid="checkbox-capital-gain-indexation"
+                />
+                <Label htmlFor="capital-gain-indexation">Eligible for indexation</Label>
+              </div>
+            )}
+
+            <div className="md:col-span-2 flex justify-end space-x-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => { setFormData(emptyForm); setIsFormOpen(false); }}
+                data-testid="button-cancel-capital-gain"
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={createMutation.isPending} data-testid="button-save-capital-gain">
+                <Save className="h-4 w-4 mr-2" />
+                Save
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {!transactions?.length ? (
+          <p className="text-sm text-muted-foreground text-center py-4" data-testid="no-capital-gains">
+            Add share, mutual fund or property sales to tax them at the correct rates
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {transactions.map((transaction, index) => {
+              const line = summary?.transactions.find(t => t.id === transaction.id);
+              return (
+                <div key={transaction.id} className="flex items-center justify-between p-4 border border-border rounded-lg" data-testid={`capital-gain-item-${index}`}>
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <p className="font-medium">
+                        {assetClassOptions.find(opt => opt.value === transaction.assetClass)?.label || transaction.assetClass}
+                      </p>
+                      {line && (
+                        <Badge variant="outline" data-testid={`capital-gain-section-${index}`}>
+                          {line.term === 'short' ? 'STCG' : 'LTCG'} · {line.section === 'slab' ? 'Slab rate' : `${line.section} @ ${line.rate}%`}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {transaction.description || `${transaction.purchaseDate} to ${transaction.saleDate}`}
+                    </p>
+                    {line?.note && (
+                      <p className="text-xs text-muted-foreground">{line.note}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-4">
+                    {line && (
+                      <p className={`font-semibold ${line.gain < 0 ? 'text-red-600' : ''}`} data-testid={`capital-gain-amount-${index}`}>
+                        {formatCurrency(line.gain)}
+                      </p>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(transaction.id)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-capital-gain-${index}`}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {summary && summary.transactions.length > 0 && (
+          <div className="space-y-2 text-sm" data-testid="capital-gains-summary">
+            <Separator />
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Short-term gains</span>
+              <span>{formatCurrency(summary.shortTermGains)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Long-term gains</span>
+              <span>{formatCurrency(summary.longTermGains)}</span>
+            </div>
+            {summary.lossSetOff > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Losses set off</span>
+                <span className="text-green-600">-{formatCurrency(summary.lossSetOff)}</span>
+              </div>
+            )}
+            {summary.exemption112A > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">112A exemption</span>
+                <span className="text-green-600">-{formatCurrency(summary.exemption112A)}</span>
+              </div>
+            )}
+            {summary.slabIncome > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Taxed at slab rates</span>
+                <span>{formatCurrency(summary.slabIncome)}</span>
+              </div>
+            )}
+            {summary.specialRateIncome.map(line => (
+              <div key={`${line.section}-${line.rate}`} className="flex justify-between">
+                <span className="text-muted-foreground">Section {line.section} @ {line.rate}%</span>
+                <span>{formatCurrency(line.income)}</span>
+              </div>
+            ))}
+            {(summary.shortTermLossCarriedForward + summary.longTermLossCarriedForward) > 0 && (
+              <p className="text-xs text-amber-700 dark:text-amber-400" data-testid="text-capital-loss-carried-forward">
+                Losses to carry forward: {formatCurrency(summary.shortTermLossCarriedForward)} short-term,{' '}
+                {formatCurrency(summary.longTermLossCarriedForward)} long-term
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
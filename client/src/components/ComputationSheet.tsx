@@ -0,0 +1,116 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { ClipboardList } from "lucide-react";
+
+export interface IncomeHeadComputation {
+  head: 'salary' | 'houseProperty' | 'business' | 'capitalGains' | 'otherSources';
+  label: string;
+  items: { description: string; amount: number }[];
+  deductions: { description: string; amount: number }[];
+  income: number;
+  lossSetOffFromOtherHeads: number;
+  setOffAgainstOtherHeads: number;
+  lossCarriedForward: number;
+  chargeable: number;
+}
+
+export interface ComputationSheetData {
+  assessmentYear: string;
+  regime: 'old' | 'new';
+  heads: IncomeHeadComputation[];
+  grossTotalIncome: number;
+  incomeExcludingCapitalGains: number;
+  warnings?: string[];
+}
+
+interface ComputationSheetProps {
+  oldRegime: ComputationSheetData;
+  newRegime: ComputationSheetData;
+}
+
+export function ComputationSheet({ oldRegime, newRegime }: ComputationSheetProps) {
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      maximumFractionDigits: 0
+    }).format(amount);
+  };
+
+  const carriedForward = oldRegime.heads.filter(head => head.lossCarriedForward > 0);
+  // Presumptive income warnings do not depend on the regime
+  const warnings = oldRegime.warnings ?? [];
+
+  return (
+    <Card data-testid="card-computation-sheet">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ClipboardList className="h-5 w-5" />
+          <span>Computation of Total Income</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-3 text-sm font-medium text-muted-foreground">
+          <span>Head of income</span>
+          <span className="text-right">Old regime</span>
+          <span className="text-right">New regime</span>
+        </div>
+        <Separator />
+
+        {oldRegime.heads.map(head => {
+          const newHead = newRegime.heads.find(h => h.head === head.head);
+          const hasLoss = head.income < 0 || (newHead?.income ?? 0) < 0;
+          return (
+            <div key={head.head} data-testid={`computation-head-${head.head}`}>
+              <div className="grid grid-cols-3 text-sm">
+                <span>{head.label}</span>
+                <span className="text-right" data-testid={`text-computation-old-${head.head}`}>
+                  {formatCurrency(head.chargeable)}
+                </span>
+                <span className="text-right" data-testid={`text-computation-new-${head.head}`}>
+                  {formatCurrency(newHead?.chargeable ?? 0)}
+                </span>
+              </div>
+              {hasLoss && (
+                <p className="text-xs text-muted-foreground">
+                  Loss of {formatCurrency(-Math.min(head.income, 0))}
+                  {head.setOffAgainstOtherHeads > 0 && `, ${formatCurrency(head.setOffAgainstOtherHeads)} set off against other heads`}
+                  {newHead && newHead.income < 0 && newHead.setOffAgainstOtherHeads === 0 && ' (not set off under the new regime)'}
+                </p>
+              )}
+            </div>
+          );
+        })}
+
+        <Separator />
+        <div className="grid grid-cols-3 font-semibold">
+          <span>Gross Total Income</span>
+          <span className="text-right" data-testid="text-computation-old-gti">
+            {formatCurrency(oldRegime.grossTotalIncome)}
+          </span>
+          <span className="text-right" data-testid="text-computation-new-gti">
+            {formatCurrency(newRegime.grossTotalIncome)}
+          </span>
+        </div>
+
+        {carriedForward.length > 0 && (
+          <div className="text-xs text-amber-700 dark:text-amber-400 space-y-1" data-testid="text-computation-carry-forward">
+            {carriedForward.map(head => (
+              <p key={head.head}>
+                {formatCurrency(head.lossCarriedForward)} of {head.label.toLowerCase()} loss carried forward (old regime)
+              </p>
+            ))}
+          </div>
+        )}
+
+        {warnings.length > 0 && (
+          <div className="text-xs text-amber-700 dark:text-amber-400 space-y-1" data-testid="text-computation-warnings">
+            {warnings.map((warning, index) => (
+              <p key={index}>{warning}</p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,88 @@
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest } from "@/lib/queryClient";
+import { ArrowUpRight, CalendarClock } from "lucide-react";
+
+interface FilingDeadline {
+  type: 'original' | 'belated' | 'updated';
+  label: string;
+  section: string;
+  dueDate: string;
+  daysRemaining: number;
+  status: 'open' | 'closed';
+  note?: string;
+}
+
+interface FilingDeadlinesCardProps {
+  assessmentYear: string;
+}
+
+export function FilingDeadlinesCard({ assessmentYear }: FilingDeadlinesCardProps) {
+  const [, setLocation] = useLocation();
+
+  const { data: deadlines } = useQuery<FilingDeadline[]>({
+    queryKey: ['/api/filing-deadlines', assessmentYear],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/filing-deadlines?assessmentYear=${assessmentYear}`);
+      return await response.json();
+    },
+    retry: false,
+  });
+
+  const formatDate = (date: string) => {
+    return new Date(`${date}T00:00:00`).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+  };
+
+  // The earliest deadline still open is the one to act on
+  const nextDeadline = deadlines?.find(deadline => deadline.status === 'open');
+
+  if (!deadlines?.length) {
+    return null;
+  }
+
+  return (
+    <Card data-testid="card-filing-deadlines">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <CalendarClock className="h-5 w-5" />
+            <span>Filing Deadlines (AY {assessmentYear})</span>
+          </CardTitle>
+          <Button variant="ghost" size="sm" onClick={() => setLocation('/advance-tax')} data-testid="button-view-tax-payable">
+            Tax Payable
+            <ArrowUpRight className="h-4 w-4 ml-1" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {deadlines.map(deadline => {
+          const isNext = deadline.type === nextDeadline?.type;
+          return (
+            <div
+              key={deadline.type}
+              className={`p-4 border rounded-lg ${isNext ? 'border-primary' : 'border-border'}`}
+              data-testid={`filing-deadline-${deadline.type}`}
+            >
+              <div className="flex items-center justify-between">
+                <p className="font-medium">{deadline.label}</p>
+                <Badge variant={deadline.status === 'open' ? (isNext ? 'default' : 'outline') : 'secondary'}>
+                  {deadline.status === 'open' ? `${deadline.daysRemaining} days left` : 'Closed'}
+                </Badge>
+              </div>
+              <p className="text-sm text-muted-foreground mt-1">Section {deadline.section}</p>
+              <p className="text-lg font-semibold mt-2" data-testid={`text-deadline-${deadline.type}`}>
+                {formatDate(deadline.dueDate)}
+              </p>
+              {deadline.note && (
+                <p className="text-xs text-muted-foreground mt-2">{deadline.note}</p>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,131 @@
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest } from "@/lib/queryClient";
+import { AlertTriangle, ArrowUpRight, Briefcase } from "lucide-react";
+
+interface EmployerSalary {
+  documentId: string;
+  fileName: string;
+  employerName?: string;
+  employerTan?: string;
+  grossSalary: number;
+  exemptions: number;
+  standardDeduction: number;
+  tdsDeducted: number;
+}
+
+interface Form16Consolidation {
+  assessmentYear: string;
+  employers: EmployerSalary[];
+  regime: 'old' | 'new';
+  grossSalary: number;
+  exemptions: number;
+  standardDeduction: number;
+  salaryIncome: number;
+  taxOnAggregate: number;
+  totalTds: number;
+  tdsShortfall: number;
+  warnings: string[];
+}
+
+interface Form16ConsolidationCardProps {
+  assessmentYear: string;
+}
+
+export function Form16ConsolidationCard({ assessmentYear }: Form16ConsolidationCardProps) {
+  const [, setLocation] = useLocation();
+
+  const { data: consolidation } = useQuery<Form16Consolidation>({
+    queryKey: ['/api/form16-consolidation', assessmentYear],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/form16-consolidation?assessmentYear=${assessmentYear}`);
+      return await response.json();
+    },
+    retry: false,
+  });
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      maximumFractionDigits: 0
+    }).format(amount);
+  };
+
+  // Only job changers need the combined view
+  if (!consolidation || consolidation.employers.length < 2) {
+    return null;
+  }
+
+  return (
+    <Card data-testid="card-form16-consolidation">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <Briefcase className="h-5 w-5" />
+            <span>Combined Form 16s (AY {assessmentYear})</span>
+          </CardTitle>
+          <Button variant="ghost" size="sm" onClick={() => setLocation('/advance-tax')} data-testid="button-view-shortfall">
+            Tax Payable
+            <ArrowUpRight className="h-4 w-4 ml-1" />
+          </Button>
+        </div>
+        <CardDescription>
+          Salary from {consolidation.employers.length} employers, with the standard deduction allowed once and tax worked
+          out on the total under the {consolidation.regime} regime
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {consolidation.employers.map(employer => (
+            <div key={employer.documentId} className="flex items-center justify-between p-3 border border-border rounded-lg" data-testid={`employer-${employer.documentId}`}>
+              <div>
+                <p className="font-medium">{employer.employerName || employer.fileName}</p>
+                <p className="text-sm text-muted-foreground">
+                  {employer.employerTan ? `TAN ${employer.employerTan} · ` : ''}TDS {formatCurrency(employer.tdsDeducted)}
+                </p>
+              </div>
+              <p className="font-semibold">{formatCurrency(employer.grossSalary)}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div>
+            <p className="text-sm text-muted-foreground">Gross Salary</p>
+            <p className="text-lg font-semibold" data-testid="text-combined-gross-salary">{formatCurrency(consolidation.grossSalary)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Salary Income</p>
+            <p className="text-lg font-semibold" data-testid="text-combined-salary-income">{formatCurrency(consolidation.salaryIncome)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Tax on Combined Salary</p>
+            <p className="text-lg font-semibold" data-testid="text-combined-tax">{formatCurrency(consolidation.taxOnAggregate)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">TDS by Employers</p>
+            <p className="text-lg font-semibold" data-testid="text-combined-tds">{formatCurrency(consolidation.totalTds)}</p>
+          </div>
+        </div>
+
+        {consolidation.tdsShortfall > 0 && (
+          <div className="flex items-center justify-between p-3 border border-amber-200 bg-amber-50 rounded-lg" data-testid="tds-shortfall">
+            <p className="text-sm font-medium text-amber-800">TDS short-deducted</p>
+            <Badge variant="destructive">{formatCurrency(consolidation.tdsShortfall)}</Badge>
+          </div>
+        )}
+
+        {consolidation.warnings.map((warning, index) => (
+          <div key={index} className="flex items-start space-x-2 text-sm text-muted-foreground" data-testid={`consolidation-warning-${index}`}>
+            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0 text-amber-600" />
+            <p>{warning}</p>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,378 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { Building, Edit, Plus, Save, Trash2 } from "lucide-react";
+
+interface HouseProperty {
+  id: string;
+  name: string;
+  occupancy: string;
+  annualRent: string;
+  municipalTaxesPaid: string;
+  interestOnLoan: string;
+  assessmentYear: string;
+}
+
+interface HousePropertyLine {
+  id?: string;
+  name: string;
+  occupancy: 'self_occupied' | 'let_out' | 'deemed_let_out';
+  netAnnualValue: number;
+  standardDeduction: number;
+  interestAllowed: number;
+  income: number;
+  note?: string;
+}
+
+interface HousePropertyComputation {
+  properties: HousePropertyLine[];
+  headIncome: number;
+  setOffAgainstOtherHeads: number;
+  lossCarriedForward: number;
+  chargeableIncome: number;
+}
+
+interface HousePropertySummary {
+  oldRegime: HousePropertyComputation;
+  newRegime: HousePropertyComputation;
+}
+
+interface HousePropertyCardProps {
+  assessmentYear: string;
+}
+
+const occupancyLabels: Record<string, string> = {
+  self_occupied: 'Self-occupied',
+  let_out: 'Let out',
+  deemed_let_out: 'Deemed let out'
+};
+
+const emptyForm = {
+  name: '',
+  occupancy: 'let_out',
+  annualRent: '',
+  municipalTaxesPaid: '',
+  interestOnLoan: ''
+};
+
+export function HousePropertyCard({ assessmentYear }: HousePropertyCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const { data: properties } = useQuery<HouseProperty[]>({
+    queryKey: ['/api/house-properties', assessmentYear],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/house-properties?assessmentYear=${assessmentYear}`);
+      return await response.json();
+    },
+    retry: false,
+  });
+
+  const { data: summary } = useQuery<HousePropertySummary>({
+    queryKey: ['/api/house-properties', assessmentYear, 'summary'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/house-properties/summary?assessmentYear=${assessmentYear}`);
+      return await response.json();
+    },
+    retry: false,
+  });
+
+  const onSaved = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/house-properties'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/dashboard'] });
+    toast({ title: message });
+    resetForm();
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: any) => {
+      const response = await apiRequest('POST', '/api/house-properties', data);
+      return await response.json();
+    },
+    onSuccess: () => onSaved("Property added successfully"),
+    onError: handleError
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: any }) => {
+      const response = await apiRequest('PUT', `/api/house-properties/${id}`, data);
+      return await response.json();
+    },
+    onSuccess: () => onSaved("Property updated successfully"),
+    onError: handleError
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/house-properties/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/house-properties'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard'] });
+      toast({ title: "Property deleted successfully" });
+    },
+    onError: handleError
+  });
+
+  function handleError(error: Error) {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: "An error occurred. Please try again.",
+      variant: "destructive",
+    });
+  }
+
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setEditingId(null);
+    setIsFormOpen(false);
+  };
+
+  const startEdit = (property: HouseProperty) => {
+    setFormData({
+      name: property.name,
+      occupancy: property.occupancy,
+      annualRent: property.annualRent,
+      municipalTaxesPaid: property.municipalTaxesPaid,
+      interestOnLoan: property.interestOnLoan
+    });
+    setEditingId(property.id);
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name) {
+      toast({
+        title: "Missing Information",
+        description: "Please enter a name for the property",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const propertyData = {
+      name: formData.name,
+      occupancy: formData.occupancy,
+      annualRent: formData.occupancy === 'let_out' ? formData.annualRent || '0' : '0',
+      municipalTaxesPaid: formData.occupancy === 'let_out' ? formData.municipalTaxesPaid || '0' : '0',
+      interestOnLoan: formData.interestOnLoan || '0',
+      assessmentYear
+    };
+
+    if (editingId) {
+      updateMutation.mutate({ id: editingId, data: propertyData });
+    } else {
+      createMutation.mutate(propertyData);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      maximumFractionDigits: 0
+    }).format(amount);
+  };
+
+  return (
+    <Card data-testid="card-house-property">
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle className="flex items-center space-x-2">
+            <Building className="h-5 w-5" />
+            <span>House Property</span>
+          </CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setIsFormOpen(true)}
+            data-testid="button-add-house-property"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Property
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isFormOpen && (
+          <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 border border-border rounded-lg">
+            <div>
+              <Label>Property Name</Label>
+              <Input
+                placeholder="e.g., Flat in Pune"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                data-testid="input-property-name"
+              />
+            </div>
+
+            <div>
+              <Label>Occupancy</Label>
+              <Select
+                value={formData.occupancy}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, occupancy: value }))}
+              >
+                <SelectTrigger data-testid="select-property-occupancy">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="let_out">Let out</SelectItem>
+                  <SelectItem value="self_occupied">Self-occupied</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {formData.occupancy === 'let_out' && (
+              <>
+                <div>
+                  <Label>Annual Rent (₹)</Label>
+                  <Input
+                    type="number"
+                    value={formData.annualRent}
+                    onChange={(e) => setFormData(prev => ({ ...prev, annualRent: e.target.value }))}
+                    data-testid="input-property-rent"
+                  />
+                </div>
+
+                <div>
+                  <Label>Municipal Taxes Paid (₹)</Label>
+                  <Input
+                    type="number"
+                    value={formData.municipalTaxesPaid}
+                    onChange={(e) => setFormData(prev => ({ ...prev, municipalTaxesPaid: e.target.value }))}
+                    data-testid="input-property-municipal-tax"
+                  />
+                </div>
+              </>
+            )}
+
+            <div>
+              <Label>Home Loan Interest (₹)</Label>
+              <Input
+                type="number"
+                value={formData.interestOnLoan}
+                onChange={(e) => setFormData(prev => ({ ...prev, interestOnLoan: e.target.value }))}
+                data-testid="input-property-interest"
+              />
+            </div>
+
+            <div className="md:col-span-2 flex justify-end space-x-3">
+              <Button type="button" variant="outline" onClick={resetForm} data-testid="button-cancel-property">
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={createMutation.isPending || updateMutation.isPending}
+                data-testid="button-save-property"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                {editingId ? 'Update' : 'Save'}
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {!properties?.length ? (
+          <p className="text-sm text-muted-foreground text-center py-4" data-testid="no-house-properties">
+            Add your home or rented-out property to compute income from house property
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {properties.map((property, index) => {
+              const line = summary?.oldRegime.properties.find(p => p.id === property.id);
+              return (
+                <div key={property.id} className="p-4 border border-border rounded-lg" data-testid={`house-property-item-${index}`}>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <p className="font-medium">{property.name}</p>
+                      <Badge variant="outline">{occupancyLabels[line?.occupancy ?? property.occupancy]}</Badge>
+                    </div>
+                    <div className="flex items-center space-x-4">
+                      {line && (
+                        <p className={`font-semibold ${line.income < 0 ? 'text-red-600' : ''}`} data-testid={`house-property-income-${index}`}>
+                          {formatCurrency(line.income)}
+                        </p>
+                      )}
+                      <div className="flex space-x-2">
+                        <Button variant="ghost" size="sm" onClick={() => startEdit(property)} data-testid={`button-edit-property-${index}`}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteMutation.mutate(property.id)}
+                          disabled={deleteMutation.isPending}
+                          data-testid={`button-delete-property-${index}`}
+                        >
+                          <Trash2 className="h-4 w-4 text-red-600" />
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                  {line && line.netAnnualValue > 0 && (
+                    <p className="text-sm text-muted-foreground mt-1">
+                      NAV {formatCurrency(line.netAnnualValue)} · 30% deduction {formatCurrency(line.standardDeduction)} · Interest {formatCurrency(line.interestAllowed)}
+                    </p>
+                  )}
+                  {line?.note && (
+                    <p className="text-xs text-amber-700 dark:text-amber-400 mt-1">{line.note}</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {summary && summary.oldRegime.properties.length > 0 && (
+          <div className="space-y-2 text-sm" data-testid="house-property-summary">
+            <Separator />
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Income from house property (old regime)</span>
+              <span data-testid="text-house-property-old">{formatCurrency(summary.oldRegime.chargeableIncome)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Income from house property (new regime)</span>
+              <span data-testid="text-house-property-new">{formatCurrency(summary.newRegime.chargeableIncome)}</span>
+            </div>
+            {summary.oldRegime.lossCarriedForward > 0 && (
+              <p className="text-xs text-amber-700 dark:text-amber-400" data-testid="text-house-property-carry-forward">
+                Only {formatCurrency(summary.oldRegime.setOffAgainstOtherHeads)} of the loss can be set off this year;{' '}
+                {formatCurrency(summary.oldRegime.lossCarriedForward)} is carried forward for up to 8 years
+              </p>
+            )}
+            {summary.newRegime.headIncome < 0 && (
+              <p className="text-xs text-muted-foreground">
+                The new regime does not allow a house property loss to be set off against other income
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,377 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { AlertTriangle, CheckCircle, Download, FileJson } from "lucide-react";
+
+interface ItrFieldIssue {
+  path: string;
+  label: string;
+  message?: string;
+}
+
+interface ItrExportResult {
+  assessmentYear: string;
+  form: 'ITR-1' | 'ITR-2' | 'ITR-3' | 'ITR-4';
+  formReasons: string[];
+  regime: 'old' | 'new';
+  fileName?: string;
+  itr?: Record<string, unknown>;
+  missingFields: ItrFieldIssue[];
+  invalidFields: ItrFieldIssue[];
+  warnings: string[];
+  valid: boolean;
+}
+
+interface PersonalDetails {
+  firstName: string;
+  middleName: string;
+  lastName: string;
+  fatherName: string;
+  pan: string;
+  aadhaar: string;
+  flatDoorBlock: string;
+  premises: string;
+  roadStreet: string;
+  localityArea: string;
+  city: string;
+  stateCode: string;
+  pinCode: string;
+  mobile: string;
+  email: string;
+  employerCategory: string;
+  bankIfsc: string;
+  bankName: string;
+  bankAccountNumber: string;
+  bankAccountType: string;
+  place: string;
+}
+
+interface ItrExportCardProps {
+  assessmentYear: string;
+  recommendedRegime: 'old' | 'new';
+}
+
+const emptyDetails: PersonalDetails = {
+  firstName: '',
+  middleName: '',
+  lastName: '',
+  fatherName: '',
+  pan: '',
+  aadhaar: '',
+  flatDoorBlock: '',
+  premises: '',
+  roadStreet: '',
+  localityArea: '',
+  city: '',
+  stateCode: '',
+  pinCode: '',
+  mobile: '',
+  email: '',
+  employerCategory: '',
+  bankIfsc: '',
+  bankName: '',
+  bankAccountNumber: '',
+  bankAccountType: 'SB',
+  place: ''
+};
+
+// State codes used by the e-filing utility
+const states: { code: string; name: string }[] = [
+  { code: '01', name: 'Andaman and Nicobar Islands' },
+  { code: '02', name: 'Andhra Pradesh' },
+  { code: '03', name: 'Arunachal Pradesh' },
+  { code: '04', name: 'Assam' },
+  { code: '05', name: 'Bihar' },
+  { code: '06', name: 'Chandigarh' },
+  { code: '33', name: 'Chhattisgarh' },
+  { code: '07', name: 'Dadra and Nagar Haveli and Daman and Diu' },
+  { code: '09', name: 'Delhi' },
+  { code: '10', name: 'Goa' },
+  { code: '11', name: 'Gujarat' },
+  { code: '12', name: 'Haryana' },
+  { code: '13', name: 'Himachal Pradesh' },
+  { code: '14', name: 'Jammu and Kashmir' },
+  { code: '35', name: 'Jharkhand' },
+  { code: '15', name: 'Karnataka' },
+  { code: '16', name: 'Kerala' },
+  { code: '37', name: 'Ladakh' },
+  { code: '17', name: 'Lakshadweep' },
+  { code: '18', name: 'Madhya Pradesh' },
+  { code: '19', name: 'Maharashtra' },
+  { code: '20', name: 'Manipur' },
+  { code: '21', name: 'Meghalaya' },
+  { code: '22', name: 'Mizoram' },
+  { code: '23', name: 'Nagaland' },
+  { code: '24', name: 'Odisha' },
+  { code: '25', name: 'Puducherry' },
+  { code: '26', name: 'Punjab' },
+  { code: '27', name: 'Rajasthan' },
+  { code: '28', name: 'Sikkim' },
+  { code: '29', name: 'Tamil Nadu' },
+  { code: '36', name: 'Telangana' },
+  { code: '30', name: 'Tripura' },
+  { code: '31', name: 'Uttar Pradesh' },
+  { code: '34', name: 'Uttarakhand' },
+  { code: '32', name: 'West Bengal' }
+];
+
+const employerCategories: Record<string, string> = {
+  CGOV: 'Central Government',
+  SGOV: 'State Government',
+  PSU: 'Public Sector Undertaking',
+  PE: 'Pensioner',
+  OTH: 'Others',
+  NA: 'Not applicable'
+};
+
+export function ItrExportCard({ assessmentYear, recommendedRegime }: ItrExportCardProps) {
+  const { toast } = useToast();
+  const [details, setDetails] = useState<PersonalDetails>(emptyDetails);
+  const [regime, setRegime] = useState<'old' | 'new'>(recommendedRegime);
+  const [filingDate, setFilingDate] = useState(new Date().toISOString().split('T')[0]);
+  const [result, setResult] = useState<ItrExportResult | null>(null);
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      // Blank fields fall back to the saved profile on the server
+      const personal = Object.fromEntries(Object.entries(details).filter(([, value]) => value.trim() !== ''));
+      const response = await apiRequest('POST', '/api/itr-export', { assessmentYear, regime, filingDate, personal });
+      return await response.json();
+    },
+    onSuccess: (data: ItrExportResult) => {
+      setResult(data);
+    },
+    onError: handleError
+  });
+
+  function handleError(error: Error) {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    setResult(null);
+    // 422: income that needs a form we do not generate
+    if (error.message.startsWith('422: ')) {
+      try {
+        toast({
+          title: "Export Not Available",
+          description: JSON.parse(error.message.slice(5)).message,
+          variant: "destructive",
+        });
+        return;
+      } catch {
+        // Fall through to the generic message
+      }
+    }
+    toast({
+      title: "Error",
+      description: "An error occurred. Please try again.",
+      variant: "destructive",
+    });
+  }
+
+  const downloadReturn = () => {
+    if (!result?.itr) return;
+
+    const dataBlob = new Blob([JSON.stringify(result.itr, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(dataBlob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = result.fileName ?? `${result.form}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+
+    toast({
+      title: "Return Downloaded",
+      description: result.valid
+        ? `Import ${result.fileName} into the ${result.form} offline utility to review and file it.`
+        : "The return is incomplete. Fill in the missing details before filing it.",
+    });
+  };
+
+  const textField = (field: keyof PersonalDetails, label: string, placeholder = '') => (
+    <div>
+      <Label htmlFor={`itr-${field}`}>{label}</Label>
+      <Input
+        id={`itr-${field}`}
+        placeholder={placeholder}
+        value={details[field]}
+        onChange={(e) => setDetails(prev => ({ ...prev, [field]: e.target.value }))}
+        data-testid={`input-itr-${field}`}
+      />
+    </div>
+  );
+
+  const issueList = (issues: ItrFieldIssue[], testId: string) => (
+    <ul className="space-y-1" data-testid={testId}>
+      {issues.map(issue => (
+        <li key={issue.path} className="flex items-start space-x-2 text-sm">
+          <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0 text-amber-600" />
+          <span>{issue.label}{issue.message ? `: ${issue.message}` : ''}</span>
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <Card data-testid="card-itr-export">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <FileJson className="h-5 w-5" />
+          <span>Export Income Tax Return (AY {assessmentYear})</span>
+        </CardTitle>
+        <CardDescription>
+          Builds ITR-1 or ITR-2 JSON for the e-filing utility from your Form 16s, income, deductions, TDS credits and
+          tax payments. Name, PAN, email and date of birth default to your profile.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <Label>Tax Regime</Label>
+            <Select value={regime} onValueChange={(value: 'old' | 'new') => setRegime(value)}>
+              <SelectTrigger data-testid="select-itr-regime">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="new">New regime{recommendedRegime === 'new' ? ' (recommended)' : ''}</SelectItem>
+                <SelectItem value="old">Old regime{recommendedRegime === 'old' ? ' (recommended)' : ''}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="itr-filingDate">Filing Date</Label>
+            <Input
+              id="itr-filingDate"
+              type="date"
+              value={filingDate}
+              onChange={(e) => setFilingDate(e.target.value)}
+              data-testid="input-itr-filing-date"
+            />
+          </div>
+          <div>
+            <Label>Employer Category</Label>
+            <Select value={details.employerCategory} onValueChange={(value) => setDetails(prev => ({ ...prev, employerCategory: value }))}>
+              <SelectTrigger data-testid="select-itr-employer-category">
+                <SelectValue placeholder="Others" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(employerCategories).map(([code, label]) => (
+                  <SelectItem key={code} value={code}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <Separator />
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {textField('firstName', 'First Name')}
+          {textField('middleName', 'Middle Name')}
+          {textField('lastName', 'Last Name')}
+          {textField('fatherName', "Father's Name")}
+          {textField('pan', 'PAN', 'ABCDE1234F')}
+          {textField('aadhaar', 'Aadhaar Number', '12 digits')}
+          {textField('mobile', 'Mobile Number', '10 digits')}
+          {textField('email', 'Email Address')}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {textField('flatDoorBlock', 'Flat / Door / Block No.')}
+          {textField('premises', 'Building / Premises')}
+          {textField('roadStreet', 'Road / Street')}
+          {textField('localityArea', 'Area / Locality')}
+          {textField('city', 'Town / City / District')}
+          <div>
+            <Label>State</Label>
+            <Select value={details.stateCode} onValueChange={(value) => setDetails(prev => ({ ...prev, stateCode: value }))}>
+              <SelectTrigger data-testid="select-itr-state">
+                <SelectValue placeholder="Select state" />
+              </SelectTrigger>
+              <SelectContent>
+                {states.map(state => (
+                  <SelectItem key={state.code} value={state.code}>{state.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {textField('pinCode', 'PIN Code')}
+          {textField('place', 'Place of Verification')}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {textField('bankIfsc', 'Bank IFSC')}
+          {textField('bankName', 'Bank Name')}
+          {textField('bankAccountNumber', 'Account Number')}
+        </div>
+
+        <Button onClick={() => exportMutation.mutate()} disabled={exportMutation.isPending} data-testid="button-generate-itr">
+          {exportMutation.isPending ? 'Generating...' : 'Generate Return'}
+        </Button>
+
+        {result && (
+          <div className="space-y-4 p-4 bg-muted/50 rounded-lg" data-testid="itr-export-result">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <Badge data-testid="badge-itr-form">{result.form}</Badge>
+                <Badge variant="outline">{result.regime === 'new' ? 'New regime' : 'Old regime'}</Badge>
+              </div>
+              <Button variant="outline" onClick={downloadReturn} data-testid="button-download-itr">
+                <Download className="h-4 w-4 mr-2" />
+                {result.valid ? 'Download JSON' : 'Download Draft'}
+              </Button>
+            </div>
+
+            {result.formReasons.map((reason, index) => (
+              <p key={index} className="text-sm text-muted-foreground">{reason}</p>
+            ))}
+            {result.warnings.map((warning, index) => (
+              <p key={index} className="text-sm text-amber-700">{warning}</p>
+            ))}
+
+            {result.valid ? (
+              <p className="flex items-center space-x-2 text-sm text-green-700" data-testid="text-itr-valid">
+                <CheckCircle className="h-4 w-4" />
+                <span>The return passes schema validation and is ready to import into the utility.</span>
+              </p>
+            ) : (
+              <>
+                {result.missingFields.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="font-medium">Still needed</p>
+                    {issueList(result.missingFields, 'list-itr-missing-fields')}
+                  </div>
+                )}
+                {result.invalidFields.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="font-medium">To correct</p>
+                    {issueList(result.invalidFields, 'list-itr-invalid-fields')}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -22,7 +22,9 @@ export function Layout({ children }: LayoutProps) {
     { path: "/tax-comparison", label: "Tax Comparison", icon: "fas fa-balance-scale" },
     { path: "/tax-planning", label: "Smart Tax Planning", icon: "fas fa-lightbulb" },
     { path: "/year-analysis", label: "Year Analysis", icon: "fas fa-chart-line" },
-    { path: "/additional-income", label: "Additional Income", icon: "fas fa-plus-circle" }
+    { path: "/additional-income", label: "Additional Income", icon: "fas fa-plus-circle" },
+    { path: "/advance-tax", label: "Advance Tax", icon: "fas fa-calendar-check" },
+    { path: "/reconciliation", label: "26AS / AIS", icon: "fas fa-balance-scale" }
   ];
 
   return (
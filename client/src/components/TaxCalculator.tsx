@@ -5,13 +5,22 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Calculator, TrendingUp, TrendingDown, Lightbulb } from "lucide-react";
 
 interface TaxCalculationResult {
   grossIncome: number;
+  totalIncome: number;
   totalDeductions: number;
   taxableIncome: number;
   taxLiability: number;
+  specialRateIncome: number;
+  specialRateTax: number;
+  rebate87A: number;
+  marginalRelief: number;
+  surchargeRate: number;
+  surcharge: number;
+  surchargeRelief: number;
   cess: number;
   totalTax: number;
   effectiveRate: number;
@@ -19,28 +28,44 @@ interface TaxCalculationResult {
 }
 
 interface RegimeComparison {
+  assessmentYear: string;
   oldRegime: TaxCalculationResult;
   newRegime: TaxCalculationResult;
   savings: number;
   recommendedRegime: 'old' | 'new';
 }
 
+// The figures a comparison was calculated from, so it can be saved again as entered
+export interface TaxCalculatorInput {
+  grossIncome: number;
+  salary: number;
+  deductions: { [key: string]: number };
+  assessmentYear: string;
+}
+
 interface TaxCalculatorProps {
   initialIncome?: number;
+  initialSalary?: number;
   initialDeductions?: { [key: string]: number };
-  onCalculationComplete?: (comparison: RegimeComparison) => void;
+  initialAssessmentYear?: string;
+  onCalculationComplete?: (comparison: RegimeComparison, input: TaxCalculatorInput) => void;
 }
 
 export function TaxCalculator({ 
   initialIncome = 0, 
+  initialSalary = 0,
   initialDeductions = {},
+  initialAssessmentYear = `${new Date().getFullYear()}-${(new Date().getFullYear() + 1).toString().slice(-2)}`,
   onCalculationComplete 
 }: TaxCalculatorProps) {
   const [grossIncome, setGrossIncome] = useState(initialIncome);
+  const [salary, setSalary] = useState(initialSalary);
+  const [assessmentYear, setAssessmentYear] = useState(initialAssessmentYear);
   const [deductions, setDeductions] = useState({
     '80C': initialDeductions['80C'] || 0,
     '80D': initialDeductions['80D'] || 0,
     '80G': initialDeductions['80G'] || 0,
+    '80CCD2': initialDeductions['80CCD2'] || 0,
     'HRA': initialDeductions['HRA'] || 0,
     ...initialDeductions
   });
@@ -65,15 +90,16 @@ export function TaxCalculator({
         credentials: 'include',
         body: JSON.stringify({
           grossIncome: grossIncome.toString(),
+          salary: salary.toString(),
           deductions,
-          assessmentYear: `${new Date().getFullYear()}-${(new Date().getFullYear() + 1).toString().slice(-2)}`
+          assessmentYear
         })
       });
 
       if (response.ok) {
         const result = await response.json();
         setComparison(result);
-        onCalculationComplete?.(result);
+        onCalculationComplete?.(result, { grossIncome, salary, deductions, assessmentYear });
       } else {
         console.error('Failed to calculate tax');
       }
@@ -103,16 +129,43 @@ export function TaxCalculator({
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-6">
-          <div>
-            <Label htmlFor="gross-income">Gross Annual Income</Label>
-            <Input
-              id="gross-income"
-              data-testid="input-gross-income"
-              type="number"
-              placeholder="Enter your gross income"
-              value={grossIncome || ''}
-              onChange={(e) => setGrossIncome(parseFloat(e.target.value) || 0)}
-            />
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="md:col-span-2">
+              <Label htmlFor="gross-income">Gross Annual Income</Label>
+              <Input
+                id="gross-income"
+                data-testid="input-gross-income"
+                type="number"
+                placeholder="Enter your gross income"
+                value={grossIncome || ''}
+                onChange={(e) => setGrossIncome(parseFloat(e.target.value) || 0)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="salary-income">Of Which Salary</Label>
+              <Input
+                id="salary-income"
+                data-testid="input-salary-income"
+                type="number"
+                placeholder="Gets the standard deduction"
+                value={salary || ''}
+                onChange={(e) => setSalary(parseFloat(e.target.value) || 0)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="calculator-assessment-year">Assessment Year</Label>
+              <Select value={assessmentYear} onValueChange={setAssessmentYear}>
+                <SelectTrigger id="calculator-assessment-year" data-testid="select-calculator-year">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="2026-27">2026-27</SelectItem>
+                  <SelectItem value="2025-26">2025-26</SelectItem>
+                  <SelectItem value="2024-25">2024-25</SelectItem>
+                  <SelectItem value="2023-24">2023-24</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
           </div>
 
           <div>
@@ -165,6 +218,18 @@ export function TaxCalculator({
                   onChange={(e) => handleDeductionChange('80G', e.target.value)}
                 />
               </div>
+
+              <div>
+                <Label htmlFor="deduction-80ccd2">Section 80CCD(2) (Employer NPS)</Label>
+                <Input
+                  id="deduction-80ccd2"
+                  data-testid="input-deduction-80ccd2"
+                  type="number"
+                  placeholder="Allowed in both regimes"
+                  value={deductions['80CCD2'] || ''}
+                  onChange={(e) => handleDeductionChange('80CCD2', e.target.value)}
+                />
+              </div>
             </div>
           </div>
 
@@ -198,7 +263,7 @@ export function TaxCalculator({
               <div className="flex justify-between">
                 <span className="text-muted-foreground">Gross Income</span>
                 <span data-testid="text-old-gross-income">
-                  {formatCurrency(comparison.oldRegime.grossIncome)}
+                  {formatCurrency(comparison.oldRegime.totalIncome)}
                 </span>
               </div>
               <div className="flex justify-between">
@@ -213,6 +278,30 @@ export function TaxCalculator({
                   {formatCurrency(comparison.oldRegime.taxableIncome)}
                 </span>
               </div>
+              {comparison.oldRegime.specialRateTax > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Capital Gains Tax (special rates)</span>
+                  <span data-testid="text-old-special-rate-tax">
+                    {formatCurrency(comparison.oldRegime.specialRateTax)}
+                  </span>
+                </div>
+              )}
+              {(comparison.oldRegime.rebate87A + comparison.oldRegime.marginalRelief) > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Rebate u/s 87A</span>
+                  <span className="text-green-600" data-testid="text-old-rebate">
+                    {formatCurrency(comparison.oldRegime.rebate87A + comparison.oldRegime.marginalRelief)}
+                  </span>
+                </div>
+              )}
+              {comparison.oldRegime.surcharge > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Surcharge ({comparison.oldRegime.surchargeRate}%)</span>
+                  <span data-testid="text-old-surcharge">
+                    {formatCurrency(comparison.oldRegime.surcharge)}
+                  </span>
+                </div>
+              )}
               <Separator />
               <div className="flex justify-between font-semibold">
                 <span>Tax Liability</span>
@@ -245,11 +334,11 @@ export function TaxCalculator({
               <div className="flex justify-between">
                 <span className="text-muted-foreground">Gross Income</span>
                 <span data-testid="text-new-gross-income">
-                  {formatCurrency(comparison.newRegime.grossIncome)}
+                  {formatCurrency(comparison.newRegime.totalIncome)}
                 </span>
               </div>
               <div className="flex justify-between">
-                <span className="text-muted-foreground">Standard Deduction</span>
+                <span className="text-muted-foreground">Allowed Deductions</span>
                 <span className="text-green-600" data-testid="text-new-deductions">
                   {formatCurrency(comparison.newRegime.totalDeductions)}
                 </span>
@@ -260,6 +349,30 @@ export function TaxCalculator({
                   {formatCurrency(comparison.newRegime.taxableIncome)}
                 </span>
               </div>
+              {comparison.newRegime.specialRateTax > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Capital Gains Tax (special rates)</span>
+                  <span data-testid="text-new-special-rate-tax">
+                    {formatCurrency(comparison.newRegime.specialRateTax)}
+                  </span>
+                </div>
+              )}
+              {(comparison.newRegime.rebate87A + comparison.newRegime.marginalRelief) > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Rebate u/s 87A</span>
+                  <span className="text-green-600" data-testid="text-new-rebate">
+                    {formatCurrency(comparison.newRegime.rebate87A + comparison.newRegime.marginalRelief)}
+                  </span>
+                </div>
+              )}
+              {comparison.newRegime.surcharge > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Surcharge ({comparison.newRegime.surchargeRate}%)</span>
+                  <span data-testid="text-new-surcharge">
+                    {formatCurrency(comparison.newRegime.surcharge)}
+                  </span>
+                </div>
+              )}
               <Separator />
               <div className="flex justify-between font-semibold">
                 <span>Tax Liability</span>
@@ -0,0 +1,329 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { Globe, Save, UserCircle } from "lucide-react";
+
+interface ProfileUser {
+  id: string;
+  dateOfBirth?: string | null;
+  pan?: string | null;
+}
+
+interface ResidentialStatusAnswers {
+  daysInIndia: string;
+  daysInIndiaPrecedingFourYears: string;
+  daysInIndiaPrecedingSevenYears: string;
+  nonResidentYearsOfPrecedingTen: string;
+  isIndianCitizen: boolean;
+  isPersonOfIndianOrigin: boolean;
+  leftIndiaForEmployment: boolean;
+  visitingIndia: boolean;
+  indianIncome: string;
+  liableToTaxElsewhere: boolean;
+}
+
+interface ResidentialStatusRecord extends Omit<ResidentialStatusAnswers, 'daysInIndia' | 'daysInIndiaPrecedingFourYears' | 'daysInIndiaPrecedingSevenYears' | 'nonResidentYearsOfPrecedingTen'> {
+  daysInIndia: number;
+  daysInIndiaPrecedingFourYears: number | null;
+  daysInIndiaPrecedingSevenYears: number | null;
+  nonResidentYearsOfPrecedingTen: number | null;
+  status: 'resident' | 'rnor' | 'nri';
+  label: string;
+  reasons: string[];
+}
+
+interface TaxpayerProfileCardProps {
+  assessmentYear: string;
+}
+
+const emptyAnswers: ResidentialStatusAnswers = {
+  daysInIndia: '',
+  daysInIndiaPrecedingFourYears: '',
+  daysInIndiaPrecedingSevenYears: '',
+  nonResidentYearsOfPrecedingTen: '',
+  isIndianCitizen: true,
+  isPersonOfIndianOrigin: false,
+  leftIndiaForEmployment: false,
+  visitingIndia: false,
+  indianIncome: '',
+  liableToTaxElsewhere: true
+};
+
+// A blank answer is sent as null so the server does not read it as zero days
+const optionalCount = (value: string): number | null => value === '' ? null : parseInt(value) || 0;
+
+const statusBadges: Record<ResidentialStatusRecord['status'], string> = {
+  resident: 'Resident',
+  rnor: 'RNOR',
+  nri: 'NRI'
+};
+
+export function TaxpayerProfileCard({ assessmentYear }: TaxpayerProfileCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [dateOfBirth, setDateOfBirth] = useState('');
+  const [pan, setPan] = useState('');
+  const [answers, setAnswers] = useState<ResidentialStatusAnswers>(emptyAnswers);
+
+  const { data: user } = useQuery<ProfileUser>({
+    queryKey: ['/api/auth/user'],
+    retry: false,
+  });
+
+  const { data: residentialStatus } = useQuery<ResidentialStatusRecord | null>({
+    queryKey: ['/api/residential-status', assessmentYear],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/residential-status?assessmentYear=${assessmentYear}`);
+      return await response.json();
+    },
+    retry: false,
+  });
+
+  useEffect(() => {
+    setDateOfBirth(user?.dateOfBirth ?? '');
+    setPan(user?.pan ?? '');
+  }, [user?.dateOfBirth, user?.pan]);
+
+  useEffect(() => {
+    setAnswers(residentialStatus ? {
+      daysInIndia: String(residentialStatus.daysInIndia),
+      daysInIndiaPrecedingFourYears: String(residentialStatus.daysInIndiaPrecedingFourYears ?? ''),
+      daysInIndiaPrecedingSevenYears: String(residentialStatus.daysInIndiaPrecedingSevenYears ?? ''),
+      nonResidentYearsOfPrecedingTen: String(residentialStatus.nonResidentYearsOfPrecedingTen ?? ''),
+      isIndianCitizen: residentialStatus.isIndianCitizen,
+      isPersonOfIndianOrigin: residentialStatus.isPersonOfIndianOrigin,
+      leftIndiaForEmployment: residentialStatus.leftIndiaForEmployment,
+      visitingIndia: residentialStatus.visitingIndia,
+      indianIncome: residentialStatus.indianIncome ?? '',
+      liableToTaxElsewhere: residentialStatus.liableToTaxElsewhere
+    } : emptyAnswers);
+  }, [residentialStatus]);
+
+  // Age and residential status change the slabs behind every calculation
+  const invalidateCalculations = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/dashboard'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/advance-tax'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/self-assessment'] });
+  };
+
+  const profileMutation = useMutation({
+    mutationFn: async (data: { dateOfBirth: string | null; pan: string | null }) => {
+      const response = await apiRequest('PUT', '/api/profile', data);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/user'] });
+      invalidateCalculations();
+      toast({ title: "Profile saved" });
+    },
+    onError: handleError
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async (data: any) => {
+      const response = await apiRequest('POST', '/api/residential-status', data);
+      return await response.json();
+    },
+    onSuccess: (result: ResidentialStatusRecord) => {
+      queryClient.setQueryData(['/api/residential-status', assessmentYear], result);
+      invalidateCalculations();
+      toast({ title: `Residential status: ${result.label}` });
+    },
+    onError: handleError
+  });
+
+  function handleError(error: Error) {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: "An error occurred. Please try again.",
+      variant: "destructive",
+    });
+  }
+
+  const handleStatusSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (answers.daysInIndia === '') {
+      toast({
+        title: "Missing Information",
+        description: "Please enter the days you were in India during the year",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Between 60 and 182 days, residence turns on the four preceding years
+    const days = parseInt(answers.daysInIndia) || 0;
+    if (days >= 60 && days < 182 && answers.daysInIndiaPrecedingFourYears === '') {
+      toast({
+        title: "Missing Information",
+        description: "Please enter the days you were in India over the four preceding years",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    statusMutation.mutate({
+      assessmentYear,
+      daysInIndia: parseInt(answers.daysInIndia) || 0,
+      daysInIndiaPrecedingFourYears: optionalCount(answers.daysInIndiaPrecedingFourYears),
+      daysInIndiaPrecedingSevenYears: optionalCount(answers.daysInIndiaPrecedingSevenYears),
+      nonResidentYearsOfPrecedingTen: optionalCount(answers.nonResidentYearsOfPrecedingTen),
+      isIndianCitizen: answers.isIndianCitizen,
+      isPersonOfIndianOrigin: answers.isPersonOfIndianOrigin,
+      leftIndiaForEmployment: answers.leftIndiaForEmployment,
+      visitingIndia: answers.visitingIndia,
+      indianIncome: answers.indianIncome || '0',
+      liableToTaxElsewhere: answers.liableToTaxElsewhere
+    });
+  };
+
+  const numberField = (field: keyof ResidentialStatusAnswers, label: string, placeholder: string) => (
+    <div>
+      <Label htmlFor={field}>{label}</Label>
+      <Input
+        id={field}
+        type="number"
+        min="0"
+        placeholder={placeholder}
+        value={answers[field] as string}
+        onChange={(e) => setAnswers(prev => ({ ...prev, [field]: e.target.value }))}
+        data-testid={`input-${field}`}
+      />
+    </div>
+  );
+
+  const checkboxField = (field: keyof ResidentialStatusAnswers, label: string) => (
+    <div className="flex items-center space-x-2">
+      <Checkbox
+        id={field}
+        checked={answers[field] as boolean}
+        onCheckedChange={(checked) => setAnswers(prev => ({ ...prev, [field]: !!checked }))}
+        data-testid={`checkbox-${field}`}
+      />
+      <Label htmlFor={field}>{label}</Label>
+    </div>
+  );
+
+  return (
+    <Card data-testid="card-taxpayer-profile">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <UserCircle className="h-5 w-5" />
+          <span>Taxpayer Profile (AY {assessmentYear})</span>
+        </CardTitle>
+        <CardDescription>
+          Your age and residential status decide which slabs and rebates apply
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-end gap-4">
+          <div className="flex-1">
+            <Label htmlFor="dateOfBirth">Date of Birth</Label>
+            <Input
+              id="dateOfBirth"
+              type="date"
+              value={dateOfBirth}
+              onChange={(e) => setDateOfBirth(e.target.value)}
+              data-testid="input-date-of-birth"
+            />
+          </div>
+          <div className="flex-1">
+            <Label htmlFor="pan">PAN</Label>
+            <Input
+              id="pan"
+              value={pan}
+              maxLength={10}
+              placeholder="ABCDE1234F"
+              onChange={(e) => setPan(e.target.value.toUpperCase())}
+              data-testid="input-pan"
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => profileMutation.mutate({ dateOfBirth: dateOfBirth || null, pan: pan || null })}
+            disabled={profileMutation.isPending}
+            data-testid="button-save-profile"
+          >
+            <Save className="h-4 w-4 mr-2" />
+            Save
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Under the old regime the basic exemption is ₹3,00,000 from age 60 and ₹5,00,000 from age 80.
+          Your PAN and date of birth are also used to open password-protected Form 16 PDFs.
+        </p>
+
+        <Separator />
+
+        <form onSubmit={handleStatusSubmit} className="space-y-4">
+          <div className="flex items-center justify-between">
+            <p className="font-medium flex items-center space-x-2">
+              <Globe className="h-4 w-4" />
+              <span>Residential Status</span>
+            </p>
+            {residentialStatus && (
+              <Badge variant={residentialStatus.status === 'resident' ? 'default' : 'secondary'} data-testid="badge-residential-status">
+                {statusBadges[residentialStatus.status]}
+              </Badge>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {numberField('daysInIndia', 'Days in India this year', '365')}
+            {numberField('daysInIndiaPrecedingFourYears', 'Days in India, 4 preceding years', '1460')}
+            {numberField('daysInIndiaPrecedingSevenYears', 'Days in India, 7 preceding years', '2555')}
+            {numberField('nonResidentYearsOfPrecedingTen', 'Years non-resident, of the 10 preceding', '0')}
+            {numberField('indianIncome', 'Income from Indian sources', '0')}
+          </div>
+
+          <div className="space-y-2">
+            {checkboxField('isIndianCitizen', 'I am an Indian citizen')}
+            {!answers.isIndianCitizen && checkboxField('isPersonOfIndianOrigin', 'I am a person of Indian origin')}
+            {answers.isIndianCitizen && checkboxField('leftIndiaForEmployment', 'I left India this year for employment abroad or as crew of an Indian ship')}
+            {checkboxField('visitingIndia', 'I live abroad and came to India on a visit')}
+            {answers.isIndianCitizen && checkboxField('liableToTaxElsewhere', 'I am liable to tax in another country')}
+          </div>
+
+          <Button type="submit" disabled={statusMutation.isPending} data-testid="button-determine-status">
+            {statusMutation.isPending ? 'Checking...' : 'Determine Status'}
+          </Button>
+        </form>
+
+        {residentialStatus && (
+          <div className="p-4 bg-muted/50 rounded-lg space-y-1" data-testid="residential-status-result">
+            <p className="font-medium">{residentialStatus.label}</p>
+            {residentialStatus.reasons.map((reason, index) => (
+              <p key={index} className="text-sm text-muted-foreground">{reason}</p>
+            ))}
+            {residentialStatus.status === 'nri' && (
+              <p className="text-sm text-muted-foreground">
+                Non-residents are taxed at the normal slab rates but cannot claim the section 87A rebate.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,61 @@
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import type { DocumentEvent } from "@shared/documentEvents";
+
+export interface DocumentProgress {
+  page: number;
+  totalPages: number;
+}
+
+// Keeps the document and dashboard caches in step with processing on the server
+export function useDocumentEvents(enabled: boolean) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!enabled) return;
+    const source = new EventSource('/api/events', { withCredentials: true });
+
+    const patchDocument = (documentId: string, patch: { status?: string; progress?: DocumentProgress }) => {
+      queryClient.setQueryData<Array<{ id: string }>>(['/api/tax-documents'], documents =>
+        documents?.map(doc => doc.id === documentId ? { ...doc, ...patch } : doc)
+      );
+    };
+
+    const handleEvent = (message: MessageEvent<string>) => {
+      const event: DocumentEvent = JSON.parse(message.data);
+      // An upload page watching this document picks up the change without waiting for its next poll
+      queryClient.invalidateQueries({ queryKey: ['/api/extraction-jobs'] });
+
+      switch (event.type) {
+        case 'uploaded':
+          queryClient.invalidateQueries({ queryKey: ['/api/tax-documents'] });
+          break;
+        case 'ocr_page':
+          patchDocument(event.documentId, { progress: { page: event.page, totalPages: event.totalPages } });
+          break;
+        case 'text_extracted':
+          break;
+        case 'parsed':
+          patchDocument(event.documentId, { status: 'completed' });
+          queryClient.invalidateQueries({ queryKey: ['/api/tax-documents'] });
+          queryClient.invalidateQueries({ queryKey: ['/api/dashboard'] });
+          queryClient.invalidateQueries({ queryKey: ['/api/form16-consolidation'] });
+          break;
+        case 'calculations_created':
+          queryClient.invalidateQueries({ queryKey: ['/api/dashboard'] });
+          break;
+        case 'failed':
+          patchDocument(event.documentId, { status: 'failed' });
+          queryClient.invalidateQueries({ queryKey: ['/api/tax-documents'] });
+          queryClient.invalidateQueries({ queryKey: ['/api/dashboard'] });
+          break;
+      }
+    };
+
+    source.addEventListener('document', handleEvent);
+    return () => {
+      source.removeEventListener('document', handleEvent);
+      source.close();
+    };
+  }, [enabled, queryClient]);
+}
@@ -11,6 +11,8 @@ import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest } from "@/lib/queryClient";
+import { CapitalGainsCard } from "@/components/CapitalGainsCard";
+import { HousePropertyCard } from "@/components/HousePropertyCard";
 import { 
   Plus, 
   Edit, 
@@ -29,6 +31,9 @@ interface IncomeSource {
   source: string;
   amount: string;
   description?: string;
+  presumptiveScheme?: string | null;
+  digitalReceipts?: string | null;
+  cashReceipts?: string | null;
   assessmentYear: string;
   createdAt: string;
 }
@@ -48,6 +53,9 @@ interface FormData {
   source?: string;
   section?: string;
   investmentType?: string;
+  presumptiveScheme?: string;
+  digitalReceipts?: string;
+  cashReceipts?: string;
   amount: string;
   description: string;
   assessmentYear: string;
@@ -58,15 +66,25 @@ const incomeSourceOptions = [
   { value: 'rental', label: 'Rental Income', icon: Home },
   { value: 'business', label: 'Business Income', icon: TrendingUp },
   { value: 'capital_gains', label: 'Capital Gains', icon: DollarSign },
+  { value: 'interest', label: 'Interest Income', icon: DollarSign },
+  { value: 'dividend', label: 'Dividend Income', icon: DollarSign },
   { value: 'other', label: 'Other Income', icon: Plus }
 ];
 
 const investmentSections = [
   { value: '80C', label: 'Section 80C (ELSS, PPF, NSC)', maxAmount: 150000 },
+  { value: '80CCC', label: 'Section 80CCC (Pension Plans)', maxAmount: 150000 },
+  { value: '80CCD1', label: 'Section 80CCD(1) (Own NPS)', maxAmount: 150000 },
+  { value: '80CCD1B', label: 'Section 80CCD(1B) (NPS)', maxAmount: 50000 },
   { value: '80D', label: 'Section 80D (Health Insurance)', maxAmount: 25000 },
-  { value: '80G', label: 'Section 80G (Donations)', maxAmount: null },
+  { value: '80D_PARENTS', label: 'Section 80D (Parents\' Health Insurance)', maxAmount: 50000 },
+  { value: '80G', label: 'Section 80G (Donations, 50% with limit)', maxAmount: null },
+  { value: '80G_100', label: 'Section 80G (Donations, 100% without limit)', maxAmount: null },
   { value: '80E', label: 'Section 80E (Education Loan)', maxAmount: null },
-  { value: '80CCD1B', label: 'Section 80CCD(1B) (NPS)', maxAmount: 50000 },
+  { value: '80EEA', label: 'Section 80EEA (Affordable Housing Loan)', maxAmount: 150000 },
+  { value: '80TTA', label: 'Section 80TTA (Savings Interest)', maxAmount: 10000 },
+  { value: '80TTB', label: 'Section 80TTB (Senior Citizen Interest)', maxAmount: 50000 },
+  { value: '24', label: 'Section 24(b) (Home Loan Interest)', maxAmount: 200000 },
   { value: 'HRA', label: 'HRA Exemption', maxAmount: null }
 ];
 
@@ -226,10 +244,15 @@ export default function AdditionalIncome() {
         return;
       }
 
+      // Presumptive businesses record receipts by mode; the amount is the gross receipts
+      const presumptive = formData.source === 'business' && formData.presumptiveScheme;
       const incomeData = {
         source: formData.source,
         amount: formData.amount,
         description: formData.description,
+        presumptiveScheme: presumptive ? formData.presumptiveScheme : null,
+        digitalReceipts: presumptive ? formData.digitalReceipts || '0' : null,
+        cashReceipts: presumptive ? formData.cashReceipts || '0' : null,
         assessmentYear: formData.assessmentYear
       };
 
@@ -270,6 +293,9 @@ export default function AdditionalIncome() {
       setFormData({
         type: 'income',
         source: income.source,
+        presumptiveScheme: income.presumptiveScheme || undefined,
+        digitalReceipts: income.digitalReceipts || '',
+        cashReceipts: income.cashReceipts || '',
         amount: income.amount,
         description: income.description || '',
         assessmentYear: income.assessmentYear
@@ -435,6 +461,62 @@ export default function AdditionalIncome() {
                 </div>
               )}
 
+              {/* Presumptive Taxation */}
+              {formData.type === 'income' && formData.source === 'business' && (
+                <>
+                  <div>
+                    <Label>Presumptive Taxation</Label>
+                    <Select
+                      value={formData.presumptiveScheme || 'none'}
+                      onValueChange={(value) =>
+                        setFormData(prev => ({ ...prev, presumptiveScheme: value === 'none' ? undefined : value }))}
+                    >
+                      <SelectTrigger data-testid="select-presumptive-scheme">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">None (net profit from books)</SelectItem>
+                        <SelectItem value="44AD">Section 44AD (business, 6% / 8% of turnover)</SelectItem>
+                        <SelectItem value="44ADA">Section 44ADA (profession, 50% of receipts)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {formData.presumptiveScheme && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <Label>Digital / Bank Receipts (₹)</Label>
+                        <Input
+                          type="number"
+                          value={formData.digitalReceipts || ''}
+                          onChange={(e) =>
+                            setFormData(prev => ({
+                              ...prev,
+                              digitalReceipts: e.target.value,
+                              amount: ((parseFloat(e.target.value) || 0) + (parseFloat(prev.cashReceipts || '') || 0)).toString()
+                            }))}
+                          data-testid="input-digital-receipts"
+                        />
+                      </div>
+                      <div>
+                        <Label>Cash Receipts (₹)</Label>
+                        <Input
+                          type="number"
+                          value={formData.cashReceipts || ''}
+                          onChange={(e) =>
+                            setFormData(prev => ({
+                              ...prev,
+                              cashReceipts: e.target.value,
+                              amount: ((parseFloat(prev.digitalReceipts || '') || 0) + (parseFloat(e.target.value) || 0)).toString()
+                            }))}
+                          data-testid="input-cash-receipts"
+                        />
+                      </div>
+                    </div>
+                  )}
+                </>
+              )}
+
               {/* Investment Section Selection */}
               {formData.type === 'investment' && (
                 <>
@@ -480,11 +562,12 @@ export default function AdditionalIncome() {
 
               {/* Amount */}
               <div>
-                <Label>Amount (₹)</Label>
+                <Label>{formData.source === 'business' && formData.presumptiveScheme ? 'Gross Receipts (₹)' : 'Amount (₹)'}</Label>
                 <Input
                   type="number"
                   placeholder="Enter amount"
                   value={formData.amount}
+                  disabled={formData.type === 'income' && formData.source === 'business' && !!formData.presumptiveScheme}
                   onChange={(e) => 
                     setFormData(prev => ({ ...prev, amount: e.target.value }))}
                   data-testid="input-amount"
@@ -574,9 +657,16 @@ export default function AdditionalIncome() {
                       })()}
                     </div>
                     <div>
-                      <p className="font-medium" data-testid={`income-source-${index}`}>
-                        {incomeSourceOptions.find(opt => opt.value === income.source)?.label || income.source}
-                      </p>
+                      <div className="flex items-center space-x-2">
+                        <p className="font-medium" data-testid={`income-source-${index}`}>
+                          {incomeSourceOptions.find(opt => opt.value === income.source)?.label || income.source}
+                        </p>
+                        {income.source === 'business' && income.presumptiveScheme && (
+                          <Badge variant="outline" data-testid={`income-presumptive-${index}`}>
+                            u/s {income.presumptiveScheme}
+                          </Badge>
+                        )}
+                      </div>
                       <p className="text-sm text-muted-foreground" data-testid={`income-description-${index}`}>
                         {income.description || 'No description'}
                       </p>
@@ -618,6 +708,12 @@ export default function AdditionalIncome() {
         </CardContent>
       </Card>
 
+      {/* House Property */}
+      <HousePropertyCard assessmentYear={currentYear} />
+
+      {/* Capital Gains */}
+      <CapitalGainsCard assessmentYear={currentYear} />
+
       {/* Investments */}
       <Card data-testid="card-investments">
         <CardHeader>
@@ -0,0 +1,593 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { Calendar, CalendarClock, Landmark, Plus, Receipt, Save, Trash2 } from "lucide-react";
+
+interface TaxPayment {
+  id: string;
+  paymentType: string;
+  paymentDate: string;
+  amount: string;
+  bsrCode?: string | null;
+  challanSerialNumber?: string | null;
+  assessmentYear: string;
+}
+
+interface AdvanceTaxInstalment {
+  dueDate: string;
+  cumulativePercent: number;
+  cumulativeDue: number;
+  paidByDueDate: number;
+  shortfall: number;
+  interest234C: number;
+  status: 'paid' | 'short' | 'upcoming';
+}
+
+interface AdvanceTaxEstimate {
+  assessmentYear: string;
+  regime: 'old' | 'new';
+  projectedTax: number;
+  tdsCredit: number;
+  tdsDetails: { documentId?: string; description: string; amount: number }[];
+  assessedTax: number;
+  advanceTaxApplicable: boolean;
+  presumptive: boolean;
+  instalments: AdvanceTaxInstalment[];
+  advanceTaxPaid: number;
+  interest234B: number;
+  interest234BMonths: number;
+  interest234C: number;
+  totalInterest: number;
+  balancePayable: number;
+  interestCalculatedTo: string;
+  payments: TaxPayment[];
+}
+
+interface SelfAssessmentResult {
+  filingDate: string;
+  dueDate: string;
+  returnType: 'original' | 'belated' | 'updated' | 'time_barred';
+  totalLiability: number;
+  tds: number;
+  tcs: number;
+  advanceTaxPaid: number;
+  selfAssessmentPaid: number;
+  taxBalance: number;
+  interest234A: number;
+  interest234AMonths: number;
+  interest234B: number;
+  interest234C: number;
+  fee234F: number;
+  totalPayable: number;
+  refund: number;
+}
+
+const returnTypeLabels: Record<SelfAssessmentResult['returnType'], string> = {
+  original: 'Original return u/s 139(1)',
+  belated: 'Belated return u/s 139(4)',
+  updated: 'Updated return u/s 139(8A)',
+  time_barred: 'Time-barred'
+};
+
+const paymentTypeLabels: Record<string, string> = {
+  advance_tax: 'Advance tax',
+  self_assessment: 'Self-assessment tax'
+};
+
+const statusBadges: Record<AdvanceTaxInstalment['status'], { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  paid: { label: 'Paid', variant: 'default' },
+  short: { label: 'Short', variant: 'destructive' },
+  upcoming: { label: 'Upcoming', variant: 'outline' }
+};
+
+const emptyPayment = {
+  paymentType: 'advance_tax',
+  paymentDate: '',
+  amount: '',
+  bsrCode: '',
+  challanSerialNumber: ''
+};
+
+export default function AdvanceTax() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const currentYear = new Date().getFullYear();
+  const defaultAssessmentYear = `${currentYear}-${(currentYear + 1).toString().slice(-2)}`;
+
+  // Shares the assessment year selection with the dashboard
+  const [assessmentYear, setAssessmentYear] = useState(() => {
+    return localStorage.getItem('selectedAssessmentYear') || defaultAssessmentYear;
+  });
+  const [regime, setRegime] = useState<'auto' | 'old' | 'new'>('auto');
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [paymentForm, setPaymentForm] = useState(emptyPayment);
+  const [filingDate, setFilingDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [tcs, setTcs] = useState('');
+
+  const handleAssessmentYearChange = (year: string) => {
+    setAssessmentYear(year);
+    localStorage.setItem('selectedAssessmentYear', year);
+  };
+
+  const assessmentYearOptions = [
+    `${currentYear}-${(currentYear + 1).toString().slice(-2)}`,
+    `${currentYear - 1}-${currentYear.toString().slice(-2)}`,
+    `${currentYear - 2}-${(currentYear - 1).toString().slice(-2)}`,
+    `${currentYear - 3}-${(currentYear - 2).toString().slice(-2)}`
+  ];
+
+  const { data: estimate, isLoading } = useQuery<AdvanceTaxEstimate>({
+    queryKey: ['/api/advance-tax', assessmentYear, regime],
+    queryFn: async () => {
+      const regimeParam = regime === 'auto' ? '' : `&regime=${regime}`;
+      const response = await apiRequest('GET', `/api/advance-tax?assessmentYear=${assessmentYear}${regimeParam}`);
+      return await response.json();
+    },
+    retry: false,
+  });
+
+  const { data: selfAssessment } = useQuery<SelfAssessmentResult>({
+    queryKey: ['/api/self-assessment', assessmentYear, regime, filingDate, tcs],
+    queryFn: async () => {
+      const response = await apiRequest('POST', '/api/self-assessment', {
+        assessmentYear,
+        filingDate,
+        regime: regime === 'auto' ? undefined : regime,
+        tcs: tcs || undefined
+      });
+      return await response.json();
+    },
+    enabled: !!filingDate,
+    retry: false,
+  });
+
+  const createPaymentMutation = useMutation({
+    mutationFn: async (data: any) => {
+      const response = await apiRequest('POST', '/api/tax-payments', data);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/advance-tax'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tax-payments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/self-assessment'] });
+      toast({ title: "Challan recorded successfully" });
+      setPaymentForm(emptyPayment);
+      setIsFormOpen(false);
+    },
+    onError: handleError
+  });
+
+  const deletePaymentMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/tax-payments/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/advance-tax'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tax-payments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/self-assessment'] });
+      toast({ title: "Challan deleted successfully" });
+    },
+    onError: handleError
+  });
+
+  function handleError(error: Error) {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: "An error occurred. Please try again.",
+      variant: "destructive",
+    });
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!paymentForm.paymentDate || !paymentForm.amount || parseFloat(paymentForm.amount) <= 0) {
+      toast({
+        title: "Missing Information",
+        description: "Please enter the payment date and a valid amount",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    createPaymentMutation.mutate({
+      paymentType: paymentForm.paymentType,
+      paymentDate: paymentForm.paymentDate,
+      amount: paymentForm.amount,
+      bsrCode: paymentForm.bsrCode || null,
+      challanSerialNumber: paymentForm.challanSerialNumber || null,
+      assessmentYear
+    });
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      maximumFractionDigits: 0
+    }).format(amount);
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(`${date}T00:00:00`).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+  };
+
+  const nextInstalment = estimate?.instalments.find(instalment => instalment.status === 'upcoming' && instalment.shortfall > 0);
+
+  return (
+    <div className="space-y-8" data-testid="advance-tax-main">
+      <div className="flex flex-col md:flex-row md:items-center justify-between space-y-4 md:space-y-0">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground mb-2">Advance &amp; Self-Assessment Tax</h1>
+          <p className="text-muted-foreground">
+            Quarterly instalments on your projected tax, and what is left to pay when you file
+          </p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <Calendar className="h-5 w-5 text-muted-foreground" />
+          <div className="space-y-1">
+            <Label className="text-sm font-medium">Assessment Year</Label>
+            <Select value={assessmentYear} onValueChange={handleAssessmentYearChange}>
+              <SelectTrigger className="w-32" data-testid="select-advance-tax-year">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {assessmentYearOptions.map(year => (
+                  <SelectItem key={year} value={year}>{year}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-sm font-medium">Regime</Label>
+            <Select value={regime} onValueChange={(value: 'auto' | 'old' | 'new') => setRegime(value)}>
+              <SelectTrigger className="w-36" data-testid="select-advance-tax-regime">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">Lower tax</SelectItem>
+                <SelectItem value="old">Old regime</SelectItem>
+                <SelectItem value="new">New regime</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+
+      {isLoading || !estimate ? (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="animate-pulse space-y-4">
+              <div className="h-4 bg-muted rounded w-1/3"></div>
+              <div className="h-8 bg-muted rounded w-1/2"></div>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            <Card data-testid="card-projected-tax">
+              <CardContent className="pt-6">
+                <p className="text-sm font-medium text-muted-foreground">Projected Tax ({estimate.regime} regime)</p>
+                <p className="text-2xl font-bold mt-2" data-testid="text-projected-tax">{formatCurrency(estimate.projectedTax)}</p>
+              </CardContent>
+            </Card>
+            <Card data-testid="card-tds-credit">
+              <CardContent className="pt-6">
+                <p className="text-sm font-medium text-muted-foreground">TDS Credit</p>
+                <p className="text-2xl font-bold mt-2" data-testid="text-tds-credit">{formatCurrency(estimate.tdsCredit)}</p>
+              </CardContent>
+            </Card>
+            <Card data-testid="card-advance-tax-paid">
+              <CardContent className="pt-6">
+                <p className="text-sm font-medium text-muted-foreground">Advance Tax Paid</p>
+                <p className="text-2xl font-bold mt-2" data-testid="text-advance-tax-paid">{formatCurrency(estimate.advanceTaxPaid)}</p>
+              </CardContent>
+            </Card>
+            <Card data-testid="card-advance-tax-interest">
+              <CardContent className="pt-6">
+                <p className="text-sm font-medium text-muted-foreground">Interest (234B + 234C)</p>
+                <p className={`text-2xl font-bold mt-2 ${estimate.totalInterest > 0 ? 'text-red-600' : ''}`} data-testid="text-advance-tax-interest">
+                  {formatCurrency(estimate.totalInterest)}
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card data-testid="card-advance-tax-schedule">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <CalendarClock className="h-5 w-5" />
+                <span>Instalment Schedule</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {!estimate.advanceTaxApplicable ? (
+                <p className="text-sm text-muted-foreground" data-testid="text-advance-tax-not-applicable">
+                  Your tax after TDS is {formatCurrency(estimate.assessedTax)}. Advance tax is payable only when this is ₹10,000 or more.
+                </p>
+              ) : (
+                <>
+                  {estimate.presumptive && (
+                    <p className="text-sm text-muted-foreground">
+                      As you have opted for presumptive taxation, the whole of your advance tax is due in one instalment by 15 March.
+                    </p>
+                  )}
+                  <div className="grid grid-cols-6 text-sm font-medium text-muted-foreground">
+                    <span>Due date</span>
+                    <span className="text-right">Cumulative</span>
+                    <span className="text-right">Due</span>
+                    <span className="text-right">Paid</span>
+                    <span className="text-right">Shortfall</span>
+                    <span className="text-right">234C</span>
+                  </div>
+                  <Separator />
+                  {estimate.instalments.map((instalment, index) => (
+                    <div key={instalment.dueDate} className="grid grid-cols-6 text-sm items-center" data-testid={`advance-tax-instalment-${index}`}>
+                      <span className="flex items-center space-x-2">
+                        <span>{formatDate(instalment.dueDate)}</span>
+                        <Badge variant={statusBadges[instalment.status].variant}>{statusBadges[instalment.status].label}</Badge>
+                      </span>
+                      <span className="text-right">{instalment.cumulativePercent}%</span>
+                      <span className="text-right">{formatCurrency(instalment.cumulativeDue)}</span>
+                      <span className="text-right">{formatCurrency(instalment.paidByDueDate)}</span>
+                      <span className={`text-right ${instalment.shortfall > 0 ? 'text-red-600' : ''}`}>{formatCurrency(instalment.shortfall)}</span>
+                      <span className="text-right">{formatCurrency(instalment.interest234C)}</span>
+                    </div>
+                  ))}
+                  <Separator />
+                  <div className="space-y-2 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Tax payable after TDS</span>
+                      <span data-testid="text-assessed-tax">{formatCurrency(estimate.assessedTax)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Balance still to pay</span>
+                      <span className="font-semibold" data-testid="text-balance-payable">{formatCurrency(estimate.balancePayable)}</span>
+                    </div>
+                    {estimate.interest234B > 0 && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">
+                          Interest u/s 234B ({estimate.interest234BMonths} months to {formatDate(estimate.interestCalculatedTo)})
+                        </span>
+                        <span className="text-red-600" data-testid="text-interest-234b">{formatCurrency(estimate.interest234B)}</span>
+                      </div>
+                    )}
+                    {nextInstalment && (
+                      <p className="text-xs text-amber-700 dark:text-amber-400" data-testid="text-next-instalment">
+                        Pay {formatCurrency(nextInstalment.shortfall)} by {formatDate(nextInstalment.dueDate)} to avoid interest under section 234C
+                      </p>
+                    )}
+                  </div>
+                </>
+              )}
+
+              {estimate.tdsDetails.length > 0 && (
+                <div className="text-xs text-muted-foreground space-y-1 pt-2">
+                  {estimate.tdsDetails.map((line, index) => (
+                    <p key={line.documentId ?? index}>{line.description}: {formatCurrency(line.amount)}</p>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card data-testid="card-self-assessment">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Landmark className="h-5 w-5" />
+                <span>Self-Assessment Tax</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label>Filing Date</Label>
+                  <Input
+                    type="date"
+                    value={filingDate}
+                    onChange={(e) => setFilingDate(e.target.value)}
+                    data-testid="input-filing-date"
+                  />
+                </div>
+                <div>
+                  <Label>TCS Collected (₹)</Label>
+                  <Input
+                    type="number"
+                    placeholder="0"
+                    value={tcs}
+                    onChange={(e) => setTcs(e.target.value)}
+                    data-testid="input-tcs"
+                  />
+                </div>
+              </div>
+
+              {selfAssessment && (
+                <div className="space-y-2 text-sm" data-testid="self-assessment-summary">
+                  <div className="flex items-center justify-between">
+                    <Badge variant={selfAssessment.returnType === 'original' ? 'default' : 'destructive'}>
+                      {returnTypeLabels[selfAssessment.returnType]}
+                    </Badge>
+                    <span className="text-muted-foreground">Due date {formatDate(selfAssessment.dueDate)}</span>
+                  </div>
+                  <Separator />
+                  {[
+                    { label: 'Tax on total income', amount: selfAssessment.totalLiability },
+                    { label: 'Less: TDS', amount: -selfAssessment.tds },
+                    { label: 'Less: TCS', amount: -selfAssessment.tcs },
+                    { label: 'Less: Advance tax', amount: -selfAssessment.advanceTaxPaid },
+                    { label: 'Less: Self-assessment tax paid', amount: -selfAssessment.selfAssessmentPaid },
+                    { label: `Interest u/s 234A${selfAssessment.interest234AMonths ? ` (${selfAssessment.interest234AMonths} months)` : ''}`, amount: selfAssessment.interest234A },
+                    { label: 'Interest u/s 234B', amount: selfAssessment.interest234B },
+                    { label: 'Interest u/s 234C', amount: selfAssessment.interest234C },
+                    { label: 'Late fee u/s 234F', amount: selfAssessment.fee234F }
+                  ].filter(line => line.amount !== 0).map(line => (
+                    <div key={line.label} className="flex justify-between">
+                      <span className="text-muted-foreground">{line.label}</span>
+                      <span>{formatCurrency(line.amount)}</span>
+                    </div>
+                  ))}
+                  <Separator />
+                  <div className="flex justify-between font-semibold">
+                    <span>{selfAssessment.refund > 0 ? 'Refund due' : 'Self-assessment tax payable'}</span>
+                    <span
+                      className={selfAssessment.refund > 0 ? 'text-green-600' : ''}
+                      data-testid="text-self-assessment-payable"
+                    >
+                      {formatCurrency(selfAssessment.refund > 0 ? selfAssessment.refund : selfAssessment.totalPayable)}
+                    </span>
+                  </div>
+                  {selfAssessment.totalPayable > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Pay this with challan ITNS 280 (type 300) before filing your return
+                    </p>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card data-testid="card-tax-payments">
+            <CardHeader>
+              <div className="flex justify-between items-center">
+                <CardTitle className="flex items-center space-x-2">
+                  <Receipt className="h-5 w-5" />
+                  <span>Challans Paid</span>
+                </CardTitle>
+                <Button variant="outline" size="sm" onClick={() => setIsFormOpen(true)} data-testid="button-add-challan">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Record Challan
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {isFormOpen && (
+                <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 border border-border rounded-lg">
+                  <div className="md:col-span-2">
+                    <Label>Type of Payment</Label>
+                    <Select
+                      value={paymentForm.paymentType}
+                      onValueChange={(value) => setPaymentForm(prev => ({ ...prev, paymentType: value }))}
+                    >
+                      <SelectTrigger data-testid="select-challan-type">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="advance_tax">Advance tax (100)</SelectItem>
+                        <SelectItem value="self_assessment">Self-assessment tax (300)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label>Payment Date</Label>
+                    <Input
+                      type="date"
+                      value={paymentForm.paymentDate}
+                      onChange={(e) => setPaymentForm(prev => ({ ...prev, paymentDate: e.target.value }))}
+                      data-testid="input-challan-date"
+                    />
+                  </div>
+                  <div>
+                    <Label>Amount (₹)</Label>
+                    <Input
+                      type="number"
+                      value={paymentForm.amount}
+                      onChange={(e) => setPaymentForm(prev => ({ ...prev, amount: e.target.value }))}
+                      data-testid="input-challan-amount"
+                    />
+                  </div>
+                  <div>
+                    <Label>BSR Code (Optional)</Label>
+                    <Input
+                      value={paymentForm.bsrCode}
+                      onChange={(e) => setPaymentForm(prev => ({ ...prev, bsrCode: e.target.value }))}
+                      data-testid="input-challan-bsr"
+                    />
+                  </div>
+                  <div>
+                    <Label>Challan Serial Number (Optional)</Label>
+                    <Input
+                      value={paymentForm.challanSerialNumber}
+                      onChange={(e) => setPaymentForm(prev => ({ ...prev, challanSerialNumber: e.target.value }))}
+                      data-testid="input-challan-serial"
+                    />
+                  </div>
+                  <div className="md:col-span-2 flex justify-end space-x-3">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => { setPaymentForm(emptyPayment); setIsFormOpen(false); }}
+                      data-testid="button-cancel-challan"
+                    >
+                      Cancel
+                    </Button>
+                    <Button type="submit" disabled={createPaymentMutation.isPending} data-testid="button-save-challan">
+                      <Save className="h-4 w-4 mr-2" />
+                      Save
+                    </Button>
+                  </div>
+                </form>
+              )}
+
+              {!estimate.payments.length ? (
+                <p className="text-sm text-muted-foreground text-center py-4" data-testid="no-tax-payments">
+                  Record your advance tax and self-assessment challans to track them against what is due
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {estimate.payments.map((payment, index) => (
+                    <div key={payment.id} className="flex items-center justify-between p-4 border border-border rounded-lg" data-testid={`tax-payment-item-${index}`}>
+                      <div>
+                        <div className="flex items-center space-x-2">
+                          <p className="font-medium">{formatDate(payment.paymentDate)}</p>
+                          <Badge variant="outline">{paymentTypeLabels[payment.paymentType] ?? payment.paymentType}</Badge>
+                        </div>
+                        {(payment.bsrCode || payment.challanSerialNumber) && (
+                          <p className="text-sm text-muted-foreground">
+                            {[payment.bsrCode && `BSR ${payment.bsrCode}`, payment.challanSerialNumber && `Challan ${payment.challanSerialNumber}`].filter(Boolean).join(' · ')}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-4">
+                        <p className="font-semibold" data-testid={`tax-payment-amount-${index}`}>{formatCurrency(parseFloat(payment.amount))}</p>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deletePaymentMutation.mutate(payment.id)}
+                          disabled={deletePaymentMutation.isPending}
+                          data-testid={`button-delete-challan-${index}`}
+                        >
+                          <Trash2 className="h-4 w-4 text-red-600" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { ComputationSheet, type ComputationSheetData } from "@/components/ComputationSheet";
+import { FilingDeadlinesCard } from "@/components/FilingDeadlinesCard";
+import { Form16ConsolidationCard } from "@/components/Form16ConsolidationCard";
 import { 
   TrendingUp, 
   TrendingDown, 
@@ -26,6 +29,10 @@ interface DashboardData {
   investments: any[];
   calculations: any[];
   suggestions: any[];
+  computation?: {
+    oldRegime: ComputationSheetData;
+    newRegime: ComputationSheetData;
+  };
   assessmentYear: string;
 }
 
@@ -121,10 +128,8 @@ export default function Dashboard() {
 
   useEffect(() => {
     if (dashboardData) {
-      // Calculate stats from dashboard data
-      const totalIncome = (dashboardData?.incomeSources ?? []).reduce((sum, income) => 
-        sum + parseFloat(income.amount || '0'), 0
-      );
+      // Total income comes from the server's head-wise computation
+      const totalIncome = dashboardData?.computation?.oldRegime.grossTotalIncome ?? 0;
       
       const totalDeductions = (dashboardData?.investments ?? []).reduce((sum, investment) => 
         sum + parseFloat(investment.amount || '0'), 0
@@ -222,7 +227,7 @@ export default function Dashboard() {
           <CardContent className="pt-6">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-muted-foreground">Total Income</p>
+                <p className="text-sm font-medium text-muted-foreground">Gross Total Income</p>
                 <p className="text-2xl font-bold mt-2" data-testid="text-total-income">
                   {formatCurrency(stats.totalIncome)}
                 </p>
@@ -305,6 +310,19 @@ export default function Dashboard() {
         </Card>
       </div>
 
+      {/* Computation of Total Income */}
+      {dashboardData?.computation && dashboardData.computation.oldRegime.grossTotalIncome > 0 && (
+        <ComputationSheet
+          oldRegime={dashboardData.computation.oldRegime}
+          newRegime={dashboardData.computation.newRegime}
+        />
+      )}
+
+      {/* Filing Deadlines */}
+      <FilingDeadlinesCard assessmentYear={selectedAssessmentYear} />
+
+      <Form16ConsolidationCard assessmentYear={selectedAssessmentYear} />
+
       {/* Main Content Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* Recent Documents */}
@@ -5,6 +5,7 @@ import { Badge } from "@/components/ui/badge";
 import { useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import type { DocumentProgress } from "@/hooks/useDocumentEvents";
 import { 
   FileText, 
   Upload, 
@@ -21,6 +22,8 @@ interface TaxDocument {
   status: string;
   uploadedAt: string;
   processedAt?: string;
+  // Set from live processing events while a scanned document is read
+  progress?: DocumentProgress;
   extractedData?: {
     employerName?: string;
     employeeName?: string;
@@ -207,6 +210,11 @@ export default function Documents() {
                       >
                         {doc.status}
                       </Badge>
+                      {doc.status === 'processing' && doc.progress && (
+                        <span className="text-xs text-muted-foreground" data-testid={`document-progress-${index}`}>
+                          Page {doc.progress.page} of {doc.progress.totalPages}
+                        </span>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,407 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { UploadResult } from "@uppy/core";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ObjectUploader } from "@/components/ObjectUploader";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { AlertTriangle, Calendar, CheckCircle, FileSearch, Trash2, Upload as UploadIcon } from "lucide-react";
+
+type StatementType = '26AS' | 'AIS' | 'TIS';
+
+interface TdsCredit {
+  id: string;
+  statementType: StatementType;
+  deductorName?: string | null;
+  deductorTan?: string | null;
+  section?: string | null;
+  amountPaid: string;
+  taxDeducted: string;
+  taxDeposited: string;
+}
+
+interface ReportedIncome {
+  id: string;
+  statementType: StatementType;
+  category: string;
+  informationCode?: string | null;
+  description?: string | null;
+  reportedBy?: string | null;
+  amount: string;
+}
+
+interface ReconciliationIssue {
+  type: string;
+  severity: 'high' | 'medium' | 'low';
+  message: string;
+  reported: number;
+  declared: number;
+  difference: number;
+}
+
+interface DeductorReconciliation {
+  deductorName?: string;
+  deductorTan?: string;
+  section?: string;
+  amountPaid: number;
+  taxDeducted: number;
+  taxDeposited: number;
+  form16Tds?: number;
+  status: 'matched' | 'mismatch' | 'unmatched';
+}
+
+interface IncomeReconciliation {
+  category: string;
+  label: string;
+  reported: number;
+  declared: number;
+  difference: number;
+}
+
+interface ReconciliationResult {
+  tdsStatement?: StatementType;
+  incomeStatement?: StatementType;
+  deductors: DeductorReconciliation[];
+  incomes: IncomeReconciliation[];
+  totalTdsCredited: number;
+  totalTdsInForm16: number;
+  issues: ReconciliationIssue[];
+}
+
+const statementDescriptions: Record<StatementType, string> = {
+  '26AS': 'Form 26AS text or PDF export from TRACES',
+  AIS: 'Annual Information Statement JSON',
+  TIS: 'Taxpayer Information Summary JSON'
+};
+
+const severityStyles: Record<ReconciliationIssue['severity'], string> = {
+  high: 'border-red-200 bg-red-50 text-red-800',
+  medium: 'border-amber-200 bg-amber-50 text-amber-800',
+  low: 'border-border bg-muted/50 text-muted-foreground'
+};
+
+export default function Reconciliation() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const currentYear = new Date().getFullYear();
+  const defaultAssessmentYear = `${currentYear}-${(currentYear + 1).toString().slice(-2)}`;
+
+  // Shares the assessment year selection with the dashboard
+  const [assessmentYear, setAssessmentYear] = useState(() => {
+    return localStorage.getItem('selectedAssessmentYear') || defaultAssessmentYear;
+  });
+  const [statementType, setStatementType] = useState<StatementType>('26AS');
+
+  const handleAssessmentYearChange = (year: string) => {
+    setAssessmentYear(year);
+    localStorage.setItem('selectedAssessmentYear', year);
+  };
+
+  const assessmentYearOptions = [
+    `${currentYear}-${(currentYear + 1).toString().slice(-2)}`,
+    `${currentYear - 1}-${currentYear.toString().slice(-2)}`,
+    `${currentYear - 2}-${(currentYear - 1).toString().slice(-2)}`,
+    `${currentYear - 3}-${(currentYear - 2).toString().slice(-2)}`
+  ];
+
+  const { data: statements } = useQuery<{ tdsCredits: TdsCredit[]; reportedIncomes: ReportedIncome[] }>({
+    queryKey: ['/api/annual-statements', assessmentYear],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/annual-statements?assessmentYear=${assessmentYear}`);
+      return await response.json();
+    },
+    retry: false,
+  });
+
+  const { data: reconciliation, isLoading } = useQuery<ReconciliationResult>({
+    queryKey: ['/api/reconciliation', assessmentYear],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/reconciliation?assessmentYear=${assessmentYear}`);
+      return await response.json();
+    },
+    retry: false,
+  });
+
+  const onStatementsChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/annual-statements'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/reconciliation'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/advance-tax'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/self-assessment'] });
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async (data: { fileName: string; uploadURL: string }) => {
+      const response = await apiRequest('POST', '/api/annual-statements/import', {
+        ...data,
+        assessmentYear,
+        statementType
+      });
+      return await response.json();
+    },
+    onSuccess: (result: { statementType: StatementType; tdsCredits: TdsCredit[]; reportedIncomes: ReportedIncome[] }) => {
+      onStatementsChanged();
+      toast({
+        title: `${result.statementType} imported`,
+        description: `${result.tdsCredits.length} TDS entries and ${result.reportedIncomes.length} income items found`
+      });
+    },
+    onError: handleError
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (type: StatementType) => {
+      await apiRequest('DELETE', `/api/annual-statements/${type}?assessmentYear=${assessmentYear}`);
+    },
+    onSuccess: () => {
+      onStatementsChanged();
+      toast({ title: "Statement removed" });
+    },
+    onError: handleError
+  });
+
+  function handleError(error: Error) {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Import Failed",
+      description: "Please check the file matches the statement type and try again.",
+      variant: "destructive",
+    });
+  }
+
+  const handleGetUploadParameters = async () => {
+    const response = await apiRequest('POST', '/api/objects/upload');
+    const data = await response.json();
+    return {
+      method: 'PUT' as const,
+      url: data.uploadURL,
+    };
+  };
+
+  const handleUploadComplete = (result: UploadResult<Record<string, unknown>, Record<string, unknown>>) => {
+    const uploadedFile = result.successful?.[0];
+    if (!uploadedFile) {
+      toast({
+        title: "Upload Failed",
+        description: "No files were uploaded successfully",
+        variant: "destructive",
+      });
+      return;
+    }
+    importMutation.mutate({
+      fileName: uploadedFile.name || (statementType === '26AS' ? '26AS.txt' : `${statementType}.json`),
+      uploadURL: uploadedFile.uploadURL as string
+    });
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      maximumFractionDigits: 0
+    }).format(amount);
+  };
+
+  const importedTypes = Array.from(new Set([
+    ...(statements?.tdsCredits ?? []).map(credit => credit.statementType),
+    ...(statements?.reportedIncomes ?? []).map(income => income.statementType)
+  ])) as StatementType[];
+
+  return (
+    <div className="space-y-8" data-testid="reconciliation-main">
+      <div className="flex flex-col md:flex-row md:items-center justify-between space-y-4 md:space-y-0">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground mb-2">26AS &amp; AIS Reconciliation</h1>
+          <p className="text-muted-foreground">
+            Check your Form 16, income and deductions against what the department already knows
+          </p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <Calendar className="h-5 w-5 text-muted-foreground" />
+          <div className="space-y-1">
+            <Label className="text-sm font-medium">Assessment Year</Label>
+            <Select value={assessmentYear} onValueChange={handleAssessmentYearChange}>
+              <SelectTrigger className="w-32" data-testid="select-reconciliation-year">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {assessmentYearOptions.map(year => (
+                  <SelectItem key={year} value={year}>{year}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+
+      <Card data-testid="card-import-statement">
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <UploadIcon className="h-5 w-5" />
+            <span>Import Statement</span>
+          </CardTitle>
+          <CardDescription>
+            Importing a statement again replaces the entries from the previous import
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col md:flex-row md:items-end gap-4">
+            <div className="space-y-1">
+              <Label>Statement</Label>
+              <Select value={statementType} onValueChange={(value: StatementType) => setStatementType(value)}>
+                <SelectTrigger className="w-64" data-testid="select-statement-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(statementDescriptions) as StatementType[]).map(type => (
+                    <SelectItem key={type} value={type}>{type} — {statementDescriptions[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <ObjectUploader
+              maxNumberOfFiles={1}
+              maxFileSize={10485760} // 10MB
+              onGetUploadParameters={handleGetUploadParameters}
+              onComplete={handleUploadComplete}
+            >
+              <UploadIcon className="h-4 w-4 mr-2" />
+              {importMutation.isPending ? 'Importing...' : `Choose ${statementType} File`}
+            </ObjectUploader>
+          </div>
+          {importedTypes.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {importedTypes.map(type => (
+                <Badge key={type} variant="outline" className="flex items-center space-x-2" data-testid={`badge-imported-${type}`}>
+                  <span>{type} imported</span>
+                  <button
+                    type="button"
+                    onClick={() => deleteMutation.mutate(type)}
+                    disabled={deleteMutation.isPending}
+                    aria-label={`Remove ${type}`}
+                    data-testid={`button-remove-${type}`}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {isLoading || !reconciliation ? (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="animate-pulse space-y-4">
+              <div className="h-4 bg-muted rounded w-1/3"></div>
+              <div className="h-8 bg-muted rounded w-1/2"></div>
+            </div>
+          </CardContent>
+        </Card>
+      ) : !reconciliation.tdsStatement && !reconciliation.incomeStatement ? (
+        <Card>
+          <CardContent className="pt-6 text-center text-muted-foreground" data-testid="text-no-statements">
+            Import your Form 26AS or AIS to reconcile TDS credits and reported income for AY {assessmentYear}.
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card data-testid="card-reconciliation-issues">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <FileSearch className="h-5 w-5" />
+                <span>Mismatches</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {reconciliation.issues.length === 0 ? (
+                <p className="flex items-center space-x-2 text-sm text-green-700" data-testid="text-no-mismatches">
+                  <CheckCircle className="h-4 w-4" />
+                  <span>Everything matches. Your TDS credits and income agree with the statements.</span>
+                </p>
+              ) : (
+                reconciliation.issues.map((issue, index) => (
+                  <div key={index} className={`flex items-start space-x-3 p-3 border rounded-lg ${severityStyles[issue.severity]}`} data-testid={`issue-${issue.type}-${index}`}>
+                    <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                    <p className="text-sm">{issue.message}</p>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+
+          {reconciliation.deductors.length > 0 && (
+            <Card data-testid="card-tds-credits">
+              <CardHeader>
+                <CardTitle>TDS Credits ({reconciliation.tdsStatement})</CardTitle>
+                <CardDescription>
+                  {formatCurrency(reconciliation.totalTdsCredited)} credited to your PAN, against {formatCurrency(reconciliation.totalTdsInForm16)} in your Form 16s
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {reconciliation.deductors.map((deductor, index) => (
+                  <div key={index} className="flex items-center justify-between p-3 border border-border rounded-lg" data-testid={`tds-credit-${index}`}>
+                    <div>
+                      <p className="font-medium">{deductor.deductorName || deductor.deductorTan || 'Deductor'}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {deductor.deductorTan}{deductor.section ? ` • u/s ${deductor.section}` : ''} • Paid {formatCurrency(deductor.amountPaid)}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className="font-semibold">{formatCurrency(deductor.taxDeposited)}</p>
+                      {deductor.form16Tds !== undefined && (
+                        <p className="text-xs text-muted-foreground">Form 16: {formatCurrency(deductor.form16Tds)}</p>
+                      )}
+                      <Badge variant={deductor.status === 'matched' ? 'outline' : deductor.status === 'mismatch' ? 'destructive' : 'secondary'}>
+                        {deductor.status === 'matched' ? 'Matched' : deductor.status === 'mismatch' ? 'Mismatch' : 'No Form 16'}
+                      </Badge>
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {reconciliation.incomes.length > 0 && (
+            <Card data-testid="card-reported-income">
+              <CardHeader>
+                <CardTitle>Reported Income ({reconciliation.incomeStatement})</CardTitle>
+                <CardDescription>Income reported by banks, employers and others against what you have declared</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-4 gap-2 text-sm font-medium text-muted-foreground pb-2 border-b border-border">
+                  <span>Income</span>
+                  <span className="text-right">Reported</span>
+                  <span className="text-right">Declared</span>
+                  <span className="text-right">Difference</span>
+                </div>
+                {reconciliation.incomes.map(line => (
+                  <div key={line.category} className="grid grid-cols-4 gap-2 text-sm py-2 border-b border-border last:border-0" data-testid={`income-line-${line.category}`}>
+                    <span>{line.label}</span>
+                    <span className="text-right">{formatCurrency(line.reported)}</span>
+                    <span className="text-right">{formatCurrency(line.declared)}</span>
+                    <span className={`text-right font-medium ${line.difference > 100 ? 'text-red-600' : ''}`}>{formatCurrency(line.difference)}</span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
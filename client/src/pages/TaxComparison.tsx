@@ -7,7 +7,8 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { TaxCalculator } from "@/components/TaxCalculator";
+import { TaxCalculator, type TaxCalculatorInput } from "@/components/TaxCalculator";
+import { ItrExportCard } from "@/components/ItrExportCard";
 import { 
   Calculator, 
   TrendingUp, 
@@ -18,12 +19,49 @@ import {
   Download
 } from "lucide-react";
 
+interface DeductionLine {
+  section: string;
+  claimed: number;
+  allowed: number;
+  reason?: string;
+}
+
+interface SpecialRateTaxLine {
+  section: string;
+  rate: number;
+  income: number;
+  basicExemptionAdjusted: number;
+  tax: number;
+}
+
+const specialRateLabels: Record<string, string> = {
+  '111A': 'STCG u/s 111A',
+  '112A': 'LTCG u/s 112A',
+  '112': 'LTCG u/s 112'
+};
+
 interface RegimeComparison {
+  assessmentYear: string;
   oldRegime: {
     grossIncome: number;
+    totalIncome: number;
     totalDeductions: number;
+    deductionDetails?: DeductionLine[];
+    houseProperty?: {
+      headIncome: number;
+      chargeableIncome: number;
+      lossCarriedForward: number;
+    };
     taxableIncome: number;
     taxLiability: number;
+    specialRateIncome: number;
+    specialRateTax: number;
+    specialRateDetails?: SpecialRateTaxLine[];
+    rebate87A: number;
+    marginalRelief: number;
+    surchargeRate: number;
+    surcharge: number;
+    surchargeRelief: number;
     cess: number;
     totalTax: number;
     effectiveRate: number;
@@ -31,9 +69,24 @@ interface RegimeComparison {
   };
   newRegime: {
     grossIncome: number;
+    totalIncome: number;
     totalDeductions: number;
+    deductionDetails?: DeductionLine[];
+    houseProperty?: {
+      headIncome: number;
+      chargeableIncome: number;
+      lossCarriedForward: number;
+    };
     taxableIncome: number;
     taxLiability: number;
+    specialRateIncome: number;
+    specialRateTax: number;
+    specialRateDetails?: SpecialRateTaxLine[];
+    rebate87A: number;
+    marginalRelief: number;
+    surchargeRate: number;
+    surcharge: number;
+    surchargeRelief: number;
     cess: number;
     totalTax: number;
     effectiveRate: number;
@@ -46,6 +99,7 @@ interface RegimeComparison {
 export default function TaxComparison() {
   const { toast } = useToast();
   const [comparison, setComparison] = useState<RegimeComparison | null>(null);
+  const [calculationInput, setCalculationInput] = useState<TaxCalculatorInput | null>(null);
   const [isSaving, setIsSaving] = useState(false);
 
   useEffect(() => {
@@ -65,12 +119,13 @@ export default function TaxComparison() {
     };
   }, [toast]);
 
-  const handleCalculationComplete = (result: RegimeComparison) => {
+  const handleCalculationComplete = (result: RegimeComparison, input: TaxCalculatorInput) => {
     setComparison(result);
+    setCalculationInput(input);
   };
 
   const saveCalculation = async () => {
-    if (!comparison) return;
+    if (!comparison || !calculationInput) return;
 
     setIsSaving(true);
     try {
@@ -79,9 +134,11 @@ export default function TaxComparison() {
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
         body: JSON.stringify({
-          grossIncome: comparison.oldRegime.grossIncome.toString(),
-          deductions: {}, // This would come from the form
-          assessmentYear: `${new Date().getFullYear()}-${(new Date().getFullYear() + 1).toString().slice(-2)}`
+          // The figures as entered; the server adds saved capital gains and house property itself
+          grossIncome: calculationInput.grossIncome.toString(),
+          salary: calculationInput.salary.toString(),
+          deductions: calculationInput.deductions,
+          assessmentYear: calculationInput.assessmentYear
         })
       });
 
@@ -110,6 +167,7 @@ export default function TaxComparison() {
 
     const reportData = {
       generatedOn: new Date().toLocaleDateString(),
+      assessmentYear: comparison.assessmentYear,
       oldRegime: comparison.oldRegime,
       newRegime: comparison.newRegime,
       savings: comparison.savings,
@@ -202,10 +260,26 @@ export default function TaxComparison() {
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Gross Income</span>
                       <span data-testid="text-old-gross-detailed">
-                        {formatCurrency(comparison.oldRegime.grossIncome)}
+                        {formatCurrency(comparison.oldRegime.totalIncome)}
                       </span>
                     </div>
                     
+                    {comparison.oldRegime.houseProperty && (
+                      <div className="pl-4 text-sm" data-testid="text-old-house-property">
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">incl. house property</span>
+                          <span>{formatCurrency(comparison.oldRegime.houseProperty.chargeableIncome)}</span>
+                        </div>
+                        {comparison.oldRegime.houseProperty.chargeableIncome > comparison.oldRegime.houseProperty.headIncome && (
+                          <p className="text-xs text-amber-700 dark:text-amber-400">
+                            {comparison.oldRegime.houseProperty.lossCarriedForward > 0
+                              ? `${formatCurrency(comparison.oldRegime.houseProperty.lossCarriedForward)} of the property loss is carried forward`
+                              : 'Property loss cannot be set off under this regime'}
+                          </p>
+                        )}
+                      </div>
+                    )}
+                    
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Total Deductions</span>
                       <span className="text-green-600" data-testid="text-old-deductions-detailed">
@@ -213,6 +287,12 @@ export default function TaxComparison() {
                       </span>
                     </div>
                     
+                    {(comparison.oldRegime.deductionDetails ?? []).filter(line => line.reason).map(line => (
+                      <div key={line.section} className="text-xs text-amber-700 dark:text-amber-400" data-testid={`text-old-deduction-trimmed-${line.section}`}>
+                        {line.section}: claimed {formatCurrency(line.claimed)}, allowed {formatCurrency(line.allowed)}. {line.reason}
+                      </div>
+                    ))}
+                    
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Taxable Income</span>
                       <span data-testid="text-old-taxable-detailed">
@@ -229,6 +309,45 @@ export default function TaxComparison() {
                       </span>
                     </div>
                     
+                    {(comparison.oldRegime.specialRateDetails ?? []).map(line => (
+                      <div key={`${line.section}-${line.rate}`} className="flex justify-between pl-4 text-sm" data-testid={`text-old-special-rate-${line.section}`}>
+                        <span className="text-muted-foreground">
+                          {specialRateLabels[line.section] ?? line.section} @ {line.rate}% on {formatCurrency(line.income - line.basicExemptionAdjusted)}
+                        </span>
+                        <span>{formatCurrency(line.tax)}</span>
+                      </div>
+                    ))}
+                    
+                    {comparison.oldRegime.rebate87A > 0 && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Rebate u/s 87A</span>
+                        <span className="text-green-600" data-testid="text-old-rebate">
+                          -{formatCurrency(comparison.oldRegime.rebate87A)}
+                        </span>
+                      </div>
+                    )}
+                    
+                    {comparison.oldRegime.marginalRelief > 0 && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Marginal Relief</span>
+                        <span className="text-green-600" data-testid="text-old-marginal-relief">
+                          -{formatCurrency(comparison.oldRegime.marginalRelief)}
+                        </span>
+                      </div>
+                    )}
+                    
+                    {comparison.oldRegime.surcharge > 0 && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">
+                          Surcharge ({comparison.oldRegime.surchargeRate}%)
+                          {comparison.oldRegime.surchargeRelief > 0 && ' after marginal relief'}
+                        </span>
+                        <span data-testid="text-old-surcharge">
+                          {formatCurrency(comparison.oldRegime.surcharge)}
+                        </span>
+                      </div>
+                    )}
+                    
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Health & Education Cess (4%)</span>
                       <span data-testid="text-old-cess">
@@ -269,17 +388,45 @@ export default function TaxComparison() {
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Gross Income</span>
                       <span data-testid="text-new-gross-detailed">
-                        {formatCurrency(comparison.newRegime.grossIncome)}
+                        {formatCurrency(comparison.newRegime.totalIncome)}
                       </span>
                     </div>
                     
+                    {comparison.newRegime.houseProperty && (
+                      <div className="pl-4 text-sm" data-testid="text-new-house-property">
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">incl. house property</span>
+                          <span>{formatCurrency(comparison.newRegime.houseProperty.chargeableIncome)}</span>
+                        </div>
+                        {comparison.newRegime.houseProperty.chargeableIncome > comparison.newRegime.houseProperty.headIncome && (
+                          <p className="text-xs text-amber-700 dark:text-amber-400">
+                            {comparison.newRegime.houseProperty.lossCarriedForward > 0
+                              ? `${formatCurrency(comparison.newRegime.houseProperty.lossCarriedForward)} of the property loss is carried forward`
+                              : 'Property loss cannot be set off under this regime'}
+                          </p>
+                        )}
+                      </div>
+                    )}
+                    
                     <div className="flex justify-between">
-                      <span className="text-muted-foreground">Standard Deduction</span>
+                      <span className="text-muted-foreground">Allowed Deductions</span>
                       <span className="text-green-600" data-testid="text-new-deductions-detailed">
                         -{formatCurrency(comparison.newRegime.totalDeductions)}
                       </span>
                     </div>
                     
+                    {(comparison.newRegime.deductionDetails ?? []).map(line => (
+                      <div key={line.section} className="pl-4 text-sm" data-testid={`text-new-deduction-${line.section}`}>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">{line.section}</span>
+                          <span>{formatCurrency(line.allowed)}</span>
+                        </div>
+                        {line.reason && (
+                          <p className="text-xs text-amber-700 dark:text-amber-400">{line.reason}</p>
+                        )}
+                      </div>
+                    ))}
+                    
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Taxable Income</span>
                       <span data-testid="text-new-taxable-detailed">
@@ -296,6 +443,45 @@ export default function TaxComparison() {
                       </span>
                     </div>
                     
+                    {(comparison.newRegime.specialRateDetails ?? []).map(line => (
+                      <div key={`${line.section}-${line.rate}`} className="flex justify-between pl-4 text-sm" data-testid={`text-new-special-rate-${line.section}`}>
+                        <span className="text-muted-foreground">
+                          {specialRateLabels[line.section] ?? line.section} @ {line.rate}% on {formatCurrency(line.income - line.basicExemptionAdjusted)}
+                        </span>
+                        <span>{formatCurrency(line.tax)}</span>
+                      </div>
+                    ))}
+                    
+                    {comparison.newRegime.rebate87A > 0 && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Rebate u/s 87A</span>
+                        <span className="text-green-600" data-testid="text-new-rebate">
+                          -{formatCurrency(comparison.newRegime.rebate87A)}
+                        </span>
+                      </div>
+                    )}
+                    
+                    {comparison.newRegime.marginalRelief > 0 && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Marginal Relief</span>
+                        <span className="text-green-600" data-testid="text-new-marginal-relief">
+                          -{formatCurrency(comparison.newRegime.marginalRelief)}
+                        </span>
+                      </div>
+                    )}
+                    
+                    {comparison.newRegime.surcharge > 0 && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">
+                          Surcharge ({comparison.newRegime.surchargeRate}%)
+                          {comparison.newRegime.surchargeRelief > 0 && ' after marginal relief'}
+                        </span>
+                        <span data-testid="text-new-surcharge">
+                          {formatCurrency(comparison.newRegime.surcharge)}
+                        </span>
+                      </div>
+                    )}
+                    
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Health & Education Cess (4%)</span>
                       <span data-testid="text-new-cess">
@@ -398,6 +584,11 @@ export default function TaxComparison() {
               </div>
             </CardContent>
           </Card>
+
+          <ItrExportCard
+            assessmentYear={comparison.assessmentYear}
+            recommendedRegime={comparison.recommendedRegime}
+          />
         </div>
       )}
     </div>
@@ -11,6 +11,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Progress } from '@/components/ui/progress';
 import { Lightbulb, Calculator, TrendingUp, AlertCircle, CheckCircle, DollarSign } from 'lucide-react';
 import { queryClient } from '@/lib/queryClient';
+import { TaxpayerProfileCard } from '@/components/TaxpayerProfileCard';
 import { useToast } from '@/hooks/use-toast';
 
 interface UserProfile {
@@ -42,6 +43,7 @@ export default function TaxPlanning() {
   const { toast } = useToast();
   const [formData, setFormData] = useState({
     grossIncome: '',
+    salary: '',
     assessmentYear: '2024-25',
     currentDeductions: {
       '80C': '',
@@ -113,6 +115,7 @@ export default function TaxPlanning() {
 
     const requestData = {
       grossIncome: formData.grossIncome,
+      salary: formData.salary,
       currentDeductions: deductions,
       assessmentYear: formData.assessmentYear,
       userProfile: {
@@ -204,6 +207,17 @@ export default function TaxPlanning() {
                       data-testid="input-gross-income"
                     />
                   </div>
+                  <div>
+                    <Label htmlFor="salary">Of Which Salary</Label>
+                    <Input
+                      id="salary"
+                      type="number"
+                      placeholder="₹12,00,000"
+                      value={formData.salary}
+                      onChange={(e) => setFormData(prev => ({ ...prev, salary: e.target.value }))}
+                      data-testid="input-salary-income"
+                    />
+                  </div>
                   <div>
                     <Label htmlFor="assessmentYear">Assessment Year</Label>
                     <Select value={formData.assessmentYear} onValueChange={(value) => 
@@ -213,6 +227,8 @@ export default function TaxPlanning() {
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
+                        <SelectItem value="2026-27">2026-27</SelectItem>
+                        <SelectItem value="2025-26">2025-26</SelectItem>
                         <SelectItem value="2024-25">2024-25</SelectItem>
                         <SelectItem value="2023-24">2023-24</SelectItem>
                       </SelectContent>
@@ -268,7 +284,7 @@ export default function TaxPlanning() {
                   <Input
                     id="age"
                     type="number"
-                    placeholder="30"
+                    placeholder="From your date of birth"
                     value={formData.userProfile.age || ''}
                     onChange={(e) => setFormData(prev => ({
                       ...prev,
@@ -353,6 +369,8 @@ export default function TaxPlanning() {
             </Card>
           </div>
 
+          <TaxpayerProfileCard assessmentYear={formData.assessmentYear} />
+
           <Card>
             <CardContent className="pt-6">
               <Button 
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -29,10 +29,40 @@ import {
   Briefcase,
   Edit3,
   Eye,
-  BarChart3
+  BarChart3,
+  AlertTriangle
 } from "lucide-react";
 import type { UploadResult } from "@uppy/core";
 
+interface FieldProvenance {
+  confidence: number;
+  strategy: 'table_row' | 'labelled_line' | 'nearby_line' | 'derived' | 'fallback';
+  source: 'text' | 'ocr';
+  page?: number;
+  line?: string;
+}
+
+// Matches the extractor: fields below this are flagged for the user to check
+const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+const FIELD_LABELS: { [field: string]: string } = {
+  pan: 'PAN',
+  employeeName: 'Employee name',
+  employerName: 'Employer',
+  employerTan: 'Employer TAN',
+  assessmentYear: 'Assessment year',
+  grossSalary: 'Gross salary',
+  basicSalary: 'Basic salary',
+  hra: 'HRA',
+  tdsDeducted: 'TDS deducted',
+  totalExemption: 'Section 10 exemptions',
+  standardDeduction: 'Standard deduction',
+  incomeChargeable: 'Income chargeable under Salaries',
+  totalDeduction: 'Chapter VI-A total',
+  taxableIncome: 'Taxable income',
+  netTaxPayable: 'Net tax payable'
+};
+
 interface TaxDocument {
   id: string;
   fileName: string;
@@ -50,9 +80,46 @@ interface TaxDocument {
     hra?: number;
     otherAllowances?: number;
     tdsDeducted?: number;
+    employerTan?: string;
+    partA?: {
+      employerTan?: string;
+      deductorPan?: string;
+      citTdsAddress?: string;
+      quarters: { quarter: string; receiptNumber?: string; amountPaid: number; taxDeducted: number; taxDeposited: number }[];
+      totalAmountPaid: number;
+      totalTaxDeducted: number;
+      totalTaxDeposited: number;
+    };
+    salaryBreakup?: {
+      salary: number;
+      perquisites: number;
+      profitsInLieuOfSalary: number;
+      exemptions: { section: string; label: string; amount: number }[];
+      totalExemption: number;
+      entertainmentAllowance: number;
+      professionalTax: number;
+    };
+    standardDeduction?: number;
+    incomeChargeable?: number;
+    chapterVIA?: { section: string; label: string; grossAmount: number; deductibleAmount: number }[];
     deductions?: { [section: string]: number };
     taxableIncome?: number;
+    provenance?: { [field: string]: FieldProvenance };
+  };
+}
+
+interface ExtractionJob {
+  id: string;
+  documentId: string;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  attempts: number;
+  maxAttempts: number;
+  progress?: {
+    stage: 'queued' | 'downloading' | 'reading_text' | 'converting' | 'ocr' | 'parsing' | 'saving';
+    page?: number;
+    totalPages?: number;
   };
+  lastError?: string | null;
 }
 
 interface IncomeSource {
@@ -106,141 +173,79 @@ export default function Upload() {
   const [taxResults, setTaxResults] = useState<any>(null);
   const [processingStatus, setProcessingStatus] = useState<'idle' | 'processing' | 'completed' | 'failed'>('idle');
   const [processingError, setProcessingError] = useState<string | null>(null);
+  const [processingFailureReason, setProcessingFailureReason] = useState<string | null>(null);
+  // Only ever sent with the request that needs it, never stored
+  const [pdfPassword, setPdfPassword] = useState('');
+  const [lowConfidenceChecked, setLowConfidenceChecked] = useState(false);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+
+  // Map a structured failure reason from the server to something the user can act on
+  const troubleshootingTipFor = (failureReason?: string) => {
+    switch (failureReason) {
+      case undefined:
+        return '';
+      case 'PDF_PASSWORD_PROTECTED':
+        return 'Enter the PDF password below. Form 16s are usually locked with your PAN in capitals followed by your date of birth as DDMMYYYY.';
+      case 'PDF_CORRUPTED':
+        return 'Your PDF file appears to be corrupted. Please try downloading it again or use a different file.';
+      case 'PROCESSING_TIMEOUT':
+        return 'The document is taking too long to process. Try uploading a clearer or smaller PDF.';
+      case 'OCR_FAILURE':
+        return 'Unable to read text from your PDF. Please ensure it\'s a clear scan or try a different file.';
+      case 'FILE_TOO_LARGE':
+        return 'Your file is too large. Please reduce the file size to under 50MB.';
+      default:
+        return 'Please ensure your PDF is a valid Form 16 document and try again.';
+    }
+  };
 
-  // NEW: Synchronous upload and extract mutation with comprehensive logging and timeout
+  // Upload registers the document and queues extraction; the job is then polled below
   const uploadAndExtractMutation = useMutation({
-    mutationFn: async (data: { fileName: string; assessmentYear: string; uploadURL: string }) => {
+    mutationFn: async (data: { fileName: string; assessmentYear: string; uploadURL: string; password?: string }) => {
       console.log('[Upload] Starting upload-and-extract request', {
         fileName: data.fileName,
         assessmentYear: data.assessmentYear,
         uploadURL: data.uploadURL.substring(0, 50) + '...'
       });
-      console.time('upload_and_extract_request');
-      
-      // Add abort controller with 6-minute client timeout (matching backend OCR processing time)
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => {
-        console.log('[Upload] Client timeout reached (6min), aborting request');
-        controller.abort();
-      }, 360000);
-      
-      try {
-        console.log('[Upload] Making API request...');
-        const response = await fetch('/api/documents/upload-and-extract', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(data),
-          signal: controller.signal
-        });
-        
-        clearTimeout(timeoutId);
-        console.timeEnd('upload_and_extract_request');
-        console.log('[Upload] Response received, status:', response.status);
-        
-        if (!response.ok) {
-          try {
-            const errorData = await response.json();
-            console.error('[Upload] Non-ok response:', response.status, errorData);
-            const error = new Error(errorData.error || `HTTP ${response.status} error`);
-            (error as any).status = response.status;
-            (error as any).failureReason = errorData.failureReason;
-            throw error;
-          } catch (parseError) {
-            // Fallback to text if JSON parsing fails
-            const errorText = await response.text();
-            console.error('[Upload] Non-ok response (text fallback):', response.status, errorText);
-            throw new Error(`HTTP ${response.status}: ${errorText}`);
-          }
-        }
-        
-        const jsonData = await response.json();
-        console.log('[Upload] Response parsed successfully:', jsonData);
-        return jsonData;
-      } catch (error) {
-        clearTimeout(timeoutId);
-        console.timeEnd('upload_and_extract_request');
-        
-        if (error instanceof DOMException && error.name === 'AbortError') {
-          console.error('[Upload] Request was aborted due to timeout');
-          throw new Error('Upload timed out after 6 minutes. Please try with a clearer or smaller PDF.');
+
+      const response = await fetch('/api/documents/upload-and-extract', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+        credentials: 'include'
+      });
+      console.log('[Upload] Response received, status:', response.status);
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        let errorData: { error?: string; message?: string; failureReason?: string } = {};
+        try {
+          errorData = JSON.parse(errorText);
+        } catch {
+          // Not JSON, keep the raw text below
         }
-        
-        console.error('[Upload] Request failed:', error);
+        console.error('[Upload] Non-ok response:', response.status, errorData);
+        const error = new Error(`${response.status}: ${errorData.error || errorData.message || errorText}`);
+        (error as any).failureReason = errorData.failureReason;
         throw error;
       }
+
+      return await response.json();
     },
     onSuccess: (data) => {
-      console.log('[Upload] Mutation succeeded with data:', data);
-      queryClient.invalidateQueries({ queryKey: ['/api/dashboard'] });
+      console.log('[Upload] Extraction queued as job', data.jobId);
       queryClient.invalidateQueries({ queryKey: ['/api/tax-documents'] });
-      
-      if (data.success && data.document?.extractedData) {
-        console.log('[Upload] Processing completed successfully, extracted data keys:', Object.keys(data.document.extractedData));
-        setCurrentDocument(data.document);
-        setExtractedData(data.document.extractedData);
-        setProcessingStatus('completed');
-        setCurrentStep(2);
-        setIsUploading(false);
-        toast({
-          title: "Processing Complete",
-          description: "Your Form 16 data has been extracted successfully!",
-        });
-      } else {
-        console.log('[Upload] Processing failed, success:', data.success, 'error:', data.error);
-        setProcessingStatus('failed');
-        setProcessingError(data.error || "Extraction failed");
-        setIsUploading(false);
-        toast({
-          title: "Processing Failed",
-          description: data.error || "Failed to extract data from your Form 16.",
-          variant: "destructive",
-        });
-      }
+      setCurrentDocument(data.document);
+      setActiveJobId(data.jobId);
     },
     onError: (error: any) => {
       console.error('[Upload] Mutation failed with error:', error);
-      console.error('[Upload] Error details:', {
-        name: error instanceof Error ? error.name : 'Unknown',
-        message: error instanceof Error ? error.message : String(error),
-        failureReason: error.failureReason,
-        stack: error instanceof Error ? error.stack : 'No stack'
-      });
-      
+
       setProcessingStatus('failed');
-      
-      // Enhanced error handling with user-friendly messages
-      let errorMessage = error instanceof Error ? error.message : "Upload and extraction failed";
-      let troubleshootingTips = '';
-      
-      // Use structured error information if available
-      if (error.failureReason) {
-        switch (error.failureReason) {
-          case 'PDF_PASSWORD_PROTECTED':
-            troubleshootingTips = 'Please remove password protection from your PDF and try again.';
-            break;
-          case 'PDF_CORRUPTED':
-            troubleshootingTips = 'Your PDF file appears to be corrupted. Please try downloading it again or use a different file.';
-            break;
-          case 'PROCESSING_TIMEOUT':
-            troubleshootingTips = 'The document is taking too long to process. Try uploading a clearer or smaller PDF.';
-            break;
-          case 'OCR_FAILURE':
-            troubleshootingTips = 'Unable to read text from your PDF. Please ensure it\'s a clear scan or try a different file.';
-            break;
-          case 'FILE_TOO_LARGE':
-            troubleshootingTips = 'Your file is too large. Please reduce the file size to under 50MB.';
-            break;
-          default:
-            troubleshootingTips = 'Please ensure your PDF is a valid Form 16 document and try again.';
-        }
-      }
-      
-      const fullErrorMessage = `${errorMessage}${troubleshootingTips ? '\n\n' + troubleshootingTips : ''}`;
-      setProcessingError(fullErrorMessage);
       setIsUploading(false);
-      
+
       if (isUnauthorizedError(error)) {
         console.log('[Upload] Unauthorized error, redirecting to login');
         toast({
@@ -253,18 +258,94 @@ export default function Upload() {
         }, 500);
         return;
       }
-      
+
+      const errorMessage = error instanceof Error ? error.message : "Upload and extraction failed";
+      const troubleshootingTips = troubleshootingTipFor(error.failureReason);
+      setProcessingFailureReason(error.failureReason ?? null);
+      setProcessingError(`${errorMessage}${troubleshootingTips ? '\n\n' + troubleshootingTips : ''}`);
       toast({
         title: "Upload Error",
         description: troubleshootingTips || errorMessage,
         variant: "destructive",
       });
+    }
+  });
+
+  // Poll the extraction job until it completes or runs out of retries
+  const { data: extractionJob } = useQuery<{ job: ExtractionJob; document?: TaxDocument & { processingError?: { error?: string; failureReason?: string } } }>({
+    queryKey: ['/api/extraction-jobs', activeJobId],
+    enabled: !!activeJobId,
+    staleTime: 0,
+    refetchInterval: (query) => {
+      const status = query.state.data?.job.status;
+      return status === 'completed' || status === 'failed' ? false : 1500;
     },
-    onSettled: () => {
-      console.log('[Upload] Mutation settled, ensuring UI state is cleared');
+  });
+
+  useEffect(() => {
+    if (!extractionJob?.document) return;
+    const { job, document } = extractionJob;
+
+    if (job.status === 'completed' && document.extractedData) {
+      console.log('[Upload] Extraction job completed, extracted data keys:', Object.keys(document.extractedData));
+      setActiveJobId(null);
+      setCurrentDocument(document);
+      setExtractedData(document.extractedData);
+      setLowConfidenceChecked(false);
+      setProcessingStatus('completed');
+      setCurrentStep(2);
+      setIsUploading(false);
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tax-documents'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/form16-consolidation'] });
+      toast({
+        title: "Processing Complete",
+        description: "Your Form 16 data has been extracted successfully!",
+      });
+    } else if (job.status === 'failed') {
+      console.error('[Upload] Extraction job failed:', job.lastError);
+      const errorMessage = document.processingError?.error || job.lastError || "Extraction failed";
+      const troubleshootingTips = troubleshootingTipFor(document.processingError?.failureReason);
+      setActiveJobId(null);
+      setProcessingStatus('failed');
+      setProcessingFailureReason(document.processingError?.failureReason ?? null);
+      setProcessingError(`${errorMessage}${troubleshootingTips ? '\n\n' + troubleshootingTips : ''}`);
       setIsUploading(false);
+      queryClient.invalidateQueries({ queryKey: ['/api/tax-documents'] });
+      toast({
+        title: "Processing Failed",
+        description: troubleshootingTips || errorMessage,
+        variant: "destructive",
+      });
     }
-  });
+  }, [extractionJob]);
+
+  const describeJobProgress = (job?: ExtractionJob) => {
+    const progress = job?.progress;
+    const pages = progress?.page && progress.totalPages ? ` (page ${progress.page} of ${progress.totalPages})` : '';
+    switch (progress?.stage) {
+      case 'downloading':
+        return 'Fetching your document...';
+      case 'reading_text':
+        return 'Reading the PDF text...';
+      case 'converting':
+        return `Preparing scanned pages${pages}...`;
+      case 'ocr':
+        return `Reading scanned pages${pages}...`;
+      case 'parsing':
+        return 'Extracting Form 16 fields...';
+      case 'saving':
+        return 'Saving extracted data...';
+      default:
+        return 'Waiting for an extraction slot...';
+    }
+  };
+
+  // Shown when an earlier attempt failed and the job is waiting to be retried
+  const describeJobRetry = (job?: ExtractionJob) =>
+    job && job.lastError && job.status !== 'failed'
+      ? `Attempt ${job.attempts} of ${job.maxAttempts} failed, retrying automatically`
+      : null;
 
   const handleGetUploadParameters = async () => {
     try {
@@ -299,9 +380,7 @@ export default function Upload() {
     }
   };
 
-  // No longer needed - processing is now synchronous
-
-  const handleUploadComplete = async (result: UploadResult<Record<string, unknown>, Record<string, unknown>>) => {
+  const handleUploadComplete = (result: UploadResult<Record<string, unknown>, Record<string, unknown>>) => {
     console.log('[Upload] ObjectUploader completed with result:', {
       successful: result.successful?.length || 0,
       failed: result.failed?.length || 0
@@ -330,27 +409,41 @@ export default function Upload() {
     setIsUploading(true);
     setProcessingStatus('processing');
     setProcessingError(null);
+    setProcessingFailureReason(null);
     
-    try {
-      console.log('[Upload] Starting synchronous extraction process...');
-      await uploadAndExtractMutation.mutateAsync({
-        fileName,
-        assessmentYear,
-        uploadURL
-      });
-      console.log('[Upload] Synchronous extraction completed successfully');
-    } catch (error) {
-      console.error('[Upload] Synchronous extraction failed:', error);
-      setProcessingStatus('failed');
-      setProcessingError(error instanceof Error ? error.message : "Upload and extraction failed");
-      setIsUploading(false);
+    // Failures are reported by the mutation's onError
+    uploadAndExtractMutation.mutate({
+      fileName,
+      assessmentYear,
+      uploadURL,
+      password: pdfPassword || undefined
+    });
+    setPdfPassword('');
+  };
+
+  // Re-run extraction of the uploaded document with the password the user entered
+  const unlockMutation = useMutation({
+    mutationFn: async (data: { documentId: string; password: string }) => {
+      const response = await apiRequest('POST', `/api/tax-documents/${data.documentId}/unlock`, { password: data.password });
+      return await response.json();
+    },
+    onSuccess: (data) => {
+      setPdfPassword('');
+      setCurrentDocument(data.document);
+      setActiveJobId(data.jobId);
+      setProcessingStatus('processing');
+      setProcessingError(null);
+      setProcessingFailureReason(null);
+      setIsUploading(true);
+    },
+    onError: (error: Error) => {
       toast({
-        title: "Upload Failed",
-        description: error instanceof Error ? error.message : "Failed to process your document. Please try again.",
+        title: "Could not retry",
+        description: error.message,
         variant: "destructive",
       });
     }
-  };
+  });
 
   // Add missing endpoint for fetching single document
   const fetchDocumentMutation = useMutation({
@@ -473,6 +566,8 @@ export default function Upload() {
         credentials: 'include',
         body: JSON.stringify({
           grossIncome,
+          // Only the Form 16 salary gets the standard deduction, not the other income added to it
+          salary: extractedData.grossSalary || 0,
           additionalInvestments: allDeductions
         })
       });
@@ -510,10 +605,56 @@ export default function Upload() {
     }).format(amount);
   };
 
+  // Extracted fields whose match was weak enough that the user should check them
+  const lowConfidenceFields = Object.entries(extractedData?.provenance ?? {})
+    .filter(([, provenance]) => provenance.confidence < LOW_CONFIDENCE_THRESHOLD)
+    .map(([field, provenance]) => ({ field, provenance }));
+  const needsVerification = lowConfidenceFields.length > 0 && !lowConfidenceChecked;
+
+  const fieldLabel = (field: string) => {
+    if (FIELD_LABELS[field]) return FIELD_LABELS[field];
+    const deduction = field.match(/^deductions\.(.+)$/);
+    return deduction ? `Section ${deduction[1]}` : field;
+  };
+
+  const describeProvenance = (provenance: FieldProvenance) => {
+    const where = [
+      provenance.page ? `page ${provenance.page}` : null,
+      provenance.source === 'ocr' ? 'OCR' : 'PDF text',
+      `${provenance.strategy.replace('_', ' ')} match`,
+      `${Math.round(provenance.confidence * 100)}% confidence`
+    ].filter(Boolean).join(' · ');
+    return provenance.line ? `${where}\n"${provenance.line}"` : where;
+  };
+
+  const isLowConfidence = (field: string) =>
+    (extractedData?.provenance?.[field]?.confidence ?? 1) < LOW_CONFIDENCE_THRESHOLD;
+
+  // Highlight for an extracted value the user should verify
+  const confidenceClass = (field: string) =>
+    isLowConfidence(field) ? 'rounded-md border border-amber-300 bg-amber-50 px-2 py-1 dark:bg-amber-950/20' : '';
+
+  const confidenceBadge = (field: string) => {
+    const provenance = extractedData?.provenance?.[field];
+    if (!provenance || !isLowConfidence(field)) return null;
+    return (
+      <Badge
+        variant="outline"
+        className="ml-2 border-amber-400 text-amber-700 text-[10px]"
+        title={describeProvenance(provenance)}
+        data-testid={`badge-verify-${field}`}
+      >
+        Check
+      </Badge>
+    );
+  };
+
   // Retry processing function
   const handleRetryProcessing = () => {
+    setActiveJobId(null);
     setProcessingStatus('idle');
     setProcessingError(null);
+    setProcessingFailureReason(null);
     setExtractedData(null);
     setCurrentStep(1);
     setIsUploading(false);
@@ -654,6 +795,18 @@ export default function Upload() {
                             <UploadIcon className="h-5 w-5 mr-2" />
                             Choose Form 16 PDF
                           </ObjectUploader>
+                          <div className="max-w-xs mx-auto text-left">
+                            <Label htmlFor="pdfPassword" className="text-sm">PDF password (optional)</Label>
+                            <Input
+                              id="pdfPassword"
+                              type="password"
+                              autoComplete="off"
+                              value={pdfPassword}
+                              onChange={(e) => setPdfPassword(e.target.value)}
+                              placeholder="Tried automatically from your profile"
+                              data-testid="input-pdf-password"
+                            />
+                          </div>
                         </div>
                       </div>
                     </div>
@@ -663,9 +816,15 @@ export default function Upload() {
                       <div className="border-t bg-muted/50 p-6">
                         <div className="flex items-center justify-center space-x-3">
                           <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
-                          <span className="text-lg text-muted-foreground">Extracting data from your Form 16...</span>
+                          <span className="text-lg text-muted-foreground" data-testid="text-job-progress">
+                            {describeJobProgress(extractionJob?.job)}
+                          </span>
                         </div>
-                        <p className="text-sm text-muted-foreground mt-2 text-center">Processing now happens instantly!</p>
+                        {describeJobRetry(extractionJob?.job) && (
+                          <p className="text-sm text-amber-600 mt-2 text-center" data-testid="text-job-retry">
+                            {describeJobRetry(extractionJob?.job)}
+                          </p>
+                        )}
                       </div>
                     )}
                     
@@ -686,6 +845,34 @@ export default function Upload() {
                           <span className="text-lg font-medium">Processing failed</span>
                         </div>
                         <p className="text-sm text-muted-foreground mt-2 text-center">{processingError}</p>
+                        {processingFailureReason === 'PDF_PASSWORD_PROTECTED' && currentDocument && (
+                          <form
+                            className="flex items-center justify-center gap-2 mt-3"
+                            onSubmit={(e) => {
+                              e.preventDefault();
+                              unlockMutation.mutate({ documentId: currentDocument.id, password: pdfPassword });
+                            }}
+                          >
+                            <Input
+                              type="password"
+                              autoComplete="off"
+                              className="max-w-xs"
+                              value={pdfPassword}
+                              onChange={(e) => setPdfPassword(e.target.value)}
+                              placeholder="PDF password"
+                              data-testid="input-unlock-password"
+                            />
+                            <Button
+                              type="submit"
+                              size="sm"
+                              disabled={!pdfPassword || unlockMutation.isPending}
+                              data-testid="button-unlock-pdf"
+                            >
+                              <Shield className="h-4 w-4 mr-2" />
+                              Unlock and Extract
+                            </Button>
+                          </form>
+                        )}
                         <Button 
                           variant="outline" 
                           size="sm" 
@@ -795,9 +982,11 @@ export default function Upload() {
                   <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
                   <h3 className="text-xl font-semibold">Processing Your Document</h3>
                   <p className="text-muted-foreground text-center max-w-md">
-                    Please wait while we extract data from your Form 16...
+                    {describeJobProgress(extractionJob?.job)}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {describeJobRetry(extractionJob?.job) ?? "Scanned documents can take a few minutes. You can leave this page and come back."}
                   </p>
-                  <p className="text-sm text-muted-foreground">This usually takes 1-2 minutes</p>
                 </div>
               </CardContent>
             </Card>
@@ -842,6 +1031,39 @@ export default function Upload() {
           
           {extractedData && processingStatus === 'completed' ? (
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* Low-confidence fields to verify */}
+              {lowConfidenceFields.length > 0 && (
+                <Card className="lg:col-span-2 border-l-4 border-l-amber-500" data-testid="card-verify-fields">
+                  <CardHeader>
+                    <CardTitle className="flex items-center space-x-2">
+                      <AlertTriangle className="h-5 w-5 text-amber-600" />
+                      <span>Check These Values</span>
+                    </CardTitle>
+                    <CardDescription>
+                      These were read with low confidence. Compare them with your Form 16 before the tax is calculated.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {lowConfidenceFields.map(({ field, provenance }) => (
+                      <div key={field} className="p-3 border border-border rounded-lg" data-testid={`verify-field-${field}`}>
+                        <p className="font-medium text-sm">{fieldLabel(field)}</p>
+                        <p className="text-xs text-muted-foreground whitespace-pre-line">{describeProvenance(provenance)}</p>
+                      </div>
+                    ))}
+                    <Button
+                      variant={lowConfidenceChecked ? 'secondary' : 'default'}
+                      size="sm"
+                      onClick={() => setLowConfidenceChecked(true)}
+                      disabled={lowConfidenceChecked}
+                      data-testid="button-confirm-verified"
+                    >
+                      <CheckCircle className="h-4 w-4 mr-2" />
+                      {lowConfidenceChecked ? 'Values checked' : "I've checked these values"}
+                    </Button>
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Employee Information */}
               <Card>
                 <CardHeader>
@@ -852,18 +1074,26 @@ export default function Upload() {
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <div className="grid grid-cols-2 gap-4">
-                    <div>
+                    <div className={confidenceClass('employeeName')}>
                       <Label className="text-xs text-muted-foreground">Employee Name</Label>
+                      {confidenceBadge('employeeName')}
                       <p className="font-medium">{extractedData.employeeName || 'Not found'}</p>
                     </div>
-                    <div>
+                    <div className={confidenceClass('pan')}>
                       <Label className="text-xs text-muted-foreground">PAN</Label>
+                      {confidenceBadge('pan')}
                       <p className="font-medium">{extractedData.pan || 'Not found'}</p>
                     </div>
-                    <div className="col-span-2">
+                    <div className={confidenceClass('employerName')}>
                       <Label className="text-xs text-muted-foreground">Employer</Label>
+                      {confidenceBadge('employerName')}
                       <p className="font-medium">{extractedData.employerName || 'Not found'}</p>
                     </div>
+                    <div className={confidenceClass('employerTan')}>
+                      <Label className="text-xs text-muted-foreground">Employer TAN</Label>
+                      {confidenceBadge('employerTan')}
+                      <p className="font-medium" data-testid="text-employer-tan">{extractedData.employerTan || 'Not found'}</p>
+                    </div>
                   </div>
                 </CardContent>
               </Card>
@@ -878,20 +1108,24 @@ export default function Upload() {
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <div className="grid grid-cols-2 gap-4">
-                    <div>
+                    <div className={confidenceClass('grossSalary')}>
                       <Label className="text-xs text-muted-foreground">Gross Salary</Label>
+                      {confidenceBadge('grossSalary')}
                       <p className="font-medium text-lg">{extractedData.grossSalary ? formatCurrency(extractedData.grossSalary) : 'Not found'}</p>
                     </div>
-                    <div>
+                    <div className={confidenceClass('basicSalary')}>
                       <Label className="text-xs text-muted-foreground">Basic Salary</Label>
+                      {confidenceBadge('basicSalary')}
                       <p className="font-medium">{extractedData.basicSalary ? formatCurrency(extractedData.basicSalary) : 'Not found'}</p>
                     </div>
-                    <div>
+                    <div className={confidenceClass('hra')}>
                       <Label className="text-xs text-muted-foreground">HRA</Label>
+                      {confidenceBadge('hra')}
                       <p className="font-medium">{extractedData.hra ? formatCurrency(extractedData.hra) : 'Not found'}</p>
                     </div>
-                    <div>
+                    <div className={confidenceClass('tdsDeducted')}>
                       <Label className="text-xs text-muted-foreground">TDS Deducted</Label>
+                      {confidenceBadge('tdsDeducted')}
                       <p className="font-medium">{extractedData.tdsDeducted ? formatCurrency(extractedData.tdsDeducted) : 'Not found'}</p>
                     </div>
                   </div>
@@ -909,12 +1143,138 @@ export default function Upload() {
                   </CardHeader>
                   <CardContent>
                     <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                      {Object.entries(extractedData.deductions).map(([section, amount]) => (
-                        <div key={section} className="text-center p-3 bg-muted/50 rounded-lg">
-                          <p className="text-xs text-muted-foreground">Section {section}</p>
-                          <p className="font-semibold">{formatCurrency(amount)}</p>
+                      {extractedData.chapterVIA && extractedData.chapterVIA.length > 0
+                        ? extractedData.chapterVIA.map(deduction => (
+                          <div key={deduction.section} className={`text-center p-3 bg-muted/50 rounded-lg ${confidenceClass(`deductions.${deduction.section}`)}`} data-testid={`deduction-${deduction.section}`}>
+                            <p className="text-xs text-muted-foreground">Section {deduction.label}{confidenceBadge(`deductions.${deduction.section}`)}</p>
+                            <p className="font-semibold">{formatCurrency(deduction.deductibleAmount)}</p>
+                            {deduction.grossAmount !== deduction.deductibleAmount && (
+                              <p className="text-xs text-muted-foreground">of {formatCurrency(deduction.grossAmount)} paid</p>
+                            )}
+                          </div>
+                        ))
+                        : Object.entries(extractedData.deductions).map(([section, amount]) => (
+                          <div key={section} className="text-center p-3 bg-muted/50 rounded-lg">
+                            <p className="text-xs text-muted-foreground">Section {section}</p>
+                            <p className="font-semibold">{formatCurrency(amount)}</p>
+                          </div>
+                        ))}
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Part B salary breakup */}
+              {extractedData.salaryBreakup && (
+                <Card className="lg:col-span-2">
+                  <CardHeader>
+                    <CardTitle className="flex items-center space-x-2">
+                      <DollarSign className="h-5 w-5" />
+                      <span>How Your Taxable Salary Was Worked Out</span>
+                    </CardTitle>
+                    <CardDescription>From Part B of your Form 16</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-2 text-sm">
+                    <div className="flex justify-between">
+                      <span>Salary u/s 17(1)</span>
+                      <span data-testid="text-salary-17-1">{formatCurrency(extractedData.salaryBreakup.salary)}</span>
+                    </div>
+                    {extractedData.salaryBreakup.perquisites > 0 && (
+                      <div className="flex justify-between">
+                        <span>Perquisites u/s 17(2)</span>
+                        <span data-testid="text-perquisites-17-2">{formatCurrency(extractedData.salaryBreakup.perquisites)}</span>
+                      </div>
+                    )}
+                    {extractedData.salaryBreakup.profitsInLieuOfSalary > 0 && (
+                      <div className="flex justify-between">
+                        <span>Profits in lieu of salary u/s 17(3)</span>
+                        <span data-testid="text-profits-17-3">{formatCurrency(extractedData.salaryBreakup.profitsInLieuOfSalary)}</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between font-medium">
+                      <span>Gross Salary</span>
+                      <span>
+                        {formatCurrency(
+                          extractedData.salaryBreakup.salary
+                          + extractedData.salaryBreakup.perquisites
+                          + extractedData.salaryBreakup.profitsInLieuOfSalary
+                        )}
+                      </span>
+                    </div>
+                    {extractedData.salaryBreakup.exemptions.map(exemption => (
+                      <div key={exemption.section} className="flex justify-between text-muted-foreground" data-testid={`exemption-${exemption.section}`}>
+                        <span>Less: {exemption.label} u/s {exemption.section.replace(/^Section\s*/, '')}</span>
+                        <span>-{formatCurrency(exemption.amount)}</span>
+                      </div>
+                    ))}
+                    {extractedData.standardDeduction ? (
+                      <div className="flex justify-between text-muted-foreground">
+                        <span>Less: Standard deduction u/s 16(ia)</span>
+                        <span>-{formatCurrency(extractedData.standardDeduction)}</span>
+                      </div>
+                    ) : null}
+                    {extractedData.salaryBreakup.entertainmentAllowance > 0 && (
+                      <div className="flex justify-between text-muted-foreground">
+                        <span>Less: Entertainment allowance u/s 16(ii)</span>
+                        <span>-{formatCurrency(extractedData.salaryBreakup.entertainmentAllowance)}</span>
+                      </div>
+                    )}
+                    {extractedData.salaryBreakup.professionalTax > 0 && (
+                      <div className="flex justify-between text-muted-foreground">
+                        <span>Less: Professional tax u/s 16(iii)</span>
+                        <span>-{formatCurrency(extractedData.salaryBreakup.professionalTax)}</span>
+                      </div>
+                    )}
+                    {extractedData.incomeChargeable ? (
+                      <>
+                        <Separator />
+                        <div className="flex justify-between font-semibold">
+                          <span>Income under the head Salaries</span>
+                          <span data-testid="text-income-chargeable">{formatCurrency(extractedData.incomeChargeable)}</span>
+                        </div>
+                      </>
+                    ) : null}
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Part A quarterly TDS */}
+              {extractedData.partA && extractedData.partA.quarters.length > 0 && (
+                <Card className="lg:col-span-2">
+                  <CardHeader>
+                    <CardTitle className="flex items-center space-x-2">
+                      <FileText className="h-5 w-5" />
+                      <span>Quarterly TDS (Part A)</span>
+                    </CardTitle>
+                    {extractedData.partA.citTdsAddress && (
+                      <CardDescription>CIT (TDS): {extractedData.partA.citTdsAddress}</CardDescription>
+                    )}
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-2">
+                      <div className="grid grid-cols-5 gap-4 text-xs text-muted-foreground">
+                        <span>Quarter</span>
+                        <span>Receipt No.</span>
+                        <span className="text-right">Amount Paid</span>
+                        <span className="text-right">Tax Deducted</span>
+                        <span className="text-right">Tax Deposited</span>
+                      </div>
+                      {extractedData.partA.quarters.map(quarter => (
+                        <div key={quarter.quarter} className="grid grid-cols-5 gap-4 text-sm" data-testid={`part-a-${quarter.quarter}`}>
+                          <span className="font-medium">{quarter.quarter}</span>
+                          <span>{quarter.receiptNumber || '-'}</span>
+                          <span className="text-right">{formatCurrency(quarter.amountPaid)}</span>
+                          <span className="text-right">{formatCurrency(quarter.taxDeducted)}</span>
+                          <span className="text-right">{formatCurrency(quarter.taxDeposited)}</span>
                         </div>
                       ))}
+                      <Separator />
+                      <div className="grid grid-cols-5 gap-4 text-sm font-semibold">
+                        <span className="col-span-2">Total</span>
+                        <span className="text-right">{formatCurrency(extractedData.partA.totalAmountPaid)}</span>
+                        <span className="text-right">{formatCurrency(extractedData.partA.totalTaxDeducted)}</span>
+                        <span className="text-right">{formatCurrency(extractedData.partA.totalTaxDeposited)}</span>
+                      </div>
                     </div>
                   </CardContent>
                 </Card>
@@ -1114,7 +1474,7 @@ export default function Upload() {
                   onClick={handleAnalyze} 
                   size="lg" 
                   className="px-12 py-6 text-lg"
-                  disabled={isAnalyzing || !extractedData}
+                  disabled={isAnalyzing || !extractedData || needsVerification}
                   data-testid="button-analyze-tax"
                 >
                   {isAnalyzing ? (
@@ -1130,7 +1490,9 @@ export default function Upload() {
                   )}
                 </Button>
                 <p className="text-sm text-muted-foreground mt-3">
-                  Generate comprehensive tax analysis comparing old vs new regime
+                  {needsVerification
+                    ? 'Check the highlighted values from your Form 16 first'
+                    : 'Generate comprehensive tax analysis comparing old vs new regime'}
                 </p>
               </div>
             </CardContent>
@@ -1193,7 +1555,7 @@ export default function Upload() {
                     <div className="grid grid-cols-2 gap-4 text-sm">
                       <div>
                         <Label className="text-muted-foreground">Gross Income</Label>
-                        <p className="font-semibold">{formatCurrency(taxResults.oldRegime.grossIncome)}</p>
+                        <p className="font-semibold">{formatCurrency(taxResults.oldRegime.totalIncome)}</p>
                       </div>
                       <div>
                         <Label className="text-muted-foreground">Total Deductions</Label>
@@ -1222,7 +1584,7 @@ export default function Upload() {
                     <div className="grid grid-cols-2 gap-4 text-sm">
                       <div>
                         <Label className="text-muted-foreground">Gross Income</Label>
-                        <p className="font-semibold">{formatCurrency(taxResults.newRegime.grossIncome)}</p>
+                        <p className="font-semibold">{formatCurrency(taxResults.newRegime.totalIncome)}</p>
                       </div>
                       <div>
                         <Label className="text-muted-foreground">Standard Deduction</Label>
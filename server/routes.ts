@@ -4,9 +4,32 @@ import { storage } from "./storage";
 import { setupAuth, isAuthenticated } from "./replitAuth";
 import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
 import { ObjectPermission } from "./objectAcl";
-import { PDFExtractorService } from "./services/pdfExtractor";
+import { PDFExtractorService, form16PasswordCandidates, type Form16Data } from "./services/pdfExtractor";
+import { ExtractionQueueService, type JobProgress } from "./services/extractionQueue";
+import { DocumentEventsService } from "./services/documentEvents";
 import { TaxCalculatorService } from "./services/taxCalculator";
-import { insertTaxDocumentSchema, insertIncomeSourceSchema, insertInvestmentSchema } from "@shared/schema";
+import { DEFAULT_ASSESSMENT_YEAR, ageForAssessmentYear } from "./services/taxRules";
+import { DeductionValidatorService } from "./services/deductionValidator";
+import { CapitalGainsService } from "./services/capitalGains";
+import { HousePropertyService } from "./services/houseProperty";
+import { IncomeComputationService } from "./services/incomeComputation";
+import { AdvanceTaxService } from "./services/advanceTax";
+import { SelfAssessmentService } from "./services/selfAssessment";
+import { ResidentialStatusService } from "./services/residentialStatus";
+import { AnnualStatementService, type ParsedStatement } from "./services/annualStatement";
+import { ItrExportService } from "./services/itrExport";
+import { Form16ConsolidationService, salaryClaimsFromForm16 } from "./services/form16Consolidation";
+import {
+  insertTaxDocumentSchema,
+  insertIncomeSourceSchema,
+  insertInvestmentSchema,
+  insertCapitalGainTransactionSchema,
+  insertHousePropertySchema,
+  insertTaxPaymentSchema,
+  insertResidentialStatusSchema,
+  type ExtractionJob,
+  type TaxDocument
+} from "@shared/schema";
 import { z } from "zod";
 import { pipeline } from "stream/promises";
 import { Transform } from "stream";
@@ -33,8 +56,186 @@ class ByteLimitTransform extends Transform {
 
 const pdfExtractor = new PDFExtractorService();
 const taxCalculator = new TaxCalculatorService();
+const deductionValidator = new DeductionValidatorService();
+const capitalGains = new CapitalGainsService();
+const houseProperty = new HousePropertyService();
+const incomeComputation = new IncomeComputationService();
+const advanceTax = new AdvanceTaxService();
+const selfAssessment = new SelfAssessmentService();
+const residentialStatus = new ResidentialStatusService();
+const annualStatement = new AnnualStatementService();
+const itrExport = new ItrExportService();
+const form16Consolidation = new Form16ConsolidationService();
+const documentEvents = new DocumentEventsService();
+
+// Read an uploaded object into memory, refusing anything over maxSize bytes
+async function downloadObject(objectStorageService: ObjectStorageService, objectPath: string, maxSize: number): Promise<Buffer> {
+  const objectFile = await objectStorageService.getObjectEntityFile(objectPath);
+  const chunks: Buffer[] = [];
+  const collectTransform = new Transform({
+    transform(chunk, encoding, callback) {
+      chunks.push(chunk);
+      callback(null, chunk);
+    }
+  });
+  await pipeline(objectFile.createReadStream(), new ByteLimitTransform(maxSize), collectTransform);
+  return Buffer.concat(chunks);
+}
+
+// Failure category for the upload screen's troubleshooting tips
+function categorizeProcessingError(message: string): string {
+  const lowerMessage = message.toLowerCase();
+  if (lowerMessage.includes('password') || lowerMessage.includes('encrypted')) {
+    return 'PDF_PASSWORD_PROTECTED';
+  }
+  if (lowerMessage.includes('corrupted') || lowerMessage.includes('invalid pdf')) {
+    return 'PDF_CORRUPTED';
+  }
+  if (lowerMessage.includes('timeout') || lowerMessage.includes('cancelled') || lowerMessage.includes('took too long')) {
+    return 'PROCESSING_TIMEOUT';
+  }
+  if (lowerMessage.includes('ocr') || lowerMessage.includes('tesseract')) {
+    return 'OCR_FAILURE';
+  }
+  if (lowerMessage.includes('too large') || lowerMessage.includes('exceeds limit')) {
+    return 'FILE_TOO_LARGE';
+  }
+  return 'GENERAL_PROCESSING_ERROR';
+}
+
+// Retrying cannot fix the file itself
+const PERMANENT_FAILURES = ['PDF_PASSWORD_PROTECTED', 'PDF_CORRUPTED', 'FILE_TOO_LARGE'];
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Gather a user's saved income for the year into a head-wise computation input
+  async function loadIncomeComputationInput(userId: string, assessmentYear: string) {
+    const [incomeSources, houseProperties, capitalGainTransactions] = await Promise.all([
+      storage.getIncomeSourcesByUser(userId, assessmentYear),
+      storage.getHousePropertiesByUser(userId, assessmentYear),
+      storage.getCapitalGainTransactionsByUser(userId, assessmentYear)
+    ]);
+    return incomeComputation.fromRecords({ incomeSources, houseProperties, capitalGainTransactions });
+  }
+
+  // Age from the saved date of birth and residential status for the year
+  async function loadTaxpayerProfile(userId: string, assessmentYear: string = DEFAULT_ASSESSMENT_YEAR) {
+    const [user, status] = await Promise.all([
+      storage.getUser(userId),
+      storage.getResidentialStatus(userId, assessmentYear)
+    ]);
+    return {
+      age: user?.dateOfBirth ? ageForAssessmentYear(user.dateOfBirth, assessmentYear) : undefined,
+      isNonResident: status?.status === 'nri'
+    };
+  }
+
+  // Project the year's tax from saved records, net of Form 16 TDS and challans paid
+  async function estimateAdvanceTax(userId: string, assessmentYear: string, regime?: 'old' | 'new') {
+    const [computationInput, investments, documents, calculations, payments, profile, tdsCredits] = await Promise.all([
+      loadIncomeComputationInput(userId, assessmentYear),
+      storage.getInvestmentsByUser(userId, assessmentYear),
+      storage.getTaxDocumentsByUser(userId),
+      storage.getTaxCalculationsByUser(userId),
+      storage.getTaxPaymentsByUser(userId, assessmentYear),
+      loadTaxpayerProfile(userId, assessmentYear),
+      storage.getTdsCreditsByUser(userId, assessmentYear)
+    ]);
+    
+    const estimate = advanceTax.estimate({
+      computation: computationInput,
+      deductions: deductionValidator.claimsFromInvestments(investments),
+      deductionProfile: { age: profile.age },
+      isNonResident: profile.isNonResident,
+      regime,
+      tdsCredit: advanceTax.tdsCreditFromRecords({ documents, calculations, tdsCredits }, assessmentYear),
+      payments
+    }, assessmentYear);
+    return { estimate, payments };
+  }
+
+  // Compare imported 26AS / AIS / TIS entries with what the user has declared
+  async function reconcileStatements(userId: string, assessmentYear: string) {
+    const [tdsCredits, reportedIncomes, documents, incomeSources, investments, houseProperties, transactions] = await Promise.all([
+      storage.getTdsCreditsByUser(userId, assessmentYear),
+      storage.getReportedIncomesByUser(userId, assessmentYear),
+      storage.getTaxDocumentsByUser(userId),
+      storage.getIncomeSourcesByUser(userId, assessmentYear),
+      storage.getInvestmentsByUser(userId, assessmentYear),
+      storage.getHousePropertiesByUser(userId, assessmentYear),
+      storage.getCapitalGainTransactionsByUser(userId, assessmentYear)
+    ]);
+    return annualStatement.reconcile({
+      tdsCredits,
+      reportedIncomes,
+      documents,
+      incomeSources,
+      investments,
+      houseProperties,
+      capitalGainTransactionCount: transactions.length
+    }, assessmentYear);
+  }
+
+  // Download, extract and save one queued document
+  async function runExtractionJob(job: ExtractionJob, reportProgress: (progress: JobProgress) => void, password?: string) {
+    const document = await storage.getTaxDocument(job.documentId, job.userId);
+    if (!document?.filePath) {
+      throw new Error(`Document ${job.documentId} has no uploaded file`);
+    }
+    // A password given with the upload first, then the usual PAN and date of birth
+    const user = await storage.getUser(job.userId);
+    const passwords = [
+      ...(password ? [password] : []),
+      ...form16PasswordCandidates(user?.pan, user?.dateOfBirth)
+    ];
+
+    reportProgress({ stage: 'downloading' });
+    const pdfBuffer = await downloadObject(new ObjectStorageService(), document.filePath, 50 * 1024 * 1024);
+    const extractedData = await pdfExtractor.extractForm16Data(pdfBuffer, progress => {
+      reportProgress(progress);
+      if (progress.stage === 'ocr' && progress.page && progress.totalPages) {
+        documentEvents.publish(job.userId, { type: 'ocr_page', documentId: document.id, page: progress.page, totalPages: progress.totalPages });
+      } else if (progress.stage === 'parsing') {
+        documentEvents.publish(job.userId, { type: 'text_extracted', documentId: document.id });
+      }
+    }, { passwords });
+
+    reportProgress({ stage: 'saving' });
+    await storage.updateTaxDocument(document.id, job.userId, {
+      extractedData,
+      status: 'completed',
+      processingError: null,
+      processedAt: new Date()
+    });
+    documentEvents.publish(job.userId, { type: 'parsed', documentId: document.id });
+    if (job.createRecords) {
+      await saveExtractionRecords(document, extractedData);
+      documentEvents.publish(job.userId, { type: 'calculations_created', documentId: document.id });
+    }
+  }
+
+  async function failExtraction(job: ExtractionJob, error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'PDF processing failed';
+    const failureReason = categorizeProcessingError(errorMessage);
+    await storage.updateTaxDocument(job.documentId, job.userId, {
+      status: 'failed',
+      processedAt: new Date(),
+      processingError: {
+        error: errorMessage,
+        failureReason,
+        attempts: job.attempts,
+        timestamp: new Date().toISOString()
+      }
+    });
+    documentEvents.publish(job.userId, { type: 'failed', documentId: job.documentId, failureReason, error: errorMessage });
+  }
+
+  const extractionQueue = new ExtractionQueueService({
+    run: runExtractionJob,
+    isTransient: error => !PERMANENT_FAILURES.includes(categorizeProcessingError(error instanceof Error ? error.message : String(error))),
+    onFailed: failExtraction
+  });
+  extractionQueue.start();
+
   // Auth middleware
   await setupAuth(app);
 
@@ -50,6 +251,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Taxpayer profile: date of birth decides the senior citizen slabs, and with
+  // the PAN it makes up the usual Form 16 PDF password
+  app.put('/api/profile', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const updates = z.object({
+        dateOfBirth: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'dateOfBirth must be in YYYY-MM-DD format').nullable().optional(),
+        pan: z.string().toUpperCase().regex(/^[A-Z]{5}\d{4}[A-Z]$/, 'pan must be a valid PAN such as ABCDE1234F').nullable().optional()
+      }).parse(req.body);
+      
+      const user = await storage.updateUserProfile(userId, updates);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(user);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid profile data", errors: error.errors });
+      }
+      console.error("Error updating profile:", error);
+      res.status(500).json({ message: "Failed to update profile" });
+    }
+  });
+
+  // Residential status for an assessment year, with the section 6 reasoning
+  app.get('/api/residential-status', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const assessmentYear = (req.query.assessmentYear as string) || DEFAULT_ASSESSMENT_YEAR;
+      const saved = await storage.getResidentialStatus(userId, assessmentYear);
+      res.json(saved ? { ...saved, ...residentialStatus.determine(saved) } : null);
+    } catch (error) {
+      console.error("Error fetching residential status:", error);
+      res.status(500).json({ message: "Failed to fetch residential status" });
+    }
+  });
+
+  app.post('/api/residential-status', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const answers = insertResidentialStatusSchema.parse({ ...req.body, userId });
+      const result = residentialStatus.determine(answers);
+      const saved = await storage.upsertResidentialStatus({ ...answers, status: result.status });
+      res.json({ ...saved, ...result });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid residential status answers", errors: error.errors });
+      }
+      console.error("Error saving residential status:", error);
+      res.status(500).json({ message: "Failed to save residential status" });
+    }
+  });
+
   // Dashboard data
   app.get('/api/dashboard', isAuthenticated, async (req: any, res) => {
     try {
@@ -62,12 +316,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log(`[Dashboard] Request for userId: ${userId}, assessmentYear: ${assessmentYear}`);
       
-      const [documents, incomeSources, investments, calculations, suggestions] = await Promise.all([
+      const [documents, incomeSources, investments, calculations, suggestions, computationInput] = await Promise.all([
         storage.getTaxDocumentsByUser(userId),
         storage.getIncomeSourcesByUser(userId, assessmentYear),
         storage.getInvestmentsByUser(userId, assessmentYear),
         storage.getTaxCalculationsByUser(userId),
-        storage.getTaxSuggestionsByUser(userId, assessmentYear)
+        storage.getTaxSuggestionsByUser(userId, assessmentYear),
+        loadIncomeComputationInput(userId, assessmentYear)
       ]);
 
       console.log(`[Dashboard] Retrieved ${documents.length} total documents for user`);
@@ -85,6 +340,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         investments,
         calculations: filteredCalculations,
         suggestions,
+        computation: {
+          oldRegime: incomeComputation.compute(computationInput, 'old', assessmentYear),
+          newRegime: incomeComputation.compute(computationInput, 'new', assessmentYear)
+        },
         assessmentYear
       });
     } catch (error) {
@@ -144,39 +403,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log(`[DEBUG] Manually triggering processing for document ${documentId} with file path: ${document.filePath}`);
       
-      // Manually trigger background processing
-      void processDocumentAsync(documentId, userId, document.filePath || "", document).catch(async (error) => {
-        console.error(`[DEBUG] Manual processing failed for ${documentId}:`, error);
-        try {
-          await storage.updateTaxDocument(documentId, userId, {
-            status: 'failed',
-            processedAt: new Date()
-          });
-          console.log(`[DEBUG] Document ${documentId} marked as failed due to processing error`);
-        } catch (updateError) {
-          console.error(`[DEBUG] Failed to mark document ${documentId} as failed:`, updateError);
-        }
-      });
+      // Queue the document, saving income and investments once it is read
+      await storage.updateTaxDocument(documentId, userId, { status: 'processing', processingError: null });
+      const job = await extractionQueue.enqueue(userId, documentId, { createRecords: true });
       
-      res.json({ message: "Background processing triggered", documentId });
+      res.json({ message: "Background processing queued", documentId, jobId: job.id });
     } catch (error) {
       console.error('Error in debug process route:', error);
       res.status(500).json({ error: 'Failed to trigger processing' });
     }
   });
 
-  // Simplified synchronous upload and extraction endpoint
+  // Upload endpoint: records the document and queues its extraction
   app.post("/api/documents/upload-and-extract", isAuthenticated, async (req: any, res) => {
-    // Extended timeout for OCR processing (up to 6 minutes)
-    res.setTimeout(360000, () => {
-      if (!res.headersSent) {
-        res.status(408).json({ error: 'Processing timeout - please try again with a clearer PDF', success: false });
-      }
-    });
-    
     try {
       const userId = req.user.claims.sub;
-      const { fileName, assessmentYear, uploadURL } = req.body;
+      const { fileName, assessmentYear, uploadURL, password } = req.body;
       
       // Validation
       if (!fileName || !assessmentYear || !uploadURL) {
@@ -204,6 +446,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      if (password !== undefined && (typeof password !== 'string' || password.length > 128)) {
+        return res.status(400).json({
+          error: 'Invalid password',
+          message: 'password must be a string under 128 characters',
+          success: false
+        });
+      }
+      
       if (!uploadURL.startsWith('https://storage.googleapis.com/')) {
         return res.status(400).json({
           error: 'Invalid uploadURL',
@@ -242,111 +492,69 @@ export async function registerRoutes(app: Express): Promise<Server> {
         status: 'processing'
       });
       
-      try {
-        // Simple PDF download approach
-        const objectFile = await objectStorageService.getObjectEntityFile(objectPath);
-        
-        // Download PDF to buffer using simple approach
-        const chunks: Buffer[] = [];
-        const readStream = objectFile.createReadStream();
-        
-        // Simple promise-based download without complex timeouts
-        const pdfBuffer = await new Promise<Buffer>((resolve, reject) => {
-          let totalSize = 0;
-          const maxSize = 50 * 1024 * 1024; // 50MB limit
-          
-          readStream.on('data', (chunk: Buffer) => {
-            totalSize += chunk.length;
-            if (totalSize > maxSize) {
-              readStream.destroy();
-              reject(new Error('PDF file too large (>50MB)'));
-              return;
-            }
-            chunks.push(chunk);
-          });
-          
-          readStream.on('end', () => {
-            resolve(Buffer.concat(chunks));
-          });
-          
-          readStream.on('error', (error) => {
-            reject(error);
-          });
-        });
-        
-        // Extract PDF data
-        const extractedData = await pdfExtractor.extractForm16Data(pdfBuffer);
-        
-        // Update document with extracted data
-        const completedDocument = await storage.updateTaxDocument(document.id, userId, {
-          extractedData,
-          status: 'completed',
-          processedAt: new Date()
-        });
-        
-        res.json({
-          success: true,
-          document: completedDocument
-        });
-        
-      } catch (processingError) {
-        console.error('PDF processing failed:', processingError);
-        
-        // Capture detailed error information
-        const errorMessage = processingError instanceof Error ? processingError.message : 'PDF processing failed';
-        const errorStack = processingError instanceof Error ? processingError.stack : undefined;
-        
-        // Categorize error for user-friendly display
-        const categorizeError = (message: string): string => {
-          const lowerMessage = message.toLowerCase();
-          if (lowerMessage.includes('password') || lowerMessage.includes('encrypted')) {
-            return 'PDF_PASSWORD_PROTECTED';
-          }
-          if (lowerMessage.includes('corrupted') || lowerMessage.includes('invalid pdf')) {
-            return 'PDF_CORRUPTED';
-          }
-          if (lowerMessage.includes('timeout') || lowerMessage.includes('cancelled')) {
-            return 'PROCESSING_TIMEOUT';
-          }
-          if (lowerMessage.includes('ocr') || lowerMessage.includes('tesseract')) {
-            return 'OCR_FAILURE';
-          }
-          if (lowerMessage.includes('too large')) {
-            return 'FILE_TOO_LARGE';
-          }
-          return 'GENERAL_PROCESSING_ERROR';
-        };
-        
-        const failureReason = categorizeError(errorMessage);
-        
-        // Update document status to failed with error details
-        try {
-          await storage.updateTaxDocument(document.id, userId, {
-            status: 'failed',
-            processedAt: new Date(),
-            processingError: {
-              error: errorMessage,
-              failureReason: failureReason,
-              timestamp: new Date().toISOString()
-              // Note: Removed errorStack for security - don't expose internal stack traces to clients
-            }
-          });
-        } catch (updateError) {
-          console.error('Failed to update document status:', updateError);
-        }
-        
-        res.status(422).json({ 
-          error: errorMessage, 
-          success: false,
-          failureReason: failureReason
-        });
-      }
+      // Extraction runs in the background; poll the job for progress
+      const job = await extractionQueue.enqueue(userId, document.id, { password: password || undefined });
+      documentEvents.publish(userId, { type: 'uploaded', documentId: document.id });
+      res.status(202).json({
+        success: true,
+        jobId: job.id,
+        document
+      });
     } catch (error) {
       console.error('Upload endpoint error:', error);
-      if (!res.headersSent) {
-        const errorMessage = error instanceof Error ? error.message : 'Upload and extraction failed';
-        res.status(500).json({ error: errorMessage, success: false });
+      const errorMessage = error instanceof Error ? error.message : 'Upload failed';
+      res.status(500).json({ error: errorMessage, success: false });
+    }
+  });
+
+  // Document lifecycle events for the signed-in user as a server-sent events stream
+  app.get("/api/events", isAuthenticated, (req: any, res) => {
+    documentEvents.subscribe(req.user.claims.sub, res);
+  });
+
+  // Retry extraction of an uploaded document with the password it was locked with
+  app.post("/api/tax-documents/:id/unlock", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { password } = z.object({ password: z.string().min(1).max(128) }).parse(req.body);
+
+      const document = await storage.getTaxDocument(req.params.id, userId);
+      if (!document?.filePath) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      // Only a document that failed for want of its password can be unlocked
+      const failureReason = (document.processingError as { failureReason?: string } | null)?.failureReason;
+      if (document.status !== 'failed' || failureReason !== 'PDF_PASSWORD_PROTECTED') {
+        return res.status(409).json({ message: "Document is not waiting for a password" });
+      }
+
+      const updated = await storage.updateTaxDocument(document.id, userId, { status: 'processing', processingError: null });
+      const job = await extractionQueue.enqueue(userId, document.id, { password });
+      res.status(202).json({ success: true, jobId: job.id, document: updated });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "A password is required" });
       }
+      console.error("Error unlocking document:", error);
+      res.status(500).json({ message: "Failed to queue document" });
+    }
+  });
+
+  // Extraction job state, with the document once it has been read
+  app.get("/api/extraction-jobs/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const job = await storage.getExtractionJob(req.params.id, userId);
+      if (!job) {
+        return res.status(404).json({ message: "Extraction job not found" });
+      }
+      const document = job.status === 'completed' || job.status === 'failed'
+        ? await storage.getTaxDocument(job.documentId, userId)
+        : undefined;
+      res.json({ job, document });
+    } catch (error) {
+      console.error("Error fetching extraction job:", error);
+      res.status(500).json({ message: "Failed to fetch extraction job" });
     }
   });
 
@@ -413,27 +621,74 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Tax regime comparison endpoint
   app.post("/api/tax/calculate-comparison", isAuthenticated, async (req: any, res) => {
     try {
-      const { grossIncome, additionalInvestments = {} } = req.body;
+      const {
+        grossIncome,
+        salary = 0, // The part of grossIncome that is salary, for the standard deduction
+        additionalInvestments = {},
+        newRegimeDeductions = {},
+        assessmentYear = DEFAULT_ASSESSMENT_YEAR,
+        deductionProfile = {},
+        capitalGainTransactions,
+        houseProperties
+      } = req.body;
       
-      if (!grossIncome || grossIncome <= 0) {
+      if (grossIncome !== undefined && (!grossIncome || grossIncome <= 0)) {
         return res.status(400).json({ error: 'Valid gross income is required' });
       }
       
-      console.log(`[Tax Calculation] Calculating regime comparison for gross income: ${grossIncome}`);
-      
-      // Calculate old regime tax (with all deductions)
-      const oldRegimeTax = taxCalculator.calculateOldRegimeTax(grossIncome, additionalInvestments);
+      // Slabs depend on the taxpayer's age and residential status
+      const profile = await loadTaxpayerProfile(req.user.claims.sub, assessmentYear);
+      const taxpayerProfile = { age: profile.age, ...deductionProfile };
+      
+      // Without a gross income figure, compute head-wise from the user's saved income
+      if (grossIncome === undefined) {
+        const computationInput = await loadIncomeComputationInput(req.user.claims.sub, assessmentYear);
+        const comparison = taxCalculator.compareComputation(
+          computationInput,
+          additionalInvestments,
+          newRegimeDeductions,
+          profile.isNonResident,
+          assessmentYear,
+          taxpayerProfile
+        );
+        return res.json(comparison);
+      }
       
-      // Calculate new regime tax (only standard deduction)
-      const newRegimeTax = taxCalculator.calculateNewRegimeTax(grossIncome);
+      console.log(`[Tax Calculation] Calculating regime comparison for gross income: ${grossIncome}, assessment year: ${assessmentYear}`);
+      
+      // Capital gains are taxed at special rates alongside slab income; use the
+      // saved transactions unless the request supplies its own
+      const transactions = Array.isArray(capitalGainTransactions)
+        ? capitalGainTransactions
+        : await storage.getCapitalGainTransactionsByUser(req.user.claims.sub, assessmentYear);
+      const capitalGainsSummary = transactions.length > 0
+        ? capitalGains.summarize(transactions, assessmentYear)
+        : undefined;
+      const properties = Array.isArray(houseProperties)
+        ? houseProperties
+        : await storage.getHousePropertiesByUser(req.user.claims.sub, assessmentYear);
+      
+      // Old regime with all deductions, new regime with only the deductions it allows
+      const { oldRegime: oldRegimeTax, newRegime: newRegimeTax } = taxCalculator.compareRegimes(
+        grossIncome,
+        additionalInvestments,
+        { salary: Number(salary) || 0, ...newRegimeDeductions },
+        profile.isNonResident,
+        assessmentYear,
+        taxpayerProfile,
+        capitalGainsSummary,
+        properties
+      );
       
       // Determine which regime is better
       const savings = oldRegimeTax.totalTax - newRegimeTax.totalTax;
       const recommendation = savings > 0 ? 'new' : 'old';
       
       const comparison = {
+        assessmentYear,
         oldRegime: oldRegimeTax,
         newRegime: newRegimeTax,
+        capitalGains: capitalGainsSummary,
         savings: Math.abs(savings),
         recommendation,
         summary: {
@@ -515,152 +770,113 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
-  // Separate async function for PDF processing
-  async function processDocumentAsync(documentId: string, userId: string, objectPath: string, updatedDocument: any) {
-    console.log(`[PDF Processing] Starting background processing for document ${documentId}`);
-    
-    try {
-      // Ensure we have updated document data for processing
-      if (!updatedDocument) {
-        console.error('Updated document is undefined, cannot process PDF');
-        return;
-      }
-      console.log(`[PDF Processing] Document verified, file path: ${objectPath}`);
-      
-      // Get object file from storage
-      console.log(`[PDF Processing] Getting object file from storage...`);
-      const objectStorageService = new ObjectStorageService();
-      const objectFile = await objectStorageService.getObjectEntityFile(objectPath);
-      console.log(`[PDF Processing] Object file retrieved successfully`);
-      
-      // Download PDF with size validation
-      const chunks: Buffer[] = [];
-      const maxSize = 50 * 1024 * 1024; // 50MB limit
-      const sourceStream = objectFile.createReadStream();
-      const byteLimitTransform = new ByteLimitTransform(maxSize);
-      
-      const collectTransform = new Transform({
-        transform(chunk, encoding, callback) {
-          chunks.push(chunk);
-          callback(null, chunk);
-        }
-      });
-      
-      console.log(`[PDF Processing] Starting PDF download pipeline...`);
-      await pipeline(sourceStream, byteLimitTransform, collectTransform);
-      console.log(`[PDF Processing] Pipeline completed successfully`);
-      
-      const pdfBuffer = Buffer.concat(chunks);
-      console.log(`[PDF Processing] PDF downloaded successfully, size: ${pdfBuffer.length} bytes`);
-      
-      // Extract data from PDF
-      console.log(`[PDF Processing] Starting Form 16 data extraction...`);
-      const extractedData = await pdfExtractor.extractForm16Data(pdfBuffer);
-      console.log(`[PDF Processing] Extraction completed, extracted data:`, JSON.stringify(extractedData, null, 2));
-      
-      // Update document with extracted data
-      console.log(`[PDF Processing] Updating document with extracted data...`);
-      await storage.updateTaxDocument(documentId, userId, {
-        extractedData,
-        status: 'completed',
-        processedAt: new Date()
+  // Income source, investments, tax calculation and suggestions from a read Form 16
+  async function saveExtractionRecords(document: TaxDocument, extractedData: Form16Data) {
+    const { id: documentId, userId } = document;
+    // Create income sources and investments from extracted data
+    if (extractedData.grossSalary) {
+      await storage.createIncomeSource({
+        userId,
+        documentId,
+        source: 'salary',
+        amount: extractedData.grossSalary.toString(),
+        assessmentYear: extractedData.assessmentYear || document.assessmentYear || '2024-25',
+        description: extractedData.employerName ? `Salary income from Form 16 (${extractedData.employerName})` : 'Salary income from Form 16'
       });
-      console.log(`[PDF Processing] Document updated successfully to completed status`);
+    }
 
-      // Create income sources and investments from extracted data
-      if (extractedData.grossSalary) {
-        await storage.createIncomeSource({
-          userId,
-          documentId,
-          source: 'salary',
-          amount: extractedData.grossSalary.toString(),
-          assessmentYear: extractedData.assessmentYear || updatedDocument?.assessmentYear || '2024-25',
-          description: 'Salary income from Form 16'
-        });
-      }
+    // Create investments from the Chapter VI-A table, claiming what the employer allowed
+    for (const deduction of extractedData.chapterVIA ?? []) {
+      if (deduction.deductibleAmount <= 0) continue;
+      const grossNote = deduction.grossAmount > deduction.deductibleAmount
+        ? ` (gross ₹${deduction.grossAmount.toLocaleString('en-IN')} on Form 16)`
+        : '';
+      await storage.createInvestment({
+        userId,
+        documentId,
+        section: deduction.section,
+        type: `${deduction.label} Investment`,
+        amount: deduction.deductibleAmount.toString(),
+        assessmentYear: extractedData.assessmentYear || document.assessmentYear || '2024-25',
+        description: `Deduction under section ${deduction.label}${grossNote}`
+      });
+    }
 
-      // Create investments from deductions
-      if (extractedData.deductions) {
-        for (const [section, amount] of Object.entries(extractedData.deductions)) {
-          await storage.createInvestment({
-            userId,
-            documentId,
-            section,
-            type: `${section} Investment`,
-            amount: amount.toString(),
-            assessmentYear: extractedData.assessmentYear || updatedDocument?.assessmentYear || '2024-25',
-            description: `Deduction under section ${section}`
-          });
-        }
+    // Calculate taxes
+    if (extractedData.grossSalary) {
+      const profile = await loadTaxpayerProfile(userId, extractedData.assessmentYear || document.assessmentYear);
+      
+      // After a job change the year's Form 16s are combined: standard
+      // deduction once, deductions merged and tax on the total salary
+      const consolidation = form16Consolidation.consolidate(
+        await storage.getTaxDocumentsByUser(userId),
+        document.assessmentYear,
+        { isNonResident: profile.isNonResident, deductionProfile: { age: profile.age } }
+      );
+      const multipleEmployers = consolidation.employers.length > 1;
+      const grossSalary = multipleEmployers ? consolidation.grossSalary : extractedData.grossSalary;
+      const deductions = multipleEmployers ? consolidation.deductions : extractedData.deductions || {};
+      const tdsDeducted = multipleEmployers ? consolidation.totalTds : extractedData.tdsDeducted || 0;
+      
+      // Section 10 exemptions and professional tax from Part B count alongside Chapter VI-A
+      const comparison = multipleEmployers ? consolidation.comparison : taxCalculator.compareRegimes(
+        extractedData.grossSalary,
+        { ...extractedData.deductions, ...salaryClaimsFromForm16(extractedData) },
+        { salary: extractedData.grossSalary, basicSalary: extractedData.basicSalary },
+        profile.isNonResident,
+        extractedData.assessmentYear || document.assessmentYear,
+        { age: profile.age }
+      );
+      if (multipleEmployers && consolidation.tdsShortfall > 0) {
+        console.log(`[PDF Processing] ${consolidation.employers.length} Form 16s for ${consolidation.assessmentYear}, TDS short by ${consolidation.tdsShortfall}`);
       }
 
-      // Calculate taxes
-      if (extractedData.grossSalary) {
-        const comparison = taxCalculator.compareRegimes(
-          extractedData.grossSalary,
-          extractedData.deductions || {}
-        );
+      await storage.createTaxCalculation({
+        userId,
+        // A combined calculation spans several Form 16s, whose TDS is
+        // credited from each document rather than from this row
+        documentId: multipleEmployers ? null : documentId,
+        assessmentYear: extractedData.assessmentYear || document.assessmentYear || '2024-25',
+        grossIncome: grossSalary.toString(),
+        totalDeductions: comparison.oldRegime.totalDeductions.toString(),
+        taxableIncome: comparison.oldRegime.taxableIncome.toString(),
+        oldRegimeTax: comparison.oldRegime.totalTax.toString(),
+        newRegimeTax: comparison.newRegime.totalTax.toString(),
+        tdsDeducted: tdsDeducted.toString(),
+        refundAmount: (tdsDeducted - comparison.newRegime.totalTax).toString()
+      });
 
-        await storage.createTaxCalculation({
-          userId,
-          documentId,
-          assessmentYear: extractedData.assessmentYear || updatedDocument?.assessmentYear || '2024-25',
-          grossIncome: extractedData.grossSalary.toString(),
-          totalDeductions: comparison.oldRegime.totalDeductions.toString(),
-          taxableIncome: comparison.oldRegime.taxableIncome.toString(),
-          oldRegimeTax: comparison.oldRegime.totalTax.toString(),
-          newRegimeTax: comparison.newRegime.totalTax.toString(),
-          tdsDeducted: extractedData.tdsDeducted?.toString() || '0',
-          refundAmount: ((extractedData.tdsDeducted || 0) - comparison.newRegime.totalTax).toString()
-        });
+      // Generate intelligent tax suggestions
+      const userProfile = {
+        age: profile.age,
+        isNonResident: profile.isNonResident,
+        hasParents: false,
+        isMetroCity: false,
+        hasHomeLoan: false,
+        investmentRiskProfile: (grossSalary > 1000000 ? 'moderate' : 'conservative') as 'moderate' | 'conservative' | 'aggressive'
+      };
 
-        // Generate intelligent tax suggestions
-        const userProfile = {
-          age: undefined,
-          hasParents: false,
-          isMetroCity: false,
-          hasHomeLoan: false,
-          investmentRiskProfile: ((extractedData.grossSalary || 0) > 1000000 ? 'moderate' : 'conservative') as 'moderate' | 'conservative' | 'aggressive'
-        };
-
-        const suggestions = taxCalculator.generateTaxSuggestions(
-          extractedData.grossSalary,
-          extractedData.deductions || {},
-          extractedData.assessmentYear || updatedDocument.assessmentYear,
-          userProfile
-        );
+      const suggestions = taxCalculator.generateTaxSuggestions(
+        grossSalary,
+        grossSalary,
+        deductions,
+        extractedData.assessmentYear || document.assessmentYear,
+        userProfile
+      );
 
-        for (const suggestion of suggestions) {
-          await storage.createTaxSuggestion({
-            userId,
-            assessmentYear: extractedData.assessmentYear || updatedDocument?.assessmentYear || '2024-25',
-            section: suggestion.section,
-            category: suggestion.category,
-            suggestion: suggestion.suggestion,
-            currentAmount: suggestion.currentAmount.toString(),
-            maxAmount: suggestion.maxAmount.toString(),
-            potentialSaving: suggestion.potentialSaving.toString(),
-            priority: suggestion.priority,
-            urgency: suggestion.urgency
-          });
-        }
-      }
-      
-      console.log(`[PDF Processing] Background processing completed successfully for document ${documentId}`);
-      
-    } catch (error) {
-      console.error(`[PDF Processing] Critical error during processing:`, error);
-      console.error(`[PDF Processing] Error stack:`, error instanceof Error ? error.stack : 'No stack trace available');
-      
-      // Mark document as failed
-      try {
-        await storage.updateTaxDocument(documentId, userId, {
-          status: 'failed',
-          processedAt: new Date()
+      for (const suggestion of suggestions) {
+        await storage.createTaxSuggestion({
+          userId,
+          assessmentYear: extractedData.assessmentYear || document.assessmentYear || '2024-25',
+          section: suggestion.section,
+          category: suggestion.category,
+          suggestion: suggestion.suggestion,
+          currentAmount: suggestion.currentAmount.toString(),
+          maxAmount: suggestion.maxAmount.toString(),
+          potentialSaving: suggestion.potentialSaving.toString(),
+          priority: suggestion.priority,
+          urgency: suggestion.urgency
         });
-        console.log(`[PDF Processing] Document marked as failed due to error`);
-      } catch (failedUpdateError) {
-        console.error(`[PDF Processing] Failed to mark document as failed:`, failedUpdateError);
       }
     }
   }
@@ -825,19 +1041,560 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Head-wise computation of total income under each regime
+  app.get('/api/computation', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const assessmentYear = (req.query.assessmentYear as string) || DEFAULT_ASSESSMENT_YEAR;
+      const computationInput = await loadIncomeComputationInput(userId, assessmentYear);
+      res.json({
+        oldRegime: incomeComputation.compute(computationInput, 'old', assessmentYear),
+        newRegime: incomeComputation.compute(computationInput, 'new', assessmentYear)
+      });
+    } catch (error) {
+      console.error("Error computing total income:", error);
+      res.status(500).json({ message: "Failed to compute total income" });
+    }
+  });
+
+  // Capital gain transaction routes
+  app.post('/api/capital-gains', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const validatedData = insertCapitalGainTransactionSchema.parse({ ...req.body, userId });
+      
+      const transaction = await storage.createCapitalGainTransaction(validatedData);
+      res.json(transaction);
+    } catch (error) {
+      console.error("Error creating capital gain transaction:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create capital gain transaction" });
+      }
+    }
+  });
+
+  app.get('/api/capital-gains', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const assessmentYear = req.query.assessmentYear as string;
+      const transactions = await storage.getCapitalGainTransactionsByUser(userId, assessmentYear);
+      res.json(transactions);
+    } catch (error) {
+      console.error("Error fetching capital gain transactions:", error);
+      res.status(500).json({ message: "Failed to fetch capital gain transactions" });
+    }
+  });
+
+  // Classify, set off and total the year's transactions
+  app.get('/api/capital-gains/summary', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const assessmentYear = (req.query.assessmentYear as string) || DEFAULT_ASSESSMENT_YEAR;
+      const transactions = await storage.getCapitalGainTransactionsByUser(userId, assessmentYear);
+      res.json(capitalGains.summarize(transactions, assessmentYear));
+    } catch (error) {
+      console.error("Error summarising capital gains:", error);
+      res.status(500).json({ message: "Failed to summarise capital gains" });
+    }
+  });
+
+  app.put('/api/capital-gains/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const transactionId = req.params.id;
+      const { id, userId: _ignored, createdAt, ...updates } = req.body;
+      
+      const updatedTransaction = await storage.updateCapitalGainTransaction(transactionId, userId, updates);
+      
+      if (!updatedTransaction) {
+        return res.status(404).json({ message: "Capital gain transaction not found" });
+      }
+      
+      res.json(updatedTransaction);
+    } catch (error) {
+      console.error("Error updating capital gain transaction:", error);
+      res.status(500).json({ message: "Failed to update capital gain transaction" });
+    }
+  });
+
+  app.delete('/api/capital-gains/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const transactionId = req.params.id;
+      
+      const deleted = await storage.deleteCapitalGainTransaction(transactionId, userId);
+      
+      if (!deleted) {
+        return res.status(404).json({ message: "Capital gain transaction not found" });
+      }
+      
+      res.json({ message: "Capital gain transaction deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting capital gain transaction:", error);
+      res.status(500).json({ message: "Failed to delete capital gain transaction" });
+    }
+  });
+
+  // House property routes
+  app.post('/api/house-properties', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const validatedData = insertHousePropertySchema.parse({ ...req.body, userId });
+      
+      const property = await storage.createHouseProperty(validatedData);
+      res.json(property);
+    } catch (error) {
+      console.error("Error creating house property:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create house property" });
+      }
+    }
+  });
+
+  app.get('/api/house-properties', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const assessmentYear = req.query.assessmentYear as string;
+      const properties = await storage.getHousePropertiesByUser(userId, assessmentYear);
+      res.json(properties);
+    } catch (error) {
+      console.error("Error fetching house properties:", error);
+      res.status(500).json({ message: "Failed to fetch house properties" });
+    }
+  });
+
+  // Income from house property under each regime
+  app.get('/api/house-properties/summary', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const assessmentYear = (req.query.assessmentYear as string) || DEFAULT_ASSESSMENT_YEAR;
+      const properties = await storage.getHousePropertiesByUser(userId, assessmentYear);
+      res.json({
+        oldRegime: houseProperty.compute(properties, 'old', assessmentYear),
+        newRegime: houseProperty.compute(properties, 'new', assessmentYear)
+      });
+    } catch (error) {
+      console.error("Error computing house property income:", error);
+      res.status(500).json({ message: "Failed to compute house property income" });
+    }
+  });
+
+  app.put('/api/house-properties/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const propertyId = req.params.id;
+      const { id, userId: _ignored, createdAt, ...updates } = req.body;
+      
+      const updatedProperty = await storage.updateHouseProperty(propertyId, userId, updates);
+      
+      if (!updatedProperty) {
+        return res.status(404).json({ message: "House property not found" });
+      }
+      
+      res.json(updatedProperty);
+    } catch (error) {
+      console.error("Error updating house property:", error);
+      res.status(500).json({ message: "Failed to update house property" });
+    }
+  });
+
+  app.delete('/api/house-properties/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const propertyId = req.params.id;
+      
+      const deleted = await storage.deleteHouseProperty(propertyId, userId);
+      
+      if (!deleted) {
+        return res.status(404).json({ message: "House property not found" });
+      }
+      
+      res.json({ message: "House property deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting house property:", error);
+      res.status(500).json({ message: "Failed to delete house property" });
+    }
+  });
+
+  // Tax payment (challan) routes
+  app.post('/api/tax-payments', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const validatedData = insertTaxPaymentSchema.parse({ ...req.body, userId });
+      
+      const payment = await storage.createTaxPayment(validatedData);
+      res.json(payment);
+    } catch (error) {
+      console.error("Error recording tax payment:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to record tax payment" });
+      }
+    }
+  });
+
+  app.get('/api/tax-payments', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const assessmentYear = req.query.assessmentYear as string;
+      const payments = await storage.getTaxPaymentsByUser(userId, assessmentYear);
+      res.json(payments);
+    } catch (error) {
+      console.error("Error fetching tax payments:", error);
+      res.status(500).json({ message: "Failed to fetch tax payments" });
+    }
+  });
+
+  app.put('/api/tax-payments/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const paymentId = req.params.id;
+      const { id, userId: _ignored, createdAt, ...updates } = req.body;
+      
+      const updatedPayment = await storage.updateTaxPayment(paymentId, userId, updates);
+      
+      if (!updatedPayment) {
+        return res.status(404).json({ message: "Tax payment not found" });
+      }
+      
+      res.json(updatedPayment);
+    } catch (error) {
+      console.error("Error updating tax payment:", error);
+      res.status(500).json({ message: "Failed to update tax payment" });
+    }
+  });
+
+  app.delete('/api/tax-payments/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const paymentId = req.params.id;
+      
+      const deleted = await storage.deleteTaxPayment(paymentId, userId);
+      
+      if (!deleted) {
+        return res.status(404).json({ message: "Tax payment not found" });
+      }
+      
+      res.json({ message: "Tax payment deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting tax payment:", error);
+      res.status(500).json({ message: "Failed to delete tax payment" });
+    }
+  });
+
+  // Advance tax instalments, net of TDS and challans paid, with 234B/234C interest
+  app.get('/api/advance-tax', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const assessmentYear = (req.query.assessmentYear as string) || DEFAULT_ASSESSMENT_YEAR;
+      const regime = req.query.regime === 'old' || req.query.regime === 'new' ? req.query.regime : undefined;
+      
+      const { estimate, payments } = await estimateAdvanceTax(userId, assessmentYear, regime);
+      res.json({ ...estimate, payments });
+    } catch (error) {
+      console.error("Error estimating advance tax:", error);
+      res.status(500).json({ message: "Failed to estimate advance tax" });
+    }
+  });
+
+  // Balance payable on filing: tax less TDS, TCS and challans, plus 234A/B/C
+  // interest and the 234F fee for the chosen filing date. Figures not given in
+  // the body come from the user's saved records.
+  app.post('/api/self-assessment', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { filingDate, totalLiability, totalIncome, tds, tcs } = req.body;
+      const assessmentYear = req.body.assessmentYear || DEFAULT_ASSESSMENT_YEAR;
+      const regime = req.body.regime === 'old' || req.body.regime === 'new' ? req.body.regime : undefined;
+      
+      if (!filingDate || isNaN(Date.parse(filingDate))) {
+        return res.status(400).json({ message: "A valid filingDate is required" });
+      }
+      
+      const { estimate, payments } = await estimateAdvanceTax(userId, assessmentYear, regime);
+      const given = (value: unknown) => value !== undefined && value !== null && value !== '';
+      
+      const result = selfAssessment.compute({
+        totalLiability: given(totalLiability) ? parseFloat(totalLiability) : estimate.projectedTax,
+        totalIncome: given(totalIncome) ? parseFloat(totalIncome) : estimate.taxableIncome,
+        grossTotalIncome: given(totalIncome) ? undefined : estimate.grossTotalIncome,
+        regime: estimate.regime,
+        tds: given(tds) ? parseFloat(tds) : estimate.tdsCredit,
+        tcs: given(tcs) ? parseFloat(tcs) : 0,
+        payments,
+        filingDate,
+        presumptive: estimate.presumptive
+      }, assessmentYear);
+      
+      res.json({ ...result, regime: estimate.regime });
+    } catch (error) {
+      console.error("Error computing self-assessment tax:", error);
+      res.status(500).json({ message: "Failed to compute self-assessment tax" });
+    }
+  });
+
+  // Import Form 26AS (TRACES text or PDF) or the AIS / TIS (JSON) uploaded to object storage
+  app.post('/api/annual-statements/import', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { fileName, assessmentYear, uploadURL, statementType } = z.object({
+        fileName: z.string().max(200).regex(/\.(json|txt|pdf)$/i, 'fileName must be a .json, .txt or .pdf file'),
+        assessmentYear: z.string().regex(/^\d{4}-\d{2}$/, 'assessmentYear must be in YYYY-YY format'),
+        uploadURL: z.string().startsWith('https://storage.googleapis.com/', 'uploadURL must be a valid Google Cloud Storage URL'),
+        statementType: z.enum(['26AS', 'AIS', 'TIS']).optional()
+      }).parse(req.body);
+      const extension = fileName.split('.').pop()!.toLowerCase();
+      
+      if (extension === 'json' && statementType === '26AS') {
+        return res.status(400).json({ message: "Form 26AS must be imported as the text or PDF export from TRACES" });
+      }
+      if (extension !== 'json' && (statementType === 'AIS' || statementType === 'TIS')) {
+        return res.status(400).json({ message: "AIS and TIS must be imported as the JSON download" });
+      }
+      
+      const objectStorageService = new ObjectStorageService();
+      let objectPath: string;
+      try {
+        objectPath = await objectStorageService.trySetObjectEntityAclPolicy(uploadURL, {
+          owner: userId,
+          visibility: "private"
+        });
+      } catch (aclError) {
+        console.error('ACL policy failed:', aclError);
+        return res.status(400).json({ message: "The provided upload URL is invalid or expired" });
+      }
+      
+      const buffer = await downloadObject(objectStorageService, objectPath, 20 * 1024 * 1024);
+      let parsed: ParsedStatement;
+      if (extension === 'json') {
+        let json: unknown;
+        try {
+          json = JSON.parse(buffer.toString('utf8'));
+        } catch {
+          return res.status(400).json({ message: "The statement is not valid JSON" });
+        }
+        parsed = annualStatement.parseJson(json, statementType as 'AIS' | 'TIS' | undefined);
+      } else {
+        const text = extension === 'pdf' ? await pdfExtractor.extractText(buffer) : buffer.toString('utf8');
+        parsed = annualStatement.parse26AS(text);
+      }
+      
+      if (parsed.tdsCredits.length === 0 && parsed.reportedIncomes.length === 0) {
+        return res.status(422).json({ message: "No TDS or income entries were found in the statement" });
+      }
+      
+      const saved = await storage.replaceAnnualStatement(userId, assessmentYear, parsed.statementType, {
+        tdsCredits: parsed.tdsCredits.map(credit => ({
+          userId,
+          assessmentYear,
+          statementType: parsed.statementType,
+          deductorName: credit.deductorName ?? null,
+          deductorTan: credit.deductorTan ?? null,
+          section: credit.section ?? null,
+          amountPaid: credit.amountPaid.toFixed(2),
+          taxDeducted: credit.taxDeducted.toFixed(2),
+          taxDeposited: credit.taxDeposited.toFixed(2)
+        })),
+        reportedIncomes: parsed.reportedIncomes.map(income => ({
+          userId,
+          assessmentYear,
+          statementType: parsed.statementType,
+          category: income.category,
+          informationCode: income.informationCode ?? null,
+          description: income.description ?? null,
+          reportedBy: income.reportedBy ?? null,
+          amount: income.amount.toFixed(2)
+        }))
+      });
+      
+      res.json({
+        statementType: parsed.statementType,
+        ...saved,
+        reconciliation: await reconcileStatements(userId, assessmentYear)
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid statement import", errors: error.errors });
+      }
+      console.error("Error importing annual statement:", error);
+      res.status(500).json({ message: "Failed to import statement" });
+    }
+  });
+
+  app.get('/api/annual-statements', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const assessmentYear = (req.query.assessmentYear as string) || DEFAULT_ASSESSMENT_YEAR;
+      const [tdsCredits, reportedIncomes] = await Promise.all([
+        storage.getTdsCreditsByUser(userId, assessmentYear),
+        storage.getReportedIncomesByUser(userId, assessmentYear)
+      ]);
+      res.json({ tdsCredits, reportedIncomes });
+    } catch (error) {
+      console.error("Error fetching annual statements:", error);
+      res.status(500).json({ message: "Failed to fetch annual statements" });
+    }
+  });
+
+  app.delete('/api/annual-statements/:statementType', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const assessmentYear = (req.query.assessmentYear as string) || DEFAULT_ASSESSMENT_YEAR;
+      const deleted = await storage.deleteAnnualStatement(userId, assessmentYear, req.params.statementType);
+      if (!deleted) {
+        return res.status(404).json({ message: "Statement not found" });
+      }
+      res.json({ message: "Statement deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting annual statement:", error);
+      res.status(500).json({ message: "Failed to delete statement" });
+    }
+  });
+
+  // Mismatches between the imported statements and Form 16, income and deductions
+  app.get('/api/reconciliation', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const assessmentYear = (req.query.assessmentYear as string) || DEFAULT_ASSESSMENT_YEAR;
+      res.json(await reconcileStatements(userId, assessmentYear));
+    } catch (error) {
+      console.error("Error reconciling statements:", error);
+      res.status(500).json({ message: "Failed to reconcile statements" });
+    }
+  });
+
+  // Every Form 16 for the year combined, for users who changed jobs
+  app.get('/api/form16-consolidation', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const assessmentYear = (req.query.assessmentYear as string) || DEFAULT_ASSESSMENT_YEAR;
+      const regime = req.query.regime === 'old' || req.query.regime === 'new' ? req.query.regime : undefined;
+      
+      const [documents, profile] = await Promise.all([
+        storage.getTaxDocumentsByUser(userId),
+        loadTaxpayerProfile(userId, assessmentYear)
+      ]);
+      res.json(form16Consolidation.consolidate(documents, assessmentYear, {
+        regime,
+        isNonResident: profile.isNonResident,
+        deductionProfile: { age: profile.age }
+      }));
+    } catch (error) {
+      console.error("Error consolidating Form 16s:", error);
+      res.status(500).json({ message: "Failed to consolidate Form 16s" });
+    }
+  });
+
+  // ITR-1 / ITR-2 JSON for the e-filing utility, built from the year's saved
+  // records. Details we do not store (address, bank account, ...) come in the
+  // body; whatever is still needed is listed in missingFields.
+  app.post('/api/itr-export', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { assessmentYear = DEFAULT_ASSESSMENT_YEAR, regime, personal, filingDate } = z.object({
+        assessmentYear: z.string().regex(/^\d{4}-\d{2}$/, 'assessmentYear must be in YYYY-YY format').optional(),
+        regime: z.enum(['old', 'new']).optional(),
+        filingDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'filingDate must be in YYYY-MM-DD format').optional(),
+        personal: z.record(z.string(), z.string().max(200)).optional()
+      }).parse(req.body);
+      
+      const [user, status, documents, incomeSources, houseProperties, capitalGainTransactions, investments, tdsCredits, taxPayments] = await Promise.all([
+        storage.getUser(userId),
+        storage.getResidentialStatus(userId, assessmentYear),
+        storage.getTaxDocumentsByUser(userId),
+        storage.getIncomeSourcesByUser(userId, assessmentYear),
+        storage.getHousePropertiesByUser(userId, assessmentYear),
+        storage.getCapitalGainTransactionsByUser(userId, assessmentYear),
+        storage.getInvestmentsByUser(userId, assessmentYear),
+        storage.getTdsCreditsByUser(userId, assessmentYear),
+        storage.getTaxPaymentsByUser(userId, assessmentYear)
+      ]);
+      
+      const result = itrExport.build({
+        user,
+        residentialStatus: status?.status as 'resident' | 'rnor' | 'nri' | undefined,
+        documents,
+        incomeSources,
+        houseProperties,
+        capitalGainTransactions,
+        investments,
+        tdsCredits,
+        taxPayments
+      }, { regime, personal, filingDate }, assessmentYear);
+      
+      if (!result.supported) {
+        return res.status(422).json({ message: result.formReasons[0], ...result });
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid export request", errors: error.errors });
+      }
+      console.error("Error exporting ITR:", error);
+      res.status(500).json({ message: "Failed to export ITR" });
+    }
+  });
+
+  // Original, belated and updated return deadlines for an assessment year
+  app.get('/api/filing-deadlines', isAuthenticated, async (req: any, res) => {
+    try {
+      const assessmentYear = (req.query.assessmentYear as string) || DEFAULT_ASSESSMENT_YEAR;
+      res.json(selfAssessment.deadlines(assessmentYear));
+    } catch (error) {
+      console.error("Error fetching filing deadlines:", error);
+      res.status(500).json({ message: "Failed to fetch filing deadlines" });
+    }
+  });
+
   // Tax calculation routes
   app.post('/api/tax-calculations/compare', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { grossIncome, deductions, assessmentYear } = req.body;
-      
-      const comparison = taxCalculator.compareRegimes(parseFloat(grossIncome), deductions || {});
+      const { grossIncome, salary, deductions, newRegimeDeductions, assessmentYear, deductionProfile } = req.body;
+      const profile = await loadTaxpayerProfile(userId, assessmentYear);
+      const taxpayerProfile = { age: profile.age, ...deductionProfile };
+      
+      // The row keeps the income the calculation started from: the figure
+      // entered, or the gross total income of the head-wise computation
+      let comparison;
+      let inputGrossIncome: number;
+      if (grossIncome === undefined || grossIncome === null || grossIncome === '') {
+        // Head-wise computation from the user's saved income
+        comparison = taxCalculator.compareComputation(
+          await loadIncomeComputationInput(userId, assessmentYear),
+          deductions || {},
+          newRegimeDeductions || {},
+          profile.isNonResident,
+          assessmentYear,
+          taxpayerProfile
+        );
+        inputGrossIncome = comparison.computation?.oldRegime.grossTotalIncome ?? comparison.oldRegime.totalIncome;
+      } else {
+        inputGrossIncome = parseFloat(grossIncome);
+        const transactions = await storage.getCapitalGainTransactionsByUser(userId, assessmentYear);
+        const properties = await storage.getHousePropertiesByUser(userId, assessmentYear);
+        comparison = taxCalculator.compareRegimes(
+          inputGrossIncome,
+          deductions || {},
+          { salary: parseFloat(salary) || 0, ...newRegimeDeductions },
+          profile.isNonResident,
+          assessmentYear,
+          taxpayerProfile,
+          transactions.length > 0 ? capitalGains.summarize(transactions, assessmentYear) : undefined,
+          properties
+        );
+      }
       
       // Save calculation
       await storage.createTaxCalculation({
         userId,
         assessmentYear,
-        grossIncome,
+        grossIncome: inputGrossIncome.toString(),
         totalDeductions: comparison.oldRegime.totalDeductions.toString(),
         taxableIncome: comparison.oldRegime.taxableIncome.toString(),
         oldRegimeTax: comparison.oldRegime.totalTax.toString(),
@@ -851,6 +1608,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Validate claimed deductions against statutory caps without running a full calculation
+  app.post('/api/deductions/validate', isAuthenticated, async (req: any, res) => {
+    try {
+      const { deductions, assessmentYear, deductionProfile } = req.body;
+      
+      if (!deductions || typeof deductions !== 'object') {
+        return res.status(400).json({ message: "deductions are required" });
+      }
+      
+      const validation = deductionValidator.validate(deductions, deductionProfile || {}, assessmentYear);
+      res.json(validation);
+    } catch (error) {
+      console.error("Error validating deductions:", error);
+      res.status(500).json({ message: "Failed to validate deductions" });
+    }
+  });
+
   app.get('/api/tax-calculations', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
@@ -881,6 +1655,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = req.user.claims.sub;
       const { 
         grossIncome, 
+        salary,
         currentDeductions, 
         assessmentYear, 
         userProfile 
@@ -891,12 +1666,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "grossIncome and assessmentYear are required" });
       }
 
+      // Fall back to the age from the saved date of birth; residential status
+      // decides the slabs and the 87A rebate
+      const profile = await loadTaxpayerProfile(userId, assessmentYear);
+
       // Generate suggestions using the enhanced engine
       const suggestions = taxCalculator.generateTaxSuggestions(
         parseFloat(grossIncome),
+        parseFloat(salary) || 0,
         currentDeductions || {},
         assessmentYear,
-        userProfile
+        { ...userProfile, age: userProfile?.age ?? profile.age, isNonResident: profile.isNonResident }
       );
 
       // Save new suggestions (optionally replace old ones for this year)
@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AdvanceTaxService } from './advanceTax';
+import { SUPPORTED_ASSESSMENT_YEARS, assessmentYearStart } from './taxRules';
+
+const advanceTax = new AdvanceTaxService();
+
+for (const assessmentYear of SUPPORTED_ASSESSMENT_YEARS) {
+  const fyStart = assessmentYearStart(assessmentYear) - 1;
+
+  test(`234B and 234C interest when no advance tax is paid for AY ${assessmentYear}`, () => {
+    const schedule = advanceTax.schedule(110000, 10000, [], assessmentYear, { asOf: new Date(`${fyStart + 1}-07-31T00:00:00Z`) });
+
+    assert.equal(schedule.assessedTax, 100000);
+    assert.deepEqual(schedule.instalments.map(i => i.dueDate),
+      [`${fyStart}-06-15`, `${fyStart}-09-15`, `${fyStart}-12-15`, `${fyStart + 1}-03-15`]);
+    assert.deepEqual(schedule.instalments.map(i => i.cumulativeDue), [15000, 45000, 75000, 100000]);
+    // 1% a month: three months on each of the first three shortfalls, one on the last
+    assert.deepEqual(schedule.instalments.map(i => i.interest234C), [450, 1350, 2250, 1000]);
+    assert.equal(schedule.interest234C, 5050);
+    // April to July of the assessment year
+    assert.equal(schedule.interest234BMonths, 4);
+    assert.equal(schedule.interest234B, 4000);
+    assert.equal(schedule.totalInterest, 9050);
+    assert.equal(schedule.balancePayable, 100000);
+  });
+
+  test(`234C on late instalments and no 234B once 90% is paid for AY ${assessmentYear}`, () => {
+    const schedule = advanceTax.schedule(100000, 0, [
+      { paymentDate: `${fyStart}-06-10`, amount: 15000 },
+      { paymentDate: `${fyStart}-09-10`, amount: 30000 },
+      { paymentDate: `${fyStart}-12-10`, amount: 20000 },
+      { paymentDate: `${fyStart + 1}-03-10`, amount: 25000 }
+    ], assessmentYear, { asOf: new Date(`${fyStart + 1}-07-31T00:00:00Z`) });
+
+    assert.deepEqual(schedule.instalments.map(i => i.status), ['paid', 'paid', 'short', 'short']);
+    assert.deepEqual(schedule.instalments.map(i => i.interest234C), [0, 0, 300, 100]);
+    assert.equal(schedule.advanceTaxPaid, 90000);
+    assert.equal(schedule.interest234B, 0);
+    assert.equal(schedule.balancePayable, 10000);
+  });
+}
+
+test('no 234C on the first two instalments within the 12% and 36% safe harbour', () => {
+  const schedule = advanceTax.schedule(100000, 0, [
+    { paymentDate: '2024-06-15', amount: 12000 },
+    { paymentDate: '2024-09-15', amount: 24000 }
+  ], '2025-26', { asOf: new Date('2024-10-01T00:00:00Z') });
+
+  assert.deepEqual(schedule.instalments.map(i => i.shortfall), [3000, 9000, 39000, 64000]);
+  assert.deepEqual(schedule.instalments.map(i => i.interest234C), [0, 0, 0, 0]);
+  assert.deepEqual(schedule.instalments.map(i => i.status), ['short', 'short', 'upcoming', 'upcoming']);
+});
+
+test('advance tax is not due below ₹10,000 after TDS', () => {
+  const schedule = advanceTax.schedule(59999, 50000, [], '2025-26', { asOf: new Date('2025-07-31T00:00:00Z') });
+  assert.equal(schedule.advanceTaxApplicable, false);
+  assert.equal(schedule.totalInterest, 0);
+});
+
+test('presumptive businesses pay in a single instalment by 15 March', () => {
+  const schedule = advanceTax.schedule(100000, 0, [], '2025-26', { presumptive: true, asOf: new Date('2025-07-31T00:00:00Z') });
+  assert.deepEqual(schedule.instalments.map(i => i.dueDate), ['2025-03-15']);
+  assert.equal(schedule.interest234C, 1000);
+});
+
+test('the estimate uses the cheaper regime on the computed income', () => {
+  const estimate = advanceTax.estimate({
+    computation: { salaries: [{ description: 'Employer', amount: 1500000 }] },
+    tdsCredit: [{ description: 'TDS on salary', amount: 50000 }]
+  }, '2025-26', new Date('2024-05-01T00:00:00Z'));
+
+  // ₹14.25 lakh in the new regime
+  assert.equal(estimate.regime, 'new');
+  assert.equal(estimate.taxableIncome, 1425000);
+  assert.equal(estimate.projectedTax, 130000);
+  assert.equal(estimate.assessedTax, 80000);
+  assert.equal(estimate.totalInterest, 0);
+});
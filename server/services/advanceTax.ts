@@ -0,0 +1,255 @@
+import { DEFAULT_ASSESSMENT_YEAR, assessmentYearStart } from "./taxRules";
+import { TaxCalculatorService } from "./taxCalculator";
+import type { DeductionProfile, NewRegimeDeductionInput } from "./deductionValidator";
+import type { IncomeComputationInput } from "./incomeComputation";
+import type { TaxDocument, TaxCalculation, TdsCredit } from "@shared/schema";
+
+export interface TaxPaymentInput {
+  id?: string;
+  paymentType?: string; // advance_tax, self_assessment
+  paymentDate: string | Date;
+  amount: number | string;
+}
+
+export interface TdsCreditLine {
+  documentId?: string;
+  description: string;
+  amount: number;
+}
+
+export interface AdvanceTaxInstalment {
+  dueDate: string; // YYYY-MM-DD
+  cumulativePercent: number;
+  cumulativeDue: number; // Advance tax due by this date, cumulatively
+  paidByDueDate: number;
+  shortfall: number;
+  interest234C: number;
+  status: 'paid' | 'short' | 'upcoming';
+}
+
+export interface AdvanceTaxSchedule {
+  assessmentYear: string;
+  projectedTax: number; // Total tax on the year's projected income
+  tdsCredit: number;
+  assessedTax: number; // Tax left after TDS, on which advance tax is payable
+  advanceTaxApplicable: boolean;
+  presumptive: boolean; // 44AD / 44ADA: a single instalment by 15 March
+  instalments: AdvanceTaxInstalment[];
+  advanceTaxPaid: number; // Paid by 31 March of the financial year
+  interest234B: number;
+  interest234BMonths: number;
+  interest234C: number;
+  totalInterest: number;
+  balancePayable: number; // Tax still unpaid, before interest
+  interestCalculatedTo: string;
+}
+
+export interface AdvanceTaxEstimate extends AdvanceTaxSchedule {
+  regime: 'old' | 'new';
+  grossTotalIncome: number;
+  taxableIncome: number;
+  tdsDetails: TdsCreditLine[];
+}
+
+export interface AdvanceTaxInput {
+  computation: IncomeComputationInput;
+  deductions?: { [section: string]: number };
+  newRegimeDeductions?: NewRegimeDeductionInput;
+  deductionProfile?: DeductionProfile;
+  isNonResident?: boolean;
+  regime?: 'old' | 'new'; // Defaults to the cheaper regime
+  tdsCredit?: TdsCreditLine[];
+  payments?: TaxPaymentInput[];
+}
+
+// Cumulative share of the year's tax due by each date (section 211)
+const INSTALMENTS = [
+  { month: 6, day: 15, percent: 15, interestMonths: 3 },
+  { month: 9, day: 15, percent: 45, interestMonths: 3 },
+  { month: 12, day: 15, percent: 75, interestMonths: 3 },
+  { month: 3, day: 15, percent: 100, interestMonths: 1 }
+];
+
+// No 234C interest on the first two instalments if at least this much was paid
+const SAFE_HARBOUR_PERCENT: Record<number, number> = { 15: 12, 45: 36 };
+
+// Advance tax is due only when the year's tax after TDS reaches this (section 208)
+const ADVANCE_TAX_THRESHOLD = 10000;
+
+// Interest is simple interest of 1% per month or part of a month
+const INTEREST_RATE_PER_MONTH = 0.01;
+
+export class AdvanceTaxService {
+  private taxCalculator = new TaxCalculatorService();
+
+  estimate(
+    input: AdvanceTaxInput,
+    assessmentYear: string = DEFAULT_ASSESSMENT_YEAR,
+    asOf: Date = new Date()
+  ): AdvanceTaxEstimate {
+    const comparison = this.taxCalculator.compareComputation(
+      input.computation,
+      input.deductions || {},
+      input.newRegimeDeductions || {},
+      input.isNonResident || false,
+      assessmentYear,
+      input.deductionProfile || {}
+    );
+    const regime = input.regime ?? comparison.recommendedRegime;
+    const result = regime === 'old' ? comparison.oldRegime : comparison.newRegime;
+    const sheet = regime === 'old' ? comparison.computation?.oldRegime : comparison.computation?.newRegime;
+    const tdsDetails = input.tdsCredit ?? [];
+
+    const schedule = this.schedule(
+      result.totalTax,
+      tdsDetails.reduce((sum, line) => sum + line.amount, 0),
+      input.payments ?? [],
+      assessmentYear,
+      { presumptive: (input.computation.presumptiveBusiness ?? []).length > 0, asOf }
+    );
+
+    return {
+      ...schedule,
+      regime,
+      grossTotalIncome: sheet?.grossTotalIncome ?? result.totalIncome,
+      taxableIncome: result.taxableIncome,
+      tdsDetails
+    };
+  }
+
+  // Instalment schedule and interest for a known tax figure
+  schedule(
+    projectedTax: number,
+    tdsCredit: number,
+    payments: TaxPaymentInput[],
+    assessmentYear: string = DEFAULT_ASSESSMENT_YEAR,
+    options: { presumptive?: boolean; asOf?: Date } = {}
+  ): AdvanceTaxSchedule {
+    const fyStartYear = assessmentYearStart(assessmentYear) - 1;
+    const asOf = this.toISODate(options.asOf ?? new Date());
+    const presumptive = options.presumptive ?? false;
+
+    const assessedTax = Math.max(0, Math.round(projectedTax - tdsCredit));
+    const advanceTaxApplicable = assessedTax >= ADVANCE_TAX_THRESHOLD;
+    const advancePayments = payments
+      .filter(p => (p.paymentType ?? 'advance_tax') === 'advance_tax')
+      .map(p => ({ date: this.toISODate(p.paymentDate), amount: Number(p.amount) || 0 }));
+    const paidBy = (date: string) => advancePayments
+      .filter(p => p.date <= date)
+      .reduce((sum, p) => sum + p.amount, 0);
+
+    // Presumptive businesses pay the whole year's tax in one instalment
+    const instalments = (presumptive ? INSTALMENTS.slice(-1) : INSTALMENTS).map((instalment): AdvanceTaxInstalment => {
+      const year = instalment.month >= 4 ? fyStartYear : fyStartYear + 1;
+      const dueDate = `${year}-${String(instalment.month).padStart(2, '0')}-${String(instalment.day).padStart(2, '0')}`;
+      const cumulativeDue = advanceTaxApplicable ? Math.round(assessedTax * instalment.percent / 100) : 0;
+      const paidByDueDate = paidBy(dueDate);
+      const shortfall = Math.max(0, cumulativeDue - paidByDueDate);
+
+      let interest234C = 0;
+      const safeHarbour = SAFE_HARBOUR_PERCENT[instalment.percent];
+      const withinSafeHarbour = !presumptive && safeHarbour !== undefined && paidByDueDate >= assessedTax * safeHarbour / 100;
+      if (dueDate < asOf && shortfall > 0 && !withinSafeHarbour) {
+        interest234C = Math.round(this.roundDownToHundred(shortfall) * INTEREST_RATE_PER_MONTH * instalment.interestMonths);
+      }
+
+      return {
+        dueDate,
+        cumulativePercent: instalment.percent,
+        cumulativeDue,
+        paidByDueDate,
+        shortfall,
+        interest234C,
+        status: dueDate >= asOf ? 'upcoming' : shortfall > 0 ? 'short' : 'paid'
+      };
+    });
+
+    // Section 234B: interest from 1 April of the assessment year when less than
+    // 90% of the assessed tax was paid as advance tax
+    const yearEnd = `${fyStartYear + 1}-03-31`;
+    const advanceTaxPaid = paidBy(yearEnd);
+    let interest234B = 0;
+    let interest234BMonths = 0;
+    if (advanceTaxApplicable && asOf > yearEnd && advanceTaxPaid < assessedTax * 0.9) {
+      const [year, month] = asOf.split('-').map(Number);
+      interest234BMonths = (year - (fyStartYear + 1)) * 12 + (month - 4) + 1;
+      interest234B = Math.round(
+        this.roundDownToHundred(assessedTax - advanceTaxPaid) * INTEREST_RATE_PER_MONTH * interest234BMonths
+      );
+    }
+
+    const interest234C = instalments.reduce((sum, instalment) => sum + instalment.interest234C, 0);
+
+    return {
+      assessmentYear,
+      projectedTax: Math.round(projectedTax),
+      tdsCredit: Math.round(tdsCredit),
+      assessedTax,
+      advanceTaxApplicable,
+      presumptive,
+      instalments,
+      advanceTaxPaid,
+      interest234B,
+      interest234BMonths,
+      interest234C,
+      totalInterest: interest234B + interest234C,
+      balancePayable: Math.max(0, assessedTax - paidBy(asOf)),
+      interestCalculatedTo: asOf
+    };
+  }
+
+  // TDS already credited for the year: one line per Form 16, preferring the
+  // figure saved with the document's tax calculation, plus TDS on other income
+  // from an imported 26AS or AIS
+  tdsCreditFromRecords(
+    records: { documents?: TaxDocument[]; calculations?: TaxCalculation[]; tdsCredits?: TdsCredit[] },
+    assessmentYear: string
+  ): TdsCreditLine[] {
+    const lines: TdsCreditLine[] = [];
+    const seen = new Set<string>();
+
+    for (const calculation of records.calculations ?? []) {
+      if (calculation.assessmentYear !== assessmentYear || !calculation.documentId || seen.has(calculation.documentId)) continue;
+      const amount = parseFloat(calculation.tdsDeducted ?? '') || 0;
+      if (amount <= 0) continue;
+      seen.add(calculation.documentId);
+      const document = records.documents?.find(d => d.id === calculation.documentId);
+      lines.push({ documentId: calculation.documentId, description: this.documentLabel(document), amount });
+    }
+
+    for (const document of records.documents ?? []) {
+      if (document.assessmentYear !== assessmentYear || seen.has(document.id)) continue;
+      const amount = Number((document.extractedData as { tdsDeducted?: number } | null)?.tdsDeducted) || 0;
+      if (amount <= 0) continue;
+      seen.add(document.id);
+      lines.push({ documentId: document.id, description: this.documentLabel(document), amount });
+    }
+
+    // Salary TDS is already counted from Form 16; 26AS is preferred over the AIS
+    const credits = (records.tdsCredits ?? []).filter(c => c.assessmentYear === assessmentYear && c.section && c.section !== '192');
+    const statementType = credits.some(c => c.statementType === '26AS') ? '26AS' : 'AIS';
+    for (const credit of credits.filter(c => c.statementType === statementType)) {
+      const amount = parseFloat(credit.taxDeposited ?? '') || 0;
+      if (amount <= 0) continue;
+      lines.push({
+        description: `TDS u/s ${credit.section ?? ''} (${credit.deductorName || credit.deductorTan || statementType})`,
+        amount
+      });
+    }
+
+    return lines;
+  }
+
+  private documentLabel(document?: TaxDocument): string {
+    const employer = (document?.extractedData as { employerName?: string } | null)?.employerName;
+    return employer ? `TDS on salary (${employer})` : `TDS on salary${document ? ` (${document.fileName})` : ''}`;
+  }
+
+  private roundDownToHundred(amount: number): number {
+    return Math.floor(amount / 100) * 100;
+  }
+
+  private toISODate(value: string | Date): string {
+    return typeof value === 'string' ? value.slice(0, 10) : value.toISOString().slice(0, 10);
+  }
+}
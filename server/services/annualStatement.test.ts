@@ -0,0 +1,115 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AnnualStatementService } from './annualStatement';
+import type { TdsCredit, ReportedIncome, TaxDocument, IncomeSource, Investment, HouseProperty } from '@shared/schema';
+
+const annualStatement = new AnnualStatementService();
+
+test('26AS text export is read by deductor and section', () => {
+  const parsed = annualStatement.parse26AS([
+    'PART A - Details of Tax Deducted at Source',
+    '1^ACME LIMITED^AAAA11111A^1200000.00^100000.00^90000.00',
+    '1^192^31-Mar-2025^F^31-Mar-2025^-^1200000.00^100000.00^90000.00',
+    '2^STATE BANK^BBBB22222B^50000.00^5000.00^5000.00',
+    'PART C - Details of Tax Paid (other than TDS or TCS)',
+    '1^0001^1000.00^25000.00^0.00^0.00'
+  ].join('\n'));
+
+  assert.equal(parsed.statementType, '26AS');
+  assert.deepEqual(parsed.tdsCredits, [
+    { deductorName: 'ACME LIMITED', deductorTan: 'AAAA11111A', section: '192', amountPaid: 1200000, taxDeducted: 100000, taxDeposited: 90000 },
+    // Kept at its summary totals, without transaction rows
+    { deductorName: 'STATE BANK', deductorTan: 'BBBB22222B', amountPaid: 50000, taxDeducted: 5000, taxDeposited: 5000 }
+  ]);
+  assert.deepEqual(parsed.reportedIncomes.map(income => [income.category, income.amount]), [['salary', 1200000]]);
+});
+
+test('AIS JSON lines are read as TDS credits and reported income', () => {
+  const parsed = annualStatement.parseJson({
+    tds: [{ informationCode: 'TDS-194A', informationSource: 'STATE BANK (BBBB22222B)', amountPaid: '50,000.00', tdsDeducted: 5000 }],
+    sft: [
+      { informationCode: 'SFT-016(SB)', informationSource: 'STATE BANK', amount: 8000 },
+      { informationCode: 'SFT-017', informationSource: 'BROKER', amount: 500000 },
+      { informationCode: 'SFT-005', informationDescription: 'Purchase of time deposits', amount: 100000 }
+    ]
+  });
+
+  assert.equal(parsed.statementType, 'AIS');
+  assert.deepEqual(parsed.tdsCredits, [
+    { deductorName: 'STATE BANK', deductorTan: 'BBBB22222B', section: '194A', amountPaid: 50000, taxDeducted: 5000, taxDeposited: 5000 }
+  ]);
+  assert.deepEqual(parsed.reportedIncomes.map(income => [income.category, income.amount]),
+    [['interest_deposit', 50000], ['interest_savings', 8000], ['securities_sale', 500000]]);
+});
+
+const credit = (statementType: string, deductorName: string, deductorTan: string, section: string, amountPaid: number, taxDeducted: number, taxDeposited: number) =>
+  ({ statementType, deductorName, deductorTan, section, amountPaid: String(amountPaid), taxDeducted: String(taxDeducted), taxDeposited: String(taxDeposited) }) as TdsCredit;
+
+const reported = (statementType: string, category: string, informationCode: string, reportedBy: string, amount: number) =>
+  ({ statementType, category, informationCode, reportedBy, amount: String(amount) }) as ReportedIncome;
+
+test('26AS and AIS are reconciled against the Form 16 and declared income', () => {
+  const result = annualStatement.reconcile({
+    tdsCredits: [
+      credit('26AS', 'ACME LIMITED', 'AAAA11111A', '192', 1200000, 100000, 90000),
+      credit('26AS', 'STATE BANK', 'BBBB22222B', '194A', 50000, 5000, 5000),
+      credit('AIS', 'ACME LIMITED', 'AAAA11111A', '192', 1200000, 100000, 100000)
+    ],
+    reportedIncomes: [
+      reported('AIS', 'salary', 'TDS-192', 'ACME LIMITED', 1200000),
+      // The same deposit interest through TDS and SFT is counted once
+      reported('AIS', 'interest_deposit', 'TDS-194A', 'STATE BANK', 50000),
+      reported('AIS', 'interest_deposit', 'SFT-016', 'STATE BANK', 50000),
+      reported('AIS', 'interest_savings', 'SFT-016(SB)', 'STATE BANK', 8000),
+      reported('AIS', 'rent', 'TDS-194IB', 'TENANT', 240000),
+      reported('AIS', 'securities_sale', 'SFT-017', 'BROKER', 500000)
+    ],
+    documents: [{
+      id: 'form16', fileName: 'form16.pdf', assessmentYear: '2025-26', status: 'completed',
+      extractedData: { employerName: 'Acme Ltd', employerTan: 'AAAA11111A', tdsDeducted: 100000, grossSalary: 1200000 }
+    } as TaxDocument],
+    incomeSources: [
+      { source: 'interest', description: 'FD interest', amount: '30000' } as IncomeSource,
+      // Rent also recorded on the property is not counted twice
+      { source: 'rental', description: 'Flat rent', amount: '240000' } as IncomeSource
+    ],
+    houseProperties: [{ name: 'Flat', occupancy: 'let_out', annualRent: '240000' } as HouseProperty],
+    investments: [{ section: '80TTA', amount: '10000' } as Investment],
+    capitalGainTransactionCount: 0
+  }, '2025-26');
+
+  // TDS is taken from 26AS ahead of the AIS
+  assert.equal(result.tdsStatement, '26AS');
+  assert.equal(result.incomeStatement, 'AIS');
+  assert.equal(result.totalTdsCredited, 95000);
+  assert.equal(result.totalTdsInForm16, 100000);
+  assert.deepEqual(result.deductors.map(d => [d.section, d.status, d.form16DocumentId]),
+    [['192', 'mismatch', 'form16'], ['194A', 'matched', undefined]]);
+
+  assert.deepEqual(result.incomes.map(line => [line.label, line.reported, line.declared]), [
+    ['Salary', 1200000, 1200000],
+    ['Interest', 58000, 30000],
+    ['Rent received', 240000, 240000],
+    ['Sale of securities and mutual funds', 500000, 0]
+  ]);
+
+  assert.deepEqual(result.issues.map(issue => [issue.type, issue.difference]), [
+    ['missing_tds_credit', -10000],
+    ['unreported_income', 28000],
+    ['unreported_capital_gains', 500000],
+    ['deduction_exceeds_reported', -2000]
+  ]);
+});
+
+test('deducted tax not deposited and salary TDS without a Form 16 are flagged', () => {
+  const result = annualStatement.reconcile({
+    tdsCredits: [
+      credit('26AS', 'STATE BANK', 'BBBB22222B', '194A', 50000, 5000, 3000),
+      credit('26AS', 'OTHER EMPLOYER', 'CCCC33333C', '192', 600000, 20000, 20000)
+    ],
+    reportedIncomes: []
+  }, '2025-26');
+
+  assert.deepEqual(result.issues.map(issue => issue.type), ['tds_not_deposited', 'tds_without_form16']);
+  assert.deepEqual(result.deductors.map(d => d.status), ['mismatch', 'unmatched']);
+});
@@ -0,0 +1,594 @@
+import type {
+  TdsCredit,
+  ReportedIncome,
+  TaxDocument,
+  IncomeSource,
+  Investment,
+  HouseProperty
+} from "@shared/schema";
+
+export type StatementType = '26AS' | 'AIS' | 'TIS';
+
+export type ReportedIncomeCategory =
+  | 'salary'
+  | 'interest_savings'
+  | 'interest_deposit'
+  | 'dividend'
+  | 'rent'
+  | 'securities_sale'
+  | 'other';
+
+export interface ParsedTdsCredit {
+  deductorName?: string;
+  deductorTan?: string;
+  section?: string;
+  amountPaid: number;
+  taxDeducted: number;
+  taxDeposited: number;
+}
+
+export interface ParsedReportedIncome {
+  category: ReportedIncomeCategory;
+  informationCode?: string;
+  description?: string;
+  reportedBy?: string;
+  amount: number;
+}
+
+export interface ParsedStatement {
+  statementType: StatementType;
+  tdsCredits: ParsedTdsCredit[];
+  reportedIncomes: ParsedReportedIncome[];
+}
+
+export type ReconciliationIssueType =
+  | 'missing_tds_credit' // Form 16 shows more TDS than is credited to the PAN
+  | 'tds_not_deposited' // Deducted but not deposited by the deductor
+  | 'tds_without_form16' // Salary TDS credited without a matching Form 16
+  | 'salary_mismatch'
+  | 'unreported_income' // Reported by a third party but not declared
+  | 'deduction_exceeds_reported'
+  | 'unreported_capital_gains';
+
+export interface ReconciliationIssue {
+  type: ReconciliationIssueType;
+  severity: 'high' | 'medium' | 'low';
+  message: string;
+  reported: number;
+  declared: number;
+  difference: number;
+  deductorTan?: string;
+  category?: ReportedIncomeCategory;
+}
+
+export interface DeductorReconciliation {
+  deductorName?: string;
+  deductorTan?: string;
+  section?: string;
+  amountPaid: number;
+  taxDeducted: number;
+  taxDeposited: number;
+  form16DocumentId?: string;
+  form16Tds?: number;
+  status: 'matched' | 'mismatch' | 'unmatched';
+}
+
+export interface IncomeReconciliation {
+  category: ReportedIncomeCategory;
+  label: string;
+  reported: number;
+  declared: number;
+  difference: number; // Positive when more was reported than declared
+}
+
+export interface ReconciliationResult {
+  assessmentYear: string;
+  tdsStatement?: StatementType;
+  incomeStatement?: StatementType;
+  deductors: DeductorReconciliation[];
+  incomes: IncomeReconciliation[];
+  totalTdsCredited: number;
+  totalTdsInForm16: number;
+  issues: ReconciliationIssue[];
+}
+
+// Lines of the income comparison. Interest is compared in total since users
+// rarely split it by account type.
+const INCOME_LINES: { label: string; categories: ReportedIncomeCategory[] }[] = [
+  { label: 'Salary', categories: ['salary'] },
+  { label: 'Interest', categories: ['interest_savings', 'interest_deposit'] },
+  { label: 'Dividend', categories: ['dividend'] },
+  { label: 'Rent received', categories: ['rent'] },
+  { label: 'Sale of securities and mutual funds', categories: ['securities_sale'] },
+  { label: 'Other income', categories: ['other'] }
+];
+
+// Income a TDS section stands for, where the amount paid is income
+const SECTION_CATEGORIES: Record<string, ReportedIncomeCategory> = {
+  '192': 'salary',
+  '193': 'interest_deposit',
+  '194': 'dividend',
+  '194A': 'interest_deposit',
+  '194I': 'rent',
+  '194IB': 'rent',
+  '194K': 'dividend' // Income from mutual fund units
+};
+
+// Sections whose amount paid is not the payee's income (purchases, sales, cash withdrawals)
+const NON_INCOME_SECTIONS = ['194IA', '194N', '194Q', '206C'];
+
+// TDS is credited first from 26AS; income is compared against the deduplicated TIS first
+const TDS_STATEMENT_ORDER: StatementType[] = ['26AS', 'AIS'];
+const INCOME_STATEMENT_ORDER: StatementType[] = ['TIS', 'AIS', '26AS'];
+
+// Differences up to these amounts are rounding, not mismatches
+const TDS_TOLERANCE = 10;
+const INCOME_TOLERANCE = 100;
+
+const TAN_PATTERN = /\b([A-Z]{4}\d{5}[A-Z])\b/;
+const SECTION_PATTERN = /^(19[0-9][A-Z]{0,3}|206C[A-Z]{0,3})$/;
+const AMOUNT_PATTERN = /^-?[\d,]+\.\d{2}$/;
+
+export class AnnualStatementService {
+  // AIS or TIS JSON downloaded from the compliance portal. Field names vary
+  // between versions, so any object with an information code or category and
+  // an amount is read as one line.
+  parseJson(json: unknown, statementType?: StatementType): ParsedStatement {
+    const type: StatementType = statementType ?? (this.looksLikeTis(json) ? 'TIS' : 'AIS');
+    const tdsByKey = new Map<string, ParsedTdsCredit>();
+    const reportedIncomes: ParsedReportedIncome[] = [];
+
+    for (const line of this.jsonLines(json)) {
+      const code = this.text(line, ['informationCode', 'infoCode', 'information_code', 'code']);
+      const category = this.text(line, ['informationCategory', 'category', 'infoCategory', 'informationDescription', 'description']);
+      const amount = this.number(line, ['derivedValue', 'processedValue', 'amountPaid', 'amountPaidCredited', 'reportedValue', 'amount', 'value']);
+      if ((!code && !category) || amount === undefined) continue;
+
+      const source = this.text(line, ['informationSource', 'sourceName', 'deductorName', 'reportedBy', 'name']);
+      const tan = this.text(line, ['tan', 'deductorTan', 'sourceTan', 'tanOfDeductor'])?.toUpperCase()
+        ?? source?.toUpperCase().match(TAN_PATTERN)?.[1];
+      const reportedBy = source?.replace(/\s*\(?[A-Z]{4}\d{5}[A-Z]\)?\s*/, ' ').trim() || undefined;
+      const taxDeducted = this.number(line, ['tdsDeducted', 'taxDeducted', 'tdsAmount', 'tds', 'tcsCollected']) ?? 0;
+      const taxDeposited = this.number(line, ['tdsDeposited', 'taxDeposited']) ?? taxDeducted;
+
+      const section = code?.toUpperCase().match(/^(?:TDS|TCS)-?\s*(\w+)/)?.[1]
+        ?? (code?.toUpperCase().startsWith('TCS') ? '206C' : undefined);
+      if (section && (taxDeducted > 0 || code?.toUpperCase().startsWith('TDS'))) {
+        this.addTds(tdsByKey, { deductorName: reportedBy, deductorTan: tan, section, amountPaid: amount, taxDeducted, taxDeposited });
+      }
+
+      const incomeCategory = section
+        ? this.sectionCategory(section)
+        : this.categoryFor(code, category);
+      if (incomeCategory) {
+        reportedIncomes.push({
+          category: incomeCategory,
+          informationCode: code,
+          description: category ?? code,
+          reportedBy,
+          amount
+        });
+      }
+    }
+
+    return { statementType: type, tdsCredits: Array.from(tdsByKey.values()), reportedIncomes };
+  }
+
+  // Form 26AS from TRACES, either the caret-delimited text export or the text
+  // of the PDF. Deductor summary rows carry the TAN; the transaction rows under
+  // them carry the section.
+  parse26AS(text: string): ParsedStatement {
+    const tdsByKey = new Map<string, ParsedTdsCredit>();
+    let deductor: { name?: string; tan: string; summary: number[]; hasDetails: boolean } | undefined;
+    let inTdsPart = true;
+
+    const flushSummary = () => {
+      // Deductors listed without transaction rows are kept at their totals
+      if (deductor && !deductor.hasDetails && deductor.summary.length >= 3) {
+        const [amountPaid, taxDeducted, taxDeposited] = deductor.summary.slice(-3);
+        this.addTds(tdsByKey, { deductorName: deductor.name, deductorTan: deductor.tan, amountPaid, taxDeducted, taxDeposited });
+      }
+    };
+
+    for (const rawLine of text.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (!line) continue;
+
+      // Parts A, A1, A2 and B hold TDS and TCS; later parts are challans,
+      // refunds and demands
+      const part = line.replace(/^\^+/, '').match(/^PART\s*-?\s*([A-Z]\d?)\b/i)?.[1]?.toUpperCase();
+      if (part) {
+        flushSummary();
+        deductor = undefined;
+        inTdsPart = part.startsWith('A') || part === 'B';
+        continue;
+      }
+      if (!inTdsPart) continue;
+
+      const fields = this.fields(line);
+      const amounts = fields.filter(field => AMOUNT_PATTERN.test(field)).map(field => this.parseAmount(field));
+      const tanIndex = fields.findIndex(field => TAN_PATTERN.test(field) && field.length === 10);
+
+      if (tanIndex >= 0) {
+        flushSummary();
+        const name = fields.slice(0, tanIndex).filter(field => !/^\d+$/.test(field)).join(' ').trim();
+        deductor = { name: name || undefined, tan: fields[tanIndex], summary: amounts, hasDetails: false };
+        continue;
+      }
+
+      // The serial number comes first, so a section is never the first field
+      const section = fields.find((field, index) => index > 0 && SECTION_PATTERN.test(field));
+      if (deductor && section && amounts.length >= 3) {
+        const [amountPaid, taxDeducted, taxDeposited] = amounts.slice(-3);
+        deductor.hasDetails = true;
+        this.addTds(tdsByKey, { deductorName: deductor.name, deductorTan: deductor.tan, section, amountPaid, taxDeducted, taxDeposited });
+      }
+    }
+    flushSummary();
+
+    const tdsCredits = Array.from(tdsByKey.values());
+    const reportedIncomes = tdsCredits
+      .filter(credit => credit.section && this.sectionCategory(credit.section))
+      .map((credit): ParsedReportedIncome => ({
+        category: this.sectionCategory(credit.section!)!,
+        informationCode: `TDS-${credit.section}`,
+        description: `Paid or credited u/s ${credit.section}`,
+        reportedBy: credit.deductorName,
+        amount: credit.amountPaid
+      }));
+
+    return { statementType: '26AS', tdsCredits, reportedIncomes };
+  }
+
+  // Compare the statements against what the user has declared for the year
+  reconcile(
+    records: {
+      tdsCredits: TdsCredit[];
+      reportedIncomes: ReportedIncome[];
+      documents?: TaxDocument[];
+      incomeSources?: IncomeSource[];
+      investments?: Investment[];
+      houseProperties?: HouseProperty[];
+      capitalGainTransactionCount?: number;
+    },
+    assessmentYear: string
+  ): ReconciliationResult {
+    const issues: ReconciliationIssue[] = [];
+    const tdsStatement = TDS_STATEMENT_ORDER.find(type => records.tdsCredits.some(c => c.statementType === type));
+    const incomeStatement = INCOME_STATEMENT_ORDER.find(type => records.reportedIncomes.some(i => i.statementType === type));
+    const credits = records.tdsCredits.filter(c => c.statementType === tdsStatement);
+    const incomes = records.reportedIncomes.filter(i => i.statementType === incomeStatement);
+
+    // Salary TDS: each Form 16 against the employer's credit
+    const form16s = (records.documents ?? [])
+      .filter(d => d.assessmentYear === assessmentYear && d.status === 'completed' && d.extractedData)
+      .map(d => {
+        const data = d.extractedData as { employerName?: string; employerTan?: string; tdsDeducted?: number; grossSalary?: number };
+        return {
+          id: d.id,
+          employerName: data.employerName,
+          employerTan: data.employerTan?.toUpperCase(),
+          tds: Number(data.tdsDeducted) || 0,
+          grossSalary: Number(data.grossSalary) || 0
+        };
+      });
+    const deductors: DeductorReconciliation[] = credits.map(credit => ({
+      deductorName: credit.deductorName ?? undefined,
+      deductorTan: credit.deductorTan ?? undefined,
+      section: credit.section ?? undefined,
+      amountPaid: this.toAmount(credit.amountPaid),
+      taxDeducted: this.toAmount(credit.taxDeducted),
+      taxDeposited: this.toAmount(credit.taxDeposited),
+      status: 'matched'
+    }));
+    const salaryDeductors = deductors.filter(d => d.section === '192');
+    const unmatchedForm16s = [...form16s];
+    // The TAN from Part A of the Form 16 is exact; names are the fallback
+    const matchers = [
+      (form16: typeof form16s[number], deductor: DeductorReconciliation) =>
+        !!form16.employerTan && form16.employerTan === deductor.deductorTan?.toUpperCase(),
+      (form16: typeof form16s[number], deductor: DeductorReconciliation) =>
+        !(form16.employerTan && deductor.deductorTan) && this.sameDeductor(form16.employerName, deductor.deductorName)
+    ];
+    for (const matches of matchers) {
+      for (const deductor of salaryDeductors.filter(d => !d.form16DocumentId)) {
+        const index = unmatchedForm16s.findIndex(form16 => matches(form16, deductor));
+        if (index >= 0) {
+          const [form16] = unmatchedForm16s.splice(index, 1);
+          deductor.form16DocumentId = form16.id;
+          deductor.form16Tds = form16.tds;
+        }
+      }
+    }
+    // A single Form 16 and a single employer in the statement belong together
+    const unmatchedDeductors = salaryDeductors.filter(d => !d.form16DocumentId);
+    if (unmatchedDeductors.length === 1 && unmatchedForm16s.length === 1) {
+      unmatchedDeductors[0].form16DocumentId = unmatchedForm16s[0].id;
+      unmatchedDeductors[0].form16Tds = unmatchedForm16s[0].tds;
+      unmatchedForm16s.pop();
+    }
+
+    for (const deductor of deductors) {
+      const name = deductor.deductorName || deductor.deductorTan || 'Deductor';
+      if (deductor.form16Tds !== undefined && deductor.form16Tds - deductor.taxDeposited > TDS_TOLERANCE) {
+        deductor.status = 'mismatch';
+        issues.push(this.issue('missing_tds_credit', 'high',
+          `Form 16 from ${name} shows TDS of ₹${this.format(deductor.form16Tds)} but only ₹${this.format(deductor.taxDeposited)} is credited to your PAN. Ask the employer to correct their TDS return before you file.`,
+          deductor.taxDeposited, deductor.form16Tds, { deductorTan: deductor.deductorTan }));
+      } else if (deductor.taxDeducted - deductor.taxDeposited > TDS_TOLERANCE) {
+        deductor.status = 'mismatch';
+        issues.push(this.issue('tds_not_deposited', 'high',
+          `${name} deducted ₹${this.format(deductor.taxDeducted)} but deposited only ₹${this.format(deductor.taxDeposited)}. Credit is given only for tax deposited.`,
+          deductor.taxDeducted, deductor.taxDeposited, { deductorTan: deductor.deductorTan }));
+      }
+      if (deductor.section === '192' && deductor.form16Tds === undefined) {
+        deductor.status = 'unmatched';
+        issues.push(this.issue('tds_without_form16', 'low',
+          `Salary TDS of ₹${this.format(deductor.taxDeducted)} from ${name} has no matching Form 16. Upload it so the salary is included.`,
+          deductor.taxDeducted, 0, { deductorTan: deductor.deductorTan }));
+      }
+    }
+    if (tdsStatement) {
+      for (const form16 of unmatchedForm16s.filter(f => f.tds > 0)) {
+        issues.push(this.issue('missing_tds_credit', 'high',
+          `TDS of ₹${this.format(form16.tds)} in the Form 16 from ${form16.employerName || 'your employer'} does not appear in ${tdsStatement}.`,
+          0, form16.tds));
+      }
+    }
+
+    // Reported income against declared income, by category
+    const reported = this.reportedByCategory(incomes);
+    const declared = this.declaredByCategory(records, form16s);
+    const sum = (totals: Partial<Record<ReportedIncomeCategory, number>>, categories: ReportedIncomeCategory[]) =>
+      categories.reduce((total, category) => total + (totals[category] ?? 0), 0);
+    const incomeLines: IncomeReconciliation[] = INCOME_LINES
+      .map(line => ({
+        category: line.categories[line.categories.length - 1],
+        label: line.label,
+        reported: Math.round(sum(reported, line.categories)),
+        declared: Math.round(sum(declared, line.categories)),
+        difference: Math.round(sum(reported, line.categories) - sum(declared, line.categories))
+      }))
+      .filter(line => line.reported > 0 || (line.category !== 'other' && line.declared > 0 && incomeStatement !== undefined));
+
+    for (const line of incomeLines) {
+      if (line.difference <= INCOME_TOLERANCE) continue;
+      if (line.category === 'securities_sale') {
+        if ((records.capitalGainTransactionCount ?? 0) === 0) {
+          issues.push(this.issue('unreported_capital_gains', 'medium',
+            `Sales of securities worth ₹${this.format(line.reported)} were reported but no capital gain transactions are recorded. Add them so the gain is taxed.`,
+            line.reported, 0, { category: line.category }));
+        }
+        continue;
+      }
+      if (line.category === 'other') continue;
+      issues.push(this.issue(line.category === 'salary' ? 'salary_mismatch' : 'unreported_income',
+        line.category === 'salary' ? 'medium' : 'high',
+        `${line.label} of ₹${this.format(line.reported)} was reported against ₹${this.format(line.declared)} declared. Add the difference of ₹${this.format(line.difference)} to your income.`,
+        line.reported, line.declared, { category: line.category }));
+    }
+
+    // Interest deductions cannot exceed the interest actually earned. Only the
+    // AIS and TIS report interest on which no tax was deducted.
+    const claims = this.claims(records.investments ?? []);
+    const savingsInterest = reported.interest_savings ?? 0;
+    const totalInterest = savingsInterest + (reported.interest_deposit ?? 0);
+    const reportsAllInterest = incomeStatement === 'AIS' || incomeStatement === 'TIS';
+    if (reportsAllInterest && claims['80TTA'] > savingsInterest + INCOME_TOLERANCE) {
+      issues.push(this.issue('deduction_exceeds_reported', 'medium',
+        `The 80TTA claim of ₹${this.format(claims['80TTA'])} is more than the ₹${this.format(savingsInterest)} savings interest reported.`,
+        savingsInterest, claims['80TTA'], { category: 'interest_savings' }));
+    }
+    if (reportsAllInterest && claims['80TTB'] > totalInterest + INCOME_TOLERANCE) {
+      issues.push(this.issue('deduction_exceeds_reported', 'medium',
+        `The 80TTB claim of ₹${this.format(claims['80TTB'])} is more than the ₹${this.format(totalInterest)} interest reported.`,
+        totalInterest, claims['80TTB'], { category: 'interest_deposit' }));
+    }
+
+    return {
+      assessmentYear,
+      ...(tdsStatement ? { tdsStatement } : {}),
+      ...(incomeStatement ? { incomeStatement } : {}),
+      deductors,
+      incomes: incomeLines,
+      totalTdsCredited: deductors.reduce((sum, d) => sum + d.taxDeposited, 0),
+      totalTdsInForm16: form16s.reduce((sum, f) => sum + f.tds, 0),
+      issues
+    };
+  }
+
+  // AIS lists the same income once per reporting route (TDS and SFT); take the
+  // larger of the two for each reporter instead of adding them
+  private reportedByCategory(incomes: ReportedIncome[]): Partial<Record<ReportedIncomeCategory, number>> {
+    const byReporter = new Map<string, { category: ReportedIncomeCategory; tds: number; other: number }>();
+    for (const income of incomes) {
+      const category = income.category as ReportedIncomeCategory;
+      const key = `${category}|${this.normalizeName(income.reportedBy)}`;
+      const entry = byReporter.get(key) ?? { category, tds: 0, other: 0 };
+      if (income.informationCode?.toUpperCase().startsWith('TDS')) {
+        entry.tds += this.toAmount(income.amount);
+      } else {
+        entry.other += this.toAmount(income.amount);
+      }
+      byReporter.set(key, entry);
+    }
+
+    const totals: Partial<Record<ReportedIncomeCategory, number>> = {};
+    for (const entry of Array.from(byReporter.values())) {
+      totals[entry.category] = (totals[entry.category] ?? 0) + Math.max(entry.tds, entry.other);
+    }
+    return totals;
+  }
+
+  private declaredByCategory(
+    records: { incomeSources?: IncomeSource[]; houseProperties?: HouseProperty[] },
+    form16s: { grossSalary: number }[]
+  ): Partial<Record<ReportedIncomeCategory, number>> {
+    const totals: Partial<Record<ReportedIncomeCategory, number>> = {
+      salary: form16s.reduce((sum, f) => sum + f.grossSalary, 0),
+      rent: (records.houseProperties ?? [])
+        .filter(p => p.occupancy !== 'self_occupied')
+        .reduce((sum, p) => sum + this.toAmount(p.annualRent), 0)
+    };
+    const add = (category: ReportedIncomeCategory, amount: number) => {
+      totals[category] = (totals[category] ?? 0) + amount;
+    };
+
+    for (const source of records.incomeSources ?? []) {
+      const amount = this.toAmount(source.amount);
+      const description = source.description ?? '';
+      if (source.source === 'salary') {
+        // Salary from an uploaded Form 16 is already counted above
+        if (!source.documentId) add('salary', amount);
+      } else if (source.source === 'rental') {
+        // Property rows, when there are any, are the record of rent
+        if ((records.houseProperties ?? []).length === 0) add('rent', amount);
+      } else if (source.source === 'interest' || /interest|deposit|savings|\bfd\b/i.test(description)) {
+        add(/savings/i.test(description) ? 'interest_savings' : 'interest_deposit', amount);
+      } else if (source.source === 'dividend' || /dividend/i.test(description)) {
+        add('dividend', amount);
+      } else if (source.source !== 'business' && source.source !== 'capital_gains') {
+        add('other', amount);
+      }
+    }
+
+    return totals;
+  }
+
+  private claims(investments: Investment[]): Record<'80TTA' | '80TTB', number> {
+    const total = (section: string) => investments
+      .filter(i => i.section === section)
+      .reduce((sum, i) => sum + this.toAmount(i.amount), 0);
+    return { '80TTA': total('80TTA'), '80TTB': total('80TTB') };
+  }
+
+  private issue(
+    type: ReconciliationIssueType,
+    severity: ReconciliationIssue['severity'],
+    message: string,
+    reported: number,
+    declared: number,
+    extra: { deductorTan?: string; category?: ReportedIncomeCategory } = {}
+  ): ReconciliationIssue {
+    return {
+      type,
+      severity,
+      message,
+      reported: Math.round(reported),
+      declared: Math.round(declared),
+      difference: Math.round(reported - declared),
+      ...(extra.deductorTan ? { deductorTan: extra.deductorTan } : {}),
+      ...(extra.category ? { category: extra.category } : {})
+    };
+  }
+
+  private addTds(byKey: Map<string, ParsedTdsCredit>, credit: ParsedTdsCredit) {
+    const key = `${credit.deductorTan ?? this.normalizeName(credit.deductorName)}|${credit.section ?? ''}`;
+    const existing = byKey.get(key);
+    if (existing) {
+      existing.amountPaid += credit.amountPaid;
+      existing.taxDeducted += credit.taxDeducted;
+      existing.taxDeposited += credit.taxDeposited;
+    } else {
+      byKey.set(key, { ...credit });
+    }
+  }
+
+  private sectionCategory(section: string): ReportedIncomeCategory | undefined {
+    if (NON_INCOME_SECTIONS.some(s => section.startsWith(s))) return undefined;
+    return SECTION_CATEGORIES[section] ?? 'other';
+  }
+
+  // SFT codes and TIS category names
+  private categoryFor(code?: string, description?: string): ReportedIncomeCategory | undefined {
+    const upperCode = code?.toUpperCase() ?? '';
+    const text = `${upperCode} ${description ?? ''}`.toLowerCase();
+    if (upperCode.startsWith('SFT-016')) return /\(?sb\)?|savings/i.test(text) ? 'interest_savings' : 'interest_deposit';
+    if (upperCode.startsWith('SFT-015')) return 'dividend';
+    if (upperCode.startsWith('SFT-017') || upperCode.startsWith('SFT-018')) return 'securities_sale';
+    if (upperCode.startsWith('SFT')) return undefined; // Purchases, deposits and other transactions, not income
+    if (/salary/.test(text)) return 'salary';
+    if (/interest/.test(text)) return /savings/.test(text) ? 'interest_savings' : 'interest_deposit';
+    if (/dividend/.test(text)) return 'dividend';
+    if (/rent/.test(text)) return 'rent';
+    if (/sale of (securities|units)|mutual fund/.test(text)) return 'securities_sale';
+    if (/purchase|deposit|payment of|cash withdrawal|foreign remittance/.test(text)) return undefined;
+    return 'other';
+  }
+
+  private looksLikeTis(json: unknown): boolean {
+    const text = JSON.stringify(json).slice(0, 2000).toLowerCase();
+    return text.includes('taxpayer information summary') || text.includes('derivedvalue');
+  }
+
+  // Objects in the JSON tree that are lines rather than containers of lines,
+  // so section totals are not counted alongside their entries
+  private jsonLines(json: unknown): Record<string, unknown>[] {
+    const lines: Record<string, unknown>[] = [];
+    const visit = (value: unknown) => {
+      if (Array.isArray(value)) {
+        value.forEach(visit);
+      } else if (value && typeof value === 'object') {
+        const children = Object.values(value);
+        const isContainer = children.some(child => Array.isArray(child) && child.some(item => item && typeof item === 'object'));
+        if (!isContainer) {
+          lines.push(value as Record<string, unknown>);
+        }
+        children.forEach(visit);
+      }
+    };
+    visit(json);
+    return lines;
+  }
+
+  private text(line: Record<string, unknown>, keys: string[]): string | undefined {
+    for (const key of keys) {
+      const value = line[key];
+      if (typeof value === 'string' && value.trim()) return value.trim();
+    }
+    return undefined;
+  }
+
+  private number(line: Record<string, unknown>, keys: string[]): number | undefined {
+    for (const key of keys) {
+      const value = line[key];
+      if (typeof value === 'number') return value;
+      if (typeof value === 'string' && /^-?[\d,]+(\.\d+)?$/.test(value.trim())) return this.parseAmount(value);
+    }
+    return undefined;
+  }
+
+  private fields(line: string): string[] {
+    const separated = line.includes('^') ? line.split('^') : line.split(/\t|\s{2,}/);
+    const fields = separated.length > 1 ? separated : line.split(/\s+/);
+    return fields.map(field => field.trim()).filter(Boolean);
+  }
+
+  private sameDeductor(a?: string, b?: string): boolean {
+    const left = this.normalizeName(a);
+    const right = this.normalizeName(b);
+    if (!left || !right) return false;
+    return left.includes(right) || right.includes(left) || left.split(' ')[0] === right.split(' ')[0];
+  }
+
+  private normalizeName(name?: string | null): string {
+    return (name ?? '')
+      .toUpperCase()
+      .replace(/[^A-Z0-9 ]/g, ' ')
+      .replace(/\b(PRIVATE|PVT|LIMITED|LTD|INDIA|THE|CO|COMPANY)\b/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private toAmount(value: string | number | null | undefined): number {
+    return Number(value) || 0;
+  }
+
+  private parseAmount(amountString: string): number {
+    return parseFloat(amountString.replace(/,/g, '')) || 0;
+  }
+
+  private format(amount: number): string {
+    return Math.round(amount).toLocaleString('en-IN');
+  }
+}
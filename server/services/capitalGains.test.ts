@@ -0,0 +1,114 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CapitalGainsService } from './capitalGains';
+import { SUPPORTED_ASSESSMENT_YEARS } from './taxRules';
+
+const capitalGains = new CapitalGainsService();
+
+test('111A rate on short-term equity gains before and after 23 July 2024', () => {
+  const sale = (saleDate: string) => capitalGains.classify({
+    assetClass: 'listed_equity', purchaseDate: '2024-01-10', saleDate, costOfAcquisition: 100000, saleValue: 150000
+  });
+  assert.deepEqual([sale('2024-07-22').section, sale('2024-07-22').rate], ['111A', 15]);
+  assert.deepEqual([sale('2024-07-23').section, sale('2024-07-23').rate], ['111A', 20]);
+});
+
+test('equity sold exactly twelve months after purchase is short term', () => {
+  const onAnniversary = capitalGains.classify({
+    assetClass: 'listed_equity', purchaseDate: '2023-09-01', saleDate: '2024-09-01', costOfAcquisition: 100000, saleValue: 150000
+  });
+  assert.equal(onAnniversary.term, 'short');
+
+  const dayAfter = capitalGains.classify({
+    assetClass: 'listed_equity', purchaseDate: '2023-09-01', saleDate: '2024-09-02', costOfAcquisition: 100000, saleValue: 150000
+  });
+  assert.deepEqual([dayAfter.term, dayAfter.section, dayAfter.rate], ['long', '112A', 12.5]);
+});
+
+test('112A cost is stepped up to the 31 January 2018 value', () => {
+  const line = capitalGains.classify({
+    assetClass: 'listed_equity', purchaseDate: '2016-05-01', saleDate: '2024-09-01',
+    costOfAcquisition: 100000, fairMarketValue2018: 250000, saleValue: 400000
+  });
+  assert.equal(line.grandfathered, true);
+  assert.equal(line.costBasis, 250000);
+  assert.equal(line.gain, 150000);
+  assert.equal(line.rate, 12.5);
+
+  // The stepped-up value is capped at the sale value, so no loss arises
+  const belowFairValue = capitalGains.classify({
+    assetClass: 'listed_equity', purchaseDate: '2016-05-01', saleDate: '2024-09-01',
+    costOfAcquisition: 100000, fairMarketValue2018: 250000, saleValue: 200000
+  });
+  assert.equal(belowFairValue.costBasis, 200000);
+  assert.equal(belowFairValue.gain, 0);
+
+  // Bought after the grandfathering date
+  const later = capitalGains.classify({
+    assetClass: 'listed_equity', purchaseDate: '2018-02-01', saleDate: '2024-09-01',
+    costOfAcquisition: 100000, fairMarketValue2018: 250000, saleValue: 400000
+  });
+  assert.equal(later.grandfathered, false);
+  assert.equal(later.gain, 300000);
+});
+
+test('property bought before 23 July 2024 keeps 20% with indexation when it is cheaper', () => {
+  const line = capitalGains.classify({
+    assetClass: 'property', purchaseDate: '2010-06-01', saleDate: '2024-09-01',
+    costOfAcquisition: 1000000, saleValue: 3000000, indexationEligible: true
+  });
+  // Cost indexed from 167 to 363
+  assert.equal(line.indexed, true);
+  assert.equal(line.rate, 20);
+  assert.equal(line.gain, 826347);
+
+  const notEligible = capitalGains.classify({
+    assetClass: 'property', purchaseDate: '2010-06-01', saleDate: '2024-09-01',
+    costOfAcquisition: 1000000, saleValue: 3000000
+  });
+  assert.deepEqual([notEligible.indexed, notEligible.rate, notEligible.gain], [false, 12.5, 2000000]);
+});
+
+test('debt funds bought from April 2023 are always short term', () => {
+  const line = capitalGains.classify({
+    assetClass: 'debt_mutual_fund', purchaseDate: '2023-04-01', saleDate: '2026-01-01', costOfAcquisition: 100000, saleValue: 130000
+  });
+  assert.deepEqual([line.term, line.section, line.rate], ['short', 'slab', null]);
+});
+
+const EXEMPTION_112A: Record<string, number> = {
+  '2023-24': 100000,
+  '2024-25': 100000,
+  '2025-26': 125000,
+  '2026-27': 125000
+};
+
+for (const assessmentYear of SUPPORTED_ASSESSMENT_YEARS) {
+  test(`112A exemption and loss set-off for AY ${assessmentYear}`, () => {
+    const summary = capitalGains.summarize([
+      { assetClass: 'listed_equity', purchaseDate: '2020-01-01', saleDate: '2024-09-01', costOfAcquisition: 100000, saleValue: 400000 },
+      { assetClass: 'listed_equity', purchaseDate: '2024-05-01', saleDate: '2024-09-01', costOfAcquisition: 200000, saleValue: 150000 },
+      { assetClass: 'gold', purchaseDate: '2024-01-01', saleDate: '2024-09-01', costOfAcquisition: 100000, saleValue: 120000 }
+    ], assessmentYear);
+
+    // The short-term loss goes against the slab-rate gold gain first, then the 112A gain
+    assert.equal(summary.shortTermLosses, 50000);
+    assert.equal(summary.lossSetOff, 50000);
+    assert.equal(summary.slabIncome, 0);
+    assert.equal(summary.exemption112A, EXEMPTION_112A[assessmentYear]);
+    assert.deepEqual(summary.specialRateIncome, [
+      { section: '112A', rate: 12.5, income: 270000 - EXEMPTION_112A[assessmentYear] }
+    ]);
+  });
+}
+
+test('long-term losses are set off only against long-term gains and the rest carried forward', () => {
+  const summary = capitalGains.summarize([
+    { assetClass: 'listed_equity', purchaseDate: '2020-01-01', saleDate: '2024-09-01', costOfAcquisition: 300000, saleValue: 100000 },
+    { assetClass: 'listed_equity', purchaseDate: '2024-05-01', saleDate: '2024-09-01', costOfAcquisition: 100000, saleValue: 150000 }
+  ], '2025-26');
+
+  assert.equal(summary.lossSetOff, 0);
+  assert.equal(summary.longTermLossCarriedForward, 200000);
+  assert.deepEqual(summary.specialRateIncome, [{ section: '111A', rate: 20, income: 50000 }]);
+});
@@ -0,0 +1,318 @@
+import { getTaxRules, DEFAULT_ASSESSMENT_YEAR } from "./taxRules";
+
+export type CapitalAssetClass =
+  | 'listed_equity'
+  | 'equity_mutual_fund'
+  | 'debt_mutual_fund'
+  | 'listed_bond'
+  | 'unlisted_shares'
+  | 'property'
+  | 'gold'
+  | 'other';
+
+export type CapitalGainSection = '111A' | '112A' | '112' | 'slab';
+
+export interface CapitalGainTransactionInput {
+  id?: string;
+  assetClass: CapitalAssetClass | string;
+  description?: string | null;
+  purchaseDate: string | Date;
+  saleDate: string | Date;
+  costOfAcquisition: number | string;
+  costOfImprovement?: number | string | null;
+  saleValue: number | string;
+  transferExpenses?: number | string | null;
+  fairMarketValue2018?: number | string | null; // FMV on 31-Jan-2018, for grandfathering under 112A
+  indexationEligible?: boolean | null;
+}
+
+export interface CapitalGainLine {
+  id?: string;
+  description?: string | null;
+  assetClass: string;
+  term: 'short' | 'long';
+  section: CapitalGainSection;
+  rate: number | null; // null when taxed at slab rates
+  holdingMonths: number;
+  saleValue: number;
+  costBasis: number; // After grandfathering or indexation
+  gain: number; // Negative for a loss
+  grandfathered: boolean;
+  indexed: boolean;
+  note?: string;
+}
+
+// Capital gains taxed at a flat rate, after set-off and the 112A exemption
+export interface SpecialRateIncome {
+  section: Exclude<CapitalGainSection, 'slab'>;
+  rate: number;
+  income: number;
+}
+
+export interface CapitalGainsSummary {
+  assessmentYear: string;
+  transactions: CapitalGainLine[];
+  shortTermGains: number;
+  longTermGains: number;
+  shortTermLosses: number;
+  longTermLosses: number;
+  lossSetOff: number;
+  exemption112A: number;
+  slabIncome: number; // Short-term gains added to normal income
+  specialRateIncome: SpecialRateIncome[];
+  shortTermLossCarriedForward: number;
+  longTermLossCarriedForward: number;
+}
+
+// Finance (No. 2) Act 2024 changed holding periods, rates and indexation for
+// transfers on or after this date
+const RATE_CHANGE_DATE = '2024-07-23';
+// Listed equity acquired on or before this date is grandfathered
+const GRANDFATHERING_DATE = '2018-01-31';
+// Specified mutual funds bought from this date are always short term (section 50AA)
+const SPECIFIED_FUND_DATE = '2023-04-01';
+
+// Cost Inflation Index by financial year (keyed by the year the FY starts)
+const COST_INFLATION_INDEX: Record<number, number> = {
+  2001: 100, 2002: 105, 2003: 109, 2004: 113, 2005: 117, 2006: 122, 2007: 129,
+  2008: 137, 2009: 148, 2010: 167, 2011: 184, 2012: 200, 2013: 220, 2014: 240,
+  2015: 254, 2016: 264, 2017: 272, 2018: 280, 2019: 289, 2020: 301, 2021: 317,
+  2022: 331, 2023: 348, 2024: 363, 2025: 376
+};
+
+const EQUITY_CLASSES = ['listed_equity', 'equity_mutual_fund'];
+
+interface GainBucket {
+  section: CapitalGainSection;
+  rate: number | null;
+  term: 'short' | 'long';
+  amount: number;
+}
+
+export class CapitalGainsService {
+  summarize(
+    transactions: CapitalGainTransactionInput[],
+    assessmentYear: string = DEFAULT_ASSESSMENT_YEAR
+  ): CapitalGainsSummary {
+    const rules = getTaxRules(assessmentYear);
+    const lines = transactions.map(transaction => this.classify(transaction));
+
+    // Net gains per section and rate; the rate changed mid-way through FY 2024-25
+    const buckets: GainBucket[] = [];
+    let shortTermLosses = 0;
+    let longTermLosses = 0;
+    for (const line of lines) {
+      if (line.gain < 0) {
+        if (line.term === 'short') shortTermLosses += -line.gain;
+        else longTermLosses += -line.gain;
+        continue;
+      }
+      const bucket = buckets.find(b => b.section === line.section && b.rate === line.rate);
+      if (bucket) {
+        bucket.amount += line.gain;
+      } else {
+        buckets.push({ section: line.section, rate: line.rate, term: line.term, amount: line.gain });
+      }
+    }
+
+    const shortTermGains = this.sum(buckets.filter(b => b.term === 'short'));
+    const longTermGains = this.sum(buckets.filter(b => b.term === 'long'));
+
+    // Short-term losses can absorb any gain, long-term losses only long-term
+    // gains (section 70). Losses go against the highest-taxed gains first, and
+    // 112 ahead of 112A so the 112A exemption is not wasted.
+    const setOffOrder = (a: GainBucket, b: GainBucket) =>
+      (b.rate ?? 100) - (a.rate ?? 100) || (a.section === '112A' ? 1 : 0) - (b.section === '112A' ? 1 : 0);
+    const shortTermOrder = [
+      ...buckets.filter(b => b.term === 'short').sort(setOffOrder),
+      ...buckets.filter(b => b.term === 'long').sort(setOffOrder)
+    ];
+    const longTermOrder = buckets.filter(b => b.term === 'long').sort(setOffOrder);
+
+    const shortTermLossCarriedForward = this.setOff(shortTermLosses, shortTermOrder);
+    const longTermLossCarriedForward = this.setOff(longTermLosses, longTermOrder);
+    const lossSetOff = shortTermLosses + longTermLosses - shortTermLossCarriedForward - longTermLossCarriedForward;
+
+    // The 112A exemption applies to the year's aggregate listed equity LTCG
+    let exemptionRemaining = rules.capitalGains.exemption112A;
+    for (const bucket of buckets.filter(b => b.section === '112A').sort(setOffOrder)) {
+      const used = Math.min(bucket.amount, exemptionRemaining);
+      bucket.amount -= used;
+      exemptionRemaining -= used;
+    }
+
+    const specialRateIncome: SpecialRateIncome[] = buckets
+      .filter(b => b.section !== 'slab' && b.amount > 0)
+      .map(b => ({ section: b.section as SpecialRateIncome['section'], rate: b.rate ?? 0, income: Math.round(b.amount) }));
+
+    return {
+      assessmentYear: rules.assessmentYear,
+      transactions: lines,
+      shortTermGains: Math.round(shortTermGains),
+      longTermGains: Math.round(longTermGains),
+      shortTermLosses: Math.round(shortTermLosses),
+      longTermLosses: Math.round(longTermLosses),
+      lossSetOff: Math.round(lossSetOff),
+      exemption112A: rules.capitalGains.exemption112A - exemptionRemaining,
+      slabIncome: Math.round(this.sum(buckets.filter(b => b.section === 'slab'))),
+      specialRateIncome,
+      shortTermLossCarriedForward: Math.round(shortTermLossCarriedForward),
+      longTermLossCarriedForward: Math.round(longTermLossCarriedForward)
+    };
+  }
+
+  // Work out the holding period, section, rate and taxable gain of one sale
+  classify(transaction: CapitalGainTransactionInput): CapitalGainLine {
+    const purchaseDate = this.toDateString(transaction.purchaseDate);
+    const saleDate = this.toDateString(transaction.saleDate);
+    const assetClass = transaction.assetClass;
+    const cost = this.toAmount(transaction.costOfAcquisition);
+    const improvement = this.toAmount(transaction.costOfImprovement);
+    const saleValue = this.toAmount(transaction.saleValue);
+    const netSaleValue = saleValue - this.toAmount(transaction.transferExpenses);
+    const afterRateChange = saleDate >= RATE_CHANGE_DATE;
+    const isEquity = EQUITY_CLASSES.includes(assetClass);
+    const holdingMonths = this.monthsBetween(purchaseDate, saleDate);
+
+    const base = {
+      id: transaction.id,
+      description: transaction.description,
+      assetClass,
+      holdingMonths,
+      saleValue
+    };
+
+    if (assetClass === 'debt_mutual_fund' && purchaseDate >= SPECIFIED_FUND_DATE) {
+      return {
+        ...base,
+        term: 'short',
+        section: 'slab',
+        rate: null,
+        costBasis: cost + improvement,
+        gain: Math.round(netSaleValue - cost - improvement),
+        grandfathered: false,
+        indexed: false,
+        note: 'Debt funds bought on or after 1 April 2023 are always short term (section 50AA)'
+      };
+    }
+
+    const isLongTerm = this.isHeldLongerThan(purchaseDate, saleDate, this.longTermThresholdMonths(assetClass, afterRateChange));
+
+    if (!isLongTerm) {
+      return {
+        ...base,
+        term: 'short',
+        section: isEquity ? '111A' : 'slab',
+        rate: isEquity ? (afterRateChange ? 20 : 15) : null,
+        costBasis: cost + improvement,
+        gain: Math.round(netSaleValue - cost - improvement),
+        grandfathered: false,
+        indexed: false
+      };
+    }
+
+    if (isEquity) {
+      // Cost is the higher of actual cost and FMV on 31-Jan-2018 capped at the sale value
+      const fairMarketValue = this.toAmount(transaction.fairMarketValue2018);
+      const grandfathered = purchaseDate <= GRANDFATHERING_DATE && fairMarketValue > 0
+        && Math.min(fairMarketValue, saleValue) > cost;
+      const costBasis = grandfathered ? Math.min(fairMarketValue, saleValue) : cost;
+      return {
+        ...base,
+        term: 'long',
+        section: '112A',
+        rate: afterRateChange ? 12.5 : 10,
+        costBasis,
+        gain: Math.round(netSaleValue - costBasis - improvement),
+        grandfathered,
+        indexed: false,
+        ...(grandfathered ? { note: 'Cost stepped up to FMV on 31 January 2018' } : {})
+      };
+    }
+
+    const unindexedGain = netSaleValue - cost - improvement;
+    const indexedCost = (cost + improvement) * this.indexationFactor(purchaseDate, saleDate);
+    const indexedGain = netSaleValue - indexedCost;
+    const lineFor = (rate: number, indexed: boolean, note?: string): CapitalGainLine => ({
+      ...base,
+      term: 'long',
+      section: '112',
+      rate,
+      costBasis: Math.round(indexed ? indexedCost : cost + improvement),
+      gain: Math.round(indexed ? indexedGain : unindexedGain),
+      grandfathered: false,
+      indexed,
+      ...(note ? { note } : {})
+    });
+
+    if (!afterRateChange) {
+      if (assetClass === 'listed_bond') return lineFor(10, false);
+      return transaction.indexationEligible ? lineFor(20, true) : lineFor(20, false);
+    }
+
+    // Land and buildings bought before 23-Jul-2024 keep the option of 20%
+    // with indexation when that works out cheaper
+    if (assetClass === 'property' && transaction.indexationEligible && purchaseDate < RATE_CHANGE_DATE
+        && Math.max(0, indexedGain) * 0.2 < Math.max(0, unindexedGain) * 0.125) {
+      return lineFor(20, true, '20% with indexation is lower than 12.5% without');
+    }
+    return lineFor(12.5, false);
+  }
+
+  private longTermThresholdMonths(assetClass: string, afterRateChange: boolean): number {
+    if (EQUITY_CLASSES.includes(assetClass) || assetClass === 'listed_bond') return 12;
+    if (afterRateChange) return 24;
+    return assetClass === 'property' || assetClass === 'unlisted_shares' ? 24 : 36;
+  }
+
+  // Long term means held for more than the threshold, so a sale exactly on the
+  // anniversary is still short term
+  private isHeldLongerThan(purchaseDate: string, saleDate: string, months: number): boolean {
+    const threshold = new Date(`${purchaseDate}T00:00:00Z`);
+    threshold.setUTCMonth(threshold.getUTCMonth() + months);
+    return saleDate > threshold.toISOString().slice(0, 10);
+  }
+
+  private monthsBetween(from: string, to: string): number {
+    const start = new Date(`${from}T00:00:00Z`);
+    const end = new Date(`${to}T00:00:00Z`);
+    const months = (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth();
+    return end.getUTCDate() < start.getUTCDate() ? months - 1 : months;
+  }
+
+  private indexationFactor(purchaseDate: string, saleDate: string): number {
+    const index = (date: string) => {
+      const [year, month] = date.split('-').map(Number);
+      const financialYear = month >= 4 ? year : year - 1;
+      const years = Object.keys(COST_INFLATION_INDEX).map(Number);
+      const clamped = Math.min(Math.max(financialYear, years[0]), years[years.length - 1]);
+      return COST_INFLATION_INDEX[clamped];
+    };
+    return index(saleDate) / index(purchaseDate);
+  }
+
+  // Absorb a loss against buckets in order, returning what is left to carry forward
+  private setOff(loss: number, buckets: GainBucket[]): number {
+    let remaining = loss;
+    for (const bucket of buckets) {
+      if (remaining <= 0) break;
+      const used = Math.min(bucket.amount, remaining);
+      bucket.amount -= used;
+      remaining -= used;
+    }
+    return remaining;
+  }
+
+  private sum(buckets: GainBucket[]): number {
+    return buckets.reduce((total, bucket) => total + bucket.amount, 0);
+  }
+
+  private toAmount(value: number | string | null | undefined): number {
+    const amount = typeof value === 'string' ? parseFloat(value) : value;
+    return amount && !isNaN(amount) ? amount : 0;
+  }
+
+  private toDateString(value: string | Date): string {
+    return (value instanceof Date ? value.toISOString() : value).slice(0, 10);
+  }
+}
@@ -0,0 +1,105 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DeductionValidatorService, normalizeSection } from './deductionValidator';
+import { SUPPORTED_ASSESSMENT_YEARS } from './taxRules';
+
+const validator = new DeductionValidatorService();
+
+test('section codes are normalised', () => {
+  assert.equal(normalizeSection('80CCD(1B)'), '80CCD1B');
+  assert.equal(normalizeSection('section 24(b)'), '24');
+  assert.equal(normalizeSection('hra'), '1013A');
+});
+
+for (const assessmentYear of SUPPORTED_ASSESSMENT_YEARS) {
+  test(`old regime section caps for AY ${assessmentYear}`, () => {
+    const result = validator.validate({
+      '80C': 120000,
+      '80CCC': 20000,
+      '80CCD(1)': 30000,
+      '80CCD(1B)': 60000,
+      '80D': 40000,
+      '80D_PARENTS': 60000,
+      '80TTA': 15000,
+      '24(b)': 250000,
+      '16(iii)': 3000
+    }, { parentsSeniorCitizen: true }, assessmentYear);
+
+    // 80C, 80CCC and 80CCD(1) share ₹1.5 lakh
+    assert.equal(result.allowed['80C'], 120000);
+    assert.equal(result.allowed['80CCC'], 20000);
+    assert.equal(result.allowed['80CCD(1)'], 10000);
+    assert.equal(result.allowed['80CCD(1B)'], 50000);
+    assert.equal(result.allowed['80D'], 25000);
+    assert.equal(result.allowed['80D (Parents)'], 50000);
+    assert.equal(result.allowed['80TTA'], 10000);
+    assert.equal(result.allowed['24(b)'], 200000);
+    assert.equal(result.allowed['16(iii)'], 2500);
+    assert.equal(result.totalAllowed, 487500);
+    assert.ok(result.lines.find(line => line.section === '80D')?.reason);
+  });
+}
+
+test('senior citizens get the higher 80D limit and claim interest under 80TTB', () => {
+  const result = validator.validate({ '80D': 60000, '80TTA': 60000 }, { age: 65 });
+  assert.equal(result.allowed['80D'], 50000);
+  assert.equal(result.allowed['80TTB'], 50000);
+  assert.equal(result.allowed['80TTA'], undefined);
+});
+
+test('80G qualifying donations are limited to 10% of adjusted income', () => {
+  const result = validator.validate({ '80C': 150000, '80G': 100000, '80G_100': 20000 }, { grossTotalIncome: 650000 });
+  // 10% of (6.5 lakh - 1.5 lakh), half of which is deductible; other 80G
+  // donations do not reduce the base
+  assert.equal(result.allowed['80G (100%)'], 20000);
+  assert.equal(result.allowed['80G'], 25000);
+});
+
+test('80GG is limited to a yearly amount and a quarter of adjusted income', () => {
+  assert.equal(validator.validate({ '80GG': 100000 }, { grossTotalIncome: 1000000 }).allowed['80GG'], 60000);
+  assert.equal(validator.validate({ '80GG': 100000 }, { grossTotalIncome: 200000 }).allowed['80GG'], 50000);
+});
+
+test('section 10 exemptions are taken as claimed and unknown sections are allowed nothing', () => {
+  const result = validator.validate({ HRA: 100000, '10(14)': 20000, '80E': 80000, total: 5 });
+  const hra = result.lines.find(line => line.section === '10(13A)');
+  assert.equal(hra?.allowed, 100000);
+  assert.equal(hra?.unvalidated, true);
+  assert.equal(result.allowed['10(14)'], 20000);
+  assert.equal(result.allowed['80E'], 80000);
+  assert.equal(result.allowed['TOTAL'], 0);
+});
+
+test('24(b) claims are ignored when the house properties carry the loan interest', () => {
+  const result = validator.validate({ '24(b)': 150000 }, { housePropertyInterest: true });
+  assert.equal(result.allowed['24(b)'], 0);
+});
+
+for (const assessmentYear of SUPPORTED_ASSESSMENT_YEARS) {
+  test(`family pension deduction in both regimes for AY ${assessmentYear}`, () => {
+    assert.equal(validator.validate({ 'Family Pension': 90000 }, {}, assessmentYear).allowed['Family Pension'], 15000);
+    assert.equal(validator.validate({ 'Family Pension': 30000 }, {}, assessmentYear).allowed['Family Pension'], 10000);
+
+    const newRegime = validator.validateNewRegime({ familyPension: 90000 }, assessmentYear);
+    const cap = { '2023-24': 0, '2024-25': 15000, '2025-26': 25000, '2026-27': 25000 }[assessmentYear];
+    assert.equal(newRegime.allowed['Family Pension'], cap);
+  });
+}
+
+for (const assessmentYear of SUPPORTED_ASSESSMENT_YEARS) {
+  test(`new regime deductions for AY ${assessmentYear}`, () => {
+    const result = validator.validateNewRegime({ salary: 1000000, basicSalary: 500000, employerNps: 100000 }, assessmentYear);
+    const standardDeduction = { '2023-24': undefined, '2024-25': 50000, '2025-26': 75000, '2026-27': 75000 }[assessmentYear];
+    assert.equal(result.allowed['Standard Deduction'], standardDeduction);
+    // 80CCD(2) rose from 10% to 14% of basic salary from AY 2025-26
+    assert.equal(result.allowed['80CCD(2)'], assessmentYear >= '2025-26' ? 70000 : 50000);
+
+    // No standard deduction without salary income
+    assert.equal(validator.validateNewRegime({}, assessmentYear).totalAllowed, 0);
+  });
+}
+
+test('only new regime deductions are picked out of an old regime claim', () => {
+  const input = validator.extractNewRegimeDeductions({ '80C': 150000, '80CCD(2)': 50000, 'Family Pension': 30000, '10(10)': 200000, HRA: 100000 });
+  assert.deepEqual(input, { employerNps: 50000, familyPension: 30000, salaryExemptions: { '10(10)': 200000 } });
+});
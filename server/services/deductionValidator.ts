@@ -0,0 +1,368 @@
+import { getTaxRules, DEFAULT_ASSESSMENT_YEAR } from "./taxRules";
+
+export interface DeductionProfile {
+  age?: number;
+  parentsSeniorCitizen?: boolean;
+  salary?: number; // Basic + DA, used for the 80CCD percentage limits
+  grossTotalIncome?: number; // Used for the 80G qualifying limit
+  isSelfOccupiedProperty?: boolean;
+  housePropertyInterest?: boolean; // Loan interest is computed with the house properties, so 24(b) claims are not
+  severeDisability?: boolean; // The taxpayer's own, for 80U
+  dependantSevereDisability?: boolean; // For 80DD
+}
+
+// The only deductions the new regime (section 115BAC) allows
+export interface NewRegimeDeductionInput {
+  salary?: number; // Salary income, for the standard deduction; none is allowed without it
+  basicSalary?: number; // Basic + DA, used for the 80CCD(2) limit
+  employerNps?: number; // 80CCD(2)
+  agniveerCorpus?: number; // 80CCH
+  familyPension?: number; // Family pension received
+  salaryExemptions?: { [section: string]: number }; // Retirement benefits exempt u/s 10, keyed by section
+}
+
+export interface DeductionLine {
+  section: string;
+  claimed: number;
+  allowed: number;
+  reason?: string;
+  unvalidated?: boolean; // No limit is known for the section, so the claim was taken as is
+}
+
+export interface DeductionValidationResult {
+  lines: DeductionLine[];
+  allowed: { [section: string]: number };
+  totalClaimed: number;
+  totalAllowed: number;
+}
+
+// Salary exemptions under section 10, by normalised code. The employer works
+// them out from figures we do not hold, so they are taken as claimed.
+// "10" is the Form 16 total when it is not broken down by section.
+const SALARY_EXEMPTIONS: { [code: string]: string } = {
+  '105': '10(5)', // Leave travel concession
+  '1010': '10(10)', // Gratuity
+  '1010A': '10(10A)', // Commuted pension
+  '1010AA': '10(10AA)', // Leave encashment
+  '1010B': '10(10B)', // Retrenchment compensation
+  '1010C': '10(10C)', // Voluntary retirement
+  '1013A': '10(13A)', // House rent allowance
+  '1014': '10(14)', // Special allowances
+  '10': 'Section 10'
+};
+
+// Salary exemptions under section 10 that section 115BAC leaves in place:
+// gratuity, commuted pension and leave encashment
+const NEW_REGIME_SALARY_EXEMPTIONS = ['1010', '1010A', '1010AA'];
+
+// Sections the Act leaves without a cap: education loan interest, the
+// Agniveer corpus and donations for research or to political parties
+const UNCAPPED_SECTIONS = ['80E', '80CCH', '80GGA', '80GGC'];
+
+// Section codes reach us as "80CCD(1B)", "80ccd 1b", "24(b)" and so on
+export function normalizeSection(section: string): string {
+  const code = section.toUpperCase().replace(/SECTION|[\s()]/g, '');
+  if (code === '24B') return '24';
+  if (code === 'HRA') return '1013A';
+  return code;
+}
+
+export class DeductionValidatorService {
+  validate(
+    claimed: { [section: string]: number },
+    profile: DeductionProfile = {},
+    assessmentYear: string = DEFAULT_ASSESSMENT_YEAR
+  ): DeductionValidationResult {
+    const caps = getTaxRules(assessmentYear).sectionCaps;
+    const isSeniorCitizen = (profile.age ?? 0) >= 60;
+    const lines: DeductionLine[] = [];
+
+    // Merge claims that normalise to the same section
+    const claims: { [section: string]: number } = {};
+    for (const [section, amount] of Object.entries(claimed)) {
+      const value = Number(amount) || 0;
+      if (value <= 0) continue;
+      const code = normalizeSection(section);
+      claims[code] = (claims[code] || 0) + value;
+    }
+
+    const take = (section: string) => {
+      const amount = claims[section] || 0;
+      delete claims[section];
+      return amount;
+    };
+    const push = (section: string, claimedAmount: number, allowedAmount: number, reason: string) => {
+      if (claimedAmount <= 0) return;
+      const allowed = Math.max(0, Math.round(allowedAmount));
+      lines.push({
+        section,
+        claimed: claimedAmount,
+        allowed,
+        ...(allowed < claimedAmount ? { reason } : {})
+      });
+    };
+
+    // 80C, 80CCC and 80CCD(1) share a single combined limit
+    let combinedRemaining = caps.section80C;
+    const claimed80C = take('80C');
+    const allowed80C = Math.min(claimed80C, combinedRemaining);
+    combinedRemaining -= allowed80C;
+    push('80C', claimed80C, allowed80C, `Section 80C is limited to ₹${caps.section80C.toLocaleString('en-IN')} combined with 80CCC and 80CCD(1)`);
+
+    const claimed80CCC = take('80CCC');
+    const allowed80CCC = Math.min(claimed80CCC, combinedRemaining);
+    combinedRemaining -= allowed80CCC;
+    push('80CCC', claimed80CCC, allowed80CCC, `Combined 80C + 80CCC + 80CCD(1) limit of ₹${caps.section80C.toLocaleString('en-IN')} exhausted`);
+
+    // "80CCD" without a sub-section is treated as the employee contribution
+    const claimed80CCD1 = take('80CCD1') + take('80CCD');
+    let allowed80CCD1 = claimed80CCD1;
+    let reason80CCD1 = `Combined 80C + 80CCC + 80CCD(1) limit of ₹${caps.section80C.toLocaleString('en-IN')} exhausted`;
+    if (profile.salary && allowed80CCD1 > profile.salary * 0.1) {
+      allowed80CCD1 = profile.salary * 0.1;
+      reason80CCD1 = '80CCD(1) is limited to 10% of salary';
+    }
+    if (allowed80CCD1 > combinedRemaining) {
+      allowed80CCD1 = combinedRemaining;
+      reason80CCD1 = `Combined 80C + 80CCC + 80CCD(1) limit of ₹${caps.section80C.toLocaleString('en-IN')} exhausted`;
+    }
+    push('80CCD(1)', claimed80CCD1, allowed80CCD1, reason80CCD1);
+
+    const claimed80CCD1B = take('80CCD1B');
+    push('80CCD(1B)', claimed80CCD1B, Math.min(claimed80CCD1B, caps.section80CCD1B),
+      `Section 80CCD(1B) is limited to ₹${caps.section80CCD1B.toLocaleString('en-IN')}`);
+
+    const claimed80CCD2 = take('80CCD2');
+    const percent80CCD2 = caps.section80CCD2SalaryPercent.old;
+    push('80CCD(2)', claimed80CCD2,
+      profile.salary ? Math.min(claimed80CCD2, (profile.salary * percent80CCD2) / 100) : claimed80CCD2,
+      `Employer NPS contribution is limited to ${percent80CCD2}% of salary`);
+
+    // 80D limits depend on the age of the insured
+    const selfLimit = isSeniorCitizen ? caps.section80D.selfSenior : caps.section80D.self;
+    const claimed80D = take('80D');
+    push('80D', claimed80D, Math.min(claimed80D, selfLimit),
+      `Health insurance for self and family is limited to ₹${selfLimit.toLocaleString('en-IN')}${isSeniorCitizen ? ' for senior citizens' : ''}`);
+
+    const parentsLimit = profile.parentsSeniorCitizen ? caps.section80D.parentsSenior : caps.section80D.parents;
+    const claimed80DParents = take('80D_PARENTS');
+    push('80D (Parents)', claimed80DParents, Math.min(claimed80DParents, parentsLimit),
+      `Health insurance for parents is limited to ₹${parentsLimit.toLocaleString('en-IN')}${profile.parentsSeniorCitizen ? ' for senior citizen parents' : ''}`);
+
+    // 80TTA is for non-seniors only; senior citizens claim under 80TTB instead
+    const claimedInterest = take('80TTA') + take('80TTB');
+    if (isSeniorCitizen) {
+      push('80TTB', claimedInterest, Math.min(claimedInterest, caps.section80TTB),
+        `Section 80TTB is limited to ₹${caps.section80TTB.toLocaleString('en-IN')}`);
+    } else {
+      push('80TTA', claimedInterest, Math.min(claimedInterest, caps.section80TTA),
+        `Section 80TTA is limited to ₹${caps.section80TTA.toLocaleString('en-IN')} of savings account interest (80TTB is only for senior citizens)`);
+    }
+
+    const claimed80EEA = take('80EEA');
+    push('80EEA', claimed80EEA, Math.min(claimed80EEA, caps.section80EEA),
+      `Section 80EEA is limited to ₹${caps.section80EEA.toLocaleString('en-IN')}`);
+
+    const claimed80EE = take('80EE');
+    push('80EE', claimed80EE, Math.min(claimed80EE, caps.section80EE),
+      `Section 80EE is limited to ₹${caps.section80EE.toLocaleString('en-IN')}`);
+
+    const claimed80EEB = take('80EEB');
+    push('80EEB', claimed80EEB, Math.min(claimed80EEB, caps.section80EEB),
+      `Section 80EEB is limited to ₹${caps.section80EEB.toLocaleString('en-IN')}`);
+
+    // 80DD and 80U are fixed amounts that depend on how severe the disability is
+    const limit80DD = profile.dependantSevereDisability ? caps.section80DD.severe : caps.section80DD.normal;
+    const claimed80DD = take('80DD');
+    push('80DD', claimed80DD, Math.min(claimed80DD, limit80DD),
+      `Section 80DD is ₹${caps.section80DD.normal.toLocaleString('en-IN')}, or ₹${caps.section80DD.severe.toLocaleString('en-IN')} for a dependant with severe disability`);
+
+    const limit80U = profile.severeDisability ? caps.section80U.severe : caps.section80U.normal;
+    const claimed80U = take('80U');
+    push('80U', claimed80U, Math.min(claimed80U, limit80U),
+      `Section 80U is ₹${caps.section80U.normal.toLocaleString('en-IN')}, or ₹${caps.section80U.severe.toLocaleString('en-IN')} with severe disability`);
+
+    const limit80DDB = isSeniorCitizen ? caps.section80DDB.senior : caps.section80DDB.normal;
+    const claimed80DDB = take('80DDB');
+    push('80DDB', claimed80DDB, Math.min(claimed80DDB, limit80DDB),
+      `Treatment of specified diseases is limited to ₹${limit80DDB.toLocaleString('en-IN')}${isSeniorCitizen ? ' for senior citizens' : ''}`);
+
+    const claimed80QQB = take('80QQB');
+    push('80QQB', claimed80QQB, Math.min(claimed80QQB, caps.section80QQB),
+      `Royalty income of authors is limited to ₹${caps.section80QQB.toLocaleString('en-IN')}`);
+
+    const claimed80RRB = take('80RRB');
+    push('80RRB', claimed80RRB, Math.min(claimed80RRB, caps.section80RRB),
+      `Royalty on patents is limited to ₹${caps.section80RRB.toLocaleString('en-IN')}`);
+
+    // Family pension is claimed as the pension received; a third of it is
+    // deductible under section 57(iia), up to the yearly limit
+    const familyPension = take('FAMILYPENSION');
+    push('Family Pension', familyPension, Math.min(familyPension / 3, caps.familyPensionDeduction.old),
+      `Family pension deduction is one-third of the pension, up to ₹${caps.familyPensionDeduction.old.toLocaleString('en-IN')}`);
+
+    const claimedProfessionalTax = take('16III');
+    push('16(iii)', claimedProfessionalTax, Math.min(claimedProfessionalTax, caps.professionalTax),
+      `Professional tax is limited to ₹${caps.professionalTax.toLocaleString('en-IN')} a year`);
+
+    const claimed24 = take('24');
+    const isSelfOccupied = profile.isSelfOccupiedProperty ?? true;
+    if (profile.housePropertyInterest) {
+      push('24(b)', claimed24, 0, 'Home loan interest is taken from your house properties instead');
+    } else {
+      push('24(b)', claimed24,
+        isSelfOccupied ? Math.min(claimed24, caps.section24bSelfOccupied) : claimed24,
+        `Home loan interest on self-occupied property is limited to ₹${caps.section24bSelfOccupied.toLocaleString('en-IN')}`);
+    }
+
+    // 80G is computed last because the qualifying limit is 10% of gross total
+    // income after every other Chapter VI-A deduction
+    const donations = {
+      full: take('80G_100'),
+      half: take('80G_50'),
+      fullQualifying: take('80G_100_QL'),
+      halfQualifying: take('80G')
+    };
+
+    const claimed80GG = take('80GG');
+
+    // Sections without a statutory cap pass through unchanged, section 10
+    // exemptions are taken as claimed but marked as not validated, and
+    // anything we do not recognise is allowed nothing
+    for (const [section, amount] of Object.entries(claims)) {
+      if (amount <= 0) continue;
+      if (UNCAPPED_SECTIONS.includes(section)) {
+        lines.push({ section, claimed: amount, allowed: amount });
+      } else if (SALARY_EXEMPTIONS[section]) {
+        lines.push({ section: SALARY_EXEMPTIONS[section], claimed: amount, allowed: amount, unvalidated: true, reason: 'Exemption not checked against a limit, so taken as claimed' });
+      } else {
+        lines.push({ section, claimed: amount, allowed: 0, reason: 'Not a deduction or exemption section, so nothing is allowed' });
+      }
+    }
+
+    // Income left after the deductions so far, the base for the 80GG and 80G limits
+    const adjustedIncome = () => Math.max(0, (profile.grossTotalIncome ?? 0) - lines.reduce((sum, line) => sum + line.allowed, 0));
+
+    // 80GG rent is limited to a yearly amount and to a share of adjusted income
+    const incomeLimit80GG = profile.grossTotalIncome !== undefined ? (adjustedIncome() * caps.section80GG.incomePercent) / 100 : Infinity;
+    push('80GG', claimed80GG, Math.min(claimed80GG, caps.section80GG.annual, incomeLimit80GG),
+      `Section 80GG is limited to ₹${caps.section80GG.annual.toLocaleString('en-IN')} a year and ${caps.section80GG.incomePercent}% of adjusted total income`);
+    let qualifyingRemaining = profile.grossTotalIncome !== undefined ? adjustedIncome() * 0.1 : Infinity;
+
+    push('80G (100%)', donations.full, donations.full, '');
+    push('80G (50%)', donations.half, donations.half * 0.5, 'Only 50% of donations to these funds is deductible');
+
+    const fullQualifying = Math.min(donations.fullQualifying, qualifyingRemaining);
+    qualifyingRemaining -= fullQualifying;
+    push('80G (100%, qualifying limit)', donations.fullQualifying, fullQualifying,
+      'Donations are limited to 10% of adjusted gross total income');
+
+    const halfQualifying = Math.min(donations.halfQualifying, qualifyingRemaining);
+    push('80G', donations.halfQualifying, halfQualifying * 0.5,
+      halfQualifying < donations.halfQualifying
+        ? 'Donations are limited to 10% of adjusted gross total income, of which 50% is deductible'
+        : 'Only 50% of donations to these institutions is deductible');
+
+    return this.summarize(lines);
+  }
+
+  validateNewRegime(
+    input: NewRegimeDeductionInput = {},
+    assessmentYear: string = DEFAULT_ASSESSMENT_YEAR
+  ): DeductionValidationResult {
+    const rules = getTaxRules(assessmentYear);
+    const caps = rules.sectionCaps;
+    const lines: DeductionLine[] = [];
+
+    const salary = Math.max(0, input.salary ?? 0);
+    // Standard deduction is allowed on salary whatever the residential status
+    const standardDeduction = rules.newRegime.standardDeduction;
+    if (salary > 0 && standardDeduction > 0) {
+      lines.push({
+        section: 'Standard Deduction',
+        claimed: standardDeduction,
+        allowed: Math.min(standardDeduction, salary),
+        ...(salary < standardDeduction ? { reason: 'Standard deduction cannot exceed salary income' } : {})
+      });
+    }
+
+    const employerNps = Math.max(0, input.employerNps || 0);
+    if (employerNps > 0) {
+      const percent = caps.section80CCD2SalaryPercent.new;
+      const limit = input.basicSalary ? (input.basicSalary * percent) / 100 : Infinity;
+      const allowed = Math.round(Math.min(employerNps, limit));
+      lines.push({
+        section: '80CCD(2)',
+        claimed: employerNps,
+        allowed,
+        ...(allowed < employerNps ? { reason: `Employer NPS contribution is limited to ${percent}% of basic salary and DA` } : {})
+      });
+    }
+
+    const agniveerCorpus = Math.max(0, input.agniveerCorpus || 0);
+    if (agniveerCorpus > 0) {
+      lines.push({ section: '80CCH', claimed: agniveerCorpus, allowed: agniveerCorpus });
+    }
+
+    const familyPension = Math.max(0, input.familyPension || 0);
+    if (familyPension > 0) {
+      const cap = caps.familyPensionDeduction.new;
+      const allowed = Math.round(Math.min(familyPension / 3, cap));
+      lines.push({
+        section: 'Family Pension',
+        claimed: familyPension,
+        allowed,
+        reason: cap > 0
+          ? `Family pension deduction is one-third of the pension, up to ₹${cap.toLocaleString('en-IN')}`
+          : `Family pension deduction is not available under the new regime for AY ${rules.assessmentYear}`
+      });
+    }
+
+    for (const [section, amount] of Object.entries(input.salaryExemptions ?? {})) {
+      const value = Math.max(0, Number(amount) || 0);
+      if (value > 0) lines.push({ section, claimed: value, allowed: value });
+    }
+
+    return this.summarize(lines);
+  }
+
+  // Total saved investment rows into a claimed deduction map keyed by section
+  claimsFromInvestments(investments: { section: string; amount: string | number }[]): { [section: string]: number } {
+    const claimed: { [section: string]: number } = {};
+    for (const investment of investments) {
+      const value = Number(investment.amount) || 0;
+      claimed[investment.section] = (claimed[investment.section] || 0) + value;
+    }
+    return claimed;
+  }
+
+  // Pick out claims in an old-regime deduction map that the new regime also allows
+  extractNewRegimeDeductions(claimed: { [section: string]: number }): NewRegimeDeductionInput {
+    const input: NewRegimeDeductionInput = {};
+    for (const [section, amount] of Object.entries(claimed)) {
+      const value = Number(amount) || 0;
+      const code = normalizeSection(section);
+      if (code === '80CCD2') input.employerNps = (input.employerNps || 0) + value;
+      if (code === '80CCH') input.agniveerCorpus = (input.agniveerCorpus || 0) + value;
+      if (code === 'FAMILYPENSION') input.familyPension = (input.familyPension || 0) + value;
+      if (NEW_REGIME_SALARY_EXEMPTIONS.includes(code)) {
+        input.salaryExemptions = { ...input.salaryExemptions, [section]: (input.salaryExemptions?.[section] || 0) + value };
+      }
+    }
+    return input;
+  }
+
+  private summarize(lines: DeductionLine[]): DeductionValidationResult {
+    const allowed: { [section: string]: number } = {};
+    for (const line of lines) {
+      allowed[line.section] = line.allowed;
+    }
+
+    return {
+      lines,
+      allowed,
+      totalClaimed: lines.reduce((sum, line) => sum + line.claimed, 0),
+      totalAllowed: lines.reduce((sum, line) => sum + line.allowed, 0)
+    };
+  }
+}
@@ -0,0 +1,40 @@
+import type { Response } from "express";
+import type { DocumentEvent } from "@shared/documentEvents";
+
+// Proxies drop idle connections, so send a comment line well inside their timeouts
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+export class DocumentEventsService {
+  private subscribers = new Map<string, Set<Response>>();
+
+  // Hold the response open as a server-sent events stream until the client goes away
+  subscribe(userId: string, res: Response): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.write('retry: 5000\n\n');
+
+    const streams = this.subscribers.get(userId) ?? new Set<Response>();
+    streams.add(res);
+    this.subscribers.set(userId, streams);
+
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      streams.delete(res);
+      if (streams.size === 0) this.subscribers.delete(userId);
+    });
+  }
+
+  publish(userId: string, event: DocumentEvent): void {
+    const streams = this.subscribers.get(userId);
+    if (!streams) return;
+    const message = `event: document\ndata: ${JSON.stringify(event)}\n\n`;
+    for (const res of Array.from(streams)) {
+      res.write(message);
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import { storage } from "../storage";
+import { ocrSemaphore, type ExtractionProgress } from "./pdfExtractor";
+import type { ExtractionJob } from "@shared/schema";
+
+export interface JobProgress {
+  stage: 'queued' | 'downloading' | ExtractionProgress['stage'] | 'saving';
+  page?: number;
+  totalPages?: number;
+}
+
+export interface ExtractionJobHandlers {
+  run: (job: ExtractionJob, reportProgress: (progress: JobProgress) => void, password?: string) => Promise<void>;
+  // Transient failures are retried with backoff while attempts remain
+  isTransient: (error: unknown) => boolean;
+  onFailed: (job: ExtractionJob, error: unknown) => Promise<void>;
+}
+
+const POLL_INTERVAL_MS = 2000;
+const BASE_RETRY_DELAY_MS = 30 * 1000; // 30s, 60s, 120s...
+// OCR gives up after at most 17 minutes, so a job running for longer lost its worker
+const STALE_AFTER_MS = 30 * 60 * 1000;
+const STALE_CHECK_INTERVAL_MS = 60 * 1000;
+
+export class ExtractionQueueService {
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+  private lastStaleCheck = 0;
+  // PDF passwords stay in this process for the life of their job and are never
+  // written to the database; a job picked up elsewhere falls back to the profile
+  private passwords = new Map<string, string>();
+
+  constructor(private handlers: ExtractionJobHandlers) {}
+
+  start(): void {
+    console.log('[Extraction Queue] Worker started');
+    this.schedule(0);
+  }
+
+  async enqueue(userId: string, documentId: string, options: { createRecords?: boolean; password?: string } = {}): Promise<ExtractionJob> {
+    const job = await storage.createExtractionJob({
+      userId,
+      documentId,
+      createRecords: options.createRecords ?? false,
+      progress: { stage: 'queued' }
+    });
+    if (options.password) this.passwords.set(job.id, options.password);
+    console.log(`[Extraction Queue] Queued job ${job.id} for document ${documentId}`);
+    // Pick it up now rather than at the next poll
+    if (!this.polling) this.schedule(0);
+    return job;
+  }
+
+  private schedule(delay: number): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => void this.poll(), delay);
+  }
+
+  // Claim due jobs while an OCR slot is free; each job holds its slot until it settles
+  private async poll(): Promise<void> {
+    this.polling = true;
+    try {
+      if (Date.now() - this.lastStaleCheck >= STALE_CHECK_INTERVAL_MS) {
+        this.lastStaleCheck = Date.now();
+        await this.recoverStaleJobs();
+      }
+
+      while (ocrSemaphore.tryAcquire()) {
+        let job: ExtractionJob | undefined;
+        try {
+          job = await storage.claimNextExtractionJob();
+        } finally {
+          if (!job) ocrSemaphore.release();
+        }
+        if (!job) break;
+        void this.runJob(job).finally(() => {
+          ocrSemaphore.release();
+          if (!this.polling) this.schedule(0);
+        });
+      }
+    } catch (error) {
+      console.error('[Extraction Queue] Poll failed:', error);
+    } finally {
+      this.polling = false;
+      this.schedule(POLL_INTERVAL_MS);
+    }
+  }
+
+  private async recoverStaleJobs(): Promise<void> {
+    const stale = await storage.requeueStaleExtractionJobs(new Date(Date.now() - STALE_AFTER_MS));
+    for (const job of stale) {
+      console.warn(`[Extraction Queue] Job ${job.id} was left running and is now ${job.status}`);
+      if (job.status === 'failed') {
+        this.passwords.delete(job.id);
+        await this.handlers.onFailed(job, new Error(job.lastError ?? 'Extraction was interrupted'));
+      }
+    }
+  }
+
+  private async runJob(job: ExtractionJob): Promise<void> {
+    console.log(`[Extraction Queue] Running job ${job.id}, attempt ${job.attempts} of ${job.maxAttempts}`);
+
+    // Progress is written in order without holding up the extraction
+    let progressWrites: Promise<unknown> = Promise.resolve();
+    const reportProgress = (progress: JobProgress) => {
+      progressWrites = progressWrites
+        .then(() => storage.updateExtractionJob(job.id, { progress }))
+        .catch(error => console.error(`[Extraction Queue] Failed to save progress for job ${job.id}:`, error));
+    };
+
+    try {
+      await this.handlers.run(job, reportProgress, this.passwords.get(job.id));
+      this.passwords.delete(job.id);
+      await progressWrites;
+      await storage.updateExtractionJob(job.id, { status: 'completed', lockedAt: null, lastError: null, completedAt: new Date() });
+      console.log(`[Extraction Queue] Job ${job.id} completed`);
+    } catch (error) {
+      await progressWrites;
+      const message = error instanceof Error ? error.message : String(error);
+      try {
+        if (this.handlers.isTransient(error) && job.attempts < job.maxAttempts) {
+          const delay = BASE_RETRY_DELAY_MS * 2 ** (job.attempts - 1);
+          console.warn(`[Extraction Queue] Job ${job.id} failed, retrying in ${delay / 1000}s:`, message);
+          await storage.updateExtractionJob(job.id, {
+            status: 'queued',
+            lockedAt: null,
+            lastError: message,
+            runAt: new Date(Date.now() + delay),
+            progress: { stage: 'queued' }
+          });
+        } else {
+          console.error(`[Extraction Queue] Job ${job.id} failed:`, message);
+          this.passwords.delete(job.id);
+          await storage.updateExtractionJob(job.id, { status: 'failed', lockedAt: null, lastError: message, completedAt: new Date() });
+          await this.handlers.onFailed(job, error);
+        }
+      } catch (updateError) {
+        console.error(`[Extraction Queue] Failed to record the failure of job ${job.id}:`, updateError);
+      }
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Form16ConsolidationService, salaryClaimsFromForm16 } from './form16Consolidation';
+import { SUPPORTED_ASSESSMENT_YEARS } from './taxRules';
+import type { TaxDocument } from '@shared/schema';
+
+const consolidation = new Form16ConsolidationService();
+
+const form16 = (id: string, assessmentYear: string, extractedData: Record<string, unknown>) => ({
+  id,
+  fileName: `${id}.pdf`,
+  assessmentYear,
+  status: 'completed',
+  extractedData
+}) as TaxDocument;
+
+// New regime tax on ₹16 lakh of salary from two employers, after one standard deduction
+const TAX_ON_COMBINED_SALARY: Record<string, { standardDeduction: number; tax: number }> = {
+  '2023-24': { standardDeduction: 0, tax: 226200 },
+  '2024-25': { standardDeduction: 50000, tax: 171600 },
+  '2025-26': { standardDeduction: 75000, tax: 153400 },
+  '2026-27': { standardDeduction: 75000, tax: 113100 }
+};
+
+for (const assessmentYear of SUPPORTED_ASSESSMENT_YEARS) {
+  test(`two Form 16s are taxed on the combined salary for AY ${assessmentYear}`, () => {
+    const { standardDeduction, tax } = TAX_ON_COMBINED_SALARY[assessmentYear];
+    const employer = { grossSalary: 800000, standardDeduction, tdsDeducted: 40000 };
+    const result = consolidation.consolidate([
+      form16('first', assessmentYear, { ...employer, employerName: 'First Ltd', employerTan: 'AAAA11111A' }),
+      form16('second', assessmentYear, { ...employer, employerName: 'Second Ltd', employerTan: 'BBBB22222B' }),
+      // The same Form 16 uploaded twice
+      form16('again', assessmentYear, { ...employer, employerName: 'First Ltd', employerTan: 'AAAA11111A' }),
+      form16('other-year', '2020-21', { ...employer, employerName: 'Old Ltd' })
+    ], assessmentYear, { regime: 'new' });
+
+    assert.deepEqual(result.employers.map(e => e.documentId), ['first', 'second']);
+    assert.deepEqual(result.duplicates, ['again']);
+    assert.equal(result.grossSalary, 1600000);
+    assert.equal(result.standardDeductionClaimed, 2 * standardDeduction);
+    assert.equal(result.standardDeduction, standardDeduction);
+    assert.equal(result.salaryIncome, 1600000 - standardDeduction);
+    assert.equal(result.taxOnAggregate, tax);
+    assert.equal(result.totalTds, 80000);
+    assert.equal(result.tdsShortfall, tax - 80000);
+    assert.ok(result.warnings.some(warning => warning.includes('shortfall')));
+  });
+}
+
+test('section 10 exemptions and professional tax are taken from the Form 16', () => {
+  assert.deepEqual(salaryClaimsFromForm16({
+    totalExemption: 150000,
+    salaryBreakup: { exemptions: [{ section: '10(13A)', amount: 120000 }, { section: '10(5)', amount: 30000 }], professionalTax: 2500 }
+  }), { '10(13A)': 120000, '10(5)': 30000, '16(iii)': 2500 });
+
+  // Without a breakup the total goes in as one section 10 claim
+  assert.deepEqual(salaryClaimsFromForm16({ totalExemption: 150000 }), { 'Section 10': 150000 });
+});
+
+test('the old regime allows the exemptions the new regime does not', () => {
+  const document = form16('only', '2025-26', {
+    employerName: 'First Ltd',
+    grossSalary: 1200000,
+    tdsDeducted: 60000,
+    salaryBreakup: { exemptions: [{ section: '10(13A)', amount: 100000 }], professionalTax: 2500 },
+    deductions: { '80C': 150000 }
+  });
+
+  const oldRegime = consolidation.consolidate([document], '2025-26', { regime: 'old' });
+  assert.equal(oldRegime.exemptions, 100000);
+  assert.equal(oldRegime.salaryIncome, 1200000 - 100000 - 50000 - 2500);
+
+  const newRegime = consolidation.consolidate([document], '2025-26', { regime: 'new' });
+  assert.equal(newRegime.exemptions, 0);
+  assert.equal(newRegime.salaryIncome, 1200000 - 75000);
+});
@@ -0,0 +1,235 @@
+import { getTaxRules, DEFAULT_ASSESSMENT_YEAR } from "./taxRules";
+import { TaxCalculatorService, type RegimeComparison } from "./taxCalculator";
+import { normalizeSection, type DeductionProfile } from "./deductionValidator";
+import type { TaxDocument } from "@shared/schema";
+
+export interface EmployerSalary {
+  documentId: string;
+  fileName: string;
+  employerName?: string;
+  employerTan?: string;
+  grossSalary: number;
+  exemptions: number; // Section 10 exemptions allowed by this employer
+  salaryClaims: { [section: string]: number }; // Exemptions and professional tax by section
+  standardDeduction: number; // As allowed on this Form 16
+  incomeChargeable: number;
+  deductions: { [section: string]: number };
+  tdsDeducted: number;
+}
+
+export interface Form16Consolidation {
+  assessmentYear: string;
+  employers: EmployerSalary[];
+  duplicates: string[]; // Document ids skipped as repeat uploads of the same Form 16
+  regime: 'old' | 'new';
+  grossSalary: number;
+  exemptions: number; // Section 10 exemptions the chosen regime allows
+  standardDeductionClaimed: number; // Total across the Form 16s
+  standardDeduction: number; // Allowed once on the combined salary
+  salaryIncome: number; // Income chargeable under the head Salaries
+  deductions: { [section: string]: number }; // Chapter VI-A claims from every Form 16
+  comparison: RegimeComparison;
+  taxOnAggregate: number;
+  totalTds: number;
+  tdsShortfall: number; // Tax on the combined salary not covered by TDS
+  warnings: string[];
+}
+
+// Exemptions are passed to the calculator as pass-through claims by section.
+// Without a Part B breakup the total goes in as a single section 10 claim,
+// which only the old regime allows.
+const EXEMPTION_SECTION = 'Section 10';
+const PROFESSIONAL_TAX_SECTION = '16(iii)';
+
+export interface Form16SalaryFields {
+  totalExemption?: number;
+  salaryBreakup?: {
+    perquisites?: number;
+    profitsInLieuOfSalary?: number;
+    exemptions?: { section: string; amount: number }[];
+    professionalTax?: number;
+  };
+}
+
+// Section 10 exemptions and tax on employment from a Form 16, as claims the
+// calculator can take alongside Chapter VI-A deductions
+export function salaryClaimsFromForm16(data: Form16SalaryFields): { [section: string]: number } {
+  const claims: { [section: string]: number } = {};
+  const exemptions = data.salaryBreakup?.exemptions ?? [];
+  for (const exemption of exemptions) {
+    const amount = Number(exemption.amount) || 0;
+    if (amount > 0) claims[exemption.section] = (claims[exemption.section] || 0) + amount;
+  }
+  if (exemptions.length === 0 && Number(data.totalExemption) > 0) {
+    claims[EXEMPTION_SECTION] = Number(data.totalExemption);
+  }
+  const professionalTax = Number(data.salaryBreakup?.professionalTax) || 0;
+  if (professionalTax > 0) claims[PROFESSIONAL_TAX_SECTION] = professionalTax;
+  return claims;
+}
+
+export class Form16ConsolidationService {
+  private taxCalculator = new TaxCalculatorService();
+
+  // Combine every completed Form 16 for the year. Each employer works out TDS
+  // on its own salary alone, so after a job change the standard deduction and
+  // the lower slabs have usually been allowed twice.
+  consolidate(
+    documents: TaxDocument[],
+    assessmentYear: string = DEFAULT_ASSESSMENT_YEAR,
+    options: { regime?: 'old' | 'new'; isNonResident?: boolean; deductionProfile?: DeductionProfile } = {}
+  ): Form16Consolidation {
+    const warnings: string[] = [];
+    const employers: EmployerSalary[] = [];
+    const duplicates: string[] = [];
+
+    for (const document of documents) {
+      if (document.assessmentYear !== assessmentYear || document.status !== 'completed' || !document.extractedData) continue;
+      const employer = this.employerSalary(document);
+      if (employer.grossSalary <= 0) continue;
+
+      const repeat = employers.find(e =>
+        this.sameEmployer(e, employer)
+        && e.grossSalary === employer.grossSalary
+        && e.tdsDeducted === employer.tdsDeducted);
+      if (repeat) {
+        duplicates.push(document.id);
+        warnings.push(`${document.fileName} repeats ${repeat.fileName} and was counted once`);
+        continue;
+      }
+      employers.push(employer);
+    }
+
+    const grossSalary = this.sum(employers.map(e => e.grossSalary));
+    const totalTds = this.sum(employers.map(e => e.tdsDeducted));
+
+    // Chapter VI-A claims are merged; the calculator applies the caps once
+    const deductions: { [section: string]: number } = {};
+    const claimedBy: { [section: string]: number } = {};
+    for (const employer of employers) {
+      for (const [section, amount] of Object.entries(employer.deductions)) {
+        deductions[section] = (deductions[section] || 0) + amount;
+        claimedBy[normalizeSection(section)] = (claimedBy[normalizeSection(section)] || 0) + 1;
+      }
+    }
+    const salaryClaims: { [section: string]: number } = {};
+    for (const employer of employers) {
+      for (const [section, amount] of Object.entries(employer.salaryClaims)) {
+        salaryClaims[section] = (salaryClaims[section] || 0) + amount;
+      }
+    }
+    for (const [section, count] of Object.entries(claimedBy)) {
+      if (count > 1) {
+        warnings.push(`Section ${section} appears on ${count} Form 16s. Claim each investment or payment only once.`);
+      }
+    }
+
+    const comparison = this.taxCalculator.compareComputation(
+      { salaries: employers.map(e => ({ description: e.employerName || e.fileName, amount: e.grossSalary })) },
+      { ...deductions, ...salaryClaims },
+      {},
+      options.isNonResident ?? false,
+      assessmentYear,
+      { salary: grossSalary, ...options.deductionProfile }
+    );
+    const regime = options.regime ?? comparison.recommendedRegime;
+    const result = regime === 'old' ? comparison.oldRegime : comparison.newRegime;
+
+    const standardDeductionLimit = regime === 'old'
+      ? getTaxRules(assessmentYear).oldRegime.standardDeduction
+      : getTaxRules(assessmentYear).newRegime.standardDeduction;
+    const standardDeduction = Math.min(grossSalary, standardDeductionLimit);
+    const standardDeductionClaimed = this.sum(employers.map(e => e.standardDeduction));
+    // What the regime allowed of the exemptions and professional tax claimed
+    const allowedSalaryClaim = (section: string) =>
+      (result.deductionDetails ?? []).find(line => normalizeSection(line.section) === normalizeSection(section))?.allowed ?? 0;
+    const regimeExemptions = this.sum(Object.keys(salaryClaims)
+      .filter(section => section !== PROFESSIONAL_TAX_SECTION)
+      .map(allowedSalaryClaim));
+    const professionalTax = allowedSalaryClaim(PROFESSIONAL_TAX_SECTION);
+    if (employers.length > 1 && standardDeductionClaimed > standardDeduction) {
+      warnings.push(
+        `Your employers allowed ${this.formatAmount(standardDeductionClaimed)} of standard deduction between them, ` +
+        `but only ${this.formatAmount(standardDeduction)} is allowed on the combined salary`
+      );
+    }
+
+    const taxOnAggregate = Math.round(result.totalTax);
+    const tdsShortfall = Math.max(0, taxOnAggregate - Math.round(totalTds));
+    if (employers.length > 1 && tdsShortfall > 0) {
+      warnings.push(
+        `Tax on your combined salary is ${this.formatAmount(taxOnAggregate)} but your employers deducted ` +
+        `${this.formatAmount(totalTds)}, as neither accounted for the other's salary. Pay the ` +
+        `${this.formatAmount(tdsShortfall)} shortfall as advance or self-assessment tax to limit interest under 234B and 234C.`
+      );
+    }
+
+    return {
+      assessmentYear: getTaxRules(assessmentYear).assessmentYear,
+      employers,
+      duplicates,
+      regime,
+      grossSalary,
+      exemptions: regimeExemptions,
+      standardDeductionClaimed,
+      standardDeduction,
+      salaryIncome: Math.max(0, grossSalary - regimeExemptions - standardDeduction - professionalTax),
+      deductions,
+      comparison,
+      taxOnAggregate,
+      totalTds,
+      tdsShortfall,
+      warnings
+    };
+  }
+
+  private employerSalary(document: TaxDocument): EmployerSalary {
+    const data = document.extractedData as {
+      employerName?: string;
+      employerTan?: string;
+      grossSalary?: number;
+      standardDeduction?: number;
+      incomeChargeable?: number;
+      tdsDeducted?: number;
+      deductions?: { [section: string]: number };
+    } & Form16SalaryFields;
+    const grossSalary = Number(data.grossSalary) || 0;
+    const deductions: { [section: string]: number } = {};
+    for (const [section, amount] of Object.entries(data.deductions ?? {})) {
+      const value = Number(amount) || 0;
+      if (value > 0) deductions[section] = value;
+    }
+
+    return {
+      documentId: document.id,
+      fileName: document.fileName,
+      employerName: data.employerName,
+      employerTan: data.employerTan,
+      grossSalary,
+      exemptions: Number(data.totalExemption) || 0,
+      salaryClaims: salaryClaimsFromForm16(data),
+      standardDeduction: Number(data.standardDeduction) || 0,
+      incomeChargeable: Number(data.incomeChargeable) || grossSalary,
+      deductions,
+      tdsDeducted: Number(data.tdsDeducted) || 0
+    };
+  }
+
+  // Same TAN when both Form 16s carry Part A, otherwise the same name
+  private sameEmployer(a: EmployerSalary, b: EmployerSalary): boolean {
+    if (a.employerTan && b.employerTan) return a.employerTan === b.employerTan;
+    return this.normalizeName(a.employerName) === this.normalizeName(b.employerName);
+  }
+
+  private normalizeName(name?: string): string {
+    return (name ?? '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+  }
+
+  private sum(values: number[]): number {
+    return values.reduce((total, value) => total + value, 0);
+  }
+
+  private formatAmount(amount: number): string {
+    return `₹${Math.round(amount).toLocaleString('en-IN')}`;
+  }
+}
@@ -0,0 +1,99 @@
+// Page-by-page view of a Form 16 bundle: which pages carry a text layer,
+// which are scans that need OCR, and which part of the certificate each holds
+
+export type PageContent = 'text' | 'scanned' | 'blank';
+export type Form16PageKind = PageContent | 'irrelevant';
+export type Form16Part = 'part_a' | 'part_b' | 'annexure';
+
+// What pdf-parse saw on a page before any OCR
+export interface PageLayer {
+  text: string;
+  hasImages: boolean;
+}
+
+export interface Form16Page {
+  page: number;
+  kind: Form16PageKind;
+  parts: Form16Part[]; // Empty for a scanned page until it is read
+  ocr: boolean; // Read with OCR rather than from the text layer
+  read: boolean; // Whether the page's text went into parsing
+}
+
+// Less text than this on a page that paints an image means the text is a
+// stamp or header over a scan
+const MIN_TEXT_CHARACTERS = 100;
+
+const PART_SIGNALS: Record<Form16Part, RegExp[]> = {
+  part_a: [
+    /^\s*PART\s*[-–]?\s*A\b/im,
+    /certificate\s+under\s+section\s+203/i,
+    /TAN\s+of\s+the\s+deductor/i,
+    /summary\s+of\s+(?:amount\s+paid|tax\s+deducted)/i,
+    /challan\s+identification/i,
+    /book\s+identification\s+number/i
+  ],
+  part_b: [
+    /^\s*PART\s*[-–]?\s*B\b/im,
+    /details\s+of\s+salary\s+paid/i,
+    /gross\s+salary/i,
+    /chapter\s*VI-?A/i,
+    /income\s+chargeable\s+under\s+the\s+head/i
+  ],
+  annexure: [
+    /annexure/i,
+    /form\s*(?:no\.?\s*)?12\s*B[AB]\b/i,
+    /valuation\s+of\s+perquisites/i
+  ]
+};
+
+// The tax computation closes Part B; anything after it is an attachment
+const PART_B_END = [
+  /net\s+tax\s+payable/i,
+  /tax\s+payable\s*\/\s*refundable/i
+];
+
+export function pageContent(layer: PageLayer): PageContent {
+  const characters = layer.text.replace(/\s+/g, '').length;
+  if (characters >= MIN_TEXT_CHARACTERS) return 'text';
+  if (layer.hasImages) return 'scanned';
+  return characters > 0 ? 'text' : 'blank';
+}
+
+export function form16Parts(text: string): Form16Part[] {
+  return (Object.keys(PART_SIGNALS) as Form16Part[])
+    .filter(part => PART_SIGNALS[part].some(pattern => pattern.test(text)));
+}
+
+export function classifyPage(page: number, layer: PageLayer): Form16Page {
+  const content = pageContent(layer);
+  const parts = content === 'text' ? form16Parts(layer.text) : [];
+  return {
+    page,
+    kind: content === 'text' && parts.length === 0 ? 'irrelevant' : content,
+    parts,
+    ocr: false,
+    read: content === 'text' && parts.length > 0
+  };
+}
+
+// Records what OCR found on a scanned page
+export function classifyScannedPage(page: Form16Page, text: string): void {
+  page.ocr = true;
+  page.parts = form16Parts(text);
+  if (text.replace(/\s+/g, '').length === 0) {
+    page.kind = 'blank';
+  } else if (page.parts.length === 0) {
+    page.kind = 'irrelevant';
+  }
+  page.read = page.parts.length > 0;
+}
+
+// Part A is present and Part B has been read through to its tax computation,
+// so the remaining scans are annexures that are not worth OCR
+export function isForm16Complete(pages: Form16Page[], texts: Map<number, string>): boolean {
+  const hasPartA = pages.some(page => page.parts.includes('part_a'));
+  const partBEnded = pages.some(page =>
+    page.parts.includes('part_b') && PART_B_END.some(pattern => pattern.test(texts.get(page.page) ?? ''))
+  );
+  return hasPartA && partBEnded;
+}
@@ -0,0 +1,10 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectForm16Template } from './form16Templates';
+
+test('detects ADP exports by their source, not by a bare mention of ADP', () => {
+  assert.equal(detectForm16Template('Employee Name : RAVI KUMAR\nADP India Private Limited').layout, 'adp');
+  assert.equal(detectForm16Template('Generated by ADP\nGross Salary : 755046').layout, 'adp');
+  assert.equal(detectForm16Template('Name of the employer : ADP CONSULTANTS LLP').layout, 'generic');
+  assert.equal(detectForm16Template('Quarterly adp allowance : 1200').layout, 'generic');
+});
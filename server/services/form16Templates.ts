@@ -0,0 +1,395 @@
+export type Form16Layout = 'traces' | 'greytip' | 'keka' | 'adp' | 'generic';
+
+// Fields read from labelled amount lines in Part B
+export type Form16AmountField =
+  | 'grossSalary'
+  | 'grossTotalIncome'
+  | 'totalExemption'
+  | 'standardDeduction'
+  | 'incomeChargeable'
+  | 'taxableIncome'
+  | 'netTaxPayable';
+
+// How a template finds a text field such as the employee name
+export type Form16FieldRule =
+  // The value follows the label on the same line, e.g. "Employee Name : RAVI KUMAR"
+  | { type: 'labelled'; pattern: RegExp; when?: RegExp }
+  // The value sits on one of the lines below a heading; pick returns it or undefined to keep looking
+  | { type: 'below_heading'; heading: RegExp; within: number; pick: (line: string, found: Form16Parties) => string | undefined }
+  // The first match anywhere in the document
+  | { type: 'anywhere'; pattern: RegExp };
+
+// Rows of the Part B salary breakup read into Form16SalaryBreakup
+export type Form16SalaryField =
+  | 'salary'
+  | 'perquisites'
+  | 'profitsInLieuOfSalary'
+  | 'totalExemption'
+  | 'standardDeduction'
+  | 'entertainmentAllowance'
+  | 'professionalTax';
+
+// Numbered blocks of Part B in the prescribed form: 1 gross salary,
+// 2 section 10 exemptions and 4 deductions under section 16
+export type Form16ItemGroup = 'salary' | 'exemptions' | 'deductions';
+
+// A Part B row, found by its label. When a cell is split from the label it
+// stays next to the row's item marker, e.g. "(e)69713.00" for HRA at 2(e).
+export interface Form16RowRule {
+  label: RegExp;
+  item?: [Form16ItemGroup, string];
+}
+
+export interface Form16ExemptionRow {
+  section: string; // As printed, e.g. 10(13A); "Section 10" for any other exemption
+  label: string;
+  rules: Form16RowRule[];
+}
+
+// Where a numbered block starts and where the next one takes over
+export interface Form16ItemGroupBounds {
+  heading: RegExp;
+  next: RegExp;
+}
+
+// The Part A certificate: deductor details, quarterly summary and challans
+export interface Form16PartARules {
+  partBHeading: RegExp; // Part A runs until here
+  tanHeading: RegExp;
+  deductorPanHeading: RegExp;
+  citHeading: RegExp;
+  citEnd: RegExp; // First line after the CIT (TDS) address
+  quarterRow: RegExp; // Captures the quarter number and the rest of the row
+  receiptNumber: RegExp;
+  challanHeading: RegExp;
+  // Captures tax deposited, BSR code, date of deposit, challan serial and status
+  challanRow: RegExp;
+}
+
+// The Chapter VI-A table of Part B
+export interface Form16ChapterVIARules {
+  heading: RegExp;
+  end: RegExp; // The aggregate row that closes the table
+  columnHeadings: RegExp;
+}
+
+export interface Form16Parties {
+  employerName?: string;
+  employeeName?: string;
+  pan?: string;
+}
+
+export interface Form16Template {
+  layout: Form16Layout;
+  name: string;
+  detect: (text: string) => boolean;
+  // Tried in order, before the generic rules
+  employerName: Form16FieldRule[];
+  employeeName: Form16FieldRule[];
+  pan: Form16FieldRule[];
+  amounts: Partial<Record<Form16AmountField, RegExp[]>>;
+  // Labels of rows whose amount is not set off by a colon, tried after amounts
+  amountRows: Partial<Record<Form16AmountField, RegExp[]>>;
+  salaryRows: Partial<Record<Form16SalaryField, Form16RowRule[]>>;
+  exemptionRows: Form16ExemptionRow[];
+  // Layouts that follow the prescribed form leave these to the generic template
+  itemGroups?: Record<Form16ItemGroup, Form16ItemGroupBounds>;
+  partA?: Form16PartARules;
+  chapterVIA?: Form16ChapterVIARules;
+}
+
+const PAN = /\b([A-Z]{5}\d{4}[A-Z])\b/;
+const COMPANY_SUFFIX = /\b(?:LIMITED|LTD|PRIVATE|PVT|LLP|COMPANY|CORPORATION|CORP|INC|BANK)\b\.?/i;
+const ADDRESS_WORD = /\b(?:ROAD|RD|STREET|ST|NAGAR|PLOT|FLOOR|SECTOR|BUILDING|TOWER|PARK|COLONY|LANE|AVENUE|PHASE|BLOCK|ESTATE|CROSS|MAIN|SEZ|CAMPUS|VILLAGE|DISTRICT|TALUK|POST|NEAR|OPP)\b/i;
+const amount = String.raw`₹?\s*([0-9,]+\.?\d*)`;
+const under = String.raw`(?:under|u\/s)\s*section`;
+// A row label, where UNDER stands for "under section" or "u/s"
+const rowLabel = (pattern: string) => new RegExp(pattern.replace(/UNDER/g, under), 'i');
+
+// The first line under the heading that is not another heading, a number or a PAN row
+const employerNameLine = (line: string): string | undefined =>
+  line.length > 3 && !/^\d/.test(line) && !/Name\s+and\s+address/i.test(line) && /[A-Z]{2}/.test(line) && !PAN.test(line)
+    ? line
+    : undefined;
+
+// A person's name: capitals only, not the employer and not part of its address
+const employeeNameLine = (line: string, found: Form16Parties): string | undefined =>
+  line.length > 5
+    && /^[A-Z][A-Z.\s]+$/.test(line)
+    && line !== found.employerName
+    && !COMPANY_SUFFIX.test(line)
+    && !ADDRESS_WORD.test(line)
+    && !/ADDRESS|EMPLOYER|EMPLOYEE/.test(line)
+    ? line
+    : undefined;
+
+// The PAN column is the last of the deductor PAN / TAN / employee PAN row
+const lastPan = (line: string): string | undefined => line.match(new RegExp(PAN.source, 'g'))?.pop();
+
+// Part A is issued from TRACES whoever prepares Part B
+const TRACES_PART_A: Form16PartARules = {
+  partBHeading: /^PART\s*B\b/i,
+  tanHeading: /TAN\s*of\s*the\s*Deductor/i,
+  deductorPanHeading: /PAN\s*of\s*the\s*Deductor/i,
+  citHeading: /CIT\s*\(\s*TDS\s*\)/i,
+  citEnd: /Assessment\s*Year|Period|Summary|Quarter|^From\b|^To\b/i,
+  quarterRow: /^Q\s*([1-4])\b(.*)$/i,
+  receiptNumber: /^[A-Z]{8}$/,
+  challanHeading: /deposited\s*in\s*the\s*central\s*government\s*account\s*through\s*challan/i,
+  challanRow: /^\d+\s+([0-9,]+\.?\d*)\s+(\d{7})\s+(\d{2}[-\/.]\d{2}[-\/.]\d{4})\s+(\d{1,5})(?:\s+([A-Z]))?\b/
+};
+
+// Part B rows as numbered in the prescribed form (rule 31)
+const PRESCRIBED_ITEM_GROUPS: Record<Form16ItemGroup, Form16ItemGroupBounds> = {
+  salary: { heading: /Gross\s*Salary/i, next: /Less:?\s*Allowances/i },
+  exemptions: {
+    heading: /Less:?\s*Allowances\s*to\s*the\s*extent\s*exempt/i,
+    next: /Total\s*amount\s*of\s*salary\s*received|Less:?\s*Deductions\s*under\s*section\s*16/i
+  },
+  deductions: { heading: /Less:?\s*Deductions\s*under\s*section\s*16/i, next: /Income\s*chargeable\s*under\s*the\s*head/i }
+};
+
+const PRESCRIBED_SALARY_ROWS: Form16Template['salaryRows'] = {
+  salary: [{ label: rowLabel(String.raw`Salary\s*as\s*per\s*provisions\s*contained\s*in\s*section\s*17\s*\(\s*1\s*\)`), item: ['salary', 'a'] }],
+  perquisites: [{ label: rowLabel(String.raw`Value\s*of\s*perquisites\s*UNDER\s*17\s*\(\s*2\s*\)(?:\s*\(as\s*per\s*Form\s*No\.?\s*12BA[^)]*\))?`), item: ['salary', 'b'] }],
+  profitsInLieuOfSalary: [{ label: rowLabel(String.raw`Profits\s*in\s*lieu\s*of\s*salary\s*UNDER\s*17\s*\(\s*3\s*\)(?:\s*\(as\s*per\s*Form\s*No\.?\s*12BA[^)]*\))?`), item: ['salary', 'c'] }],
+  totalExemption: [{ label: rowLabel(String.raw`Total\s*amount\s*of\s*exemption\s*claimed\s*UNDER\s*10`), item: ['exemptions', 'h'] }],
+  standardDeduction: [{ label: rowLabel(String.raw`Standard\s*deduction\s*UNDER\s*16\s*\(\s*ia\s*\)`), item: ['deductions', 'a'] }],
+  entertainmentAllowance: [{ label: rowLabel(String.raw`Entertainment\s*allowance\s*UNDER\s*16\s*\(\s*ii\s*\)`), item: ['deductions', 'b'] }],
+  professionalTax: [{ label: rowLabel(String.raw`Tax\s*on\s*employment\s*UNDER\s*16\s*\(\s*iii\s*\)`), item: ['deductions', 'c'] }]
+};
+
+const PRESCRIBED_EXEMPTION_ROWS: Form16ExemptionRow[] = [
+  { section: '10(5)', label: 'Leave travel concession', rules: [{ label: rowLabel(String.raw`Travel\s*concession\s*or\s*assistance\s*UNDER\s*10\s*\(\s*5\s*\)`), item: ['exemptions', 'a'] }] },
+  { section: '10(10)', label: 'Gratuity', rules: [{ label: rowLabel(String.raw`gratuity\s*UNDER\s*10\s*\(\s*10\s*\)`), item: ['exemptions', 'b'] }] },
+  { section: '10(10A)', label: 'Commuted pension', rules: [{ label: rowLabel(String.raw`Commuted\s*value\s*of\s*pension\s*UNDER\s*10\s*\(\s*10A\s*\)`), item: ['exemptions', 'c'] }] },
+  { section: '10(10AA)', label: 'Leave encashment', rules: [{ label: rowLabel(String.raw`leave\s*salary\s*encashment\s*UNDER\s*10\s*\(\s*10AA\s*\)`), item: ['exemptions', 'd'] }] },
+  { section: '10(13A)', label: 'House rent allowance', rules: [{ label: rowLabel(String.raw`House\s*rent\s*allowance\s*UNDER\s*10\s*\(\s*13A\s*\)`), item: ['exemptions', 'e'] }] },
+  {
+    section: 'Section 10',
+    label: 'Other exemptions',
+    rules: [
+      { label: rowLabel(String.raw`Total\s*amount\s*of\s*any\s*other\s*exemption\s*UNDER\s*10`), item: ['exemptions', 'g'] },
+      { label: rowLabel(String.raw`Amount\s*of\s*any\s*other\s*exemption\s*UNDER\s*10`), item: ['exemptions', 'g'] }
+    ]
+  }
+];
+
+// Rules that hold for most Form 16s; every template falls back to these
+const GENERIC_TEMPLATE: Form16Template = {
+  layout: 'generic',
+  name: 'Generic Form 16',
+  detect: () => true,
+  employerName: [
+    { type: 'below_heading', heading: /Name\s+and\s+address\s+of\s+the\s+Employer/i, within: 5, pick: employerNameLine },
+    { type: 'labelled', pattern: /^(?:Name\s*of\s*)?Employer(?:'s)?\s*Name\s*[:\-]\s*(.{3,})$/i },
+    { type: 'labelled', pattern: /^Employer\s*[:\-]\s*(.{3,})$/i },
+    { type: 'labelled', pattern: /^Company\s*Name\s*[:\-]\s*(.{3,})$/i }
+  ],
+  employeeName: [
+    { type: 'below_heading', heading: /Name\s+and\s+address\s+of\s+the\s+Employee/i, within: 10, pick: employeeNameLine },
+    { type: 'labelled', pattern: /^(?:Name\s*of\s*)?Employee(?:'s)?\s*Name\s*[:\-]\s*(.{3,})$/i },
+    { type: 'labelled', pattern: /^Employee\s*[:\-]\s*(.{3,})$/i },
+    { type: 'labelled', pattern: /^Name\s*[:\-]\s*(.{3,})$/i }
+  ],
+  pan: [
+    { type: 'below_heading', heading: /PAN\s+of\s+the\s+Employee/i, within: 5, pick: lastPan },
+    { type: 'labelled', pattern: PAN, when: /Employee/i },
+    { type: 'anywhere', pattern: PAN }
+  ],
+  amounts: {
+    grossSalary: [
+      new RegExp(String.raw`^(?:\d+\.?\s*)?(?:Gross\s*)?Salary\s*(?:as\s*per\s*provisions\s*of\s*section\s*17\s*\(1\))?\s*[:\-]\s*${amount}`, 'i'),
+      new RegExp(String.raw`^(?:\d+\.?\s*)?(?:Total\s*)?Annual\s*Salary\s*[:\-]\s*${amount}`, 'i'),
+      new RegExp(String.raw`^(?:\d+\.?\s*)?Gross\s*Salary\s*[:\-]\s*${amount}`, 'i')
+    ],
+    grossTotalIncome: [
+      new RegExp(String.raw`^(?:\d+\.?\s*)?Gross\s*Total\s*Income\s*[:\-]\s*${amount}`, 'i'),
+      new RegExp(String.raw`^(?:\d+\.?\s*)?Total\s*Income\s*(?:from\s*all\s*sources)?\s*[:\-]\s*${amount}`, 'i')
+    ],
+    totalExemption: [
+      new RegExp(String.raw`^(?:\d+\.?\s*)?(?:Total\s*)?(?:Amount\s*of\s*)?Exemption(?:s)?\s*(?:claimed\s*)?(?:u\/s\s*10)?\s*[:\-]\s*${amount}`, 'i'),
+      new RegExp(String.raw`^(?:\d+\.?\s*)?Exemptions\s*under\s*section\s*10\s*[:\-]\s*${amount}`, 'i')
+    ],
+    standardDeduction: [
+      new RegExp(String.raw`^(?:\d+\.?\s*)?(?:Standard\s*)?Deduction\s*(?:u\/s|under\s*section)\s*16\s*\(ia\)\s*[:\-]\s*${amount}`, 'i'),
+      new RegExp(String.raw`^(?:\d+\.?\s*)?Section\s*16\s*\(ia\)\s*(?:Standard\s*Deduction)?\s*[:\-]\s*${amount}`, 'i'),
+      new RegExp(String.raw`^(?:\d+\.?\s*)?Standard\s*Deduction\s*[:\-]\s*${amount}`, 'i')
+    ],
+    incomeChargeable: [
+      new RegExp(String.raw`^(?:\d+\.?\s*)?Income\s*chargeable\s*under\s*the\s*head\s*['"]?Salaries['"]?\s*(?:\(\d+[-\s]*\d*\))?\s*[:\-]\s*${amount}`, 'i'),
+      new RegExp(String.raw`^(?:\d+\.?\s*)?(?:Total\s*)?Income\s*chargeable\s*to\s*tax\s*(?:under\s*salary)?\s*[:\-]\s*${amount}`, 'i')
+    ],
+    taxableIncome: [
+      new RegExp(String.raw`^(?:\d+\.?\s*)?Net\s*(?:Taxable\s*)?Income\s*[:\-]\s*${amount}`, 'i'),
+      new RegExp(String.raw`^(?:\d+\.?\s*)?(?:Total\s*)?Taxable\s*Income\s*(?:after\s*deductions)?\s*[:\-]\s*${amount}`, 'i'),
+      new RegExp(String.raw`^(?:\d+\.?\s*)?Income\s*(?:chargeable\s*)?(?:to\s*)?tax\s*[:\-]\s*${amount}`, 'i'),
+      new RegExp(String.raw`^(?:\d+\.?\s*)?Net\s*income\s*[:\-]\s*${amount}`, 'i')
+    ],
+    netTaxPayable: [
+      new RegExp(String.raw`^(?:\d+\.?\s*)?(?:Net\s*)?Tax\s*payable\s*(?:\(after\s*TDS\))?\s*[:\-]\s*${amount}`, 'i'),
+      new RegExp(String.raw`^(?:\d+\.?\s*)?Balance\s*tax\s*payable\s*[:\-]\s*${amount}`, 'i'),
+      new RegExp(String.raw`^(?:\d+\.?\s*)?Tax\s*on\s*total\s*income\s*[:\-]\s*${amount}`, 'i'),
+      new RegExp(String.raw`^(?:\d+\.?\s*)?Total\s*tax\s*liability\s*[:\-]\s*${amount}`, 'i')
+    ]
+  },
+  amountRows: {
+    grossTotalIncome: [/Gross\s*total\s*income(?:\s*\([\d\s+]*\))?/i],
+    taxableIncome: [/Total\s*taxable\s*income(?:\s*\([\d\s\-]*\))?/i],
+    netTaxPayable: [/Net\s*tax\s*payable(?:\s*\([\d\s\-]*\))?/i]
+  },
+  salaryRows: PRESCRIBED_SALARY_ROWS,
+  exemptionRows: PRESCRIBED_EXEMPTION_ROWS,
+  itemGroups: PRESCRIBED_ITEM_GROUPS,
+  partA: TRACES_PART_A,
+  chapterVIA: {
+    heading: /Chapter\s*VI-A/i,
+    end: /Aggregate\s*of\s*deductible\s*amount/i,
+    columnHeadings: /Gross\s*Amount|Deductible\s*Amount/i
+  }
+};
+
+// The certificate downloaded from TRACES: Part A and the Part B annexure
+// with the employer and employee blocks side by side
+const TRACES_TEMPLATE: Form16Template = {
+  layout: 'traces',
+  name: 'TRACES Form 16',
+  detect: text => /TRACES/i.test(text) || (/Certificate\s*under\s*section\s*203/i.test(text) && /TAN\s*of\s*the\s*Deductor/i.test(text)),
+  employerName: [
+    {
+      type: 'below_heading',
+      heading: /Name\s+and\s+address\s+of\s+the\s+Employer/i,
+      within: 5,
+      // The two blocks can interleave in the extracted text, so look for a legal form such as LIMITED
+      pick: line => COMPANY_SUFFIX.test(line) ? employerNameLine(line) : undefined
+    }
+  ],
+  employeeName: [],
+  pan: [],
+  amounts: {},
+  amountRows: {},
+  salaryRows: {},
+  exemptionRows: [],
+  partA: TRACES_PART_A
+};
+
+// Payroll exports put each field on its own labelled line
+const payrollLabels = (employeeLabel: string): Pick<Form16Template, 'employerName' | 'employeeName' | 'pan'> => ({
+  employerName: [
+    { type: 'labelled', pattern: /^(?:Company|Employer|Organi[sz]ation)(?:'s)?\s*Name\s*[:\-]\s*(.{3,})$/i }
+  ],
+  employeeName: [
+    { type: 'labelled', pattern: new RegExp(String.raw`^(?:${employeeLabel})(?:'s)?\s*Name\s*[:\-]\s*(.{3,})$`, 'i') },
+    { type: 'labelled', pattern: new RegExp(String.raw`^Name\s*of\s*(?:the\s*)?(?:${employeeLabel})\s*[:\-]\s*(.{3,})$`, 'i') }
+  ],
+  pan: [
+    { type: 'labelled', pattern: new RegExp(String.raw`^(?:(?:${employeeLabel})\s*)?PAN(?:\s*No\.?)?\s*[:\-]\s*([A-Z]{5}\d{4}[A-Z])`, 'i') }
+  ]
+});
+
+// Payroll exports summarise Part B as one labelled line per figure
+const payrollRows: Pick<Form16Template, 'amounts' | 'amountRows' | 'salaryRows' | 'exemptionRows'> = {
+  amounts: {
+    grossSalary: [new RegExp(String.raw`^(?:Total\s*)?Gross\s*(?:Earnings|Salary|Pay)\s*[:\-]?\s*${amount}$`, 'i')],
+    taxableIncome: [new RegExp(String.raw`^(?:Total\s*)?Taxable\s*Income\s*[:\-]?\s*${amount}$`, 'i')],
+    netTaxPayable: [new RegExp(String.raw`^(?:Net\s*)?Tax\s*Payable\s*[:\-]?\s*${amount}$`, 'i')]
+  },
+  amountRows: {},
+  salaryRows: {
+    standardDeduction: [{ label: /^Standard\s*Deduction\s*[:\-]?/i }],
+    professionalTax: [{ label: /^Professional\s*Tax\s*[:\-]?/i }]
+  },
+  exemptionRows: [
+    { section: '10(13A)', label: 'House rent allowance', rules: [{ label: /^HRA\s*Exempt(?:ion|ed)?\s*[:\-]?/i }] },
+    { section: '10(5)', label: 'Leave travel concession', rules: [{ label: /^(?:LTA|LTC)\s*Exempt(?:ion|ed)?\s*[:\-]?/i }] }
+  ]
+};
+
+const GREYTIP_TEMPLATE: Form16Template = {
+  layout: 'greytip',
+  name: 'greytHR (Greytip) Form 16',
+  detect: text => /grey\s*t\s*hr|greytip/i.test(text),
+  ...payrollLabels('Employee|Emp\\.?'),
+  ...payrollRows
+};
+
+const KEKA_TEMPLATE: Form16Template = {
+  layout: 'keka',
+  name: 'Keka Form 16',
+  detect: text => /\bkeka\b/i.test(text),
+  ...payrollLabels('Employee'),
+  ...payrollRows
+};
+
+const ADP_TEMPLATE: Form16Template = {
+  layout: 'adp',
+  name: 'ADP Form 16',
+  // The export names ADP as its source; a bare "ADP" can be anyone's abbreviation
+  detect: text => /Automatic\s*Data\s*Processing|ADP\s*(?:India|Private\s*Limited|Pvt\.?\s*Ltd|Workforce\s*Now|GlobalView|Vantage|iHCM|Payroll)|(?:Generated|Powered|Processed)\s*(?:by|through)\s*ADP\b/i.test(text),
+  ...payrollLabels('Employee|Associate'),
+  ...payrollRows
+};
+
+// Most specific first; payroll exports often carry the TRACES Part A too,
+// so they are checked before it. The generic template matches anything.
+const FORM16_TEMPLATES: Form16Template[] = [
+  GREYTIP_TEMPLATE,
+  KEKA_TEMPLATE,
+  ADP_TEMPLATE,
+  TRACES_TEMPLATE,
+  GENERIC_TEMPLATE
+];
+
+export const SUPPORTED_FORM16_LAYOUTS = FORM16_TEMPLATES.map(template => template.layout);
+
+export function detectForm16Template(text: string): Form16Template {
+  return FORM16_TEMPLATES.find(template => template.detect(text)) ?? GENERIC_TEMPLATE;
+}
+
+// A template's rules for a field, followed by the generic ones
+export function fieldRules(template: Form16Template, field: keyof Form16Parties): Form16FieldRule[] {
+  return template === GENERIC_TEMPLATE ? template[field] : [...template[field], ...GENERIC_TEMPLATE[field]];
+}
+
+export function amountPatterns(template: Form16Template, field: Form16AmountField): RegExp[] {
+  const generic = GENERIC_TEMPLATE.amounts[field] ?? [];
+  return template === GENERIC_TEMPLATE ? generic : [...(template.amounts[field] ?? []), ...generic];
+}
+
+export function amountRowLabels(template: Form16Template, field: Form16AmountField): RegExp[] {
+  const generic = GENERIC_TEMPLATE.amountRows[field] ?? [];
+  return template === GENERIC_TEMPLATE ? generic : [...(template.amountRows[field] ?? []), ...generic];
+}
+
+export function salaryRowRules(template: Form16Template, field: Form16SalaryField): Form16RowRule[] {
+  const generic = GENERIC_TEMPLATE.salaryRows[field] ?? [];
+  return template === GENERIC_TEMPLATE ? generic : [...(template.salaryRows[field] ?? []), ...generic];
+}
+
+// Exemption rows in the order of the prescribed form, each with the
+// template's rules for its section ahead of the generic ones
+export function exemptionRows(template: Form16Template): Form16ExemptionRow[] {
+  if (template === GENERIC_TEMPLATE) return GENERIC_TEMPLATE.exemptionRows;
+  const sections = Array.from(new Set([...GENERIC_TEMPLATE.exemptionRows, ...template.exemptionRows].map(row => row.section)));
+  return sections.map(section => {
+    const own = template.exemptionRows.find(row => row.section === section);
+    const generic = GENERIC_TEMPLATE.exemptionRows.find(row => row.section === section);
+    return {
+      section,
+      label: (own ?? generic)!.label,
+      rules: [...(own?.rules ?? []), ...(generic?.rules ?? [])]
+    };
+  });
+}
+
+export function itemGroups(template: Form16Template): Record<Form16ItemGroup, Form16ItemGroupBounds> {
+  return template.itemGroups ?? PRESCRIBED_ITEM_GROUPS;
+}
+
+export function partARules(template: Form16Template): Form16PartARules {
+  return template.partA ?? TRACES_PART_A;
+}
+
+export function chapterVIARules(template: Form16Template): Form16ChapterVIARules {
+  return template.chapterVIA ?? GENERIC_TEMPLATE.chapterVIA!;
+}
@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HousePropertyService } from './houseProperty';
+import { SUPPORTED_ASSESSMENT_YEARS } from './taxRules';
+
+const houseProperty = new HousePropertyService();
+
+test('let-out property gets 30% of net annual value and full loan interest', () => {
+  const result = houseProperty.compute([
+    { name: 'Flat', occupancy: 'let_out', annualRent: 300000, municipalTaxesPaid: 20000, interestOnLoan: 100000 }
+  ], 'old');
+
+  const [line] = result.properties;
+  assert.equal(line.netAnnualValue, 280000);
+  assert.equal(line.standardDeduction, 84000);
+  assert.equal(line.income, 96000);
+  assert.equal(result.chargeableIncome, 96000);
+});
+
+test('interest on self-occupied homes is limited to ₹2 lakh in total', () => {
+  const result = houseProperty.compute([
+    { name: 'Home', occupancy: 'self_occupied', interestOnLoan: 150000 },
+    { name: 'Second home', occupancy: 'self_occupied', interestOnLoan: 150000 }
+  ], 'old');
+
+  assert.deepEqual(result.properties.map(line => line.interestAllowed), [150000, 50000]);
+  assert.ok(result.properties[1].note);
+  assert.equal(result.headIncome, -200000);
+});
+
+test('a third self-occupied home is deemed let out', () => {
+  const result = houseProperty.compute([
+    { name: 'One', occupancy: 'self_occupied' },
+    { name: 'Two', occupancy: 'self_occupied' },
+    { name: 'Three', occupancy: 'self_occupied', annualRent: 100000 }
+  ], 'old');
+
+  assert.equal(result.properties[2].occupancy, 'deemed_let_out');
+  assert.equal(result.properties[2].income, 70000);
+});
+
+for (const assessmentYear of SUPPORTED_ASSESSMENT_YEARS) {
+  test(`section 71(3A) limits the loss set off against other heads for AY ${assessmentYear}`, () => {
+    const properties = [
+      { name: 'Flat', occupancy: 'let_out', annualRent: 200000, interestOnLoan: 500000 }
+    ];
+
+    // Loss of 5 lakh less 70% of the rent
+    const oldRegime = houseProperty.compute(properties, 'old', assessmentYear);
+    assert.equal(oldRegime.headIncome, -360000);
+    assert.equal(oldRegime.setOffAgainstOtherHeads, 200000);
+    assert.equal(oldRegime.lossCarriedForward, 160000);
+    assert.equal(oldRegime.chargeableIncome, -200000);
+
+    // The new regime lapses the loss
+    const newRegime = houseProperty.compute(properties, 'new', assessmentYear);
+    assert.equal(newRegime.headIncome, -360000);
+    assert.equal(newRegime.setOffAgainstOtherHeads, 0);
+    assert.equal(newRegime.lossCarriedForward, 0);
+    assert.equal(newRegime.chargeableIncome, 0);
+
+    // Nor is interest on a self-occupied home deductible under it
+    const selfOccupied = houseProperty.compute([{ name: 'Home', occupancy: 'self_occupied', interestOnLoan: 100000 }], 'new', assessmentYear);
+    assert.equal(selfOccupied.properties[0].interestAllowed, 0);
+  });
+}
@@ -0,0 +1,134 @@
+import { getTaxRules, DEFAULT_ASSESSMENT_YEAR } from "./taxRules";
+
+export interface HousePropertyInput {
+  id?: string;
+  name: string;
+  occupancy: 'self_occupied' | 'let_out' | string;
+  annualRent?: number | string | null; // Rent received, or expected rent when deemed let out
+  municipalTaxesPaid?: number | string | null;
+  interestOnLoan?: number | string | null;
+}
+
+export interface HousePropertyLine {
+  id?: string;
+  name: string;
+  occupancy: 'self_occupied' | 'let_out' | 'deemed_let_out';
+  grossAnnualValue: number;
+  municipalTaxes: number;
+  netAnnualValue: number;
+  standardDeduction: number; // 30% of NAV under section 24(a)
+  interestClaimed: number;
+  interestAllowed: number; // Section 24(b)
+  income: number; // Negative for a loss
+  note?: string;
+}
+
+export interface HousePropertyComputation {
+  regime: 'old' | 'new';
+  properties: HousePropertyLine[];
+  headIncome: number; // After intra-head set-off; negative for a loss
+  setOffAgainstOtherHeads: number;
+  lossCarriedForward: number;
+  chargeableIncome: number; // Amount added to (or, for a loss, taken from) total income
+}
+
+// Only two homes can be treated as self-occupied (section 23(4))
+const MAX_SELF_OCCUPIED = 2;
+
+export class HousePropertyService {
+  compute(
+    properties: HousePropertyInput[],
+    regime: 'old' | 'new',
+    assessmentYear: string = DEFAULT_ASSESSMENT_YEAR
+  ): HousePropertyComputation {
+    const caps = getTaxRules(assessmentYear).sectionCaps;
+    let selfOccupiedCount = 0;
+    let selfOccupiedInterestRemaining = caps.section24bSelfOccupied;
+
+    const lines = properties.map((property): HousePropertyLine => {
+      const rent = this.toAmount(property.annualRent);
+      const interestClaimed = this.toAmount(property.interestOnLoan);
+
+      if (property.occupancy === 'self_occupied' && selfOccupiedCount < MAX_SELF_OCCUPIED) {
+        selfOccupiedCount++;
+
+        // Self-occupied homes have nil annual value; the new regime allows no interest on them
+        let interestAllowed = 0;
+        let note: string | undefined;
+        if (regime === 'new') {
+          note = interestClaimed > 0 ? 'Interest on a self-occupied home is not deductible under the new regime' : undefined;
+        } else {
+          interestAllowed = Math.min(interestClaimed, selfOccupiedInterestRemaining);
+          selfOccupiedInterestRemaining -= interestAllowed;
+          if (interestAllowed < interestClaimed) {
+            note = `Interest on self-occupied homes is limited to ₹${caps.section24bSelfOccupied.toLocaleString('en-IN')} in total`;
+          }
+        }
+
+        return {
+          id: property.id,
+          name: property.name,
+          occupancy: 'self_occupied',
+          grossAnnualValue: 0,
+          municipalTaxes: 0,
+          netAnnualValue: 0,
+          standardDeduction: 0,
+          interestClaimed,
+          interestAllowed,
+          income: -interestAllowed,
+          ...(note ? { note } : {})
+        };
+      }
+
+      const deemedLetOut = property.occupancy === 'self_occupied';
+      const municipalTaxes = this.toAmount(property.municipalTaxesPaid);
+      const netAnnualValue = Math.max(0, rent - municipalTaxes);
+      const standardDeduction = Math.round(netAnnualValue * 0.3);
+
+      return {
+        id: property.id,
+        name: property.name,
+        occupancy: deemedLetOut ? 'deemed_let_out' : 'let_out',
+        grossAnnualValue: rent,
+        municipalTaxes,
+        netAnnualValue,
+        standardDeduction,
+        interestClaimed,
+        interestAllowed: interestClaimed,
+        income: Math.round(netAnnualValue - standardDeduction - interestClaimed),
+        ...(deemedLetOut ? { note: `Only ${MAX_SELF_OCCUPIED} homes can be self-occupied; this one is deemed let out at its expected rent` } : {})
+      };
+    });
+
+    const headIncome = lines.reduce((sum, line) => sum + line.income, 0);
+    if (headIncome >= 0) {
+      return {
+        regime,
+        properties: lines,
+        headIncome,
+        setOffAgainstOtherHeads: 0,
+        lossCarriedForward: 0,
+        chargeableIncome: headIncome
+      };
+    }
+
+    // The new regime lapses the loss entirely (section 115BAC(2)); the old
+    // regime sets off up to the limit and carries the rest forward for 8 years
+    const loss = -headIncome;
+    const setOffAgainstOtherHeads = regime === 'old' ? Math.min(loss, caps.housePropertyLossSetOff) : 0;
+
+    return {
+      regime,
+      properties: lines,
+      headIncome,
+      setOffAgainstOtherHeads,
+      lossCarriedForward: regime === 'old' ? loss - setOffAgainstOtherHeads : 0,
+      chargeableIncome: setOffAgainstOtherHeads > 0 ? -setOffAgainstOtherHeads : 0
+    };
+  }
+
+  private toAmount(value: number | string | null | undefined): number {
+    const amount = typeof value === 'string' ? parseFloat(value) : value;
+    return amount && !isNaN(amount) ? amount : 0;
+  }
+}
@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { IncomeComputationService, type IncomeComputationInput } from './incomeComputation';
+import { SUPPORTED_ASSESSMENT_YEARS } from './taxRules';
+import type { IncomeSource, HouseProperty } from '@shared/schema';
+
+const incomeComputation = new IncomeComputationService();
+
+const INPUT: IncomeComputationInput = {
+  salaries: [{ description: 'Employer', amount: 1000000 }],
+  houseProperties: [{ name: 'Flat', occupancy: 'let_out', annualRent: 200000, interestOnLoan: 500000 }],
+  business: [{ description: 'Shop', amount: -100000 }],
+  capitalGainTransactions: [
+    { assetClass: 'listed_equity', purchaseDate: '2024-05-01', saleDate: '2024-09-01', costOfAcquisition: 100000, saleValue: 200000 }
+  ],
+  otherSources: [{ description: 'Interest', amount: 50000 }]
+};
+
+test('inter-head set-off in the old regime', () => {
+  const sheet = incomeComputation.compute(INPUT, 'old', '2025-26');
+  const head = (name: string) => sheet.heads.find(h => h.head === name)!;
+
+  // ₹2 lakh of the ₹3.6 lakh house property loss goes against salary
+  assert.equal(head('houseProperty').setOffAgainstOtherHeads, 200000);
+  assert.equal(head('houseProperty').lossCarriedForward, 160000);
+  assert.equal(head('salary').chargeable, 750000);
+
+  // The business loss skips salary and goes against other sources, then capital gains
+  assert.equal(head('otherSources').chargeable, 0);
+  assert.equal(head('business').setOffAgainstOtherHeads, 100000);
+  assert.equal(head('capitalGains').chargeable, 50000);
+  assert.deepEqual(sheet.capitalGains.specialRateIncome, [{ section: '111A', rate: 20, income: 50000 }]);
+
+  assert.equal(sheet.incomeExcludingCapitalGains, 750000);
+  assert.equal(sheet.grossTotalIncome, 800000);
+});
+
+for (const assessmentYear of SUPPORTED_ASSESSMENT_YEARS) {
+  test(`house property loss lapses in the new regime for AY ${assessmentYear}`, () => {
+    const sheet = incomeComputation.compute(INPUT, 'new', assessmentYear);
+    const head = (name: string) => sheet.heads.find(h => h.head === name)!;
+    const standardDeduction = { '2023-24': 0, '2024-25': 50000, '2025-26': 75000, '2026-27': 75000 }[assessmentYear]!;
+
+    assert.equal(head('houseProperty').setOffAgainstOtherHeads, 0);
+    assert.equal(head('houseProperty').lossCarriedForward, 0);
+    assert.equal(head('salary').chargeable, 1000000 - standardDeduction);
+    assert.equal(sheet.grossTotalIncome, 1000000 - standardDeduction + 50000);
+  });
+}
+
+test('a business loss is not set off against salary and is carried forward', () => {
+  const sheet = incomeComputation.compute({
+    salaries: [{ description: 'Employer', amount: 800000 }],
+    business: [{ description: 'Shop', amount: -100000 }]
+  }, 'old', '2025-26');
+  const business = sheet.heads.find(h => h.head === 'business')!;
+
+  assert.equal(business.setOffAgainstOtherHeads, 0);
+  assert.equal(business.lossCarriedForward, 100000);
+  assert.equal(sheet.grossTotalIncome, 750000);
+});
+
+test('rent saved as an income source stands in only without property records', () => {
+  const rent = { id: 'r1', source: 'rental', description: 'Flat rent', amount: '240000' } as IncomeSource;
+  const property = { id: 'p1', name: 'Flat', occupancy: 'let_out', annualRent: '240000' } as HouseProperty;
+
+  const withoutProperties = incomeComputation.fromRecords({ incomeSources: [rent] });
+  assert.deepEqual(withoutProperties.houseProperties, [{ id: 'r1', name: 'Flat rent', occupancy: 'let_out', annualRent: 240000 }]);
+
+  const withProperties = incomeComputation.fromRecords({ incomeSources: [rent], houseProperties: [property] });
+  assert.deepEqual(withProperties.houseProperties, [property]);
+});
@@ -0,0 +1,289 @@
+import { getTaxRules, DEFAULT_ASSESSMENT_YEAR } from "./taxRules";
+import {
+  CapitalGainsService,
+  type CapitalGainTransactionInput,
+  type CapitalGainsSummary
+} from "./capitalGains";
+import {
+  HousePropertyService,
+  type HousePropertyInput,
+  type HousePropertyComputation
+} from "./houseProperty";
+import {
+  PresumptiveTaxService,
+  type PresumptiveBusinessInput,
+  type PresumptiveIncomeResult
+} from "./presumptiveTax";
+import type { IncomeSource, HouseProperty, CapitalGainTransaction } from "@shared/schema";
+
+export type IncomeHead = 'salary' | 'houseProperty' | 'business' | 'capitalGains' | 'otherSources';
+
+export interface IncomeItem {
+  description: string;
+  amount: number;
+}
+
+export interface IncomeComputationInput {
+  salaries?: IncomeItem[]; // Gross salary per employer
+  houseProperties?: HousePropertyInput[];
+  business?: IncomeItem[]; // Net profit, negative for a loss
+  presumptiveBusiness?: PresumptiveBusinessInput[]; // Opted into 44AD / 44ADA for the year
+  capitalGainTransactions?: CapitalGainTransactionInput[];
+  unclassifiedCapitalGains?: IncomeItem[]; // Lump sums without transaction detail, taxed at slab rates
+  otherSources?: IncomeItem[];
+}
+
+export interface IncomeHeadComputation {
+  head: IncomeHead;
+  label: string;
+  items: IncomeItem[];
+  deductions: IncomeItem[]; // Deductions within the head (standard deduction, 30% of NAV, ...)
+  income: number; // After intra-head set-off; negative for a loss
+  lossSetOffFromOtherHeads: number; // Losses of other heads absorbed by this head
+  setOffAgainstOtherHeads: number; // This head's loss absorbed by other heads
+  lossCarriedForward: number;
+  chargeable: number; // Income left after inter-head set-off
+}
+
+export interface ComputationSheet {
+  assessmentYear: string;
+  regime: 'old' | 'new';
+  heads: IncomeHeadComputation[]; // Always the five heads, in statutory order
+  grossTotalIncome: number;
+  incomeExcludingCapitalGains: number; // Slab rate income from salary, house property, business and other sources
+  capitalGains: CapitalGainsSummary; // After inter-head set-off
+  houseProperty?: HousePropertyComputation;
+  presumptiveBusiness?: PresumptiveIncomeResult[];
+  warnings: string[];
+}
+
+const HEAD_LABELS: Record<IncomeHead, string> = {
+  salary: 'Salaries',
+  houseProperty: 'Income from House Property',
+  business: 'Profits and Gains of Business or Profession',
+  capitalGains: 'Capital Gains',
+  otherSources: 'Income from Other Sources'
+};
+
+// Heads a loss may be set off against (section 71), in the order we absorb it.
+// Business losses cannot be set off against salary (section 71(2A)).
+const SET_OFF_TARGETS: Record<IncomeHead, IncomeHead[]> = {
+  salary: [],
+  houseProperty: ['salary', 'otherSources', 'business', 'capitalGains'],
+  business: ['otherSources', 'houseProperty', 'capitalGains'],
+  capitalGains: [],
+  otherSources: ['salary', 'houseProperty', 'business', 'capitalGains']
+};
+
+export class IncomeComputationService {
+  private capitalGainsService = new CapitalGainsService();
+  private housePropertyService = new HousePropertyService();
+  private presumptiveTaxService = new PresumptiveTaxService();
+
+  compute(
+    input: IncomeComputationInput,
+    regime: 'old' | 'new',
+    assessmentYear: string = DEFAULT_ASSESSMENT_YEAR
+  ): ComputationSheet {
+    const rules = getTaxRules(assessmentYear);
+    const regimeRules = regime === 'old' ? rules.oldRegime : rules.newRegime;
+
+    // Salaries: standard deduction is allowed once, however many employers
+    const salaryItems = input.salaries ?? [];
+    const grossSalary = this.total(salaryItems);
+    const standardDeduction = Math.min(grossSalary, regimeRules.standardDeduction);
+    const salary = this.head('salary', salaryItems,
+      standardDeduction > 0 ? [{ description: 'Standard deduction u/s 16(ia)', amount: standardDeduction }] : [],
+      grossSalary - standardDeduction);
+
+    // House property: the property service applies the section 24 and 71(3A) limits
+    const propertyInputs = input.houseProperties ?? [];
+    const houseProperty = propertyInputs.length > 0
+      ? this.housePropertyService.compute(propertyInputs, regime, assessmentYear)
+      : undefined;
+    const houseHead = this.head('houseProperty',
+      (houseProperty?.properties ?? []).map(p => ({ description: p.name, amount: p.netAnnualValue })),
+      houseProperty ? [
+        { description: '30% of net annual value u/s 24(a)', amount: houseProperty.properties.reduce((sum, p) => sum + p.standardDeduction, 0) },
+        { description: 'Interest on borrowed capital u/s 24(b)', amount: houseProperty.properties.reduce((sum, p) => sum + p.interestAllowed, 0) }
+      ].filter(d => d.amount > 0) : [],
+      houseProperty?.headIncome ?? 0);
+
+    // Presumptive income replaces book profit for businesses that opted in
+    const presumptiveBusiness = (input.presumptiveBusiness ?? [])
+      .map(business => this.presumptiveTaxService.compute(business, assessmentYear));
+    const businessItems = [
+      ...(input.business ?? []),
+      ...presumptiveBusiness.map(result => ({
+        description: `${result.description} (presumptive u/s ${result.scheme})`,
+        amount: result.presumptiveIncome
+      }))
+    ];
+    const business = this.head('business', businessItems, [], this.total(businessItems));
+
+    // Capital gains losses stay within the head; the service handles them
+    const capitalGains = this.capitalGainsService.summarize(input.capitalGainTransactions ?? [], assessmentYear);
+    const unclassified = input.unclassifiedCapitalGains ?? [];
+    capitalGains.slabIncome += Math.max(0, this.total(unclassified));
+    const capitalGainsHead = this.head('capitalGains',
+      [
+        ...capitalGains.transactions.filter(t => t.gain > 0).map(t => ({ description: t.description || `${t.term === 'short' ? 'STCG' : 'LTCG'} (${t.assetClass})`, amount: t.gain })),
+        ...unclassified
+      ],
+      [
+        { description: 'Capital losses set off', amount: capitalGains.lossSetOff },
+        { description: 'Exemption u/s 112A', amount: capitalGains.exemption112A }
+      ].filter(d => d.amount > 0),
+      this.capitalGainsIncome(capitalGains));
+    capitalGainsHead.lossCarriedForward = capitalGains.shortTermLossCarriedForward + capitalGains.longTermLossCarriedForward;
+
+    const otherItems = input.otherSources ?? [];
+    const otherSources = this.head('otherSources', otherItems, [], this.total(otherItems));
+
+    const heads = [salary, houseHead, business, capitalGainsHead, otherSources];
+    const byHead = (head: IncomeHead) => heads.find(h => h.head === head)!;
+
+    // Inter-head set-off. House property losses beyond the ₹2L limit (and all
+    // of them under the new regime) were already carried forward or lapsed.
+    if (houseProperty) {
+      houseHead.lossCarriedForward = houseProperty.lossCarriedForward;
+    }
+    const losses: { head: IncomeHead; amount: number }[] = [
+      { head: 'houseProperty', amount: houseProperty?.setOffAgainstOtherHeads ?? 0 },
+      { head: 'business', amount: Math.max(0, -business.income) },
+      { head: 'otherSources', amount: Math.max(0, -otherSources.income) }
+    ];
+    for (const loss of losses) {
+      let remaining = loss.amount;
+      for (const target of SET_OFF_TARGETS[loss.head]) {
+        if (remaining <= 0) break;
+        const targetHead = byHead(target);
+        const absorbed = target === 'capitalGains'
+          ? this.absorbIntoCapitalGains(capitalGains, remaining)
+          : Math.min(remaining, targetHead.chargeable);
+        targetHead.chargeable -= absorbed;
+        targetHead.lossSetOffFromOtherHeads += absorbed;
+        remaining -= absorbed;
+      }
+      const lossHead = byHead(loss.head);
+      lossHead.setOffAgainstOtherHeads = loss.amount - remaining;
+      // Unabsorbed business losses carry forward for 8 years; other sources losses lapse
+      if (loss.head !== 'otherSources') {
+        lossHead.lossCarriedForward += remaining;
+      }
+    }
+    capitalGainsHead.chargeable = this.capitalGainsIncome(capitalGains);
+
+    const incomeExcludingCapitalGains = heads
+      .filter(h => h.head !== 'capitalGains')
+      .reduce((sum, h) => sum + h.chargeable, 0);
+
+    return {
+      assessmentYear: rules.assessmentYear,
+      regime,
+      heads,
+      grossTotalIncome: incomeExcludingCapitalGains + capitalGainsHead.chargeable,
+      incomeExcludingCapitalGains,
+      capitalGains,
+      ...(houseProperty ? { houseProperty } : {}),
+      ...(presumptiveBusiness.length > 0 ? { presumptiveBusiness } : {}),
+      warnings: presumptiveBusiness.flatMap(result => result.warnings)
+    };
+  }
+
+  // Build the computation input from a user's saved records for the year
+  fromRecords(records: {
+    incomeSources?: IncomeSource[];
+    houseProperties?: HouseProperty[];
+    capitalGainTransactions?: CapitalGainTransaction[];
+  }): IncomeComputationInput {
+    const input: IncomeComputationInput = {
+      salaries: [],
+      houseProperties: [...(records.houseProperties ?? [])],
+      business: [],
+      presumptiveBusiness: [],
+      capitalGainTransactions: records.capitalGainTransactions ?? [],
+      unclassifiedCapitalGains: [],
+      otherSources: []
+    };
+
+    // Property rows are the record of house property income; rent saved as an
+    // income source (all the older screens offered) only stands in without them
+    const hasPropertyRecords = (records.houseProperties ?? []).length > 0;
+
+    for (const source of records.incomeSources ?? []) {
+      const item = { description: source.description || source.source, amount: parseFloat(source.amount) || 0 };
+      switch (source.source) {
+        case 'salary':
+          input.salaries!.push(item);
+          break;
+        case 'rental':
+          if (hasPropertyRecords) break;
+          // Rent entered as a plain income source is treated as a let-out property
+          input.houseProperties!.push({ id: source.id, name: item.description, occupancy: 'let_out', annualRent: item.amount });
+          break;
+        case 'business':
+          if (source.presumptiveScheme) {
+            input.presumptiveBusiness!.push({
+              id: source.id,
+              description: item.description,
+              scheme: source.presumptiveScheme,
+              // Receipts not split by mode are treated as received digitally
+              digitalReceipts: source.digitalReceipts ?? (source.cashReceipts ? 0 : item.amount),
+              cashReceipts: source.cashReceipts
+            });
+          } else {
+            input.business!.push(item);
+          }
+          break;
+        case 'capital_gains':
+          input.unclassifiedCapitalGains!.push(item);
+          break;
+        default:
+          input.otherSources!.push(item);
+      }
+    }
+
+    return input;
+  }
+
+  // Set a loss off against capital gains, slab-rate gains first and then the
+  // highest special rate, returning the amount absorbed
+  private absorbIntoCapitalGains(capitalGains: CapitalGainsSummary, loss: number): number {
+    let remaining = loss;
+    const fromSlab = Math.min(remaining, capitalGains.slabIncome);
+    capitalGains.slabIncome -= fromSlab;
+    remaining -= fromSlab;
+
+    for (const line of [...capitalGains.specialRateIncome].sort((a, b) => b.rate - a.rate)) {
+      if (remaining <= 0) break;
+      const absorbed = Math.min(remaining, line.income);
+      line.income -= absorbed;
+      remaining -= absorbed;
+    }
+    capitalGains.specialRateIncome = capitalGains.specialRateIncome.filter(line => line.income > 0);
+    return loss - remaining;
+  }
+
+  private capitalGainsIncome(capitalGains: CapitalGainsSummary): number {
+    return capitalGains.slabIncome + capitalGains.specialRateIncome.reduce((sum, line) => sum + line.income, 0);
+  }
+
+  private head(head: IncomeHead, items: IncomeItem[], deductions: IncomeItem[], income: number): IncomeHeadComputation {
+    return {
+      head,
+      label: HEAD_LABELS[head],
+      items,
+      deductions,
+      income: Math.round(income),
+      lossSetOffFromOtherHeads: 0,
+      setOffAgainstOtherHeads: 0,
+      lossCarriedForward: 0,
+      chargeable: Math.max(0, Math.round(income))
+    };
+  }
+
+  private total(items: IncomeItem[]): number {
+    return items.reduce((sum, item) => sum + (Number(item.amount) || 0), 0);
+  }
+}
@@ -0,0 +1,113 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ItrExportService, type ItrExportRecords, type ItrPersonalDetails } from './itrExport';
+import { SUPPORTED_ASSESSMENT_YEARS, assessmentYearStart } from './taxRules';
+import type { User, TaxDocument, IncomeSource, Investment, CapitalGainTransaction } from '@shared/schema';
+
+const itrExport = new ItrExportService();
+
+const PERSONAL: ItrPersonalDetails = {
+  fatherName: 'Mohan Kumar',
+  aadhaar: '123456789012',
+  flatDoorBlock: '12',
+  localityArea: 'MG Road',
+  city: 'Bengaluru',
+  stateCode: '15',
+  pinCode: '560001',
+  mobile: '9876543210',
+  bankIfsc: 'SBIN0001234',
+  bankName: 'State Bank of India',
+  bankAccountNumber: '12345678901',
+  place: 'Bengaluru'
+};
+
+const salariedRecords = (assessmentYear: string): ItrExportRecords => ({
+  user: { firstName: 'Ravi', lastName: 'Kumar', email: 'ravi@example.com', pan: 'ABCPK1234F', dateOfBirth: '1985-06-01' } as User,
+  residentialStatus: 'resident',
+  documents: [{
+    id: 'form16', fileName: 'form16.pdf', assessmentYear, status: 'completed',
+    extractedData: { employerName: 'Acme Ltd', employerTan: 'AAAA11111A', grossSalary: 1200000, tdsDeducted: 60000 }
+  } as TaxDocument],
+  incomeSources: [{ source: 'interest', description: 'Savings interest', amount: '12000', assessmentYear } as IncomeSource],
+  investments: [{ section: '80C', amount: '150000' } as Investment, { section: '80TTA', amount: '12000' } as Investment]
+});
+
+for (const assessmentYear of SUPPORTED_ASSESSMENT_YEARS) {
+  const ayStart = assessmentYearStart(assessmentYear);
+
+  test(`ITR-1 for salary and interest in the old regime for AY ${assessmentYear}`, () => {
+    const result = itrExport.build(salariedRecords(assessmentYear), { regime: 'old', personal: PERSONAL, filingDate: `${ayStart}-07-15` }, assessmentYear);
+
+    assert.equal(result.form, 'ITR-1');
+    assert.equal(result.supported, true);
+    assert.deepEqual(result.missingFields, []);
+    assert.deepEqual(result.invalidFields, []);
+    assert.equal(result.valid, true);
+    assert.equal(result.fileName, `ITR-1_AY${ayStart}-${String(ayStart + 1).slice(-2)}_ABCPK1234F.json`);
+
+    const itr = (result.itr as { ITR: { ITR1: Record<string, Record<string, unknown>> } }).ITR.ITR1;
+    const income = itr.ITR1_IncomeDeductions;
+    assert.equal(income.GrossSalary, 1200000);
+    assert.equal(income.DeductionUs16ia, 50000);
+    assert.equal(income.IncomeOthSrc, 12000);
+    assert.equal(income.GrossTotIncome, 1162000);
+    // 80TTA is allowed up to ₹10,000 of the ₹12,000 claimed
+    assert.deepEqual(income.DeductUndChapVIA, { Section80C: 150000, Section80TTA: 10000, TotalChapVIADeductions: 160000 });
+    assert.equal(income.TotalIncome, 1002000);
+
+    const tax = itr.ITR1_TaxComputation;
+    assert.equal(tax.GrossTaxLiability, 117624);
+    // No advance tax on the ₹57,624 left after TDS
+    assert.deepEqual(tax.IntrstPay, { IntrstPayUs234A: 0, IntrstPayUs234B: 2304, IntrstPayUs234C: 2907, LateFilingFee234F: 0 });
+    assert.deepEqual(itr.TaxPaid, {
+      TaxesPaid: { AdvanceTax: 0, TDS: 60000, TCS: 0, SelfAssessmentTax: 0, TotalTaxesPaid: 60000 },
+      BalTaxPayable: 62835
+    });
+  });
+
+  test(`112A gains within the exemption and the choice of ITR-1 or ITR-2 for AY ${assessmentYear}`, () => {
+    const records = {
+      ...salariedRecords(assessmentYear),
+      capitalGainTransactions: [{
+        assetClass: 'listed_equity', purchaseDate: `${ayStart - 4}-01-01`, saleDate: `${ayStart - 1}-06-01`,
+        costOfAcquisition: '100000', saleValue: '150000'
+      } as CapitalGainTransaction]
+    };
+    const result = itrExport.build(records, { regime: 'old', personal: PERSONAL, filingDate: `${ayStart}-07-15` }, assessmentYear);
+
+    // ITR-1 covers 112A gains up to the exemption from AY 2025-26
+    assert.equal(result.form, ayStart >= 2025 ? 'ITR-1' : 'ITR-2');
+    assert.equal(result.valid, true);
+  });
+}
+
+test('non-residents need ITR-2', () => {
+  const nri = itrExport.build({ ...salariedRecords('2025-26'), residentialStatus: 'nri' }, { personal: PERSONAL, filingDate: '2025-07-15' }, '2025-26');
+  assert.equal(nri.form, 'ITR-2');
+  assert.ok(nri.formReasons.some(reason => reason.includes('Non-residents')));
+  assert.equal(nri.supported, true);
+});
+
+test('business income is left to ITR-3 and presumptive income to ITR-4', () => {
+  const business = itrExport.build({
+    residentialStatus: 'resident',
+    incomeSources: [{ source: 'business', description: 'Shop', amount: '900000', assessmentYear: '2025-26' } as IncomeSource]
+  }, {}, '2025-26');
+  assert.equal(business.form, 'ITR-3');
+  assert.equal(business.supported, false);
+  assert.equal(business.itr, undefined);
+
+  const presumptive = itrExport.build({
+    residentialStatus: 'resident',
+    incomeSources: [{ source: 'business', description: 'Shop', amount: '900000', presumptiveScheme: '44AD', assessmentYear: '2025-26' } as IncomeSource]
+  }, {}, '2025-26');
+  assert.equal(presumptive.form, 'ITR-4');
+  assert.equal(presumptive.supported, false);
+});
+
+test('details we do not hold are reported as missing', () => {
+  const result = itrExport.build(salariedRecords('2025-26'), { regime: 'old', filingDate: '2025-07-15' }, '2025-26');
+  assert.equal(result.valid, false);
+  assert.ok(result.missingFields.some(field => field.label === 'Bank IFSC'));
+  assert.ok(result.missingFields.some(field => field.label === 'PIN code'));
+});
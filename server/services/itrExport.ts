@@ -0,0 +1,1021 @@
+import { getTaxRules, DEFAULT_ASSESSMENT_YEAR, assessmentYearStart, ageForAssessmentYear } from "./taxRules";
+import { TaxCalculatorService, type TaxCalculationResult } from "./taxCalculator";
+import { DeductionValidatorService, normalizeSection, type DeductionLine } from "./deductionValidator";
+import { IncomeComputationService, type ComputationSheet, type IncomeHead } from "./incomeComputation";
+import { SelfAssessmentService, type SelfAssessmentResult } from "./selfAssessment";
+import { AnnualStatementService } from "./annualStatement";
+import { salaryClaimsFromForm16, type Form16SalaryFields } from "./form16Consolidation";
+import type { ResidentialStatusType } from "./residentialStatus";
+import { itr1Schema, itr2Schema } from "./itrSchema";
+import type { ZodIssue } from "zod";
+import type {
+  User,
+  TaxDocument,
+  IncomeSource,
+  HouseProperty,
+  CapitalGainTransaction,
+  Investment,
+  TdsCredit,
+  TaxPayment
+} from "@shared/schema";
+
+export type ItrFormType = 'ITR-1' | 'ITR-2' | 'ITR-3' | 'ITR-4';
+
+// Details the return needs that we do not store. Anything left out falls back
+// to the user's profile, or is reported as missing.
+export interface ItrPersonalDetails {
+  firstName?: string;
+  middleName?: string;
+  lastName?: string;
+  fatherName?: string;
+  pan?: string;
+  dateOfBirth?: string;
+  aadhaar?: string;
+  flatDoorBlock?: string;
+  premises?: string;
+  roadStreet?: string;
+  localityArea?: string;
+  city?: string;
+  stateCode?: string; // Two-digit state code used by the e-filing utility
+  pinCode?: string;
+  mobile?: string;
+  email?: string;
+  employerCategory?: 'CGOV' | 'SGOV' | 'PSU' | 'PE' | 'OTH' | 'NA';
+  bankIfsc?: string;
+  bankName?: string;
+  bankAccountNumber?: string;
+  bankAccountType?: 'SB' | 'CA' | 'CC' | 'OD' | 'NRO' | 'OTH';
+  place?: string; // Place of verification
+}
+
+export interface ItrExportRecords {
+  user?: User;
+  residentialStatus?: ResidentialStatusType;
+  documents?: TaxDocument[];
+  incomeSources?: IncomeSource[];
+  houseProperties?: HouseProperty[];
+  capitalGainTransactions?: CapitalGainTransaction[];
+  investments?: Investment[];
+  tdsCredits?: TdsCredit[];
+  taxPayments?: TaxPayment[];
+}
+
+export interface ItrExportOptions {
+  regime?: 'old' | 'new'; // Defaults to the cheaper regime
+  personal?: ItrPersonalDetails;
+  filingDate?: string | Date; // Decides the return section and 234A / 234F; defaults to today
+}
+
+export interface ItrFieldIssue {
+  path: string;
+  label: string;
+  message?: string;
+}
+
+export interface ItrExportResult {
+  assessmentYear: string;
+  form: ItrFormType;
+  formReasons: string[];
+  supported: boolean; // False for ITR-3 and ITR-4, which we do not generate
+  regime: 'old' | 'new';
+  fileName?: string;
+  itr?: Record<string, unknown>;
+  missingFields: ItrFieldIssue[];
+  invalidFields: ItrFieldIssue[];
+  warnings: string[];
+  valid: boolean;
+}
+
+// Registered e-return intermediaries get a software ID from the e-filing
+// portal; the placeholder marks a return prepared by the taxpayer
+const SOFTWARE_ID = process.env.ITR_SOFTWARE_ID || 'SW00000000';
+const SOFTWARE_VERSION = '1.0';
+const SCHEMA_VERSION = 'Ver1.0';
+
+const FORM_DESCRIPTIONS: Record<'ITR-1' | 'ITR-2', string> = {
+  'ITR-1': 'For Indls having Income from Salary, Pension, family pension and Interest',
+  'ITR-2': 'For Indls and HUFs not having Income from Business or Profession'
+};
+
+// ITR-1 is limited to residents with total income up to ₹50L (rule 12)
+const ITR1_INCOME_LIMIT = 5000000;
+// From AY 2025-26 ITR-1 also covers 112A gains within the annual exemption
+const ITR1_112A_FROM_YEAR = 2025;
+
+const RESIDENTIAL_STATUS_CODES: Record<ResidentialStatusType, 'RES' | 'NOR' | 'NRI'> = {
+  resident: 'RES',
+  rnor: 'NOR',
+  nri: 'NRI'
+};
+
+// Return filed under 139(1), 139(4) and 139(8A)
+const RETURN_SECTIONS: Record<string, number> = {
+  original: 11,
+  belated: 12,
+  updated: 21
+};
+
+// Chapter VI-A fields of the schema, keyed by normalised section
+const CHAPTER_VIA_FIELDS: Record<string, string> = {
+  '80C': 'Section80C',
+  '80CCC': 'Section80CCC',
+  '80CCD1': 'Section80CCDEmployeeOrSE',
+  '80CCD1B': 'Section80CCD1B',
+  '80CCD2': 'Section80CCDEmployer',
+  '80CCH': 'Section80CCH',
+  '80D': 'Section80D',
+  '80DPARENTS': 'Section80D',
+  '80DD': 'Section80DD',
+  '80DDB': 'Section80DDB',
+  '80E': 'Section80E',
+  '80EE': 'Section80EE',
+  '80EEA': 'Section80EEA',
+  '80EEB': 'Section80EEB',
+  '80GG': 'Section80GG',
+  '80GGA': 'Section80GGA',
+  '80GGC': 'Section80GGC',
+  '80TTA': 'Section80TTA',
+  '80TTB': 'Section80TTB',
+  '80U': 'Section80U'
+};
+
+// Deduction lines that belong to an income head rather than Chapter VI-A.
+// Section 10 exemptions map to the nature codes of the salary schedule.
+const SALARY_EXEMPTION_CODES: Record<string, string> = {
+  HRA: '10(13A)',
+  '1013A': '10(13A)',
+  '105': '10(5)',
+  '1010': '10(10)',
+  '1010A': '10(10A)',
+  '1010AA': '10(10AA)',
+  '10': 'OTH'
+};
+const PROFESSIONAL_TAX_SECTION = '16III';
+const HOUSE_LOAN_INTEREST_SECTION = '24';
+const HEAD_DEDUCTION_SECTIONS = ['STANDARDDEDUCTION', 'FAMILYPENSION'];
+
+// Labels for the fields users fill in themselves
+const FIELD_LABELS: Record<string, string> = {
+  SurNameOrOrgName: 'Last name',
+  PAN: 'PAN',
+  DOB: 'Date of birth',
+  AadhaarCardNo: 'Aadhaar number',
+  ResidenceNo: 'Flat / door / block number',
+  LocalityOrArea: 'Area or locality',
+  CityOrTownOrDistrict: 'Town, city or district',
+  StateCode: 'State',
+  PinCode: 'PIN code',
+  MobileNo: 'Mobile number',
+  EmailAddress: 'Email address',
+  IFSCCode: 'Bank IFSC',
+  BankName: 'Bank name',
+  BankAccountNo: 'Bank account number',
+  TAN: 'Deductor TAN',
+  TANofEmployer: 'Employer TAN',
+  EmployerOrDeductorOrCollecterName: 'Deductor name',
+  NameOfEmployer: 'Employer name',
+  BSRCode: 'Challan BSR code',
+  SrlNoOfChaln: 'Challan serial number',
+  AssesseeVerName: 'Name for verification',
+  FatherName: "Father's name",
+  AssesseeVerPAN: 'PAN for verification',
+  Place: 'Place of verification'
+};
+
+interface Form16Summary {
+  id: string;
+  employerName?: string;
+  employerTan?: string; // From Part A of the Form 16
+  grossSalary: number;
+  salary: number; // Section 17(1)
+  perquisites: number; // Section 17(2)
+  profitsInLieuOfSalary: number; // Section 17(3)
+  salaryClaims: Record<string, number>; // Exemptions and professional tax from Part B
+  incomeChargeable: number;
+  tds: number;
+}
+
+interface DeductionSplit {
+  claimed: Record<string, number>;
+  allowed: Record<string, number>;
+  salaryExemptions: Record<string, number>; // By nature code, e.g. 10(13A)
+  professionalTax: number;
+  houseLoanInterest: number;
+}
+
+interface SalaryTdsRow {
+  deductorName?: string;
+  deductorTan?: string;
+  income: number;
+  tds: number;
+}
+
+interface OtherTdsRow {
+  deductorName?: string;
+  deductorTan?: string;
+  amountPaid: number;
+  tds: number;
+}
+
+interface TaxesPaidSummary {
+  employerTans: Record<string, string | undefined>; // By Form 16 document
+  salaryRows: SalaryTdsRow[];
+  otherRows: OtherTdsRow[];
+  tdsOnSalary: number;
+  tdsOther: number;
+  tcs: number;
+  advanceTax: number;
+  selfAssessmentTax: number;
+  challans: TaxPayment[];
+}
+
+// Everything the form builders draw on
+interface ReturnContext {
+  assessmentYear: string;
+  regime: 'old' | 'new';
+  result: TaxCalculationResult;
+  sheet: ComputationSheet;
+  deductions: DeductionSplit;
+  taxes: TaxesPaidSummary;
+  filing: SelfAssessmentResult;
+  personal: ItrPersonalDetails;
+  form16s: Form16Summary[];
+  records: ItrExportRecords;
+  status?: ResidentialStatusType;
+}
+
+export class ItrExportService {
+  private taxCalculator = new TaxCalculatorService();
+  private deductionValidator = new DeductionValidatorService();
+  private incomeComputation = new IncomeComputationService();
+  private selfAssessment = new SelfAssessmentService();
+  private annualStatement = new AnnualStatementService();
+
+  build(
+    records: ItrExportRecords,
+    options: ItrExportOptions = {},
+    assessmentYear: string = DEFAULT_ASSESSMENT_YEAR
+  ): ItrExportResult {
+    const warnings: string[] = [];
+    const form16s = this.form16Summaries(records.documents ?? [], assessmentYear);
+
+    // Form 16 salaries replace the salary sources created from them
+    const computationInput = this.incomeComputation.fromRecords({
+      incomeSources: (records.incomeSources ?? []).filter(s => !(s.source === 'salary' && s.documentId)),
+      houseProperties: records.houseProperties,
+      capitalGainTransactions: records.capitalGainTransactions
+    });
+    computationInput.salaries = [
+      ...form16s.map(f => ({ description: f.employerName || 'Employer', amount: f.grossSalary })),
+      ...(computationInput.salaries ?? [])
+    ];
+
+    const dateOfBirth = options.personal?.dateOfBirth || records.user?.dateOfBirth || undefined;
+    const status = records.residentialStatus;
+    if (!status) {
+      warnings.push('Residential status has not been determined for the year, so the return assumes you were resident');
+    }
+
+    // Part B exemptions and professional tax are claimed alongside investments
+    const claims = this.deductionValidator.claimsFromInvestments(records.investments ?? []);
+    for (const form16 of form16s) {
+      for (const [section, amount] of Object.entries(form16.salaryClaims)) {
+        claims[section] = (claims[section] || 0) + amount;
+      }
+    }
+
+    const comparison = this.taxCalculator.compareComputation(
+      computationInput,
+      claims,
+      {},
+      status === 'nri',
+      assessmentYear,
+      { age: dateOfBirth ? ageForAssessmentYear(dateOfBirth, assessmentYear) : undefined }
+    );
+    const regime = options.regime ?? comparison.recommendedRegime;
+    const result = regime === 'old' ? comparison.oldRegime : comparison.newRegime;
+    const sheet = (regime === 'old' ? comparison.computation?.oldRegime : comparison.computation?.newRegime)!;
+
+    const { form, reasons } = this.chooseForm(sheet, result, status, assessmentYear);
+    const base = {
+      assessmentYear: getTaxRules(assessmentYear).assessmentYear,
+      form,
+      formReasons: reasons,
+      regime,
+      missingFields: [] as ItrFieldIssue[],
+      invalidFields: [] as ItrFieldIssue[],
+      warnings
+    };
+    if (form === 'ITR-3' || form === 'ITR-4') {
+      return { ...base, supported: false, valid: false };
+    }
+
+    const deductions = this.splitDeductions(result.deductionDetails ?? [], warnings);
+    const taxes = this.taxesPaid(records, form16s, assessmentYear);
+    const filing = this.selfAssessment.compute({
+      totalLiability: result.totalTax,
+      totalIncome: result.taxableIncome,
+      grossTotalIncome: sheet.grossTotalIncome,
+      regime,
+      tds: taxes.tdsOnSalary + taxes.tdsOther,
+      tcs: taxes.tcs,
+      payments: records.taxPayments ?? [],
+      filingDate: options.filingDate ?? new Date()
+    }, assessmentYear);
+    if (filing.returnType === 'updated') {
+      warnings.push('The belated return deadline has passed; an updated return (ITR-U) must be filed alongside this form');
+    } else if (filing.returnType === 'time_barred') {
+      warnings.push('The deadline for every kind of return has passed for this assessment year');
+    }
+
+    const personal = this.personalDetails(records.user, options.personal, dateOfBirth);
+    const context: ReturnContext = { assessmentYear, regime, result, sheet, deductions, taxes, filing, personal, form16s, records, status };
+    const itr = form === 'ITR-1' ? this.buildItr1(context) : this.buildItr2(context);
+
+    const validation = (form === 'ITR-1' ? itr1Schema : itr2Schema).safeParse(itr);
+    const missingFields: ItrFieldIssue[] = [];
+    const invalidFields: ItrFieldIssue[] = [];
+    if (!validation.success) {
+      for (const issue of validation.error.issues) {
+        const field = this.describeIssue(issue, itr);
+        if (issue.code === 'invalid_type' && issue.received === 'undefined') {
+          missingFields.push(field);
+        } else {
+          invalidFields.push({ ...field, message: issue.message });
+        }
+      }
+    }
+
+    const fyStart = assessmentYearStart(assessmentYear) - 1;
+    return {
+      ...base,
+      supported: true,
+      fileName: `${form}_AY${fyStart + 1}-${String(fyStart + 2).slice(-2)}_${personal.pan ?? 'draft'}.json`,
+      itr,
+      missingFields,
+      invalidFields,
+      valid: validation.success
+    };
+  }
+
+  // ITR-1 (Sahaj) when the rule 12 conditions hold, otherwise ITR-2. Business
+  // income needs ITR-3, or ITR-4 when it is all presumptive.
+  private chooseForm(
+    sheet: ComputationSheet,
+    result: TaxCalculationResult,
+    status: ResidentialStatusType | undefined,
+    assessmentYear: string
+  ): { form: ItrFormType; reasons: string[] } {
+    const head = (name: IncomeHead) => sheet.heads.find(h => h.head === name)!;
+    const reasons: string[] = [];
+
+    const business = head('business');
+    if (business.items.length > 0) {
+      const presumptiveOnly = (sheet.presumptiveBusiness ?? []).length === business.items.length;
+      if (presumptiveOnly && status !== 'nri' && status !== 'rnor' && result.taxableIncome <= ITR1_INCOME_LIMIT) {
+        return { form: 'ITR-4', reasons: ['Presumptive business income under 44AD / 44ADA is reported in ITR-4, which this export does not produce'] };
+      }
+      return { form: 'ITR-3', reasons: ['Income from business or profession is reported in ITR-3, which this export does not produce'] };
+    }
+
+    if (status === 'nri' || status === 'rnor') {
+      reasons.push('Non-residents and residents not ordinarily resident cannot file ITR-1');
+    }
+    if (result.taxableIncome > ITR1_INCOME_LIMIT) {
+      reasons.push('Total income is above ₹50 lakh');
+    }
+
+    const capitalGains = sheet.capitalGains;
+    const exemption112A = getTaxRules(assessmentYear).capitalGains.exemption112A;
+    const gains112A = capitalGains.transactions
+      .filter(t => t.section === '112A' && t.gain > 0)
+      .reduce((sum, t) => sum + t.gain, 0);
+    const otherGains = capitalGains.transactions.some(t => t.section !== '112A' && t.gain !== 0)
+      || capitalGains.transactions.some(t => t.section === '112A' && t.gain < 0)
+      || head('capitalGains').items.length > capitalGains.transactions.filter(t => t.gain > 0).length;
+    if (otherGains || gains112A > 0 && (assessmentYearStart(assessmentYear) < ITR1_112A_FROM_YEAR || gains112A > exemption112A)) {
+      reasons.push(assessmentYearStart(assessmentYear) < ITR1_112A_FROM_YEAR
+        ? 'Capital gains are reported in ITR-2'
+        : `Capital gains other than 112A gains up to ₹${exemption112A.toLocaleString('en-IN')} are reported in ITR-2`);
+    }
+
+    const properties = sheet.houseProperty?.properties ?? [];
+    if (properties.length > 1) {
+      reasons.push('ITR-1 allows only one house property');
+    }
+    const lossCarriedForward = sheet.heads.reduce((sum, h) => sum + h.lossCarriedForward, 0);
+    if (lossCarriedForward > 0) {
+      reasons.push('Losses carried forward to later years are reported in ITR-2');
+    }
+
+    return reasons.length > 0 ? { form: 'ITR-2', reasons } : { form: 'ITR-1', reasons: ['Salary, one house property and other sources income within ₹50 lakh'] };
+  }
+
+  private form16Summaries(documents: TaxDocument[], assessmentYear: string): Form16Summary[] {
+    return documents
+      .filter(d => d.assessmentYear === assessmentYear && d.status === 'completed' && d.extractedData)
+      .map(d => {
+        const data = d.extractedData as {
+          employerName?: string;
+          employerTan?: string;
+          grossSalary?: number;
+          incomeChargeable?: number;
+          tdsDeducted?: number;
+        } & Form16SalaryFields;
+        const grossSalary = Number(data.grossSalary) || 0;
+        const perquisites = Number(data.salaryBreakup?.perquisites) || 0;
+        const profitsInLieuOfSalary = Number(data.salaryBreakup?.profitsInLieuOfSalary) || 0;
+        return {
+          id: d.id,
+          employerName: data.employerName,
+          employerTan: data.employerTan,
+          grossSalary,
+          salary: Math.max(0, grossSalary - perquisites - profitsInLieuOfSalary),
+          perquisites,
+          profitsInLieuOfSalary,
+          salaryClaims: salaryClaimsFromForm16(data),
+          incomeChargeable: Number(data.incomeChargeable) || grossSalary,
+          tds: Number(data.tdsDeducted) || 0
+        };
+      })
+      .filter(f => f.grossSalary > 0 || f.tds > 0);
+  }
+
+  // Sort allowed deductions into Chapter VI-A fields, salary exemptions,
+  // professional tax and house property interest
+  private splitDeductions(lines: DeductionLine[], warnings: string[]): DeductionSplit {
+    const split: DeductionSplit = { claimed: {}, allowed: {}, salaryExemptions: {}, professionalTax: 0, houseLoanInterest: 0 };
+    for (const line of lines) {
+      const code = normalizeSection(line.section);
+      const exemptionCode = SALARY_EXEMPTION_CODES[code];
+      if (exemptionCode) {
+        split.salaryExemptions[exemptionCode] = (split.salaryExemptions[exemptionCode] ?? 0) + Math.round(line.allowed);
+        continue;
+      }
+      if (code === PROFESSIONAL_TAX_SECTION) {
+        split.professionalTax += Math.round(line.allowed);
+        continue;
+      }
+      if (code === HOUSE_LOAN_INTEREST_SECTION) {
+        split.houseLoanInterest += line.allowed;
+        continue;
+      }
+      if (HEAD_DEDUCTION_SECTIONS.includes(code)) continue;
+
+      const field = CHAPTER_VIA_FIELDS[code] ?? (code.startsWith('80G') ? 'Section80G' : undefined);
+      if (!field) {
+        warnings.push(`Deduction under ${line.section} has no field in the return and was left out`);
+        continue;
+      }
+      split.claimed[field] = (split.claimed[field] ?? 0) + Math.round(line.claimed);
+      split.allowed[field] = (split.allowed[field] ?? 0) + Math.round(line.allowed);
+    }
+    return split;
+  }
+
+  // Salary TDS from Form 16, other TDS and TCS from 26AS (or the AIS), and challans
+  private taxesPaid(records: ItrExportRecords, form16s: Form16Summary[], assessmentYear: string): TaxesPaidSummary {
+    const reconciliation = this.annualStatement.reconcile({
+      tdsCredits: (records.tdsCredits ?? []).filter(c => c.assessmentYear === assessmentYear),
+      reportedIncomes: [],
+      documents: records.documents
+    }, assessmentYear);
+
+    const employerTans = Object.fromEntries(form16s.map(f => [
+      f.id,
+      f.employerTan ?? reconciliation.deductors.find(d => d.form16DocumentId === f.id)?.deductorTan
+    ]));
+    const salaryRows = form16s.filter(f => f.tds > 0).map(f => ({
+      deductorName: f.employerName,
+      deductorTan: employerTans[f.id],
+      income: Math.round(f.incomeChargeable),
+      tds: Math.round(f.tds)
+    }));
+    const otherDeductors = reconciliation.deductors.filter(d => d.section && d.section !== '192');
+    const tcsDeductors = otherDeductors.filter(d => d.section!.startsWith('206C'));
+    const otherRows = otherDeductors.filter(d => !d.section!.startsWith('206C')).map(d => ({
+      deductorName: d.deductorName,
+      deductorTan: d.deductorTan,
+      amountPaid: Math.round(d.amountPaid),
+      tds: Math.round(d.taxDeposited)
+    }));
+
+    const payments = records.taxPayments ?? [];
+    const sumPayments = (type: string) => Math.round(payments
+      .filter(p => p.paymentType === type)
+      .reduce((sum, p) => sum + (parseFloat(p.amount) || 0), 0));
+
+    return {
+      employerTans,
+      salaryRows,
+      otherRows,
+      tdsOnSalary: salaryRows.reduce((sum, row) => sum + row.tds, 0),
+      tdsOther: otherRows.reduce((sum, row) => sum + row.tds, 0),
+      tcs: Math.round(tcsDeductors.reduce((sum, d) => sum + d.taxDeposited, 0)),
+      advanceTax: sumPayments('advance_tax'),
+      selfAssessmentTax: sumPayments('self_assessment'),
+      challans: payments
+    };
+  }
+
+  private personalDetails(user: User | undefined, given: ItrPersonalDetails = {}, dateOfBirth?: string): ItrPersonalDetails {
+    const text = (value?: string | null) => value?.trim() || undefined;
+    return {
+      ...Object.fromEntries(Object.entries(given).map(([key, value]) => [key, text(value)])),
+      firstName: text(given.firstName) ?? text(user?.firstName),
+      lastName: text(given.lastName) ?? text(user?.lastName),
+      email: text(given.email) ?? text(user?.email),
+      pan: (text(given.pan) ?? text(user?.pan))?.toUpperCase(),
+      dateOfBirth: text(dateOfBirth)?.slice(0, 10)
+    };
+  }
+
+  private buildItr1(context: ReturnContext): Record<string, unknown> {
+    const { personal, result, sheet, deductions, taxes, filing, regime, form16s } = context;
+    const salary = this.salaryFigures(sheet, deductions, form16s);
+    const property = sheet.houseProperty?.properties[0];
+    const houseIncome = this.houseIncome(sheet, deductions);
+    const otherSources = this.otherSourceLines(context.records.incomeSources ?? [], context.assessmentYear);
+    const incomeOtherSources = Math.round(this.headIncome(sheet, 'otherSources'));
+    const ltcg112A = Math.round(sheet.capitalGains.specialRateIncome.find(line => line.section === '112A')?.income ?? 0);
+    const grossTotalIncome = Math.max(0, salary.income + houseIncome + incomeOtherSources + ltcg112A);
+    const chapterVIA = this.total(deductions.allowed);
+
+    return {
+      ITR: {
+        ITR1: {
+          CreationInfo: this.creationInfo(personal),
+          Form_ITR1: this.formInfo('ITR-1', context.assessmentYear),
+          PersonalInfo: {
+            ...this.personalInfo(personal),
+            EmployerCategory: personal.employerCategory ?? (form16s.length > 0 || salary.gross > 0 ? 'OTH' : 'NA')
+          },
+          FilingStatus: this.filingStatus(filing, regime),
+          ITR1_IncomeDeductions: {
+            GrossSalary: salary.gross,
+            Salary: salary.salary,
+            PerquisitesValue: salary.perquisites,
+            ProfitsInSalary: salary.profitsInLieuOfSalary,
+            AllwncExemptUs10: {
+              AllwncExemptUs10Dtls: salary.exemptions,
+              TotalAllwncExemptUs10: salary.exemption
+            },
+            NetSalary: salary.net,
+            DeductionUs16: salary.standardDeduction + salary.professionalTax,
+            DeductionUs16ia: salary.standardDeduction,
+            ProfessionalTaxUs16iii: salary.professionalTax,
+            IncomeFromSal: salary.income,
+            TypeOfHP: property ? this.propertyType(property.occupancy) : deductions.houseLoanInterest > 0 ? 'S' : undefined,
+            GrossRentReceived: Math.round(property?.grossAnnualValue ?? 0),
+            TaxPaidlocalAuth: Math.round(property?.municipalTaxes ?? 0),
+            AnnualValue: Math.round(property?.netAnnualValue ?? 0),
+            StandardDeduction: Math.round(property?.standardDeduction ?? 0),
+            InterestPayable: Math.round((property?.interestAllowed ?? 0) + deductions.houseLoanInterest),
+            TotalIncomeOfHP: houseIncome,
+            IncomeOthSrc: incomeOtherSources,
+            OthersInc: { OthersIncDtlsOthSrc: otherSources },
+            LTCG112A: ltcg112A,
+            GrossTotIncome: grossTotalIncome,
+            UsrDeductUndChapVIA: { ...deductions.claimed, TotalChapVIADeductions: this.total(deductions.claimed) },
+            DeductUndChapVIA: { ...deductions.allowed, TotalChapVIADeductions: chapterVIA },
+            TotalIncome: Math.max(0, grossTotalIncome - chapterVIA)
+          },
+          ITR1_TaxComputation: {
+            TotalTaxPayable: Math.round(result.taxLiability),
+            Rebate87A: Math.round(result.rebate87A),
+            TaxPayableOnRebate: Math.max(0, Math.round(result.taxLiability - result.rebate87A)),
+            EducationCess: Math.round(result.cess),
+            GrossTaxLiability: Math.round(result.totalTax),
+            Section89: 0,
+            NetTaxLiability: Math.round(result.totalTax),
+            TotalIntrstPay: this.totalInterest(filing),
+            IntrstPay: this.interestPayable(filing),
+            TotTaxPlusIntrstPay: Math.round(result.totalTax) + this.totalInterest(filing)
+          },
+          TaxPaid: this.taxPaid(taxes, filing),
+          Refund: this.refund(personal, filing),
+          TDSonSalaries: {
+            TDSonSalary: taxes.salaryRows.map(row => this.salaryTdsRow(row)),
+            TotalTDSonSalaries: taxes.tdsOnSalary
+          },
+          TDSonOthThanSals: {
+            TDSonOthThanSal: taxes.otherRows.map(row => this.otherTdsRow(row, context.assessmentYear)),
+            TotalTDSonOthThanSals: taxes.tdsOther
+          },
+          TaxPayments: this.taxPayments(taxes.challans),
+          Verification: this.verification(personal)
+        }
+      }
+    };
+  }
+
+  private buildItr2(context: ReturnContext): Record<string, unknown> {
+    const { personal, result, sheet, deductions, taxes, filing, regime, form16s, status } = context;
+    const salary = this.salaryFigures(sheet, deductions, form16s);
+    const houseIncome = this.houseIncome(sheet, deductions);
+    const otherSources = this.otherSourceLines(context.records.incomeSources ?? [], context.assessmentYear);
+    const incomeOtherSources = Math.round(this.headIncome(sheet, 'otherSources'));
+    const capitalGains = sheet.capitalGains;
+    const special = (section: string) => Math.round(capitalGains.specialRateIncome.find(line => line.section === section)?.income ?? 0);
+    const shortTerm = special('111A') + Math.round(capitalGains.slabIncome);
+    const longTerm = special('112A') + special('112');
+    const chapterVIA = this.total(deductions.allowed);
+
+    const positiveHeads = salary.income + Math.max(0, houseIncome) + shortTerm + longTerm + incomeOtherSources;
+    const currentYearLoss = Math.min(positiveHeads, Math.max(0, -houseIncome));
+    const grossTotalIncome = positiveHeads - currentYearLoss;
+    const totalIncome = Math.max(0, grossTotalIncome - chapterVIA);
+    const specialRateIncome = Math.round(capitalGains.specialRateIncome.reduce((sum, line) => sum + line.income, 0));
+
+    // Form 16 employers first, then salaries entered by hand
+    const manualSalaries = (context.records.incomeSources ?? [])
+      .filter(s => s.source === 'salary' && !s.documentId && s.assessmentYear === context.assessmentYear);
+    const employers = [
+      ...form16s.map(f => ({
+        name: f.employerName,
+        tan: taxes.employerTans[f.id],
+        gross: Math.round(f.grossSalary),
+        salary: Math.round(f.salary),
+        perquisites: Math.round(f.perquisites),
+        profitsInLieuOfSalary: Math.round(f.profitsInLieuOfSalary)
+      })),
+      ...manualSalaries.map(s => {
+        const gross = Math.round(parseFloat(s.amount) || 0);
+        return { name: s.description || undefined, tan: undefined, gross, salary: gross, perquisites: 0, profitsInLieuOfSalary: 0 };
+      })
+    ];
+
+    const properties = (sheet.houseProperty?.properties ?? []).map((property, index) => ({
+      HPSNo: index + 1,
+      PropertyOwner: 'SE',
+      ifLetOut: this.propertyType(property.occupancy) === 'S' ? 'N' : this.propertyType(property.occupancy) === 'L' ? 'Y' : 'D',
+      Rentdetails: {
+        AnnualLetableValue: Math.round(property.grossAnnualValue),
+        LocalTaxes: Math.round(property.municipalTaxes),
+        BalanceALV: Math.round(property.netAnnualValue),
+        ThirtyPercentOfBalance: Math.round(property.standardDeduction),
+        IntOnBorwCap: Math.round(property.interestAllowed),
+        TotalDeduct: Math.round(property.standardDeduction + property.interestAllowed),
+        IncomeOfHP: Math.round(property.income)
+      }
+    }));
+    // Home loan interest claimed as a deduction, without a property on record
+    if (deductions.houseLoanInterest > 0) {
+      properties.push({
+        HPSNo: properties.length + 1,
+        PropertyOwner: 'SE',
+        ifLetOut: 'N',
+        Rentdetails: {
+          AnnualLetableValue: 0,
+          LocalTaxes: 0,
+          BalanceALV: 0,
+          ThirtyPercentOfBalance: 0,
+          IntOnBorwCap: Math.round(deductions.houseLoanInterest),
+          TotalDeduct: Math.round(deductions.houseLoanInterest),
+          IncomeOfHP: -Math.round(deductions.houseLoanInterest)
+        }
+      });
+    }
+
+    const interest = this.totalInterest(filing);
+    const houseHead = sheet.heads.find(h => h.head === 'houseProperty')!;
+    return {
+      ITR: {
+        ITR2: {
+          CreationInfo: this.creationInfo(personal),
+          Form_ITR2: this.formInfo('ITR-2', context.assessmentYear),
+          PartA_GEN1: {
+            PersonalInfo: this.personalInfo(personal),
+            FilingStatus: {
+              ...this.filingStatus(filing, regime),
+              ResidentialStatus: RESIDENTIAL_STATUS_CODES[status ?? 'resident']
+            }
+          },
+          ScheduleS: {
+            Salaries: employers.map(employer => ({
+              NameOfEmployer: employer.name,
+              TANofEmployer: employer.tan,
+              Salarys: {
+                GrossSalary: employer.gross,
+                Salary: employer.salary,
+                ValueOfPerquisites: employer.perquisites,
+                ProfitsinLieuOfSalary: employer.profitsInLieuOfSalary
+              }
+            })),
+            TotalGrossSalary: salary.gross,
+            AllwncExtentExemptUs10: salary.exemption,
+            NetSalary: salary.net,
+            DeductionUS16: salary.standardDeduction + salary.professionalTax,
+            DeductionUnderSection16ia: salary.standardDeduction,
+            ProfessionalTaxUs16iii: salary.professionalTax,
+            TotIncUnderHeadSalaries: salary.income
+          },
+          ScheduleHP: {
+            PropertyDetails: properties,
+            TotalIncomeChargeableUnHP: houseIncome
+          },
+          ScheduleCGFor23: {
+            ShortTermCapGainFor23: { STCG111A: special('111A'), STCGAppRate: Math.round(capitalGains.slabIncome), TotalSTCG: shortTerm },
+            LongTermCapGain23: { LTCG112A: special('112A'), LTCG112: special('112'), TotalLTCG: longTerm },
+            SumOfCGIncm: shortTerm + longTerm,
+            CurrYrLosses: {
+              STCLCarriedFwd: Math.round(capitalGains.shortTermLossCarriedForward),
+              LTCLCarriedFwd: Math.round(capitalGains.longTermLossCarriedForward)
+            }
+          },
+          ScheduleOS: {
+            IncOthThanOwnRaceHorse: {
+              InterestGross: this.sumLines(otherSources, ['SAV', 'IFD', 'TAX']),
+              DividendGross: this.sumLines(otherSources, ['DIV']),
+              OthersGross: this.sumLines(otherSources, ['FAP', 'OTH']),
+              OthersIncDtlsOthSrc: otherSources
+            },
+            IncChargeable: incomeOtherSources
+          },
+          ScheduleVIA: {
+            UsrDeductUndChapVIA: { ...deductions.claimed, TotalChapVIADeductions: this.total(deductions.claimed) },
+            DeductUndChapVIA: { ...deductions.allowed, TotalChapVIADeductions: chapterVIA }
+          },
+          'PartB-TI': {
+            Salaries: salary.income,
+            IncomeFromHP: houseIncome,
+            CapGain: { ShortTerm: shortTerm, LongTerm: longTerm, TotalCapGains: shortTerm + longTerm },
+            IncFromOS: { TotIncFromOS: incomeOtherSources },
+            TotalTI: positiveHeads,
+            CurrentYearLoss: currentYearLoss,
+            BalanceAfterSetoffLosses: grossTotalIncome,
+            GrossTotalIncome: grossTotalIncome,
+            DeductionsUnderScheduleVIA: chapterVIA,
+            TotalIncome: totalIncome,
+            IncChargeableTaxSplRates: specialRateIncome,
+            AggregateIncome: totalIncome,
+            LossesOfCurrentYearCarriedFwd: Math.round(houseHead.lossCarriedForward
+              + capitalGains.shortTermLossCarriedForward + capitalGains.longTermLossCarriedForward)
+          },
+          PartB_TTI: {
+            ComputationOfTaxLiability: {
+              TaxPayableOnTI: {
+                TaxAtNormalRatesOnAggrInc: Math.max(0, Math.round(result.taxLiability - result.specialRateTax)),
+                TaxAtSpecialRates: Math.round(result.specialRateTax),
+                TaxPayableOnTotInc: Math.round(result.taxLiability)
+              },
+              Rebate87A: Math.round(result.rebate87A),
+              TaxPayableOnRebate: Math.max(0, Math.round(result.taxLiability - result.rebate87A)),
+              Surcharge: Math.round(result.surcharge),
+              EducationCess: Math.round(result.cess),
+              GrossTaxLiability: Math.round(result.totalTax),
+              NetTaxLiability: Math.round(result.totalTax),
+              IntrstPay: this.interestPayable(filing),
+              AggregateTaxInterestLiability: Math.round(result.totalTax) + interest
+            },
+            TaxPaid: this.taxPaid(taxes, filing),
+            Refund: this.refund(personal, filing)
+          },
+          ScheduleTDS1: {
+            TDSonSalary: taxes.salaryRows.map(row => this.salaryTdsRow(row)),
+            TotalTDSonSalaries: taxes.tdsOnSalary
+          },
+          ScheduleTDS2: {
+            TDSOthThanSalaryDtls: taxes.otherRows.map(row => this.otherTdsRow(row, context.assessmentYear)),
+            TotalTDSonOthThanSals: taxes.tdsOther
+          },
+          ScheduleIT: this.taxPayments(taxes.challans),
+          Verification: this.verification(personal)
+        }
+      }
+    };
+  }
+
+  // Section 10 exemptions and professional tax move from the deduction lines
+  // to the salary schedule; perquisites and profits in lieu come from Part B
+  private salaryFigures(sheet: ComputationSheet, deductions: DeductionSplit, form16s: Form16Summary[]) {
+    const head = sheet.heads.find(h => h.head === 'salary')!;
+    const gross = Math.round(head.items.reduce((sum, item) => sum + item.amount, 0));
+    const perquisites = Math.round(form16s.reduce((sum, f) => sum + f.perquisites, 0));
+    const profitsInLieuOfSalary = Math.round(form16s.reduce((sum, f) => sum + f.profitsInLieuOfSalary, 0));
+    const standardDeduction = Math.round(head.deductions.reduce((sum, item) => sum + item.amount, 0));
+    const exemption = Math.min(this.total(deductions.salaryExemptions), gross);
+    const exemptions = Object.entries(deductions.salaryExemptions)
+      .filter(([, amount]) => amount > 0)
+      .map(([code, amount]) => ({ SalNatureDesc: code, SalOthAmount: amount }));
+    const net = gross - exemption;
+    const professionalTax = Math.min(deductions.professionalTax, Math.max(0, net - standardDeduction));
+    return {
+      gross,
+      salary: Math.max(0, gross - perquisites - profitsInLieuOfSalary),
+      perquisites,
+      profitsInLieuOfSalary,
+      exemption,
+      exemptions,
+      net,
+      standardDeduction,
+      professionalTax,
+      income: Math.max(0, net - standardDeduction - professionalTax)
+    };
+  }
+
+  // House property income after intra-head set-off, with any loss limited to
+  // what could be set off this year, less home loan interest claimed as a deduction
+  private houseIncome(sheet: ComputationSheet, deductions: DeductionSplit): number {
+    const head = sheet.heads.find(h => h.head === 'houseProperty')!;
+    const income = head.income >= 0 ? head.income : -head.setOffAgainstOtherHeads;
+    return Math.round(income - deductions.houseLoanInterest);
+  }
+
+  private headIncome(sheet: ComputationSheet, name: IncomeHead): number {
+    return Math.max(0, sheet.heads.find(h => h.head === name)!.income);
+  }
+
+  private otherSourceLines(incomeSources: IncomeSource[], assessmentYear: string) {
+    return incomeSources
+      .filter(s => s.assessmentYear === assessmentYear && !['salary', 'rental', 'business', 'capital_gains'].includes(s.source))
+      .map(s => {
+        const description = s.description || undefined;
+        let nature = 'OTH';
+        if (s.source === 'dividend') nature = 'DIV';
+        if (s.source === 'interest') nature = /saving/i.test(description ?? '') ? 'SAV' : /refund/i.test(description ?? '') ? 'TAX' : 'IFD';
+        if (/family pension/i.test(description ?? '')) nature = 'FAP';
+        return {
+          OthSrcNatureDesc: nature,
+          ...(nature === 'OTH' ? { OthSrcOthNatureDesc: description ?? 'Other income' } : {}),
+          OthSrcOthAmount: Math.round(parseFloat(s.amount) || 0)
+        };
+      })
+      .filter(line => line.OthSrcOthAmount > 0);
+  }
+
+  private creationInfo(personal: ItrPersonalDetails) {
+    return {
+      SWVersionNo: SOFTWARE_VERSION,
+      SWCreatedBy: SOFTWARE_ID,
+      JSONCreatedBy: SOFTWARE_ID,
+      JSONCreationDate: new Date().toISOString().slice(0, 10),
+      IntermediaryCity: personal.city ?? 'Delhi',
+      Digest: '-'
+    };
+  }
+
+  private formInfo(form: 'ITR-1' | 'ITR-2', assessmentYear: string) {
+    return {
+      FormName: form,
+      Description: FORM_DESCRIPTIONS[form],
+      AssessmentYear: String(assessmentYearStart(assessmentYear)),
+      SchemaVer: SCHEMA_VERSION,
+      FormVer: SCHEMA_VERSION
+    };
+  }
+
+  private personalInfo(personal: ItrPersonalDetails) {
+    const digits = (value?: string) => value ? Number(value.replace(/\D/g, '')) || undefined : undefined;
+    return {
+      AssesseeName: {
+        FirstName: personal.firstName,
+        MiddleName: personal.middleName,
+        SurNameOrOrgName: personal.lastName
+      },
+      PAN: personal.pan,
+      Address: {
+        ResidenceNo: personal.flatDoorBlock,
+        ResidenceName: personal.premises,
+        RoadOrStreet: personal.roadStreet,
+        LocalityOrArea: personal.localityArea,
+        CityOrTownOrDistrict: personal.city,
+        StateCode: personal.stateCode,
+        CountryCode: '91',
+        PinCode: digits(personal.pinCode),
+        CountryCodeMobile: 91,
+        MobileNo: digits(personal.mobile),
+        EmailAddress: personal.email
+      },
+      DOB: personal.dateOfBirth,
+      AadhaarCardNo: personal.aadhaar?.replace(/\s/g, '')
+    };
+  }
+
+  private filingStatus(filing: SelfAssessmentResult, regime: 'old' | 'new') {
+    return {
+      ReturnFileSec: RETURN_SECTIONS[filing.returnType] ?? RETURN_SECTIONS.belated,
+      OptOutNewTaxRegime: regime === 'old' ? 'Y' : 'N',
+      ItrFilingDueDate: filing.dueDate
+    };
+  }
+
+  private propertyType(occupancy: string): 'S' | 'L' | 'D' {
+    if (occupancy === 'let_out') return 'L';
+    if (occupancy === 'deemed_let_out') return 'D';
+    return 'S';
+  }
+
+  private interestPayable(filing: SelfAssessmentResult) {
+    return {
+      IntrstPayUs234A: Math.round(filing.interest234A),
+      IntrstPayUs234B: Math.round(filing.interest234B),
+      IntrstPayUs234C: Math.round(filing.interest234C),
+      LateFilingFee234F: Math.round(filing.fee234F)
+    };
+  }
+
+  private totalInterest(filing: SelfAssessmentResult): number {
+    return Math.round(filing.interest234A + filing.interest234B + filing.interest234C + filing.fee234F);
+  }
+
+  private taxPaid(taxes: TaxesPaidSummary, filing: SelfAssessmentResult) {
+    const tds = taxes.tdsOnSalary + taxes.tdsOther;
+    return {
+      TaxesPaid: {
+        AdvanceTax: taxes.advanceTax,
+        TDS: tds,
+        TCS: taxes.tcs,
+        SelfAssessmentTax: taxes.selfAssessmentTax,
+        TotalTaxesPaid: taxes.advanceTax + tds + taxes.tcs + taxes.selfAssessmentTax
+      },
+      BalTaxPayable: Math.round(filing.totalPayable)
+    };
+  }
+
+  private refund(personal: ItrPersonalDetails, filing: SelfAssessmentResult) {
+    return {
+      RefundDue: Math.round(filing.refund),
+      BankAccountDtls: {
+        AddtnlBankDetails: [{
+          IFSCCode: personal.bankIfsc?.toUpperCase(),
+          BankName: personal.bankName,
+          BankAccountNo: personal.bankAccountNumber?.replace(/\s/g, ''),
+          AccountType: personal.bankAccountType ?? 'SB',
+          UseForRefund: 'true'
+        }]
+      }
+    };
+  }
+
+  private salaryTdsRow(row: SalaryTdsRow) {
+    return {
+      EmployerOrDeductorOrCollectDetl: { TAN: row.deductorTan, EmployerOrDeductorOrCollecterName: row.deductorName },
+      IncChrgSal: row.income,
+      TotalTDSSal: row.tds
+    };
+  }
+
+  private otherTdsRow(row: OtherTdsRow, assessmentYear: string) {
+    return {
+      EmployerOrDeductorOrCollectDetl: { TAN: row.deductorTan, EmployerOrDeductorOrCollecterName: row.deductorName },
+      AmtForTaxDeduct: row.amountPaid,
+      DeductedYr: String(assessmentYearStart(assessmentYear) - 1),
+      TotTDSOnAmtPaid: row.tds,
+      ClaimOutOfTotTDSOnAmtPaid: row.tds
+    };
+  }
+
+  private taxPayments(payments: TaxPayment[]) {
+    const rows = payments.map(payment => ({
+      BSRCode: payment.bsrCode || undefined,
+      DateDep: String(payment.paymentDate).slice(0, 10),
+      SrlNoOfChaln: payment.challanSerialNumber ? Number(payment.challanSerialNumber.replace(/\D/g, '')) : undefined,
+      Amt: Math.round(parseFloat(payment.amount) || 0)
+    }));
+    return { TaxPayment: rows, TotalTaxPayments: rows.reduce((sum, row) => sum + row.Amt, 0) };
+  }
+
+  private verification(personal: ItrPersonalDetails) {
+    const name = [personal.firstName, personal.middleName, personal.lastName].filter(Boolean).join(' ');
+    return {
+      Declaration: {
+        AssesseeVerName: name || undefined,
+        FatherName: personal.fatherName,
+        AssesseeVerPAN: personal.pan
+      },
+      Capacity: 'S',
+      Place: personal.place ?? personal.city
+    };
+  }
+
+  // Turn a schema issue into a readable field name, naming the employer or
+  // deductor for rows of a schedule
+  private describeIssue(issue: ZodIssue, itr: Record<string, unknown>): ItrFieldIssue {
+    const path = issue.path.join('.');
+    const key = String(issue.path[issue.path.length - 1]);
+    let label = FIELD_LABELS[key] ?? key;
+
+    let parent: unknown = itr;
+    for (const segment of issue.path.slice(0, -1)) {
+      parent = (parent as Record<string | number, unknown> | undefined)?.[segment];
+    }
+    const owner = parent as Record<string, unknown> | undefined;
+    const ownerName = owner?.EmployerOrDeductorOrCollecterName ?? owner?.NameOfEmployer;
+    if (ownerName && key !== 'EmployerOrDeductorOrCollecterName' && key !== 'NameOfEmployer') {
+      label = `${label} (${ownerName})`;
+    }
+    if (issue.path.includes('TaxPayment')) {
+      label = `${label} (challan ${Number(issue.path[issue.path.indexOf('TaxPayment') + 1]) + 1})`;
+    }
+    return { path, label };
+  }
+
+  private sumLines(lines: { OthSrcNatureDesc: string; OthSrcOthAmount: number }[], natures: string[]): number {
+    return lines.filter(line => natures.includes(line.OthSrcNatureDesc)).reduce((sum, line) => sum + line.OthSrcOthAmount, 0);
+  }
+
+  private total(amounts: Record<string, number>): number {
+    return Object.values(amounts).reduce((sum, value) => sum + value, 0);
+  }
+}
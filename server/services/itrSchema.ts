@@ -0,0 +1,304 @@
+import { z } from "zod";
+
+// Validation for the subset of the CBDT ITR-1 and ITR-2 JSON schemas that we
+// populate. Field names and formats follow the e-filing utility; amounts are
+// whole rupees.
+
+const amount = z.number().int().nonnegative();
+const signedAmount = z.number().int();
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use the YYYY-MM-DD format');
+const pan = z.string().regex(/^[A-Z]{5}[0-9]{4}[A-Z]$/, 'Enter a valid PAN, for example ABCDE1234F');
+const tan = z.string().regex(/^[A-Z]{4}[0-9]{5}[A-Z]$/, 'Enter a valid TAN, for example MUMA12345B');
+const name = (max: number) => z.string().min(1).max(max);
+
+const creationInfo = z.object({
+  SWVersionNo: z.string(),
+  SWCreatedBy: z.string(),
+  JSONCreatedBy: z.string(),
+  JSONCreationDate: isoDate,
+  IntermediaryCity: z.string(),
+  Digest: z.string()
+});
+
+const formInfo = z.object({
+  FormName: z.enum(['ITR-1', 'ITR-2']),
+  Description: z.string(),
+  AssessmentYear: z.string().regex(/^\d{4}$/),
+  SchemaVer: z.string(),
+  FormVer: z.string()
+});
+
+const assesseeName = z.object({
+  FirstName: z.string().max(25).optional(),
+  MiddleName: z.string().max(25).optional(),
+  SurNameOrOrgName: name(75)
+});
+
+const address = z.object({
+  ResidenceNo: name(50),
+  ResidenceName: z.string().max(50).optional(),
+  RoadOrStreet: z.string().max(50).optional(),
+  LocalityOrArea: name(50),
+  CityOrTownOrDistrict: name(50),
+  StateCode: z.string().regex(/^\d{2}$/, 'Choose a state'),
+  CountryCode: z.literal('91'),
+  PinCode: z.number().int().min(110000, 'Enter a 6-digit PIN code').max(999999, 'Enter a 6-digit PIN code'),
+  CountryCodeMobile: z.literal(91),
+  MobileNo: z.number().int().min(6000000000, 'Enter a 10-digit mobile number').max(9999999999, 'Enter a 10-digit mobile number'),
+  EmailAddress: z.string().email('Enter a valid email address').max(125)
+});
+
+const personalInfo = z.object({
+  AssesseeName: assesseeName,
+  PAN: pan,
+  Address: address,
+  DOB: isoDate,
+  AadhaarCardNo: z.string().regex(/^\d{12}$/, 'Aadhaar has 12 digits').optional()
+});
+
+const bankAccount = z.object({
+  IFSCCode: z.string().regex(/^[A-Z]{4}0[A-Z0-9]{6}$/, 'Enter a valid 11-character IFSC'),
+  BankName: name(125),
+  BankAccountNo: z.string().regex(/^[0-9A-Za-z]{1,20}$/, 'Enter a valid account number'),
+  AccountType: z.enum(['SB', 'CA', 'CC', 'OD', 'NRO', 'OTH']),
+  UseForRefund: z.enum(['true', 'false'])
+});
+
+const refund = z.object({
+  RefundDue: amount,
+  BankAccountDtls: z.object({ AddtnlBankDetails: z.array(bankAccount).min(1) })
+});
+
+const taxesPaid = z.object({
+  AdvanceTax: amount,
+  TDS: amount,
+  TCS: amount,
+  SelfAssessmentTax: amount,
+  TotalTaxesPaid: amount
+});
+
+const interestPayable = z.object({
+  IntrstPayUs234A: amount,
+  IntrstPayUs234B: amount,
+  IntrstPayUs234C: amount,
+  LateFilingFee234F: amount
+});
+
+const deductor = z.object({
+  TAN: tan,
+  EmployerOrDeductorOrCollecterName: name(125)
+});
+
+const tdsOnSalary = z.object({
+  EmployerOrDeductorOrCollectDetl: deductor,
+  IncChrgSal: amount,
+  TotalTDSSal: amount
+});
+
+const tdsOtherThanSalary = z.object({
+  EmployerOrDeductorOrCollectDetl: deductor,
+  AmtForTaxDeduct: amount,
+  DeductedYr: z.string().regex(/^\d{4}$/),
+  TotTDSOnAmtPaid: amount,
+  ClaimOutOfTotTDSOnAmtPaid: amount
+});
+
+const taxPayment = z.object({
+  BSRCode: z.string().regex(/^\d{7}$/, 'The BSR code has 7 digits'),
+  DateDep: isoDate,
+  SrlNoOfChaln: z.number().int().min(0).max(99999),
+  Amt: amount
+});
+
+const taxPayments = z.object({
+  TaxPayment: z.array(taxPayment),
+  TotalTaxPayments: amount
+});
+
+const chapterVIA = z.record(z.string(), amount);
+
+const verification = z.object({
+  Declaration: z.object({
+    AssesseeVerName: name(125),
+    FatherName: name(125),
+    AssesseeVerPAN: pan
+  }),
+  Capacity: z.literal('S'),
+  Place: name(75)
+});
+
+const filingStatus = z.object({
+  ReturnFileSec: z.number().int(),
+  OptOutNewTaxRegime: z.enum(['Y', 'N']),
+  ItrFilingDueDate: isoDate
+});
+
+const otherSourceLine = z.object({
+  OthSrcNatureDesc: z.enum(['SAV', 'IFD', 'TAX', 'FAP', 'DIV', 'OTH']),
+  OthSrcOthNatureDesc: z.string().max(125).optional(),
+  OthSrcOthAmount: amount
+});
+
+export const itr1Schema = z.object({
+  ITR: z.object({
+    ITR1: z.object({
+      CreationInfo: creationInfo,
+      Form_ITR1: formInfo,
+      PersonalInfo: personalInfo.extend({
+        EmployerCategory: z.enum(['CGOV', 'SGOV', 'PSU', 'PE', 'OTH', 'NA'])
+      }),
+      FilingStatus: filingStatus,
+      ITR1_IncomeDeductions: z.object({
+        GrossSalary: amount,
+        Salary: amount,
+        PerquisitesValue: amount,
+        ProfitsInSalary: amount,
+        AllwncExemptUs10: z.object({
+          AllwncExemptUs10Dtls: z.array(z.object({ SalNatureDesc: z.string(), SalOthAmount: amount })),
+          TotalAllwncExemptUs10: amount
+        }),
+        NetSalary: amount,
+        DeductionUs16: amount,
+        DeductionUs16ia: amount,
+        ProfessionalTaxUs16iii: amount,
+        IncomeFromSal: amount,
+        TypeOfHP: z.enum(['S', 'L', 'D']).optional(),
+        GrossRentReceived: amount,
+        TaxPaidlocalAuth: amount,
+        AnnualValue: amount,
+        StandardDeduction: amount,
+        InterestPayable: amount,
+        TotalIncomeOfHP: signedAmount,
+        IncomeOthSrc: amount,
+        OthersInc: z.object({ OthersIncDtlsOthSrc: z.array(otherSourceLine) }),
+        LTCG112A: amount,
+        GrossTotIncome: amount,
+        UsrDeductUndChapVIA: chapterVIA,
+        DeductUndChapVIA: chapterVIA,
+        TotalIncome: amount
+      }),
+      ITR1_TaxComputation: z.object({
+        TotalTaxPayable: amount,
+        Rebate87A: amount,
+        TaxPayableOnRebate: amount,
+        EducationCess: amount,
+        GrossTaxLiability: amount,
+        Section89: amount,
+        NetTaxLiability: amount,
+        TotalIntrstPay: amount,
+        IntrstPay: interestPayable,
+        TotTaxPlusIntrstPay: amount
+      }),
+      TaxPaid: z.object({ TaxesPaid: taxesPaid, BalTaxPayable: amount }),
+      Refund: refund,
+      TDSonSalaries: z.object({ TDSonSalary: z.array(tdsOnSalary), TotalTDSonSalaries: amount }),
+      TDSonOthThanSals: z.object({ TDSonOthThanSal: z.array(tdsOtherThanSalary), TotalTDSonOthThanSals: amount }),
+      TaxPayments: taxPayments,
+      Verification: verification
+    })
+  })
+});
+
+export const itr2Schema = z.object({
+  ITR: z.object({
+    ITR2: z.object({
+      CreationInfo: creationInfo,
+      Form_ITR2: formInfo,
+      PartA_GEN1: z.object({
+        PersonalInfo: personalInfo,
+        FilingStatus: filingStatus.extend({
+          ResidentialStatus: z.enum(['RES', 'NOR', 'NRI'])
+        })
+      }),
+      ScheduleS: z.object({
+        Salaries: z.array(z.object({
+          NameOfEmployer: name(125),
+          TANofEmployer: tan,
+          Salarys: z.object({
+            GrossSalary: amount,
+            Salary: amount,
+            ValueOfPerquisites: amount,
+            ProfitsinLieuOfSalary: amount
+          })
+        })),
+        TotalGrossSalary: amount,
+        AllwncExtentExemptUs10: amount,
+        NetSalary: amount,
+        DeductionUS16: amount,
+        DeductionUnderSection16ia: amount,
+        ProfessionalTaxUs16iii: amount,
+        TotIncUnderHeadSalaries: amount
+      }),
+      ScheduleHP: z.object({
+        PropertyDetails: z.array(z.object({
+          HPSNo: z.number().int().positive(),
+          PropertyOwner: z.literal('SE'),
+          ifLetOut: z.enum(['Y', 'N', 'D']),
+          Rentdetails: z.object({
+            AnnualLetableValue: amount,
+            LocalTaxes: amount,
+            BalanceALV: amount,
+            ThirtyPercentOfBalance: amount,
+            IntOnBorwCap: amount,
+            TotalDeduct: amount,
+            IncomeOfHP: signedAmount
+          })
+        })),
+        TotalIncomeChargeableUnHP: signedAmount
+      }),
+      ScheduleCGFor23: z.object({
+        ShortTermCapGainFor23: z.object({ STCG111A: amount, STCGAppRate: amount, TotalSTCG: amount }),
+        LongTermCapGain23: z.object({ LTCG112A: amount, LTCG112: amount, TotalLTCG: amount }),
+        SumOfCGIncm: amount,
+        CurrYrLosses: z.object({ STCLCarriedFwd: amount, LTCLCarriedFwd: amount })
+      }),
+      ScheduleOS: z.object({
+        IncOthThanOwnRaceHorse: z.object({
+          InterestGross: amount,
+          DividendGross: amount,
+          OthersGross: amount,
+          OthersIncDtlsOthSrc: z.array(otherSourceLine)
+        }),
+        IncChargeable: amount
+      }),
+      ScheduleVIA: z.object({
+        UsrDeductUndChapVIA: chapterVIA,
+        DeductUndChapVIA: chapterVIA
+      }),
+      'PartB-TI': z.object({
+        Salaries: amount,
+        IncomeFromHP: signedAmount,
+        CapGain: z.object({ ShortTerm: amount, LongTerm: amount, TotalCapGains: amount }),
+        IncFromOS: z.object({ TotIncFromOS: amount }),
+        TotalTI: signedAmount,
+        CurrentYearLoss: amount,
+        BalanceAfterSetoffLosses: amount,
+        GrossTotalIncome: amount,
+        DeductionsUnderScheduleVIA: amount,
+        TotalIncome: amount,
+        IncChargeableTaxSplRates: amount,
+        AggregateIncome: amount,
+        LossesOfCurrentYearCarriedFwd: amount
+      }),
+      PartB_TTI: z.object({
+        ComputationOfTaxLiability: z.object({
+          TaxPayableOnTI: z.object({ TaxAtNormalRatesOnAggrInc: amount, TaxAtSpecialRates: amount, TaxPayableOnTotInc: amount }),
+          Rebate87A: amount,
+          TaxPayableOnRebate: amount,
+          Surcharge: amount,
+          EducationCess: amount,
+          GrossTaxLiability: amount,
+          NetTaxLiability: amount,
+          IntrstPay: interestPayable,
+          AggregateTaxInterestLiability: amount
+        }),
+        TaxPaid: z.object({ TaxesPaid: taxesPaid, BalTaxPayable: amount }),
+        Refund: refund
+      }),
+      ScheduleTDS1: z.object({ TDSonSalary: z.array(tdsOnSalary), TotalTDSonSalaries: amount }),
+      ScheduleTDS2: z.object({ TDSOthThanSalaryDtls: z.array(tdsOtherThanSalary), TotalTDSonOthThanSals: amount }),
+      ScheduleIT: taxPayments,
+      Verification: verification
+    })
+  })
+});
@@ -0,0 +1,52 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+// Tesseract language packs, joined with "+"; Hindi covers bilingual Form 16 headers
+export const OCR_LANGUAGES = process.env.OCR_LANGUAGES || 'eng+hin';
+
+// Scanned pages read per document at most; bundles rarely need more than a handful
+export const MAX_OCR_PAGES = 30;
+
+// Pages are rendered at the first density and rendered again at the next
+// when Tesseract's mean confidence for the page falls below the cut-off
+export const OCR_DENSITIES = [200, 300];
+export const RERENDER_BELOW_CONFIDENCE = 60;
+
+// Tesseract reports orientation confidence on an open scale; 2 and above is reliable
+export const MIN_ORIENTATION_CONFIDENCE = 2;
+
+const A4_WIDTH_INCHES = 8.27;
+
+// Render options for pdf2pic: lossless output at a width that keeps A4 at
+// its native density, with the page's own aspect ratio
+export function renderOptions(density: number, savePath: string) {
+  return {
+    density,
+    saveFilename: `page-${density}`,
+    savePath,
+    format: 'png',
+    width: Math.round(A4_WIDTH_INCHES * density),
+    preserveAspectRatio: true
+  };
+}
+
+// Cleans a rendered page for recognition with GraphicsMagick: turns it upright,
+// drops colour, removes speckle noise and binarises against the local
+// background so shadows and uneven scans do not swallow the text.
+// Skew is corrected afterwards by Tesseract, which measures the text lines.
+export async function preprocessPage(inputPath: string, outputPath: string, density: number, rotation = 0): Promise<void> {
+  // A window of about an eighth of an inch follows shading without washing out strokes
+  const window = Math.round(density / 8);
+  await execFileAsync('gm', [
+    'convert', inputPath,
+    ...(rotation ? ['-rotate', String(rotation)] : []),
+    '-colorspace', 'Gray',
+    '-despeckle',
+    '-normalize',
+    '-lat', `${window}x${window}-5%`,
+    '+matte',
+    outputPath
+  ]);
+}
@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { PDFExtractorService } from './pdfExtractor';
+
+// The TRACES Form 16 in attached_assets, whose text layer has the cells of
+// Part B glued to their labels and item markers
+const SAMPLE_FORM16 = 'attached_assets/Forms16TestData_1758263555097.pdf';
+
+test('reads the Part B salary breakup of the sample Form 16', async () => {
+  const form16 = await new PDFExtractorService().extractForm16Data(readFileSync(SAMPLE_FORM16));
+
+  assert.equal(form16.salaryBreakup?.salary, 755046);
+  assert.equal(form16.salaryBreakup?.standardDeduction, 50000);
+  assert.equal(form16.salaryBreakup?.professionalTax, 2342);
+  assert.deepEqual(form16.salaryBreakup?.exemptions, [
+    { section: '10(13A)', label: 'House rent allowance', amount: 69713 }
+  ]);
+  assert.equal(form16.grossSalary, 755046);
+  assert.equal(form16.hra, 69713);
+  assert.equal(form16.totalExemption, 69713);
+});
+
+test('reads the Part B income and tax rows of the sample Form 16', async () => {
+  const form16 = await new PDFExtractorService().extractForm16Data(readFileSync(SAMPLE_FORM16));
+
+  assert.equal(form16.standardDeduction, 50000);
+  assert.equal(form16.grossTotalIncome, 632991);
+  assert.equal(form16.taxableIncome, 553696);
+  assert.equal(form16.netTaxPayable, 24169);
+  // The sample has no Part A, so TDS is taken from Part B and flagged for review
+  assert.equal(form16.tdsDeducted, 24169);
+  assert.equal(form16.provenance?.tdsDeducted.strategy, 'fallback');
+});
+
+test('reads Chapter VI-A deductions whose cells sit below the column headings', async () => {
+  const form16 = await new PDFExtractorService().extractForm16Data(readFileSync(SAMPLE_FORM16));
+
+  assert.deepEqual(form16.deductions, { '80C': 55565, '80G_100': 23730 });
+  assert.equal(form16.totalDeduction, 79295);
+});
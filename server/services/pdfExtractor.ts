@@ -4,8 +4,47 @@ import pdf2pic from 'pdf2pic';
 import { writeFile, unlink, mkdtemp, rm } from 'fs/promises';
 import { tmpdir } from 'os';
 import { join } from 'path';
+import { spawn } from 'child_process';
+import {
+  detectForm16Template,
+  fieldRules,
+  amountPatterns,
+  amountRowLabels,
+  salaryRowRules,
+  exemptionRows,
+  itemGroups,
+  partARules,
+  chapterVIARules,
+  type Form16Template,
+  type Form16SalaryField,
+  type Form16RowRule,
+  type Form16PartARules,
+  type Form16ChapterVIARules,
+  type Form16Layout,
+  type Form16FieldRule,
+  type Form16Parties,
+  type Form16AmountField
+} from './form16Templates';
+import {
+  classifyPage,
+  classifyScannedPage,
+  isForm16Complete,
+  pageContent,
+  type Form16Page,
+  type PageLayer
+} from './form16Pages';
+import {
+  OCR_LANGUAGES,
+  OCR_DENSITIES,
+  MAX_OCR_PAGES,
+  RERENDER_BELOW_CONFIDENCE,
+  MIN_ORIENTATION_CONFIDENCE,
+  renderOptions,
+  preprocessPage
+} from './ocrPreprocess';
 
-// Global OCR concurrency control
+// Global OCR concurrency control: extraction jobs hold a slot for their
+// whole run, statement imports take one for their OCR pass
 class OCRSemaphore {
   private running = 0;
   private readonly maxConcurrent = 2;
@@ -25,6 +64,13 @@ class OCRSemaphore {
     });
   }
 
+  // A slot if one is free now, without waiting
+  tryAcquire(): boolean {
+    if (this.running >= this.maxConcurrent) return false;
+    this.running++;
+    return true;
+  }
+
   release(): void {
     this.running--;
     const next = this.queue.shift();
@@ -34,7 +80,52 @@ class OCRSemaphore {
   }
 }
 
-const ocrSemaphore = new OCRSemaphore();
+export const ocrSemaphore = new OCRSemaphore();
+
+// Reported while a document is read, page by page for OCR
+export interface ExtractionProgress {
+  stage: 'reading_text' | 'converting' | 'ocr' | 'parsing';
+  page?: number;
+  totalPages?: number;
+}
+
+export type ProgressListener = (progress: ExtractionProgress) => void;
+
+export interface ExtractionOptions {
+  // Tried in order on an encrypted PDF; never logged or stored
+  passwords?: string[];
+}
+
+// Employers and TRACES encrypt Form 16 with the PAN followed by the date of
+// birth as DDMMYYYY, some payroll systems with the PAN in lower case
+export function form16PasswordCandidates(pan?: string | null, dateOfBirth?: string | null): string[] {
+  const dob = dateOfBirth?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!pan || !dob) return [];
+  const date = `${dob[3]}${dob[2]}${dob[1]}`;
+  return [`${pan.toUpperCase()}${date}`, `${pan.toLowerCase()}${date}`];
+}
+
+interface QpdfResult {
+  code: number;
+  stdout: Buffer;
+  stderr: string;
+}
+
+// Runs qpdf with anything secret passed on stdin rather than in the arguments
+function runQpdf(args: string[], stdin = ''): Promise<QpdfResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn('qpdf', args);
+    const stdout: Buffer[] = [];
+    let stderr = '';
+    child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+    child.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+    child.on('error', reject);
+    child.on('close', code => resolve({ code: code ?? -1, stdout: Buffer.concat(stdout), stderr }));
+    // qpdf may exit before reading its input
+    child.stdin.on('error', () => {});
+    child.stdin.end(stdin);
+  });
+}
 
 export interface Form16Data {
   employerName?: string;
@@ -43,6 +134,7 @@ export interface Form16Data {
   employeeAddress?: string;
   pan?: string;
   assessmentYear?: string;
+  layout?: Form16Layout; // The template the document was read with
   grossSalary?: number;
   grossTotalIncome?: number;
   totalExemption?: number;
@@ -56,42 +148,220 @@ export interface Form16Data {
   taxableIncome?: number;
   netTaxPayable?: number;
   tdsDeducted?: number;
+  employerTan?: string;
+  partA?: Form16PartA;
+  salaryBreakup?: Form16SalaryBreakup;
+  chapterVIA?: Form16Deduction[];
   deductions?: {
     [section: string]: number;
   };
+  pages?: Form16Page[]; // How each page was classified and whether it was read
+  ocrPages?: OcrPage[]; // Set when any page was read with OCR
+  provenance?: {
+    [field: string]: FieldProvenance; // Keyed by field path, e.g. grossSalary or deductions.80C
+  };
+}
+
+// How a value was found, from most to least reliable
+// How well Tesseract read one scanned page
+export interface OcrPage {
+  page: number;
+  confidence: number; // Tesseract's mean word confidence, 0-100
+  density: number; // Render density the page was read at, in dpi
+  rotation: number; // Degrees the page was turned to stand upright
+  skew: number; // Degrees of skew Tesseract corrected
+}
+
+interface OcrResult {
+  text: string; // Each page introduced by a "Page N:" heading
+  pages: OcrPage[];
+  pageTexts: Map<number, string>;
+}
+
+interface OcrRequest {
+  pages: number[]; // Page numbers to read, in order
+  // Asked before each page with the pages read so far; false skips the page
+  wanted?: (page: number, read: Map<number, string>) => boolean;
+}
+
+// pdf.js operator codes that paint images, paintJpegXObject to paintImageMaskXObjectRepeat
+const IMAGE_OPERATORS = new Set([82, 83, 84, 85, 86, 87, 88, 89]);
+
+export type ExtractionStrategy =
+  | 'table_row' // A row of a structured Form 16 table (Part A quarters, Part B items, Chapter VI-A)
+  | 'labelled_line' // The value sits on the line that carries its label
+  | 'nearby_line' // The label was found and the value taken from a line close to it
+  | 'derived' // Worked out from other extracted values
+  | 'fallback'; // A loose pattern or heuristic anywhere in the document
+
+export interface FieldProvenance {
+  confidence: number; // 0 to 1
+  strategy: ExtractionStrategy;
+  source: 'text' | 'ocr';
+  page?: number;
+  line?: string; // The line the value was read from
+}
+
+// Fields below this confidence are flagged for the user to check
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+const STRATEGY_CONFIDENCE: Record<ExtractionStrategy, number> = {
+  table_row: 0.95,
+  labelled_line: 0.9,
+  derived: 0.85,
+  nearby_line: 0.7,
+  fallback: 0.4
+};
+
+// Recognition errors make every OCR match less certain; used when the page's
+// own Tesseract confidence is unknown
+const OCR_CONFIDENCE_FACTOR = 0.8;
+
+type FieldRecorder = (field: string, strategy: ExtractionStrategy, lineIndex?: number) => void;
+
+export interface Form16Exemption {
+  section: string; // As printed, e.g. 10(13A); "Section 10" for any other exemption
+  label: string;
+  amount: number;
+}
+
+// Part B items 1 to 5: how the employer arrived at income under the head Salaries
+export interface Form16SalaryBreakup {
+  salary: number; // Section 17(1)
+  perquisites: number; // Section 17(2), as per Form 12BA
+  profitsInLieuOfSalary: number; // Section 17(3)
+  exemptions: Form16Exemption[];
+  totalExemption: number;
+  standardDeduction: number; // Section 16(ia)
+  entertainmentAllowance: number; // Section 16(ii)
+  professionalTax: number; // Tax on employment u/s 16(iii)
+}
+
+export interface Form16Quarter {
+  quarter: 'Q1' | 'Q2' | 'Q3' | 'Q4';
+  receiptNumber?: string; // Receipt of the employer's quarterly TDS statement (24Q)
+  amountPaid: number;
+  taxDeducted: number;
+  taxDeposited: number;
+}
+
+export interface Form16Challan {
+  taxDeposited: number;
+  bsrCode: string;
+  depositDate: string; // dd/mm/yyyy as printed
+  challanSerial: string;
+  status?: string; // Status of matching with OLTAS, e.g. F
+}
+
+// Part A of Form 16 is generated from TRACES and is the employer's certificate
+// of tax deducted and deposited, quarter by quarter
+export interface Form16PartA {
+  employerTan?: string;
+  deductorPan?: string;
+  citTdsAddress?: string;
+  quarters: Form16Quarter[];
+  challans: Form16Challan[];
+  totalAmountPaid: number;
+  totalTaxDeducted: number;
+  totalTaxDeposited: number;
 }
 
+// A row of the Chapter VI-A table in Part B
+export interface Form16Deduction {
+  section: string; // Investment section code, e.g. 80CCD1B
+  label: string; // Section as printed, e.g. 80CCD(1B)
+  grossAmount: number;
+  deductibleAmount: number; // After the limits the employer applied
+}
+
+// Chapter VI-A sections by the code investments use. The 80G deductible
+// amount already has the 50% and qualifying limits applied, so it is
+// claimed as fully deductible.
+const CHAPTER_VIA_SECTIONS: Record<string, { code: string; label: string }> = {
+  '80C': { code: '80C', label: '80C' },
+  '80CCC': { code: '80CCC', label: '80CCC' },
+  '80CCD1': { code: '80CCD1', label: '80CCD(1)' },
+  '80CCD1B': { code: '80CCD1B', label: '80CCD(1B)' },
+  '80CCD2': { code: '80CCD2', label: '80CCD(2)' },
+  '80CCH': { code: '80CCH', label: '80CCH' },
+  '80D': { code: '80D', label: '80D' },
+  '80DD': { code: '80DD', label: '80DD' },
+  '80DDB': { code: '80DDB', label: '80DDB' },
+  '80E': { code: '80E', label: '80E' },
+  '80EEA': { code: '80EEA', label: '80EEA' },
+  '80EEB': { code: '80EEB', label: '80EEB' },
+  '80G': { code: '80G_100', label: '80G' },
+  '80GG': { code: '80GG', label: '80GG' },
+  '80GGA': { code: '80GGA', label: '80GGA' },
+  '80GGC': { code: '80GGC', label: '80GGC' },
+  '80TTA': { code: '80TTA', label: '80TTA' },
+  '80TTB': { code: '80TTB', label: '80TTB' },
+  '80U': { code: '80U', label: '80U' }
+};
+
+// Longer section names first so that 80CCD(1B) is not read as 80C
+const CHAPTER_VIA_SECTION_PATTERN = /\b80\s*(?:CCD\s*\(\s*1\s*B\s*\)|CCD\s*\(\s*[12]\s*\)|CCD|CCC|CCH|C|DDB|DD|D|EEA|EEB|E|GGA|GGC|GG|G|TTA|TTB|U)(?![A-Z])/gi;
+
 export class PDFExtractorService {
-  async extractForm16Data(pdfBuffer: Buffer): Promise<Form16Data> {
+  // Callers run this under an ocrSemaphore slot; the extraction worker does
+  async extractForm16Data(pdfBuffer: Buffer, onProgress: ProgressListener = () => {}, options: ExtractionOptions = {}): Promise<Form16Data> {
     console.log('[PDF Extractor] Starting Form 16 data extraction, buffer size:', pdfBuffer.length, 'bytes');
     console.time('pdf_extract_total');
     
     try {
-      // First try to extract text directly from PDF
+      pdfBuffer = await this.unlockPdf(pdfBuffer, options.passwords ?? []);
+
+      // Read the text layer of every page, then OCR only the scanned pages
+      // that can still add to Part A or Part B
       console.log('[PDF Extractor] Attempting direct text extraction from PDF...');
       console.time('pdf_parse');
-      const data = await pdf(pdfBuffer);
+      onProgress({ stage: 'reading_text' });
+      const layers = await this.readPageLayers(pdfBuffer);
       console.timeEnd('pdf_parse');
       
-      let extractedText = data.text.trim();
-      console.log('[PDF Extractor] Direct extraction completed, text length:', extractedText.length);
-      console.log('[PDF Extractor] Text analysis: has form16 keywords:', /form.?16|assessment.?year|gross.?salary/i.test(extractedText));
+      const pages = layers.map((layer, index) => classifyPage(index + 1, layer));
+      const texts = new Map(layers.map((layer, index) => [index + 1, layer.text]));
+      console.log('[PDF Extractor] Page classification:', pages.map(page => `${page.page}:${page.kind}${page.parts.length ? `(${page.parts.join(',')})` : ''}`).join(' '));
       
-      // Check if the extracted text is minimal (likely image-based PDF)
-      const isImageBased = this.isImageBasedPdf(extractedText);
-      console.log('[PDF Extractor] Image-based PDF detection result:', isImageBased);
-      
-      if (isImageBased) {
-        console.log('[PDF Extractor] Image-based PDF detected, switching to OCR...');
+      let ocrPages: OcrPage[] = [];
+      const scannedPages = pages.filter(page => page.kind === 'scanned').map(page => page.page);
+      if (scannedPages.length > 0) {
+        console.log('[PDF Extractor] Scanned pages found, reading them with OCR as needed:', scannedPages);
         console.time('ocr_total');
-        extractedText = await this.extractTextWithOCR(pdfBuffer);
+        const ocr = await this.extractTextWithOCR(pdfBuffer, onProgress, {
+          pages: scannedPages,
+          wanted: (_page, read) => {
+            read.forEach((text, pageNumber) => {
+              classifyScannedPage(pages[pageNumber - 1], text);
+              texts.set(pageNumber, text);
+            });
+            return !isForm16Complete(pages, texts);
+          }
+        });
+        ocr.pageTexts.forEach((text, pageNumber) => {
+          classifyScannedPage(pages[pageNumber - 1], text);
+          texts.set(pageNumber, text);
+        });
+        ocrPages = ocr.pages;
         console.timeEnd('ocr_total');
-        console.log('[PDF Extractor] OCR completed, final text length:', extractedText.length);
+        console.log('[PDF Extractor] OCR completed on pages:', ocrPages.map(page => page.page));
+      }
+      
+      // Layouts the classifier does not recognise are parsed whole
+      const readPages = pages.some(page => page.read)
+        ? pages.filter(page => page.read)
+        : pages.filter(page => page.kind !== 'blank' && texts.get(page.page));
+      const extractedText = readPages.map(page => `Page ${page.page}:\n${texts.get(page.page)}`).join('\n\n');
+      console.log('[PDF Extractor] Parsing pages', readPages.map(page => page.page), 'text length:', extractedText.length);
+      if (extractedText.trim().length === 0) {
+        throw new Error(ocrPages.length > 0 ? 'No text could be extracted from PDF using OCR' : 'No text could be extracted from PDF');
       }
       
       console.log('[PDF Extractor] Starting text parsing...');
       console.time('parse_text');
-      const result = this.parseForm16Text(extractedText);
+      onProgress({ stage: 'parsing', totalPages: pages.length });
+      const result = this.parseForm16Text(extractedText, ocrPages);
+      result.pages = pages;
       console.timeEnd('parse_text');
       console.timeEnd('pdf_extract_total');
       
@@ -104,7 +374,7 @@ export class PDFExtractorService {
       const errorMessage = (error instanceof Error ? error.message : String(error)).toLowerCase();
       
       if (errorMessage.includes('password') || errorMessage.includes('encrypted')) {
-        throw new Error('PDF is password-protected. Please upload an unprotected PDF file.');
+        throw new Error('PDF is password-protected and could not be opened. Enter the PDF password, or save your PAN and date of birth in your profile, and try again.');
       }
       
       if (errorMessage.includes('invalid pdf') || errorMessage.includes('corrupted')) {
@@ -120,31 +390,89 @@ export class PDFExtractorService {
     }
   }
 
-  private isImageBasedPdf(text: string): boolean {
-    // More robust detection for image-based PDFs
-    const cleanText = text.replace(/\s+/g, ' ').trim();
-    
-    // Check text density and meaningful content
-    const hasMinimalText = cleanText.length < 50;
-    const hasLowTextDensity = cleanText.length < 200 && cleanText.split(' ').length < 20;
-    
-    // Check for Form 16 specific patterns
-    const form16Patterns = [
-      /form\s*16/i,
-      /pan\s*:?\s*[A-Z0-9]/i,
-      /tds\s*deducted/i,
-      /assessment\s*year/i,
-      /gross\s*salary/i,
-      /taxable\s*income/i
-    ];
-    
-    const hasForm16Content = form16Patterns.some(pattern => pattern.test(cleanText));
-    
-    // Consider image-based if minimal text OR low density without Form 16 content
-    return hasMinimalText || (hasLowTextDensity && !hasForm16Content);
+  // Decrypts a PDF that needs a user password, trying each candidate in turn;
+  // the decrypted copy only ever exists in memory
+  private async unlockPdf(pdfBuffer: Buffer, passwords: string[]): Promise<Buffer> {
+    // The trailer dictionary is never encrypted, so this marker is always visible
+    if (!pdfBuffer.includes('/Encrypt')) return pdfBuffer;
+
+    const tempDir = await mkdtemp(join(tmpdir(), 'pdf-unlock-'));
+    const encryptedPath = join(tempDir, 'encrypted.pdf');
+    try {
+      await writeFile(encryptedPath, pdfBuffer);
+      // Exit code 0 means a user password is needed; owner-only encryption opens as is
+      const check = await runQpdf(['--requires-password', encryptedPath]);
+      if (check.code !== 0) return pdfBuffer;
+
+      console.log('[PDF Extractor] PDF is password-protected, trying', passwords.length, 'candidate passwords');
+      for (const password of passwords) {
+        const result = await runQpdf(['--password-file=-', '--decrypt', encryptedPath, '-'], password);
+        // Exit code 3 is success with warnings
+        if (result.code === 0 || result.code === 3) {
+          console.log('[PDF Extractor] PDF decrypted');
+          return result.stdout;
+        }
+        if (!/invalid password/i.test(result.stderr)) {
+          throw new Error(`PDF file appears to be corrupted: ${result.stderr.trim()}`);
+        }
+      }
+      throw new Error('PDF is password-protected');
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  // Plain text of any PDF, falling back to OCR for scanned pages
+  async extractText(pdfBuffer: Buffer): Promise<string> {
+    const layers = await this.readPageLayers(pdfBuffer);
+    const scannedPages = layers.flatMap((layer, index) => pageContent(layer) === 'scanned' ? [index + 1] : []);
+    if (scannedPages.length === 0) return layers.map(layer => layer.text).join('\n\n').trim();
+
+    console.log('[OCR] Acquiring OCR semaphore...');
+    await ocrSemaphore.acquire();
+    try {
+      const ocr = await this.extractTextWithOCR(pdfBuffer, undefined, { pages: scannedPages });
+      return layers.map((layer, index) => ocr.pageTexts.get(index + 1) ?? layer.text).join('\n\n').trim();
+    } finally {
+      ocrSemaphore.release();
+    }
+  }
+
+  // The text of each page, noting whether the page paints any image so that
+  // scans can be told apart from blank pages
+  private async readPageLayers(pdfBuffer: Buffer): Promise<PageLayer[]> {
+    const layers: PageLayer[] = [];
+    const data = await pdf(pdfBuffer, {
+      pagerender: async (pageData: any) => {
+        const text = await this.renderPage(pageData);
+        // Images only matter on pages too short of text to be read as they are
+        const hasImages = pageContent({ text, hasImages: true }) === 'scanned' && await this.paintsImages(pageData);
+        layers[pageData.pageIndex] = { text, hasImages };
+        return text;
+      }
+    });
+    // A page pdf.js could not render is treated as a scan
+    return Array.from({ length: data.numpages }, (_, index) => layers[index] ?? { text: '', hasImages: true });
+  }
+
+  private async paintsImages(pageData: any): Promise<boolean> {
+    const operatorList = await pageData.getOperatorList();
+    return operatorList.fnArray.some((operator: number) => IMAGE_OPERATORS.has(operator));
+  }
+
+  // pdf-parse's default page renderer
+  private async renderPage(pageData: any): Promise<string> {
+    const textContent = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+    let lastY: number | undefined;
+    let text = '';
+    for (const item of textContent.items) {
+      text += lastY === item.transform[5] || lastY === undefined ? item.str : '\n' + item.str;
+      lastY = item.transform[5];
+    }
+    return text;
   }
 
-  private async extractTextWithOCR(pdfBuffer: Buffer): Promise<string> {
+  private async extractTextWithOCR(pdfBuffer: Buffer, onProgress: ProgressListener = () => {}, request: OcrRequest): Promise<OcrResult> {
     console.log('[OCR] Starting OCR text extraction, buffer size:', pdfBuffer.length, 'bytes');
     
     // Input validation
@@ -153,22 +481,10 @@ export class PDFExtractorService {
     }
     console.log('[OCR] Size validation passed');
 
-    // Acquire semaphore for concurrency control
-    console.log('[OCR] Acquiring OCR semaphore...');
-    console.time('ocr_semaphore_wait');
-    await ocrSemaphore.acquire();
-    console.timeEnd('ocr_semaphore_wait');
-    console.log('[OCR] Semaphore acquired, starting processing');
-    
-    try {
-      return await this.performOCRWithTimeout(pdfBuffer);
-    } finally {
-      console.log('[OCR] Releasing semaphore');
-      ocrSemaphore.release();
-    }
+    return await this.performOCRWithTimeout(pdfBuffer, onProgress, request);
   }
 
-  private async performOCRWithTimeout(pdfBuffer: Buffer): Promise<string> {
+  private async performOCRWithTimeout(pdfBuffer: Buffer, onProgress: ProgressListener, request: OcrRequest): Promise<OcrResult> {
     console.log('[OCR] Setting up timeout wrapper for OCR processing');
     console.time('ocr_setup');
     
@@ -178,7 +494,8 @@ export class PDFExtractorService {
     console.log('[OCR] Created temp directory:', jobTempDir);
     
     const controller = new AbortController();
-    const timeoutMs = 5 * 60 * 1000; // 5 minute timeout
+    // Two minutes plus half a minute for each page that may be read
+    const timeoutMs = (120 + 30 * Math.min(request.pages.length, MAX_OCR_PAGES)) * 1000;
     console.log('[OCR] Set timeout to', timeoutMs/1000, 'seconds');
     
     // Set up timeout that will cancel the operation using native setTimeout
@@ -192,7 +509,7 @@ export class PDFExtractorService {
     console.time('ocr_processing');
     
     try {
-      const result = await this.performOCR(pdfBuffer, jobTempDir, tempPdfPath, controller.signal);
+      const result = await this.performOCR(pdfBuffer, jobTempDir, tempPdfPath, controller.signal, onProgress, request);
       console.timeEnd('ocr_processing');
       clearTimeout(timeoutHandle);
       console.log('[OCR] OCR processing completed successfully');
@@ -218,208 +535,206 @@ export class PDFExtractorService {
     }
   }
 
-  private async performOCR(pdfBuffer: Buffer, jobTempDir: string, tempPdfPath: string, signal: AbortSignal): Promise<string> {
+  private async performOCR(
+    pdfBuffer: Buffer,
+    jobTempDir: string,
+    tempPdfPath: string,
+    signal: AbortSignal,
+    onProgress: ProgressListener,
+    request: OcrRequest
+  ): Promise<OcrResult> {
     console.log('[OCR] Starting detailed OCR processing');
     console.time('write_temp_file');
     
-    try {
-      // Write PDF buffer to temporary file
-      console.log('[OCR] Writing PDF buffer to temp file:', tempPdfPath);
-      await writeFile(tempPdfPath, pdfBuffer);
-      console.timeEnd('write_temp_file');
-      console.log('[OCR] PDF written to temp file successfully');
-      
-      if (signal.aborted) throw new Error('OCR operation was cancelled');
-      
-      // Convert only the first few pages to prevent abuse
-      const maxPages = 10;
-      console.log('[OCR] Configuring pdf2pic for up to', maxPages, 'pages');
-      const pdf2picOptions = {
-        density: 200,           // Balanced for quality/performance
-        saveFilename: "page",
-        savePath: jobTempDir,
-        format: "jpeg",         // JPEG for smaller file sizes
-        quality: 85,            // Good quality with compression
-        width: 1500,            // Reduced size for performance
-        height: 1500
-      };
-      
-      console.log('[OCR] pdf2pic options:', pdf2picOptions);
-      const convert = pdf2pic.fromPath(tempPdfPath, pdf2picOptions);
-      console.log('[OCR] pdf2pic converter created');
-      
-      // Convert only the pages we need (1 to maxPages)
-      console.time('convert_pages');
-      const pages = [];
-      console.log('[OCR] Starting page conversion loop');
-      
-      for (let i = 1; i <= maxPages; i++) {
-        if (signal.aborted) throw new Error('OCR operation was cancelled');
-        
-        console.log(`[OCR] Converting page ${i}...`);
-        console.time(`convert_page_${i}`);
-        try {
-          const page = await convert(i);
-          console.timeEnd(`convert_page_${i}`);
-          pages.push(page);
-          console.log(`[OCR] Page ${i} converted successfully:`, page.path);
-        } catch (pageError) {
-          console.timeEnd(`convert_page_${i}`);
-          // Page doesn't exist or conversion failed, stop here
-          console.log(`[OCR] Page ${i} conversion failed or doesn't exist:`, pageError);
-          break;
-        }
+    // Write PDF buffer to temporary file
+    console.log('[OCR] Writing PDF buffer to temp file:', tempPdfPath);
+    await writeFile(tempPdfPath, pdfBuffer);
+    console.timeEnd('write_temp_file');
+    console.log('[OCR] PDF written to temp file successfully');
+    
+    if (signal.aborted) throw new Error('OCR operation was cancelled');
+    
+    const [baseDensity, ...higherDensities] = OCR_DENSITIES;
+    const convert = pdf2pic.fromPath(tempPdfPath, renderOptions(baseDensity, jobTempDir));
+    
+    console.log('[OCR] Starting Tesseract with languages', OCR_LANGUAGES);
+    const worker = await Tesseract.createWorker(OCR_LANGUAGES, Tesseract.OEM.LSTM_ONLY, { logger: () => {} });
+    
+    // Orientation detection needs Tesseract's legacy engine; created on first
+    // use, and null when it cannot be loaded so pages are read as rendered
+    let orientationWorker: Tesseract.Worker | null | undefined;
+    const detectRotation = async (imagePath: string): Promise<number> => {
+      if (orientationWorker === undefined) {
+        orientationWorker = await Tesseract.createWorker('osd', Tesseract.OEM.TESSERACT_ONLY, { legacyCore: true, legacyLang: true, logger: () => {} })
+          .catch(error => {
+            console.warn('[OCR] Orientation detection unavailable:', error);
+            return null;
+          });
       }
-      
-      console.timeEnd('convert_pages');
-      console.log('[OCR] Page conversion completed, total pages converted:', pages.length);
-      
-      if (pages.length === 0) {
-        throw new Error('No pages could be converted for OCR');
+      if (!orientationWorker) return 0;
+      try {
+        const { data } = await orientationWorker.detect(imagePath);
+        if (!data.orientation_degrees || (data.orientation_confidence ?? 0) < MIN_ORIENTATION_CONFIDENCE) return 0;
+        // Tesseract reports how far the page is turned clockwise; GraphicsMagick rotates clockwise
+        return (360 - data.orientation_degrees) % 360;
+      } catch (error) {
+        console.warn('[OCR] Orientation detection failed:', error);
+        return 0;
+      }
+    };
+    
+    const readPage = async (imagePath: string, pageNumber: number, density: number): Promise<{ text: string; page: OcrPage }> => {
+      const rotation = await detectRotation(imagePath);
+      let cleanPath = join(jobTempDir, `clean-${pageNumber}-${density}.png`);
+      try {
+        await preprocessPage(imagePath, cleanPath, density, rotation);
+      } catch (error) {
+        console.warn(`[OCR] Preprocessing failed for page ${pageNumber}, reading it as rendered:`, error);
+        cleanPath = imagePath;
       }
       
-      if (signal.aborted) throw new Error('OCR operation was cancelled');
+      console.time(`tesseract_page_${pageNumber}_${density}`);
+      await worker.setParameters({ user_defined_dpi: String(density) });
+      // rotateAuto measures the text lines and straightens skewed scans
+      const { data } = await worker.recognize(cleanPath, { rotateAuto: true });
+      console.timeEnd(`tesseract_page_${pageNumber}_${density}`);
       
+      return {
+        text: data.text,
+        page: {
+          page: pageNumber,
+          confidence: Math.round(data.confidence),
+          density,
+          rotation,
+          skew: Math.round((data.rotateRadians ?? 0) * 1800 / Math.PI) / 10
+        }
+      };
+    };
+    
+    try {
       let allText = '';
-      console.log('[OCR] Starting Tesseract OCR processing on', pages.length, 'pages');
+      const ocrPages: OcrPage[] = [];
+      const pageTexts = new Map<number, string>();
+      console.log('[OCR] Starting Tesseract OCR processing on up to', request.pages.length, 'pages');
       console.time('tesseract_ocr_total');
       
-      // Process each page with OCR using the simple Tesseract.recognize API
-      for (let i = 0; i < pages.length; i++) {
+      for (let i = 0; i < request.pages.length; i++) {
         if (signal.aborted) throw new Error('OCR operation was cancelled');
         
-        const page = pages[i];
-        console.log(`[OCR] Processing page ${i + 1} with Tesseract...`);
+        const pageNumber = request.pages[i];
+        if (request.wanted && !request.wanted(pageNumber, pageTexts)) {
+          console.log(`[OCR] Page ${pageNumber} is not needed, skipping`);
+          continue;
+        }
+        if (pageTexts.size >= MAX_OCR_PAGES) {
+          console.warn(`[OCR] Read ${MAX_OCR_PAGES} pages, leaving the rest unread`);
+          break;
+        }
         
-        if (page.path) {
-          console.time(`tesseract_page_${i + 1}`);
-          try {
-            console.log(`[OCR] Running Tesseract.recognize on:`, page.path);
-            const { data: { text } } = await Tesseract.recognize(page.path, 'eng', {
-              logger: () => {}, // Disable verbose logging
-            });
-            console.timeEnd(`tesseract_page_${i + 1}`);
-            
-            const pageTextLength = text.trim().length;
-            console.log(`[OCR] Page ${i + 1} OCR completed, extracted ${pageTextLength} characters`);
-            console.log(`[OCR] Page ${i + 1} contains keywords:`, /form.?16|pan|salary|tax/i.test(text));
-            
-            allText += `Page ${i + 1}:\n${text}\n\n`;
-          } catch (pageError) {
-            console.timeEnd(`tesseract_page_${i + 1}`);
-            console.warn(`[OCR] Tesseract failed for page ${i + 1}:`, pageError);
-            // Continue with other pages
+        try {
+          console.log(`[OCR] Rendering page ${pageNumber} at ${baseDensity} dpi...`);
+          onProgress({ stage: 'converting', page: i + 1, totalPages: request.pages.length });
+          const rendered = await convert(pageNumber);
+          if (!rendered.path) throw new Error(`Page ${pageNumber} could not be rendered`);
+          
+          console.log(`[OCR] Processing page ${pageNumber} with Tesseract...`);
+          onProgress({ stage: 'ocr', page: i + 1, totalPages: request.pages.length });
+          let best = await readPage(rendered.path, pageNumber, baseDensity);
+          
+          // Faint or small print reads better from a finer render
+          for (const density of higherDensities) {
+            if (best.page.confidence >= RERENDER_BELOW_CONFIDENCE || signal.aborted) break;
+            console.log(`[OCR] Page ${pageNumber} confidence ${best.page.confidence}, rendering again at ${density} dpi`);
+            const finer = await pdf2pic.fromPath(tempPdfPath, renderOptions(density, jobTempDir))(pageNumber);
+            if (!finer.path) break;
+            const retry = await readPage(finer.path, pageNumber, density);
+            if (retry.page.confidence > best.page.confidence) best = retry;
           }
-        } else {
-          console.warn(`[OCR] Page ${i + 1} has no path, skipping`);
+          
+          console.log(`[OCR] Page ${pageNumber} OCR completed:`, best.page);
+          console.log(`[OCR] Page ${pageNumber} contains keywords:`, /form.?16|pan|salary|tax/i.test(best.text));
+          ocrPages.push(best.page);
+          pageTexts.set(pageNumber, best.text);
+          allText += `Page ${pageNumber}:\n${best.text}\n\n`;
+        } catch (pageError) {
+          console.warn(`[OCR] Tesseract failed for page ${pageNumber}:`, pageError);
+          // Continue with other pages
         }
       }
       
       console.timeEnd('tesseract_ocr_total');
       console.log('[OCR] All Tesseract processing completed, total text length:', allText.length);
       
-      if (allText.trim().length === 0) {
-        throw new Error('No text could be extracted from PDF using OCR');
-      }
-      
-      return allText;
+      return { text: allText, pages: ocrPages, pageTexts };
     } finally {
-      // No worker to terminate since we're using Tesseract.recognize directly
+      await worker.terminate();
+      if (orientationWorker) await orientationWorker.terminate();
     }
   }
 
-  private parseForm16Text(text: string): Form16Data {
+  private parseForm16Text(text: string, ocrPages: OcrPage[] = []): Form16Data {
     const form16Data: Form16Data = {};
     
-    // Split text into lines for more precise line-wise parsing
-    const lines = text.split(/\r?\n/).map(line => line.trim());
-    
-    // Detect Form 16 sections for better scoping
-    const partBStart = lines.findIndex(line => /^(?:Part\s*)?B\s*[:\-]?/i.test(line) || /^B\s*\(\s*1\s*\)/i.test(line));
-    const chapterVIAStart = lines.findIndex(line => /Chapter\s*VI-A/i.test(line));
-    
-    // Extract PAN - updated for the actual Form 16 format where PAN appears after "PAN of the Employee"
-    let foundEmployeePAN = false;
-    for (let i = 0; i < lines.length && !foundEmployeePAN; i++) {
-      const line = lines[i];
-      
-      // Check if this line contains "PAN of the Employee" header
-      if (/PAN\s+of\s+the\s+Employee/i.test(line)) {
-        // Look for the actual PAN in the next few lines
-        for (let j = i + 1; j < Math.min(i + 5, lines.length); j++) {
-          const nextLine = lines[j].trim();
-          const panMatch = nextLine.match(/([A-Z]{5}\d{4}[A-Z])/);
-          if (panMatch) {
-            form16Data.pan = panMatch[1].toUpperCase();
-            foundEmployeePAN = true;
-            break;
-          }
-        }
-      }
-      
-      // Also check if the line directly contains a PAN pattern
-      if (!foundEmployeePAN) {
-        const directPanMatch = line.match(/([A-Z]{5}\d{4}[A-Z])/);
-        if (directPanMatch && line.match(/Employee/i)) {
-          form16Data.pan = directPanMatch[1].toUpperCase();
-          foundEmployeePAN = true;
-        }
-      }
+    // Split text into lines for more precise line-wise parsing, noting each
+    // line's page: every page starts with a "Page N:" heading, and a form
+    // feed still closes a page in text without headings
+    const rawLines = text.split(/\r?\n/);
+    const linePages: number[] = [];
+    let page = 1;
+    for (const rawLine of rawLines) {
+      const ocrPage = rawLine.match(/^Page\s+(\d+):\s*$/);
+      if (ocrPage) page = parseInt(ocrPage[1], 10);
+      linePages.push(page);
+      page += (rawLine.match(/\f/g) ?? []).length;
     }
+    const lines = rawLines.map(line => line.replace(/\f/g, '').trim());
     
-    // Fallback to finding any PAN in the text
-    if (!form16Data.pan) {
-      for (const line of lines) {
-        const panMatch = line.match(/([A-Z]{5}\d{4}[A-Z])/);
-        if (panMatch) {
-          form16Data.pan = panMatch[1].toUpperCase();
-          break;
-        }
-      }
-    }
+    // Where each value came from, so that the review step can flag weak matches
+    const provenance: { [field: string]: FieldProvenance } = {};
+    // An OCR match is only as good as Tesseract's reading of its page
+    const pageConfidence = new Map(ocrPages.map(ocrPage => [ocrPage.page, ocrPage.confidence / 100]));
+    // Values worked out from others count as OCR only when every page was scanned
+    const allOcr = ocrPages.length > 0 && linePages.every(linePage => pageConfidence.has(linePage));
+    const record: FieldRecorder = (field, strategy, lineIndex) => {
+      const hasLine = lineIndex !== undefined && lineIndex >= 0;
+      const source = hasLine ? (pageConfidence.has(linePages[lineIndex]) ? 'ocr' : 'text') : (allOcr ? 'ocr' : 'text');
+      const ocrFactor = (hasLine && pageConfidence.get(linePages[lineIndex])) || OCR_CONFIDENCE_FACTOR;
+      const confidence = STRATEGY_CONFIDENCE[strategy] * (source === 'ocr' ? ocrFactor : 1);
+      provenance[field] = {
+        confidence: Math.round(confidence * 100) / 100,
+        strategy,
+        source,
+        ...(lineIndex !== undefined && lineIndex >= 0 ? { page: linePages[lineIndex], line: lines[lineIndex] } : {})
+      };
+    };
+    // Line holding a match made against the whole text
+    const lineOf = (match: string) => {
+      const firstLine = match.split(/\r?\n/)[0].trim();
+      return lines.findIndex(line => line.includes(firstLine));
+    };
     
-    // Extract employee name with context - updated patterns for the actual Form 16 format
-    const employeeNamePatterns = [
-      /^(?:Name\s*of\s*)?Employee(?:'s)?\s*Name\s*[:\-]\s*(.+)$/i,
-      /^Employee\s*[:\-]\s*(.+)$/i,
-      /^Name\s*[:\-]\s*(.+)$/i
-    ];
+    // Fields follow the rules of the detected layout, with the generic rules
+    // as a fallback
+    const template = detectForm16Template(text);
+    form16Data.layout = template.layout;
+    console.log(`[PDF Extractor] Using ${template.name} layout`);
     
-    // Look for employee name by identifying the section with employee details
-    let foundEmployeeName = false;
-    for (let i = 0; i < lines.length && !foundEmployeeName; i++) {
-      const line = lines[i];
-      
-      // Check if this line contains "Name and address of the Employee"
-      if (/Name\s+and\s+address\s+of\s+the\s+Employee/i.test(line)) {
-        // Look for the actual name in the next few lines
-        for (let j = i + 1; j < Math.min(i + 10, lines.length); j++) {
-          const nextLine = lines[j].trim();
-          // Skip empty lines and employer info
-          if (nextLine && 
-              !nextLine.match(/address|employer|plot|sipcot|navalur|technologies|limited/i) &&
-              nextLine.length > 5 &&
-              !nextLine.match(/^\d/) &&
-              nextLine.match(/^[A-Z\s]+$/)) {
-            form16Data.employeeName = nextLine.trim();
-            foundEmployeeName = true;
-            break;
-          }
-        }
-      }
-      
-      // Fallback to standard patterns
-      if (!foundEmployeeName) {
-        for (const pattern of employeeNamePatterns) {
-          const match = line.match(pattern);
-          if (match && match[1].length > 2) {
-            form16Data.employeeName = match[1].trim();
-            foundEmployeeName = true;
-            break;
-          }
-        }
+    // Detect Form 16 sections for better scoping
+    const partBStart = lines.findIndex(line => /^(?:Part\s*)?B\s*[:\-]?/i.test(line) || /^B\s*\(\s*1\s*\)/i.test(line));
+    const chapterVIA = chapterVIARules(template);
+    const chapterVIAStart = lines.findIndex(line => chapterVIA.heading.test(line));
+    
+    const parties: Form16Parties = {};
+    for (const field of ['employerName', 'employeeName', 'pan'] as const) {
+      const found = this.applyFieldRules(lines, fieldRules(template, field), parties);
+      if (found) {
+        parties[field] = found.value;
+        record(field, found.strategy, found.index);
       }
     }
+    form16Data.employerName = parties.employerName;
+    form16Data.employeeName = parties.employeeName;
+    form16Data.pan = parties.pan?.toUpperCase();
     
     // Extract employee address - capture multiple lines
     const employeeAddressStart = lines.findIndex(line => 
@@ -448,46 +763,7 @@ export class PDFExtractorService {
       }
       if (addressLines.length > 0) {
         form16Data.employeeAddress = addressLines.join(' ').trim();
-      }
-    }
-    
-    // Extract employer name - updated for the actual Form 16 format
-    let foundEmployerName = false;
-    for (let i = 0; i < lines.length && !foundEmployerName; i++) {
-      const line = lines[i];
-      
-      // Check if this line contains "Name and address of the Employer"
-      if (/Name\s+and\s+address\s+of\s+the\s+Employer/i.test(line)) {
-        // Look for the actual name in the next few lines
-        for (let j = i + 1; j < Math.min(i + 5, lines.length); j++) {
-          const nextLine = lines[j].trim();
-          // Look for company name patterns (usually all caps with "LIMITED", "LTD", etc.)
-          if (nextLine && 
-              nextLine.match(/LIMITED|LTD|PRIVATE|PVT|TECHNOLOGIES|COMPANY/i) &&
-              nextLine.length > 5) {
-            form16Data.employerName = nextLine.trim();
-            foundEmployerName = true;
-            break;
-          }
-        }
-      }
-      
-      // Fallback to standard patterns
-      if (!foundEmployerName) {
-        const employerNamePatterns = [
-          /^(?:Name\s*of\s*)?Employer(?:'s)?\s*Name\s*[:\-]\s*(.+)$/i,
-          /^Employer\s*[:\-]\s*(.+)$/i,
-          /^Company\s*Name\s*[:\-]\s*(.+)$/i
-        ];
-        
-        for (const pattern of employerNamePatterns) {
-          const match = line.match(pattern);
-          if (match && match[1].length > 2) {
-            form16Data.employerName = match[1].trim();
-            foundEmployerName = true;
-            break;
-          }
-        }
+        record('employeeAddress', 'labelled_line', employeeAddressStart);
       }
     }
     
@@ -518,6 +794,7 @@ export class PDFExtractorService {
       }
       if (addressLines.length > 0) {
         form16Data.employerAddress = addressLines.join(' ').trim();
+        record('employerAddress', 'labelled_line', employerAddressStart);
       }
     }
     
@@ -541,119 +818,120 @@ export class PDFExtractorService {
           const parts = year.split('-');
           form16Data.assessmentYear = `${parts[0]}-${parts[1].slice(-2)}`;
         }
+        // A financial year is one year behind the assessment year it stands in for
+        if (form16Data.assessmentYear) {
+          record('assessmentYear', /Financial/i.test(match[0]) ? 'fallback' : 'labelled_line', lineOf(match[0]));
+        }
         break;
       }
     }
     
     // Helper function to search in specific section with line-scoped patterns
-    const searchInSection = (startIndex: number, endIndex: number, patterns: RegExp[]): string | null => {
+    const searchInSection = (startIndex: number, endIndex: number, patterns: RegExp[]): { value: string; index: number } | null => {
+      const offset = startIndex >= 0 ? startIndex : 0;
       const sectionLines = startIndex >= 0 ? lines.slice(startIndex, endIndex > 0 ? endIndex : lines.length) : lines;
-      for (const line of sectionLines) {
+      for (let i = 0; i < sectionLines.length; i++) {
         for (const pattern of patterns) {
-          const match = line.match(pattern);
+          const match = sectionLines[i].match(pattern);
           if (match && match[1]) {
-            return match[1];
+            return { value: match[1], index: offset + i };
           }
         }
       }
       return null;
     };
     
-    // Extract gross salary - simplified and improved pattern based on actual Form 16 structure
+    // Part B rows whose amount is not set off by a colon, e.g.
+    // "632991.00Gross total income (6+8)9."
+    const partBRow = (field: Form16AmountField): number | undefined => {
+      for (const label of amountRowLabels(template, field)) {
+        for (let i = 0; i < lines.length; i++) {
+          if (!label.test(lines[i])) continue;
+          const amount = this.amountAfter(lines, i, label);
+          if (amount !== undefined) {
+            record(field, 'table_row', i);
+            return amount;
+          }
+        }
+      }
+      return undefined;
+    };
+    
+    // Extract gross salary: a labelled line first, then the largest plausible
+    // amount under the "1. Gross Salary" heading
     console.log('[PDF Extractor] Looking for gross salary...');
-    let foundGrossSalary = false;
+    const grossSalaryPatterns = amountPatterns(template, 'grossSalary');
     
-    // Look for the specific amount 755046 that appears in the PDF
-    const directSalaryMatch = text.match(/755046\.?0?0?/);
-    if (directSalaryMatch) {
-      form16Data.grossSalary = this.parseAmount("755046");
-      console.log('[PDF Extractor] Found gross salary via direct pattern match');
+    const grossSalaryResult = searchInSection(partBStart, chapterVIAStart, grossSalaryPatterns);
+    let foundGrossSalary = false;
+    if (grossSalaryResult) {
+      form16Data.grossSalary = this.parseAmount(grossSalaryResult.value);
+      record('grossSalary', 'labelled_line', grossSalaryResult.index);
       foundGrossSalary = true;
-    } else {
-      console.log('[PDF Extractor] Direct gross salary pattern not found, trying other patterns...');
+    }
+    
+    for (let i = 0; i < lines.length && !foundGrossSalary; i++) {
+      const line = lines[i];
       
-      // Try broader patterns for gross salary extraction
-      for (let i = 0; i < lines.length && !foundGrossSalary; i++) {
-        const line = lines[i];
+      // Look for "Gross Salary" section
+      if (/1\.\s*Gross\s*Salary/i.test(line)) {
+        console.log(`[PDF Extractor] Found Gross Salary section at line ${i}: ${line}`);
         
-        // Look for "Gross Salary" section
-        if (/1\.\s*Gross\s*Salary/i.test(line)) {
-          console.log(`[PDF Extractor] Found Gross Salary section at line ${i}: ${line}`);
+        // Search in a wider range after finding gross salary section
+        for (let j = i; j < Math.min(i + 30, lines.length); j++) {
+          const searchLine = lines[j];
           
-          // Search in a wider range after finding gross salary section
-          for (let j = i; j < Math.min(i + 30, lines.length); j++) {
-            const searchLine = lines[j];
-            
-            // Look for lines with large amounts that could be gross salary
-            const amountMatches = searchLine.match(/(\d{6,}\.?\d*)/g);
-            if (amountMatches) {
-              for (const match of amountMatches) {
-                const amount = parseFloat(match.replace(/,/g, ''));
-                if (amount >= 500000 && amount <= 2000000) { // Reasonable salary range
-                  form16Data.grossSalary = this.parseAmount(match);
-                  console.log('[PDF Extractor] Found gross salary from contextual search');
-                  foundGrossSalary = true;
-                  break;
-                }
+          // Look for lines with large amounts that could be gross salary
+          const amountMatches = searchLine.match(/(\d{6,}\.?\d*)/g);
+          if (amountMatches) {
+            for (const match of amountMatches) {
+              const amount = parseFloat(match.replace(/,/g, ''));
+              if (amount >= 500000 && amount <= 2000000) { // Reasonable salary range
+                form16Data.grossSalary = this.parseAmount(match);
+                record('grossSalary', 'fallback', j);
+                console.log('[PDF Extractor] Found gross salary from contextual search');
+                foundGrossSalary = true;
+                break;
               }
             }
-            
-            if (foundGrossSalary) break;
           }
+          
+          if (foundGrossSalary) break;
         }
       }
-      
-      if (!foundGrossSalary) {
-        console.log('[PDF Extractor] No gross salary found with any pattern');
-      }
     }
     
-    // Fallback patterns
     if (!foundGrossSalary) {
-      const grossSalaryPatterns = [
-        /^(?:\d+\.?\s*)?(?:Gross\s*)?Salary\s*(?:as\s*per\s*provisions\s*of\s*section\s*17\s*\(1\))?\s*[:\-]\s*₹?\s*([0-9,]+\.?\d*)/i,
-        /^(?:\d+\.?\s*)?(?:Total\s*)?Annual\s*Salary\s*[:\-]\s*₹?\s*([0-9,]+\.?\d*)/i,
-        /^(?:\d+\.?\s*)?Gross\s*Salary\s*[:\-]\s*₹?\s*([0-9,]+\.?\d*)/i
-      ];
-      
-      const grossSalaryResult = searchInSection(partBStart, chapterVIAStart, grossSalaryPatterns);
-      if (grossSalaryResult) {
-        form16Data.grossSalary = this.parseAmount(grossSalaryResult);
-      }
+      console.log('[PDF Extractor] No gross salary found with any pattern');
     }
     
     // Extract gross total income with Form 16 specific line-scoped patterns (removed conflicting pattern)
-    const grossTotalIncomePatterns = [
-      /^(?:\d+\.?\s*)?Gross\s*Total\s*Income\s*[:\-]\s*₹?\s*([0-9,]+\.?\d*)/i,
-      /^(?:\d+\.?\s*)?Total\s*Income\s*(?:from\s*all\s*sources)?\s*[:\-]\s*₹?\s*([0-9,]+\.?\d*)/i
-    ];
+    const grossTotalIncomePatterns = amountPatterns(template, 'grossTotalIncome');
     
     const grossTotalIncomeResult = searchInSection(partBStart, chapterVIAStart, grossTotalIncomePatterns);
     if (grossTotalIncomeResult) {
-      form16Data.grossTotalIncome = this.parseAmount(grossTotalIncomeResult);
+      form16Data.grossTotalIncome = this.parseAmount(grossTotalIncomeResult.value);
+      record('grossTotalIncome', 'labelled_line', grossTotalIncomeResult.index);
+    } else {
+      form16Data.grossTotalIncome = partBRow('grossTotalIncome');
     }
     
     // Extract total exemption with section-scoped line patterns
-    const totalExemptionPatterns = [
-      /^(?:\d+\.?\s*)?(?:Total\s*)?(?:Amount\s*of\s*)?Exemption(?:s)?\s*(?:claimed\s*)?(?:u\/s\s*10)?\s*[:\-]\s*₹?\s*([0-9,]+\.?\d*)/i,
-      /^(?:\d+\.?\s*)?Exemptions\s*under\s*section\s*10\s*[:\-]\s*₹?\s*([0-9,]+\.?\d*)/i
-    ];
+    const totalExemptionPatterns = amountPatterns(template, 'totalExemption');
     
     const totalExemptionResult = searchInSection(partBStart, chapterVIAStart, totalExemptionPatterns);
     if (totalExemptionResult) {
-      form16Data.totalExemption = this.parseAmount(totalExemptionResult);
+      form16Data.totalExemption = this.parseAmount(totalExemptionResult.value);
+      record('totalExemption', 'labelled_line', totalExemptionResult.index);
     }
     
     // Extract standard deduction with specific section references
-    const standardDeductionPatterns = [
-      /^(?:\d+\.?\s*)?(?:Standard\s*)?Deduction\s*(?:u\/s|under\s*section)\s*16\s*\(ia\)\s*[:\-]\s*₹?\s*([0-9,]+\.?\d*)/i,
-      /^(?:\d+\.?\s*)?Section\s*16\s*\(ia\)\s*(?:Standard\s*Deduction)?\s*[:\-]\s*₹?\s*([0-9,]+\.?\d*)/i,
-      /^(?:\d+\.?\s*)?Standard\s*Deduction\s*[:\-]\s*₹?\s*([0-9,]+\.?\d*)/i
-    ];
+    const standardDeductionPatterns = amountPatterns(template, 'standardDeduction');
     
     const standardDeductionResult = searchInSection(partBStart, chapterVIAStart, standardDeductionPatterns);
     if (standardDeductionResult) {
-      form16Data.standardDeduction = this.parseAmount(standardDeductionResult);
+      form16Data.standardDeduction = this.parseAmount(standardDeductionResult.value);
+      record('standardDeduction', 'labelled_line', standardDeductionResult.index);
     }
     
     // Now implement the missing financial field extractions with proper line-scoping
@@ -689,6 +967,7 @@ export class PDFExtractorService {
                 if (amount > 0) {
                   form16Data.totalDeduction = amount;
                   form16Data.aggregateDeduction = amount;
+                  record('totalDeduction', j === i ? 'labelled_line' : 'nearby_line', chapterVIAStart + j);
                   console.log('[PDF Extractor] Found aggregate deductions in Chapter VI-A');
                   foundTotalDeduction = true;
                   break;
@@ -707,50 +986,60 @@ export class PDFExtractorService {
     }
     
     // Extract income chargeable under the head 'Salaries' with specific Form 16 patterns
-    const incomeChargeablePatterns = [
-      /^(?:\d+\.?\s*)?Income\s*chargeable\s*under\s*the\s*head\s*['""]?Salaries['""]?\s*(?:\(\d+[-\s]*\d*\))?\s*[:\-]\s*₹?\s*([0-9,]+\.?\d*)/i,
-      /^(?:\d+\.?\s*)?(?:Total\s*)?Income\s*chargeable\s*to\s*tax\s*(?:under\s*salary)?\s*[:\-]\s*₹?\s*([0-9,]+\.?\d*)/i
-    ];
+    const incomeChargeablePatterns = amountPatterns(template, 'incomeChargeable');
     
     const incomeChargeableResult = searchInSection(partBStart, chapterVIAStart, incomeChargeablePatterns);
     if (incomeChargeableResult) {
-      form16Data.incomeChargeable = this.parseAmount(incomeChargeableResult);
+      form16Data.incomeChargeable = this.parseAmount(incomeChargeableResult.value);
+      record('incomeChargeable', 'labelled_line', incomeChargeableResult.index);
     }
     
     // Extract net tax income with enhanced patterns
     console.log('[PDF Extractor] Looking for net tax income...');
-    const netTaxIncomePatterns = [
-      /^(?:\d+\.?\s*)?Net\s*(?:Taxable\s*)?Income\s*[:\-]\s*₹?\s*([0-9,]+\.?\d*)/i,
-      /^(?:\d+\.?\s*)?(?:Total\s*)?Taxable\s*Income\s*(?:after\s*deductions)?\s*[:\-]\s*₹?\s*([0-9,]+\.?\d*)/i,
-      /^(?:\d+\.?\s*)?Income\s*(?:chargeable\s*)?(?:to\s*)?tax\s*[:\-]\s*₹?\s*([0-9,]+\.?\d*)/i,
-      /^(?:\d+\.?\s*)?Net\s*income\s*[:\-]\s*₹?\s*([0-9,]+\.?\d*)/i
-    ];
+    const netTaxIncomePatterns = amountPatterns(template, 'taxableIncome');
     
     const netTaxIncomeResult = searchInSection(chapterVIAStart >= 0 ? chapterVIAStart : partBStart, -1, netTaxIncomePatterns);
     if (netTaxIncomeResult) {
-      form16Data.taxableIncome = this.parseAmount(netTaxIncomeResult);
+      form16Data.taxableIncome = this.parseAmount(netTaxIncomeResult.value);
+      record('taxableIncome', 'labelled_line', netTaxIncomeResult.index);
       console.log('[PDF Extractor] Found net tax income');
+    } else {
+      form16Data.taxableIncome = partBRow('taxableIncome');
     }
     
     // Extract net tax payable with line-scoped patterns in tax computation section
     console.log('[PDF Extractor] Looking for net tax payable...');
-    const netTaxPayablePatterns = [
-      /^(?:\d+\.?\s*)?(?:Net\s*)?Tax\s*payable\s*(?:\(after\s*TDS\))?\s*[:\-]\s*₹?\s*([0-9,]+\.?\d*)/i,
-      /^(?:\d+\.?\s*)?Balance\s*tax\s*payable\s*[:\-]\s*₹?\s*([0-9,]+\.?\d*)/i,
-      /^(?:\d+\.?\s*)?Tax\s*on\s*total\s*income\s*[:\-]\s*₹?\s*([0-9,]+\.?\d*)/i,
-      /^(?:\d+\.?\s*)?Total\s*tax\s*liability\s*[:\-]\s*₹?\s*([0-9,]+\.?\d*)/i
-    ];
+    const netTaxPayablePatterns = amountPatterns(template, 'netTaxPayable');
     
     // Search in tax computation section (after Chapter VI-A)
     const netTaxPayableResult = searchInSection(chapterVIAStart >= 0 ? chapterVIAStart : partBStart, -1, netTaxPayablePatterns);
     if (netTaxPayableResult) {
-      form16Data.netTaxPayable = this.parseAmount(netTaxPayableResult);
+      form16Data.netTaxPayable = this.parseAmount(netTaxPayableResult.value);
+      record('netTaxPayable', 'labelled_line', netTaxPayableResult.index);
+    } else {
+      form16Data.netTaxPayable = partBRow('netTaxPayable');
+    }
+    // When the computation's cells were pulled out of order, its amounts still
+    // run down the page, so the last one before the verification is the last
+    // row: net tax payable
+    if (form16Data.netTaxPayable === undefined) {
+      const computationStart = lines.findIndex(line => /^Tax\s*on\s*total\s*income/i.test(line));
+      const verification = lines.findIndex((line, index) => index > computationStart && /^Verification\b/i.test(line));
+      for (let i = verification - 1; computationStart >= 0 && i > computationStart; i--) {
+        const amountOnly = lines[i].match(/^(\d[\d,]*\.\d{2})$/);
+        if (amountOnly) {
+          form16Data.netTaxPayable = this.parseAmount(amountOnly[1]);
+          record('netTaxPayable', 'fallback', i);
+          break;
+        }
+      }
     }
     
     // Extract basic salary
     const basicSalaryMatch = text.match(/Basic\s*Salary\s*:?\s*₹?\s*([0-9,]+\.?\d*)/i);
     if (basicSalaryMatch) {
       form16Data.basicSalary = this.parseAmount(basicSalaryMatch[1]);
+      record('basicSalary', 'labelled_line', lineOf(basicSalaryMatch[0]));
     }
     
     // Extract HRA - updated for actual Form 16 format 
@@ -769,6 +1058,7 @@ export class PDFExtractorService {
             // Only accept amounts that make sense for HRA (usually > 1000)
             if (amount > 1000) {
               form16Data.hra = this.parseAmount(amountMatch[1]);
+              record('hra', j === i ? 'labelled_line' : 'nearby_line', j);
               foundHRA = true;
               break;
             }
@@ -786,6 +1076,7 @@ export class PDFExtractorService {
             const amount = parseFloat(amountMatch[1].replace(/,/g, ''));
             if (amount > 1000) {
               form16Data.hra = this.parseAmount(amountMatch[1]);
+              record('hra', j === i ? 'labelled_line' : 'nearby_line', j);
               foundHRA = true;
               break;
             }
@@ -801,6 +1092,7 @@ export class PDFExtractorService {
         const amount = parseFloat(hraMatch[1].replace(/,/g, ''));
         if (amount > 1000) {
           form16Data.hra = this.parseAmount(hraMatch[1]);
+          record('hra', 'fallback', lineOf(hraMatch[0]));
         }
       }
     }
@@ -836,6 +1128,7 @@ export class PDFExtractorService {
               const amount = this.parseAmount(match[1]);
               if (amount > 0) { // Only accept non-zero amounts
                 form16Data.tdsDeducted = amount;
+                record('tdsDeducted', j === i ? 'labelled_line' : 'nearby_line', j);
                 console.log('[PDF Extractor] Found TDS in Part A');
                 foundTDS = true;
                 break;
@@ -851,52 +1144,407 @@ export class PDFExtractorService {
     if (!foundTDS) {
       console.log('[PDF Extractor] No TDS found in Part A');
     }
-    
-    // Extract deductions by sections
-    form16Data.deductions = this.extractDeductions(lines, chapterVIAStart);
+
+    // Extract the Part A certificate: deductor, quarterly summary and challans
+    const partA = this.extractPartA(lines, partARules(template), record);
+    if (partA) {
+      form16Data.partA = partA;
+      form16Data.employerTan = partA.employerTan;
+      // The quarterly total is what the employer reported against the PAN, so
+      // it takes precedence over a loosely matched TDS line
+      if (partA.totalTaxDeducted > 0) {
+        form16Data.tdsDeducted = partA.totalTaxDeducted;
+        record('tdsDeducted', 'derived');
+      }
+      // The deductor and employee PANs often share a row; keep the employee's
+      if (partA.deductorPan && form16Data.pan === partA.deductorPan) {
+        const employeePan = lines
+          .flatMap(line => line.match(/\b[A-Z]{5}\d{4}[A-Z]\b/g) ?? [])
+          .find(candidate => candidate !== partA.deductorPan);
+        if (employeePan) {
+          form16Data.pan = employeePan;
+          record('pan', 'table_row', lines.findIndex(line => line.includes(employeePan)));
+        }
+      }
+    }
+
+    // Without Part A, the tax the employer worked out in Part B is the tax it
+    // deducted over the year; kept as a guess for the user to confirm
+    if (!form16Data.tdsDeducted && form16Data.netTaxPayable) {
+      form16Data.tdsDeducted = form16Data.netTaxPayable;
+      record('tdsDeducted', 'fallback');
+    }
+
+    // Extract the Part B salary breakup; its items are exact where the
+    // gross salary search above is a best guess
+    const salaryBreakup = this.extractSalaryBreakup(lines, template, record);
+    if (salaryBreakup) {
+      form16Data.salaryBreakup = salaryBreakup;
+      const grossSalary = salaryBreakup.salary + salaryBreakup.perquisites + salaryBreakup.profitsInLieuOfSalary;
+      if (salaryBreakup.salary > 0) {
+        form16Data.grossSalary = grossSalary;
+        record('grossSalary', 'derived');
+      }
+      if (salaryBreakup.totalExemption > 0) {
+        form16Data.totalExemption = salaryBreakup.totalExemption;
+        // Summed from the exemption rows when the total row was not found
+        if (provenance['salaryBreakup.totalExemption']) {
+          provenance.totalExemption = provenance['salaryBreakup.totalExemption'];
+        } else {
+          record('totalExemption', 'derived');
+        }
+      }
+      if (salaryBreakup.standardDeduction > 0 && !form16Data.standardDeduction) {
+        form16Data.standardDeduction = salaryBreakup.standardDeduction;
+        provenance.standardDeduction = provenance['salaryBreakup.standardDeduction'];
+      }
+      const hra = salaryBreakup.exemptions.find(exemption => exemption.section === '10(13A)');
+      if (hra && !form16Data.hra) {
+        form16Data.hra = hra.amount;
+        provenance.hra = provenance['salaryBreakup.exemptions.10(13A)'];
+      }
+    }
+
+    // Extract the Chapter VI-A table; the deduction map holds what the
+    // employer allowed, keyed by the codes investments use
+    form16Data.chapterVIA = this.extractDeductions(lines, chapterVIAStart, chapterVIA, record);
+    form16Data.deductions = Object.fromEntries(form16Data.chapterVIA
+      .filter(deduction => deduction.deductibleAmount > 0)
+      .map(deduction => [deduction.section, deduction.deductibleAmount]));
+    if (!form16Data.totalDeduction && form16Data.chapterVIA.length > 0) {
+      const aggregate = form16Data.chapterVIA.reduce((sum, deduction) => sum + deduction.deductibleAmount, 0);
+      form16Data.totalDeduction = aggregate;
+      form16Data.aggregateDeduction = aggregate;
+      record('totalDeduction', 'derived');
+    }
     
     // Extract taxable income
     const taxableIncomeMatch = text.match(/Taxable\s*Income\s*:?\s*₹?\s*([0-9,]+\.?\d*)/i);
     if (taxableIncomeMatch) {
       form16Data.taxableIncome = this.parseAmount(taxableIncomeMatch[1]);
+      record('taxableIncome', 'labelled_line', lineOf(taxableIncomeMatch[0]));
     }
-    
+
+    if (ocrPages.length > 0) form16Data.ocrPages = ocrPages;
+    form16Data.provenance = provenance;
     return form16Data;
   }
   
-  private extractDeductions(lines: string[], chapterVIAStart: number): { [section: string]: number } {
-    const deductions: { [section: string]: number } = {};
-    
-    // Only search within Chapter VI-A section (skip HRA/LTA as they are exemptions under section 10)
-    const chapterVIALines = chapterVIAStart >= 0 ? lines.slice(chapterVIAStart) : [];
-    
-    // Chapter VI-A deduction sections only
-    const deductionPatterns = [
-      { section: '80C', pattern: /^(?:\d+\.?\s*)?(?:Section\s*)?80C\s*(?:deduction)?\s*[:\-]?\s*₹?\s*([0-9,]+\.?\d*)/i },
-      { section: '80D', pattern: /^(?:\d+\.?\s*)?(?:Section\s*)?80D\s*(?:deduction)?\s*[:\-]?\s*₹?\s*([0-9,]+\.?\d*)/i },
-      { section: '80G', pattern: /^(?:\d+\.?\s*)?(?:Section\s*)?80G\s*(?:deduction)?\s*[:\-]?\s*₹?\s*([0-9,]+\.?\d*)/i },
-      { section: '80E', pattern: /^(?:\d+\.?\s*)?(?:Section\s*)?80E\s*(?:deduction)?\s*[:\-]?\s*₹?\s*([0-9,]+\.?\d*)/i },
-      { section: '80CCD', pattern: /^(?:\d+\.?\s*)?(?:Section\s*)?80CCD\s*(?:deduction)?\s*[:\-]?\s*₹?\s*([0-9,]+\.?\d*)/i },
-      { section: '80TTA', pattern: /^(?:\d+\.?\s*)?(?:Section\s*)?80TTA\s*(?:deduction)?\s*[:\-]?\s*₹?\s*([0-9,]+\.?\d*)/i }
-    ];
-    
-    // Search within Chapter VI-A lines only
-    for (const { section, pattern } of deductionPatterns) {
-      for (const line of chapterVIALines) {
-        const match = line.match(pattern);
-        if (match) {
-          const amount = this.parseAmount(match[1]);
-          if (amount > 0) {
-            deductions[section] = amount;
-            break; // Found this section, move to next
+  private extractPartA(lines: string[], rules: Form16PartARules, record?: FieldRecorder): Form16PartA | undefined {
+    console.log('[PDF Extractor] Looking for Part A deductor details and quarterly summary...');
+
+    // Part A runs until the Part B annexure; search everything if it has no heading
+    const partBHeading = lines.findIndex(line => rules.partBHeading.test(line));
+    const partALines = partBHeading > 0 ? lines.slice(0, partBHeading) : lines;
+
+    const tanPattern = /\b([A-Z]{4}\d{5}[A-Z])\b/;
+    const panPattern = /\b([A-Z]{5}\d{4}[A-Z]|PANNOTREQD)\b/;
+    const findAfter = (field: string, header: RegExp, pattern: RegExp): string | undefined => {
+      for (let i = 0; i < partALines.length; i++) {
+        if (!header.test(partALines[i])) continue;
+        // Values sit below the header row, in the same column order
+        for (let j = i; j < Math.min(i + 5, partALines.length); j++) {
+          const match = partALines[j].replace(header, '').match(pattern);
+          if (match) {
+            record?.(field, j === i ? 'labelled_line' : 'table_row', j);
+            return match[1].toUpperCase();
           }
         }
       }
+      return undefined;
+    };
+
+    let employerTan = findAfter('employerTan', rules.tanHeading, tanPattern);
+    if (!employerTan) {
+      const index = partALines.findIndex(l => tanPattern.test(l));
+      employerTan = partALines[index]?.match(tanPattern)?.[1];
+      if (employerTan) record?.('employerTan', 'fallback', index);
+    }
+    const deductorPan = findAfter('partA.deductorPan', rules.deductorPanHeading, panPattern);
+
+    // CIT (TDS) address: the lines after the heading, up to the period block
+    let citTdsAddress: string | undefined;
+    const citIndex = partALines.findIndex(line => rules.citHeading.test(line));
+    if (citIndex >= 0) {
+      const addressLines: string[] = [];
+      const rest = partALines[citIndex].replace(new RegExp(String.raw`^.*${rules.citHeading.source}\s*[:\-]?`, 'i'), '').trim();
+      if (rest) addressLines.push(rest);
+      for (let i = citIndex + 1; i < Math.min(citIndex + 6, partALines.length) && addressLines.length < 4; i++) {
+        const line = partALines[i];
+        if (rules.citEnd.test(line)) break;
+        if (line) addressLines.push(line);
+      }
+      citTdsAddress = addressLines.length > 0 ? addressLines.join(', ') : undefined;
     }
-    
+
+    // Quarterly summary: Quarter | Receipt number | Amount paid | Tax deducted | Tax deposited.
+    // Cells of a row can be split across lines, so read tokens until three amounts are found.
+    const quarters: Form16Quarter[] = [];
+    const amountToken = /^(?:\d{1,3}(?:,\d{2,3})+|\d+)(?:\.\d{1,2})?$/;
+    for (let i = 0; i < partALines.length; i++) {
+      const rowMatch = partALines[i].match(rules.quarterRow);
+      if (!rowMatch) continue;
+      const quarter = `Q${rowMatch[1]}` as Form16Quarter['quarter'];
+      if (quarters.some(q => q.quarter === quarter)) continue;
+
+      let receiptNumber: string | undefined;
+      const amounts: number[] = [];
+      let tokens = rowMatch[2].trim().split(/\s+/).filter(Boolean);
+      for (let j = i + 1; amounts.length < 3; j++) {
+        for (const token of tokens) {
+          if (!receiptNumber && rules.receiptNumber.test(token)) {
+            receiptNumber = token;
+          } else if (amountToken.test(token) && amounts.length < 3) {
+            amounts.push(this.parseAmount(token));
+          }
+        }
+        if (amounts.length >= 3 || j >= Math.min(i + 5, partALines.length) || rules.quarterRow.test(partALines[j]) || /^Total/i.test(partALines[j])) break;
+        tokens = partALines[j].split(/\s+/).filter(Boolean);
+      }
+      if (amounts.length === 3) {
+        quarters.push({ quarter, receiptNumber, amountPaid: amounts[0], taxDeducted: amounts[1], taxDeposited: amounts[2] });
+        record?.(`partA.quarters.${quarter}`, 'table_row', i);
+      }
+    }
+    quarters.sort((a, b) => a.quarter.localeCompare(b.quarter));
+
+    // Challans: Sl. No | Tax deposited | BSR code | Date of deposit | Challan serial | OLTAS status
+    const challans: Form16Challan[] = [];
+    const challanStart = partALines.findIndex(line => rules.challanHeading.test(line));
+    if (challanStart >= 0) {
+      for (const line of partALines.slice(challanStart + 1)) {
+        const match = line.match(rules.challanRow);
+        if (!match) continue;
+        challans.push({
+          taxDeposited: this.parseAmount(match[1]),
+          bsrCode: match[2],
+          depositDate: match[3].replace(/[-.]/g, '/'),
+          challanSerial: match[4],
+          status: match[5]
+        });
+      }
+    }
+
+    if (!employerTan && quarters.length === 0 && challans.length === 0) {
+      console.log('[PDF Extractor] No Part A details found');
+      return undefined;
+    }
+    console.log(`[PDF Extractor] Found Part A with ${quarters.length} quarters and ${challans.length} challans`);
+
+    const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+    return {
+      employerTan,
+      deductorPan,
+      citTdsAddress,
+      quarters,
+      challans,
+      totalAmountPaid: sum(quarters.map(q => q.amountPaid)),
+      totalTaxDeducted: sum(quarters.map(q => q.taxDeducted)),
+      totalTaxDeposited: sum(quarters.map(q => q.taxDeposited))
+    };
+  }
+
+  private extractSalaryBreakup(lines: string[], template: Form16Template, record?: FieldRecorder): Form16SalaryBreakup | undefined {
+    console.log('[PDF Extractor] Looking for Part B salary breakup and section 10 exemptions...');
+
+    // The salary rows open Part B, but the extracted text can put the "PART B"
+    // heading after them, so start from whichever of the two comes first
+    const partBHeading = partARules(template).partBHeading;
+    const partBStart = lines.findIndex(line => partBHeading.test(line) || /^(?:1\.\s*)?Gross\s*Salary\b/i.test(line));
+    const offset = Math.max(partBStart, 0);
+    const partBLines = lines.slice(offset);
+
+    // Rows of the prescribed form are numbered, e.g. HRA is 2(e); when a cell
+    // is split from its label, the item marker is what it stays next to
+    const bounds = itemGroups(template);
+    const groups = {
+      salary: this.itemGroup(partBLines, bounds.salary.heading, bounds.salary.next),
+      exemptions: this.itemGroup(partBLines, bounds.exemptions.heading, bounds.exemptions.next),
+      deductions: this.itemGroup(partBLines, bounds.deductions.heading, bounds.deductions.next)
+    };
+
+    const find = (field: string, rules: Form16RowRule[]): number | undefined => {
+      for (const rule of rules) {
+        for (let i = 0; i < partBLines.length; i++) {
+          if (rule.label.test(partBLines[i])) {
+            const marked = rule.item ? { letter: rule.item[1], lines: groups[rule.item[0]] } : undefined;
+            const amount = this.amountAfter(partBLines, i, rule.label, marked);
+            if (amount !== undefined) {
+              record?.(`salaryBreakup.${field}`, 'table_row', offset + i);
+              return amount;
+            }
+          }
+        }
+      }
+      return undefined;
+    };
+    const findRow = (field: Form16SalaryField) => find(field, salaryRowRules(template, field));
+
+    const salary = findRow('salary');
+    const perquisites = findRow('perquisites');
+    const profitsInLieuOfSalary = findRow('profitsInLieuOfSalary');
+
+    const exemptions: Form16Exemption[] = [];
+    for (const row of exemptionRows(template)) {
+      const amount = find(`exemptions.${row.section}`, row.rules);
+      if (amount && amount > 0) exemptions.push({ section: row.section, label: row.label, amount });
+    }
+    const totalExemption = findRow('totalExemption');
+
+    const standardDeduction = findRow('standardDeduction');
+    const entertainmentAllowance = findRow('entertainmentAllowance');
+    const professionalTax = findRow('professionalTax');
+
+    if (salary === undefined && exemptions.length === 0) {
+      console.log('[PDF Extractor] No Part B salary breakup found');
+      return undefined;
+    }
+    console.log(`[PDF Extractor] Found salary breakup with ${exemptions.length} section 10 exemptions`);
+
+    return {
+      salary: salary ?? 0,
+      perquisites: perquisites ?? 0,
+      profitsInLieuOfSalary: profitsInLieuOfSalary ?? 0,
+      exemptions,
+      totalExemption: totalExemption ?? exemptions.reduce((sum, exemption) => sum + exemption.amount, 0),
+      standardDeduction: standardDeduction ?? 0,
+      entertainmentAllowance: entertainmentAllowance ?? 0,
+      professionalTax: professionalTax ?? 0
+    };
+  }
+
+  // Lines of one numbered block of Part B, from its heading to the next block's
+  private itemGroup(lines: string[], heading: RegExp, next: RegExp): string[] {
+    const start = lines.findIndex(line => heading.test(line));
+    if (start < 0) return [];
+    const end = lines.findIndex((line, index) => index > start && next.test(line));
+    return lines.slice(start, end > start ? end : start + 40);
+  }
+
+  // Amount for a labelled Part B row: on the label line, against the row's
+  // item marker, or on the lines below when the table cells were split
+  // (labels may wrap onto them)
+  private amountAfter(
+    lines: string[],
+    index: number,
+    label: RegExp,
+    item?: { letter: string; lines: string[] }
+  ): number | undefined {
+    const amount = String.raw`(\d[\d,]*\.\d{1,2}|\d{1,3}(?:,\d{2,3})+|\d{3,})`;
+    // Cells are often glued to the text around them, e.g. "17(1)(a)755046.00",
+    // "16(iii)2342.00(c)" or "0.00Travel concession"
+    const rest = lines[index]
+      .replace(label, ' ')
+      .replace(/\[[^\]]*\]/g, ' ')
+      .replace(/\(\s*[a-z]{1,3}\s*\)\s*$/i, '');
+    const sameLine = rest.match(new RegExp(String.raw`(?:^|\s|₹|\))${amount}\s*$`))
+      ?? lines[index].match(/^(?:Rs\.?|₹)?\s*(\d[\d,]*\.\d{2})(?=\s*[A-Za-z])/);
+    if (sameLine) return this.parseAmount(sameLine[1]);
+
+    if (item) {
+      const marker = String.raw`\(\s*${item.letter}\s*\)`;
+      const markedCell = new RegExp(String.raw`^(?:${marker}\s*${amount}|${amount}\s*${marker})$`, 'i');
+      for (let j = 0; j < item.lines.length; j++) {
+        const match = item.lines[j].match(markedCell);
+        if (match) return this.parseAmount(match[1] ?? match[2]);
+        // A marker on its own line, with the amount on the next
+        if (new RegExp(String.raw`^${marker}$`, 'i').test(item.lines[j])) {
+          const below = item.lines[j + 1]?.match(new RegExp(String.raw`^${amount}$`));
+          if (below) return this.parseAmount(below[1]);
+        }
+      }
+    }
+
+    for (let j = index + 1; j < Math.min(index + 4, lines.length); j++) {
+      const line = lines[j];
+      // The next labelled row starts with its item marker, e.g. "(b)" or "3."
+      if (/^(?:\(\s*[a-z]{1,3}\s*\)|\d+\.)\s*[A-Za-z]/i.test(line)) break;
+      const amountOnly = line.match(/^(?:Rs\.?|₹)?\s*(\d[\d,]*(?:\.\d{1,2})?)$/);
+      if (amountOnly) return this.parseAmount(amountOnly[1]);
+    }
+    return undefined;
+  }
+
+  private extractDeductions(lines: string[], chapterVIAStart: number, rules: Form16ChapterVIARules, record?: FieldRecorder): Form16Deduction[] {
+    const deductions: Form16Deduction[] = [];
+    if (chapterVIAStart < 0) return deductions;
+
+    // The table runs from the Chapter VI-A heading to the aggregate row
+    const aggregateIndex = lines.findIndex((line, index) => index > chapterVIAStart && rules.end.test(line));
+    const tableLines = lines.slice(chapterVIAStart, aggregateIndex > chapterVIAStart ? aggregateIndex : chapterVIAStart + 80);
+
+    // Amounts are never in brackets, so "(1)" in "80CCD (1)" is not read as one
+    const amountPattern = /(?<![\w(.,])(\d{1,3}(?:,\d{2,3})+(?:\.\d{1,2})?|\d+\.\d{1,2}|\d{3,})(?![\w)])/g;
+    const amountsIn = (text: string) => Array.from(text.matchAll(amountPattern), match => this.parseAmount(match[1]));
+
+    for (let i = 0; i < tableLines.length; i++) {
+      const line = tableLines[i];
+      const mentions = Array.from(line.matchAll(CHAPTER_VIA_SECTION_PATTERN));
+      const sections = Array.from(new Set(mentions.map(match => this.chapterVIASection(match[0]))));
+      // Rows naming several sections are subtotals, e.g. "Total deduction under section 80C, 80CCC and 80CCD(1)"
+      if (sections.length !== 1) continue;
+      const section = CHAPTER_VIA_SECTIONS[sections[0]];
+      if (deductions.some(d => d.label === section.label)) continue;
+
+      const lastMention = mentions[mentions.length - 1];
+      const onLabel = amountsIn(line.slice(lastMention.index! + lastMention[0].length));
+      let amounts = onLabel;
+      // Gross and deductible cells can sit on separate lines below the label,
+      // so collect them up to the next row or the column headings
+      for (let j = i + 1; onLabel.length === 0 && j < Math.min(i + 8, tableLines.length); j++) {
+        const next = tableLines[j];
+        if (/^\(\s*[a-z]{1,3}\s*\)\s*[A-Za-z]/i.test(next) || next.match(CHAPTER_VIA_SECTION_PATTERN) || rules.columnHeadings.test(next)) break;
+        amounts = amounts.concat(amountsIn(next));
+      }
+      if (amounts.length === 0) continue;
+
+      // Gross | Deductible, with a qualifying column in between for 80G. The
+      // deductible amount never exceeds the gross one, so a smaller first
+      // cell is the gross column of another row
+      const deductibleAmount = amounts[amounts.length - 1];
+      const grossAmount = Math.max(amounts[0], deductibleAmount);
+      if (grossAmount <= 0 && deductibleAmount <= 0) continue;
+      deductions.push({ section: section.code, label: section.label, grossAmount, deductibleAmount });
+      record?.(`deductions.${section.code}`, 'table_row', chapterVIAStart + i);
+    }
+
+    console.log(`[PDF Extractor] Found ${deductions.length} Chapter VI-A sections`);
     return deductions;
   }
-  
+
+  // First value any rule finds, with the strategy to record it under
+  private applyFieldRules(
+    lines: string[],
+    rules: Form16FieldRule[],
+    found: Form16Parties
+  ): { value: string; index: number; strategy: ExtractionStrategy } | undefined {
+    for (const rule of rules) {
+      if (rule.type === 'below_heading') {
+        for (let i = 0; i < lines.length; i++) {
+          if (!rule.heading.test(lines[i])) continue;
+          for (let j = i + 1; j < Math.min(i + rule.within, lines.length); j++) {
+            const value = lines[j] ? rule.pick(lines[j], found) : undefined;
+            if (value) return { value: value.trim(), index: j, strategy: 'nearby_line' };
+          }
+        }
+        continue;
+      }
+      for (let i = 0; i < lines.length; i++) {
+        if (rule.type === 'labelled' && rule.when && !rule.when.test(lines[i])) continue;
+        const match = lines[i].match(rule.pattern);
+        if (match && match[1]) {
+          return { value: match[1].trim(), index: i, strategy: rule.type === 'labelled' ? 'labelled_line' : 'fallback' };
+        }
+      }
+    }
+    return undefined;
+  }
+
+  private chapterVIASection(mention: string): string {
+    const code = mention.toUpperCase().replace(/[\s()]/g, '');
+    return code === '80CCD' ? '80CCD1' : code;
+  }
+
   private parseAmount(amountString: string): number {
     // Remove commas and convert to number
     const cleanAmount = amountString.replace(/,/g, '');
@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PresumptiveTaxService } from './presumptiveTax';
+import { SUPPORTED_ASSESSMENT_YEARS } from './taxRules';
+
+const presumptiveTax = new PresumptiveTaxService();
+
+test('44AD income is 6% of digital and 8% of cash receipts', () => {
+  const result = presumptiveTax.compute({ description: 'Shop', scheme: '44AD', digitalReceipts: 9000000, cashReceipts: 1000000 });
+  assert.equal(result.presumptiveIncome, 620000);
+  // Cash above 5% of receipts keeps the ₹2 crore limit
+  assert.equal(result.receiptsLimit, 20000000);
+  assert.equal(result.eligible, true);
+});
+
+test('44ADA income is half of gross receipts', () => {
+  const result = presumptiveTax.compute({ description: 'Practice', scheme: '44ADA', digitalReceipts: 4000000 });
+  assert.equal(result.presumptiveIncome, 2000000);
+});
+
+// Limits for mostly digital receipts, raised by Finance Act 2023
+const ENHANCED_LIMITS: Record<string, { section44AD: number; section44ADA: number }> = {
+  '2023-24': { section44AD: 20000000, section44ADA: 5000000 },
+  '2024-25': { section44AD: 30000000, section44ADA: 7500000 },
+  '2025-26': { section44AD: 30000000, section44ADA: 7500000 },
+  '2026-27': { section44AD: 30000000, section44ADA: 7500000 }
+};
+
+for (const assessmentYear of SUPPORTED_ASSESSMENT_YEARS) {
+  test(`receipts limits for mostly digital receipts for AY ${assessmentYear}`, () => {
+    const limits = ENHANCED_LIMITS[assessmentYear];
+
+    const business = presumptiveTax.compute({ description: 'Shop', scheme: '44AD', digitalReceipts: 25000000 }, assessmentYear);
+    assert.equal(business.receiptsLimit, limits.section44AD);
+    assert.equal(business.eligible, 25000000 <= limits.section44AD);
+    assert.equal(business.warnings.length, business.eligible ? 0 : 1);
+
+    const profession = presumptiveTax.compute({ description: 'Practice', scheme: '44ADA', digitalReceipts: 6000000 }, assessmentYear);
+    assert.equal(profession.receiptsLimit, limits.section44ADA);
+    assert.equal(profession.eligible, 6000000 <= limits.section44ADA);
+  });
+}
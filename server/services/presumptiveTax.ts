@@ -0,0 +1,82 @@
+import { getTaxRules, DEFAULT_ASSESSMENT_YEAR } from "./taxRules";
+
+export type PresumptiveScheme = '44AD' | '44ADA';
+
+export interface PresumptiveBusinessInput {
+  id?: string;
+  description: string;
+  scheme: PresumptiveScheme | string;
+  digitalReceipts?: number | string | null; // Received through banking channels
+  cashReceipts?: number | string | null;
+}
+
+export interface PresumptiveIncomeResult {
+  id?: string;
+  description: string;
+  scheme: PresumptiveScheme;
+  grossReceipts: number;
+  digitalReceipts: number;
+  cashReceipts: number;
+  receiptsLimit: number; // Limit that applies given the cash share
+  eligible: boolean;
+  presumptiveIncome: number;
+  warnings: string[];
+}
+
+export class PresumptiveTaxService {
+  compute(
+    input: PresumptiveBusinessInput,
+    assessmentYear: string = DEFAULT_ASSESSMENT_YEAR
+  ): PresumptiveIncomeResult {
+    const rules = getTaxRules(assessmentYear).presumptive;
+    const scheme: PresumptiveScheme = input.scheme === '44ADA' ? '44ADA' : '44AD';
+    const digitalReceipts = this.toAmount(input.digitalReceipts);
+    const cashReceipts = this.toAmount(input.cashReceipts);
+    const grossReceipts = digitalReceipts + cashReceipts;
+    const warnings: string[] = [];
+
+    // The higher limits apply only when cash is a small share of receipts
+    const mostlyDigital = grossReceipts > 0 && (cashReceipts / grossReceipts) * 100 <= rules.cashReceiptsLimitPercent;
+
+    let receiptsLimit: number;
+    let presumptiveIncome: number;
+    if (scheme === '44ADA') {
+      receiptsLimit = mostlyDigital ? rules.section44ADA.enhancedReceiptsLimit : rules.section44ADA.receiptsLimit;
+      presumptiveIncome = (grossReceipts * rules.section44ADA.rate) / 100;
+    } else {
+      receiptsLimit = mostlyDigital ? rules.section44AD.enhancedTurnoverLimit : rules.section44AD.turnoverLimit;
+      presumptiveIncome = (digitalReceipts * rules.section44AD.digitalRate + cashReceipts * rules.section44AD.cashRate) / 100;
+    }
+
+    const eligible = grossReceipts <= receiptsLimit;
+    if (!eligible) {
+      warnings.push(
+        `${input.description}: receipts of ₹${grossReceipts.toLocaleString('en-IN')} exceed the section ${scheme} limit of ₹${receiptsLimit.toLocaleString('en-IN')}. ` +
+        `Presumptive taxation is not available; profit must be computed from books of account and a tax audit may apply. ` +
+        `The presumptive rate is used here only as an estimate.`
+      );
+    } else if (!mostlyDigital && grossReceipts > (scheme === '44ADA' ? rules.section44ADA.receiptsLimit : rules.section44AD.turnoverLimit) * 0.9) {
+      warnings.push(
+        `${input.description}: receipts are close to the section ${scheme} limit. Keeping cash receipts within ${rules.cashReceiptsLimitPercent}% raises the limit.`
+      );
+    }
+
+    return {
+      id: input.id,
+      description: input.description,
+      scheme,
+      grossReceipts,
+      digitalReceipts,
+      cashReceipts,
+      receiptsLimit,
+      eligible,
+      presumptiveIncome: Math.round(presumptiveIncome),
+      warnings
+    };
+  }
+
+  private toAmount(value: number | string | null | undefined): number {
+    const amount = typeof value === 'string' ? parseFloat(value) : value;
+    return amount && !isNaN(amount) ? amount : 0;
+  }
+}
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ResidentialStatusService } from './residentialStatus';
+
+const residentialStatus = new ResidentialStatusService();
+
+test('182 days in the year makes a resident', () => {
+  const result = residentialStatus.determine({ daysInIndia: 182, nonResidentYearsOfPrecedingTen: 0, daysInIndiaPrecedingSevenYears: 2000 });
+  assert.equal(result.status, 'resident');
+});
+
+test('60 days with 365 in the four preceding years makes a resident', () => {
+  assert.equal(residentialStatus.determine({
+    daysInIndia: 90, daysInIndiaPrecedingFourYears: 400, nonResidentYearsOfPrecedingTen: 0, daysInIndiaPrecedingSevenYears: 2000
+  }).status, 'resident');
+  assert.equal(residentialStatus.determine({ daysInIndia: 90, daysInIndiaPrecedingFourYears: 300 }).status, 'nri');
+  assert.equal(residentialStatus.determine({ daysInIndia: 59, daysInIndiaPrecedingFourYears: 1000 }).status, 'nri');
+});
+
+test('citizens leaving for employment need 182 days', () => {
+  const result = residentialStatus.determine({ daysInIndia: 150, daysInIndiaPrecedingFourYears: 1000, leftIndiaForEmployment: true });
+  assert.equal(result.status, 'nri');
+});
+
+test('visitors with Indian income above ₹15 lakh are resident but not ordinarily resident at 120 days', () => {
+  const visit = { daysInIndia: 130, daysInIndiaPrecedingFourYears: 400, visitingIndia: true, nonResidentYearsOfPrecedingTen: 0, daysInIndiaPrecedingSevenYears: 2000 };
+  assert.equal(residentialStatus.determine({ ...visit, indianIncome: 1600000 }).status, 'rnor');
+  assert.equal(residentialStatus.determine({ ...visit, indianIncome: 1000000 }).status, 'nri');
+});
+
+test('citizens not liable to tax elsewhere are deemed resident', () => {
+  const answers = { daysInIndia: 30, indianIncome: 1600000 };
+  assert.equal(residentialStatus.determine({ ...answers, liableToTaxElsewhere: false }).status, 'rnor');
+  assert.equal(residentialStatus.determine({ ...answers, liableToTaxElsewhere: true }).status, 'nri');
+  assert.equal(residentialStatus.determine({ ...answers, liableToTaxElsewhere: false, isIndianCitizen: false }).status, 'nri');
+});
+
+test('not ordinarily resident after nine non-resident years or 729 days in seven years', () => {
+  const resident = { daysInIndia: 200 };
+  assert.equal(residentialStatus.determine({ ...resident, nonResidentYearsOfPrecedingTen: 9, daysInIndiaPrecedingSevenYears: 2000 }).status, 'rnor');
+  assert.equal(residentialStatus.determine({ ...resident, nonResidentYearsOfPrecedingTen: 2, daysInIndiaPrecedingSevenYears: 729 }).status, 'rnor');
+
+  // Without the history the taxpayer stays ordinarily resident and is asked for it
+  const unknown = residentialStatus.determine(resident);
+  assert.equal(unknown.status, 'resident');
+  assert.ok(unknown.reasons.some(reason => reason.includes('7 preceding years')));
+});
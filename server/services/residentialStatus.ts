@@ -0,0 +1,123 @@
+export type ResidentialStatusType = 'resident' | 'rnor' | 'nri';
+
+export interface ResidentialStatusAnswers {
+  daysInIndia: number; // In the financial year
+  daysInIndiaPrecedingFourYears?: number | null;
+  daysInIndiaPrecedingSevenYears?: number | null;
+  nonResidentYearsOfPrecedingTen?: number | null;
+  isIndianCitizen?: boolean | null;
+  isPersonOfIndianOrigin?: boolean | null;
+  leftIndiaForEmployment?: boolean | null; // Citizen leaving for employment abroad or as crew of an Indian ship
+  visitingIndia?: boolean | null; // Citizen or person of Indian origin living abroad, on a visit
+  indianIncome?: number | string | null; // Total income other than from foreign sources
+  liableToTaxElsewhere?: boolean | null;
+}
+
+export interface ResidentialStatusResult {
+  status: ResidentialStatusType;
+  label: string;
+  reasons: string[];
+}
+
+const STATUS_LABELS: Record<ResidentialStatusType, string> = {
+  resident: 'Resident and ordinarily resident',
+  rnor: 'Resident but not ordinarily resident',
+  nri: 'Non-resident'
+};
+
+// Section 6(1): days in the year on their own, or days in the year together
+// with 365 days over the four preceding years
+const DAYS_BASIC = 182;
+const DAYS_WITH_PRECEDING = 60;
+const DAYS_PRECEDING_FOUR_YEARS = 365;
+// Visitors with Indian income above ₹15L need 120 days instead of 182
+const DAYS_HIGH_INCOME_VISITOR = 120;
+const HIGH_INDIAN_INCOME = 1500000;
+
+// Section 6(6): not ordinarily resident thresholds
+const NON_RESIDENT_YEARS_OF_TEN = 9;
+const DAYS_PRECEDING_SEVEN_YEARS = 729;
+
+// An unanswered count is unknown, not zero
+const optionalCount = (value?: number | null): number | null =>
+  value === null || value === undefined || Number.isNaN(Number(value)) ? null : Number(value);
+
+export class ResidentialStatusService {
+  determine(answers: ResidentialStatusAnswers): ResidentialStatusResult {
+    const days = Number(answers.daysInIndia) || 0;
+    const precedingFour = optionalCount(answers.daysInIndiaPrecedingFourYears);
+    const precedingSeven = optionalCount(answers.daysInIndiaPrecedingSevenYears);
+    const nonResidentYears = optionalCount(answers.nonResidentYearsOfPrecedingTen);
+    const citizen = answers.isIndianCitizen ?? true;
+    const indianOrigin = citizen || (answers.isPersonOfIndianOrigin ?? false);
+    const highIncome = (Number(answers.indianIncome) || 0) > HIGH_INDIAN_INCOME;
+    const reasons: string[] = [];
+
+    let resident = false;
+    let residentUnder120DayRule = false;
+    if (days >= DAYS_BASIC) {
+      resident = true;
+      reasons.push(`In India for ${days} days in the year, at least ${DAYS_BASIC} (section 6(1)(a))`);
+    } else if (days >= DAYS_WITH_PRECEDING) {
+      // The 60-day test is extended for citizens leaving India and for
+      // citizens or persons of Indian origin coming on a visit
+      let threshold = DAYS_WITH_PRECEDING;
+      if (citizen && answers.leftIndiaForEmployment) {
+        threshold = DAYS_BASIC;
+      } else if (indianOrigin && answers.visitingIndia) {
+        threshold = highIncome ? DAYS_HIGH_INCOME_VISITOR : DAYS_BASIC;
+      }
+
+      if (days >= threshold && precedingFour === null) {
+        reasons.push('Days in India over the four preceding years were not given, so section 6(1)(c) could not be applied');
+      } else if (days >= threshold && precedingFour !== null && precedingFour >= DAYS_PRECEDING_FOUR_YEARS) {
+        resident = true;
+        residentUnder120DayRule = threshold === DAYS_HIGH_INCOME_VISITOR;
+        reasons.push(
+          `In India for ${days} days in the year and ${precedingFour} days in the four preceding years (section 6(1)(c)` +
+          `${residentUnder120DayRule ? ', 120-day rule for visitors with Indian income above ₹15 lakh' : ''})`
+        );
+      } else if (days >= threshold) {
+        reasons.push(`Only ${precedingFour} days in India in the four preceding years, below ${DAYS_PRECEDING_FOUR_YEARS}`);
+      } else {
+        reasons.push(`${days} days in India is below the ${threshold}-day limit that applies when leaving India or visiting`);
+      }
+    } else {
+      reasons.push(`In India for ${days} days in the year, below ${DAYS_WITH_PRECEDING}`);
+    }
+
+    if (!resident) {
+      // Section 6(1A): citizens with Indian income above ₹15L who are not
+      // liable to tax in any other country are deemed resident, and always
+      // not ordinarily resident (section 6(6)(d))
+      if (citizen && highIncome && answers.liableToTaxElsewhere === false) {
+        reasons.push('Deemed resident as a citizen with Indian income above ₹15 lakh not liable to tax elsewhere (section 6(1A))');
+        return this.result('rnor', reasons);
+      }
+      return this.result('nri', reasons);
+    }
+
+    // The not ordinarily resident tests need the history; without it the
+    // taxpayer stays ordinarily resident, which is the usual case
+    if (nonResidentYears === null || precedingSeven === null) {
+      reasons.push('Add the years non-resident and the days in India over the 7 preceding years to check whether you are not ordinarily resident');
+    }
+    if (nonResidentYears !== null && nonResidentYears >= NON_RESIDENT_YEARS_OF_TEN) {
+      reasons.push(`Non-resident in ${nonResidentYears} of the 10 preceding years (section 6(6)(a))`);
+      return this.result('rnor', reasons);
+    }
+    if (precedingSeven !== null && precedingSeven <= DAYS_PRECEDING_SEVEN_YEARS) {
+      reasons.push(`In India for ${precedingSeven} days over the 7 preceding years, ${DAYS_PRECEDING_SEVEN_YEARS} or fewer (section 6(6)(a))`);
+      return this.result('rnor', reasons);
+    }
+    if (residentUnder120DayRule) {
+      reasons.push('Resident only under the 120-day rule (section 6(6)(c))');
+      return this.result('rnor', reasons);
+    }
+    return this.result('resident', reasons);
+  }
+
+  private result(status: ResidentialStatusType, reasons: string[]): ResidentialStatusResult {
+    return { status, label: STATUS_LABELS[status], reasons };
+  }
+}
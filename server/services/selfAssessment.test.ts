@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SelfAssessmentService } from './selfAssessment';
+import { SUPPORTED_ASSESSMENT_YEARS, assessmentYearStart } from './taxRules';
+
+const selfAssessment = new SelfAssessmentService();
+
+// Section 139(1) due dates, with the CBDT extension for AY 2025-26
+const DUE_DATES: Record<string, string> = {
+  '2023-24': '2023-07-31',
+  '2024-25': '2024-07-31',
+  '2025-26': '2025-09-15',
+  '2026-27': '2026-07-31'
+};
+
+for (const assessmentYear of SUPPORTED_ASSESSMENT_YEARS) {
+  const ayStart = assessmentYearStart(assessmentYear);
+
+  test(`234A, 234B, 234C and the 234F fee on a late return for AY ${assessmentYear}`, () => {
+    const result = selfAssessment.compute({
+      totalLiability: 150000,
+      totalIncome: 1200000,
+      tds: 100000,
+      filingDate: `${ayStart}-10-20`
+    }, assessmentYear);
+
+    assert.equal(result.dueDate, DUE_DATES[assessmentYear]);
+    assert.equal(result.returnType, 'belated');
+    assert.equal(result.taxBalance, 50000);
+    // From the day after the due date to 20 October, a part month counting in full
+    const months234A = assessmentYear === '2025-26' ? 2 : 3;
+    assert.equal(result.interest234AMonths, months234A);
+    assert.equal(result.interest234A, 500 * months234A);
+    // April to October of the assessment year
+    assert.equal(result.interest234B, 3500);
+    assert.equal(result.interest234C, 2525);
+    assert.equal(result.fee234F, 5000);
+    assert.equal(result.totalPayable, 50000 + 500 * months234A + 3500 + 2525 + 5000);
+  });
+
+  test(`a return filed by the due date pays no 234A or fee for AY ${assessmentYear}`, () => {
+    const result = selfAssessment.compute({
+      totalLiability: 150000,
+      totalIncome: 1200000,
+      tds: 100000,
+      filingDate: `${ayStart}-07-20`
+    }, assessmentYear);
+
+    assert.equal(result.returnType, 'original');
+    assert.equal(result.interest234A, 0);
+    assert.equal(result.fee234F, 0);
+    assert.equal(result.interest234B, 2000);
+  });
+
+  test(`filing deadlines for AY ${assessmentYear}`, () => {
+    const deadlines = selfAssessment.deadlines(assessmentYear, new Date(`${ayStart}-08-01T00:00:00Z`));
+    assert.deepEqual(deadlines.map(d => d.dueDate), [DUE_DATES[assessmentYear], `${ayStart}-12-31`, `${ayStart + 5}-03-31`]);
+    assert.deepEqual(deadlines.map(d => d.status), [assessmentYear === '2025-26' ? 'open' : 'closed', 'open', 'open']);
+  });
+}
+
+test('self-assessment tax paid by the due date stops 234A', () => {
+  const result = selfAssessment.compute({
+    totalLiability: 150000,
+    totalIncome: 1200000,
+    tds: 100000,
+    payments: [{ paymentType: 'self_assessment', paymentDate: '2024-07-25', amount: 50000 }],
+    filingDate: '2024-10-20'
+  }, '2024-25');
+
+  assert.equal(result.interest234A, 0);
+  assert.equal(result.taxBalance, 0);
+  // Self-assessment tax is not advance tax, so 234B still runs
+  assert.equal(result.interest234B, 3500);
+});
+
+test('the reduced fee up to ₹5 lakh and no fee when filing was voluntary', () => {
+  const late = { totalLiability: 0, tds: 0, filingDate: '2024-10-20' };
+  assert.equal(selfAssessment.compute({ ...late, totalIncome: 400000 }, '2024-25').fee234F, 1000);
+  assert.equal(selfAssessment.compute({ ...late, totalIncome: 200000, grossTotalIncome: 200000, regime: 'old' }, '2024-25').fee234F, 0);
+});
+
+test('excess TDS is refunded', () => {
+  const result = selfAssessment.compute({ totalLiability: 150000, totalIncome: 1200000, tds: 200000, filingDate: '2024-07-20' }, '2024-25');
+  assert.equal(result.refund, 50000);
+  assert.equal(result.totalPayable, 0);
+});
+
+test('returns after the updated return window are time barred', () => {
+  assert.equal(selfAssessment.compute({ totalLiability: 0, totalIncome: 0, tds: 0, filingDate: '2029-04-01' }, '2024-25').returnType, 'time_barred');
+  assert.equal(selfAssessment.compute({ totalLiability: 0, totalIncome: 0, tds: 0, filingDate: '2025-01-15' }, '2024-25').returnType, 'updated');
+});
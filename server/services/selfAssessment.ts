@@ -0,0 +1,185 @@
+import { getTaxRules, DEFAULT_ASSESSMENT_YEAR, assessmentYearStart } from "./taxRules";
+import { AdvanceTaxService, type TaxPaymentInput } from "./advanceTax";
+
+export type FilingReturnType = 'original' | 'belated' | 'updated' | 'time_barred';
+
+export interface SelfAssessmentInput {
+  totalLiability: number; // Tax, surcharge and cess on total income
+  totalIncome: number; // Decides whether the reduced 234F fee applies
+  grossTotalIncome?: number; // Decides whether filing was mandatory
+  regime?: 'old' | 'new';
+  tds: number;
+  tcs?: number;
+  payments?: TaxPaymentInput[]; // Advance tax and self-assessment challans
+  filingDate: string | Date;
+  presumptive?: boolean;
+  requiredToFile?: boolean; // Defaults to whether gross total income exceeds the basic exemption
+}
+
+export interface SelfAssessmentResult {
+  assessmentYear: string;
+  filingDate: string;
+  dueDate: string;
+  returnType: FilingReturnType;
+  totalLiability: number;
+  tds: number;
+  tcs: number;
+  advanceTaxPaid: number;
+  selfAssessmentPaid: number;
+  taxBalance: number; // Negative when prepaid taxes exceed the liability
+  interest234A: number;
+  interest234AMonths: number;
+  interest234B: number;
+  interest234C: number;
+  fee234F: number;
+  totalPayable: number; // Self-assessment tax still to pay under section 140A
+  refund: number;
+}
+
+export interface FilingDeadline {
+  type: Exclude<FilingReturnType, 'time_barred'>;
+  label: string;
+  section: string;
+  dueDate: string;
+  daysRemaining: number; // Negative once the deadline has passed
+  status: 'open' | 'closed';
+  note?: string;
+}
+
+// CBDT extensions of the section 139(1) due date for non-audit returns
+const DUE_DATE_EXTENSIONS: Record<string, string> = {
+  '2025-26': '2025-09-15'
+};
+
+const INTEREST_RATE_PER_MONTH = 0.01;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class SelfAssessmentService {
+  private advanceTax = new AdvanceTaxService();
+
+  compute(input: SelfAssessmentInput, assessmentYear: string = DEFAULT_ASSESSMENT_YEAR): SelfAssessmentResult {
+    const taxRules = getTaxRules(assessmentYear);
+    const rules = taxRules.filing;
+    const filingDate = this.toISODate(input.filingDate);
+    const dueDate = this.originalDueDate(assessmentYear);
+    const payments = input.payments ?? [];
+    const tcs = input.tcs ?? 0;
+
+    // 234B and 234C run to the filing date on the advance tax actually paid
+    const schedule = this.advanceTax.schedule(
+      input.totalLiability,
+      input.tds + tcs,
+      payments,
+      assessmentYear,
+      { presumptive: input.presumptive, asOf: new Date(`${filingDate}T00:00:00Z`) }
+    );
+
+    const selfAssessment = payments
+      .filter(p => p.paymentType === 'self_assessment')
+      .map(p => ({ date: this.toISODate(p.paymentDate), amount: Number(p.amount) || 0 }));
+    const selfAssessmentPaid = selfAssessment.reduce((sum, p) => sum + p.amount, 0);
+    const prepaid = input.tds + tcs + schedule.advanceTaxPaid;
+    const taxBalance = Math.round(input.totalLiability - prepaid - selfAssessmentPaid);
+
+    // Section 234A: 1% a month from the day after the due date on tax not paid
+    // by the due date
+    let interest234A = 0;
+    let interest234AMonths = 0;
+    if (filingDate > dueDate) {
+      const paidByDueDate = selfAssessment.filter(p => p.date <= dueDate).reduce((sum, p) => sum + p.amount, 0);
+      const unpaid = input.totalLiability - prepaid - paidByDueDate;
+      if (unpaid > 0) {
+        interest234AMonths = this.monthsAfter(dueDate, filingDate);
+        interest234A = Math.round(Math.floor(unpaid / 100) * 100 * INTEREST_RATE_PER_MONTH * interest234AMonths);
+      }
+    }
+
+    // No 234F fee when income is below the basic exemption and filing was voluntary
+    const slabs = (input.regime === 'old' ? taxRules.oldRegime : taxRules.newRegime).slabs;
+    const basicExemption = slabs.find(slab => slab.rate === 0)?.max ?? 0;
+    const requiredToFile = input.requiredToFile
+      ?? (input.grossTotalIncome === undefined || input.grossTotalIncome > basicExemption);
+    const fee234F = filingDate > dueDate && requiredToFile
+      ? (input.totalIncome <= rules.lateFee.incomeThreshold ? rules.lateFee.reducedFee : rules.lateFee.fee)
+      : 0;
+
+    const totalPayable = taxBalance + interest234A + schedule.interest234B + schedule.interest234C + fee234F;
+
+    return {
+      assessmentYear,
+      filingDate,
+      dueDate,
+      returnType: this.returnType(assessmentYear, filingDate),
+      totalLiability: Math.round(input.totalLiability),
+      tds: Math.round(input.tds),
+      tcs: Math.round(tcs),
+      advanceTaxPaid: schedule.advanceTaxPaid,
+      selfAssessmentPaid,
+      taxBalance,
+      interest234A,
+      interest234AMonths,
+      interest234B: schedule.interest234B,
+      interest234C: schedule.interest234C,
+      fee234F,
+      totalPayable: Math.max(0, totalPayable),
+      refund: Math.max(0, -totalPayable)
+    };
+  }
+
+  // Original, belated and updated return deadlines for the year
+  deadlines(assessmentYear: string = DEFAULT_ASSESSMENT_YEAR, today: Date = new Date()): FilingDeadline[] {
+    const rules = getTaxRules(assessmentYear).filing;
+    const todayISO = this.toISODate(today);
+    const updatedWindow = rules.updatedReturnAdditionalTax;
+
+    const deadline = (
+      type: FilingDeadline['type'],
+      label: string,
+      section: string,
+      dueDate: string,
+      note?: string
+    ): FilingDeadline => {
+      const daysRemaining = Math.round((Date.parse(dueDate) - Date.parse(todayISO)) / DAY_MS);
+      return { type, label, section, dueDate, daysRemaining, status: daysRemaining >= 0 ? 'open' : 'closed', ...(note ? { note } : {}) };
+    };
+
+    return [
+      deadline('original', 'Original return', '139(1)', this.originalDueDate(assessmentYear),
+        'Filing late attracts the 234F fee and interest under 234A on unpaid tax'),
+      deadline('belated', 'Belated or revised return', '139(4) / 139(5)', this.belatedDueDate(assessmentYear)),
+      deadline('updated', 'Updated return (ITR-U)', '139(8A)', this.updatedDueDate(assessmentYear),
+        `Additional tax of ${updatedWindow.map(w => `${w.percent}% within ${w.withinMonths} months`).join(', ')} from the end of the assessment year`)
+    ];
+  }
+
+  private returnType(assessmentYear: string, filingDate: string): FilingReturnType {
+    if (filingDate <= this.originalDueDate(assessmentYear)) return 'original';
+    if (filingDate <= this.belatedDueDate(assessmentYear)) return 'belated';
+    if (filingDate <= this.updatedDueDate(assessmentYear)) return 'updated';
+    return 'time_barred';
+  }
+
+  private originalDueDate(assessmentYear: string): string {
+    return DUE_DATE_EXTENSIONS[assessmentYear] ?? `${assessmentYearStart(assessmentYear)}-07-31`;
+  }
+
+  private belatedDueDate(assessmentYear: string): string {
+    return `${assessmentYearStart(assessmentYear)}-12-31`;
+  }
+
+  private updatedDueDate(assessmentYear: string): string {
+    const months = Math.max(...getTaxRules(assessmentYear).filing.updatedReturnAdditionalTax.map(w => w.withinMonths));
+    return `${assessmentYearStart(assessmentYear) + 1 + months / 12}-03-31`;
+  }
+
+  // Whole months from the day after `from`, a part month counting as a month
+  private monthsAfter(from: string, to: string): number {
+    const [fromYear, fromMonth, fromDay] = from.split('-').map(Number);
+    const [toYear, toMonth, toDay] = to.split('-').map(Number);
+    return (toYear - fromYear) * 12 + (toMonth - fromMonth) + (toDay > fromDay ? 1 : 0);
+  }
+
+  private toISODate(value: string | Date): string {
+    return typeof value === 'string' ? value.slice(0, 10) : value.toISOString().slice(0, 10);
+  }
+}
@@ -0,0 +1,231 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TaxCalculatorService } from './taxCalculator';
+import { CapitalGainsService } from './capitalGains';
+import { SUPPORTED_ASSESSMENT_YEARS } from './taxRules';
+
+const calculator = new TaxCalculatorService();
+
+// Slab tax on ₹15 lakh with no deductions, before cess
+const NEW_REGIME_TAX_ON_15_LAKH: Record<string, number> = {
+  '2023-24': 187500,
+  '2024-25': 150000,
+  '2025-26': 140000,
+  '2026-27': 105000
+};
+
+for (const assessmentYear of SUPPORTED_ASSESSMENT_YEARS) {
+  test(`slab tax and cess in both regimes for AY ${assessmentYear}`, () => {
+    const oldRegime = calculator.calculateOldRegimeTax(1500000, {}, false, assessmentYear);
+    assert.equal(oldRegime.taxLiability, 262500);
+    assert.equal(oldRegime.cess, 10500);
+    assert.equal(oldRegime.totalTax, 273000);
+
+    const newRegime = calculator.calculateNewRegimeTax(1500000, {}, false, assessmentYear);
+    const tax = NEW_REGIME_TAX_ON_15_LAKH[assessmentYear];
+    assert.equal(newRegime.taxLiability, tax);
+    assert.equal(newRegime.totalTax, tax + tax * 0.04);
+  });
+}
+
+// Taxable income of ₹10 lakh of salary under the new regime
+const NEW_REGIME_STANDARD_DEDUCTION: Record<string, number> = {
+  '2023-24': 0,
+  '2024-25': 50000,
+  '2025-26': 75000,
+  '2026-27': 75000
+};
+
+for (const assessmentYear of SUPPORTED_ASSESSMENT_YEARS) {
+  test(`standard deduction only on the salary passed in for AY ${assessmentYear}`, () => {
+    const salaried = calculator.compareRegimes(1000000, {}, { salary: 1000000 }, false, assessmentYear);
+    assert.equal(salaried.oldRegime.taxableIncome, 950000);
+    assert.equal(salaried.newRegime.taxableIncome, 1000000 - NEW_REGIME_STANDARD_DEDUCTION[assessmentYear]);
+
+    // Business or rent income gets no standard deduction
+    const notSalaried = calculator.compareRegimes(1000000, {}, {}, false, assessmentYear);
+    assert.equal(notSalaried.oldRegime.taxableIncome, 1000000);
+    assert.equal(notSalaried.newRegime.taxableIncome, 1000000);
+
+    // Salary below the standard deduction limits it
+    const smallSalary = calculator.compareRegimes(1000000, {}, { salary: 20000 }, false, assessmentYear);
+    assert.equal(smallSalary.oldRegime.taxableIncome, 980000);
+  });
+}
+
+for (const assessmentYear of SUPPORTED_ASSESSMENT_YEARS) {
+  test(`old regime 87A rebate up to ₹5 lakh without marginal relief for AY ${assessmentYear}`, () => {
+    const atLimit = calculator.calculateOldRegimeTax(500000, {}, false, assessmentYear);
+    assert.equal(atLimit.rebate87A, 12500);
+    assert.equal(atLimit.totalTax, 0);
+
+    const aboveLimit = calculator.calculateOldRegimeTax(510000, {}, false, assessmentYear);
+    assert.equal(aboveLimit.rebate87A, 0);
+    assert.equal(aboveLimit.marginalRelief, 0);
+    assert.equal(aboveLimit.totalTax, 15080);
+  });
+}
+
+// Income limit, and income ₹10,000 above it, for the new regime rebate
+const NEW_REGIME_REBATE: Record<string, { limit: number; marginalRelief: boolean }> = {
+  '2023-24': { limit: 500000, marginalRelief: false },
+  '2024-25': { limit: 700000, marginalRelief: true },
+  '2025-26': { limit: 700000, marginalRelief: true },
+  '2026-27': { limit: 1200000, marginalRelief: true }
+};
+
+for (const assessmentYear of SUPPORTED_ASSESSMENT_YEARS) {
+  test(`new regime 87A rebate and marginal relief for AY ${assessmentYear}`, () => {
+    const { limit, marginalRelief } = NEW_REGIME_REBATE[assessmentYear];
+
+    const atLimit = calculator.calculateNewRegimeTax(limit, {}, false, assessmentYear);
+    assert.ok(atLimit.rebate87A > 0);
+    assert.equal(atLimit.totalTax, 0);
+
+    const aboveLimit = calculator.calculateNewRegimeTax(limit + 10000, {}, false, assessmentYear);
+    assert.equal(aboveLimit.rebate87A, 0);
+    if (marginalRelief) {
+      // Tax before cess is capped at the income above the limit
+      assert.ok(aboveLimit.marginalRelief > 0);
+      assert.equal(aboveLimit.taxLiability - aboveLimit.marginalRelief, 10000);
+      assert.equal(aboveLimit.totalTax, 10400);
+    } else {
+      assert.equal(aboveLimit.marginalRelief, 0);
+      assert.equal(aboveLimit.totalTax, Math.round(aboveLimit.taxLiability * 1.04));
+    }
+
+    // Non-residents get no rebate
+    const nonResident = calculator.calculateNewRegimeTax(limit, {}, true, assessmentYear);
+    assert.equal(nonResident.rebate87A, 0);
+    assert.equal(nonResident.totalTax, atLimit.taxLiability + Math.round(atLimit.taxLiability * 0.04));
+  });
+}
+
+test('surcharge with marginal relief just above ₹50 lakh in the old regime', () => {
+  const result = calculator.calculateOldRegimeTax(5010000, {}, false, '2025-26');
+  assert.equal(result.taxLiability, 1315500);
+  assert.equal(result.surchargeRate, 10);
+  // Tax plus surcharge may rise by no more than the ₹10,000 earned above ₹50 lakh
+  assert.equal(result.surchargeRelief, 124550);
+  assert.equal(result.surcharge, 7000);
+  assert.equal(result.cess, 52900);
+  assert.equal(result.totalTax, 1375400);
+
+  const wellAbove = calculator.calculateOldRegimeTax(6000000, {}, false, '2025-26');
+  assert.equal(wellAbove.surchargeRelief, 0);
+  assert.equal(wellAbove.surcharge, 161250);
+});
+
+for (const assessmentYear of SUPPORTED_ASSESSMENT_YEARS) {
+  test(`surcharge marginal relief at each band in both regimes for AY ${assessmentYear}`, () => {
+    for (const regime of ['old', 'new'] as const) {
+      const tax = (income: number) => regime === 'old'
+        ? calculator.calculateOldRegimeTax(income, {}, false, assessmentYear)
+        : calculator.calculateNewRegimeTax(income, {}, false, assessmentYear);
+      for (const threshold of [5000000, 10000000, 20000000]) {
+        const atThreshold = tax(threshold);
+        const above = tax(threshold + 10000);
+        assert.ok(above.surchargeRelief > 0, `${regime} regime relief above ${threshold}`);
+        assert.equal(
+          above.taxLiability + above.surcharge,
+          atThreshold.taxLiability + atThreshold.surcharge + 10000,
+          `${regime} regime tax above ${threshold}`
+        );
+      }
+    }
+  });
+}
+
+// Highest surcharge in the new regime: 37% until Finance Act 2023 capped it at 25%
+const NEW_REGIME_TOP_SURCHARGE: Record<string, number> = {
+  '2023-24': 37,
+  '2024-25': 25,
+  '2025-26': 25,
+  '2026-27': 25
+};
+
+for (const assessmentYear of SUPPORTED_ASSESSMENT_YEARS) {
+  test(`top surcharge rate for AY ${assessmentYear}`, () => {
+    assert.equal(calculator.calculateOldRegimeTax(60000000, {}, false, assessmentYear).surchargeRate, 37);
+    assert.equal(calculator.calculateNewRegimeTax(60000000, {}, false, assessmentYear).surchargeRate, NEW_REGIME_TOP_SURCHARGE[assessmentYear]);
+  });
+}
+
+test('special rate tax on 112A gains alongside slab income', () => {
+  const capitalGains = new CapitalGainsService().summarize([
+    { assetClass: 'listed_equity', purchaseDate: '2022-04-01', saleDate: '2024-09-02', costOfAcquisition: 100000, saleValue: 325000 }
+  ], '2025-26');
+  const result = calculator.calculateOldRegimeTax(1000000, {}, false, '2025-26', {}, capitalGains);
+
+  // ₹2.25 lakh gain less the ₹1.25 lakh exemption, at 12.5%
+  assert.equal(result.specialRateIncome, 100000);
+  assert.equal(result.specialRateTax, 12500);
+  assert.equal(result.taxLiability, 112500 + 12500);
+  assert.equal(result.grossIncome, 1000000);
+  assert.equal(result.totalIncome, 1225000);
+  assert.equal(result.totalTax, 130000);
+});
+
+test('unused basic exemption is set against special rate income for residents only', () => {
+  const capitalGains = new CapitalGainsService().summarize([
+    { assetClass: 'listed_equity', purchaseDate: '2024-01-02', saleDate: '2024-09-02', costOfAcquisition: 100000, saleValue: 300000 }
+  ], '2025-26');
+
+  const resident = calculator.calculateOldRegimeTax(100000, {}, false, '2025-26', {}, capitalGains);
+  assert.equal(resident.specialRateDetails?.[0].section, '111A');
+  assert.equal(resident.specialRateDetails?.[0].basicExemptionAdjusted, 150000);
+  assert.equal(resident.specialRateTax, 10000);
+  // Total income of ₹3 lakh is within the old regime rebate, which covers 111A tax
+  assert.equal(resident.rebate87A, 10000);
+  assert.equal(resident.totalTax, 0);
+
+  const nonResident = calculator.calculateOldRegimeTax(100000, {}, true, '2025-26', {}, capitalGains);
+  assert.equal(nonResident.specialRateTax, 40000);
+  assert.equal(nonResident.rebate87A, 0);
+});
+
+test('the enhanced new regime rebate does not cover special rate tax from AY 2026-27', () => {
+  const capitalGains = new CapitalGainsService().summarize([
+    { assetClass: 'listed_equity', purchaseDate: '2025-01-02', saleDate: '2025-09-02', costOfAcquisition: 100000, saleValue: 600000 }
+  ], '2026-27');
+  const result = calculator.calculateNewRegimeTax(100000, {}, false, '2026-27', capitalGains);
+
+  // ₹3 lakh of the ₹4 lakh exemption is unused against the ₹5 lakh gain
+  assert.equal(result.specialRateTax, 40000);
+  assert.equal(result.rebate87A, 0);
+  assert.equal(result.totalTax, 41600);
+});
+
+test('surcharge on special rate tax is capped at 15%', () => {
+  const capitalGains = new CapitalGainsService().summarize([
+    { assetClass: 'listed_equity', purchaseDate: '2022-04-01', saleDate: '2024-09-02', costOfAcquisition: 1000000, saleValue: 21125000 }
+  ], '2025-26');
+  const result = calculator.calculateOldRegimeTax(32000000, {}, false, '2025-26', {}, capitalGains);
+
+  assert.equal(result.surchargeRate, 37);
+  const slabTax = result.taxLiability - result.specialRateTax;
+  assert.equal(result.surcharge + result.surchargeRelief, Math.round(slabTax * 0.37 + result.specialRateTax * 0.15));
+});
+
+test('house property loss is set off against salary in the old regime only', () => {
+  const comparison = calculator.compareRegimes(1500000, {}, { salary: 1500000 }, false, '2025-26', {}, undefined, [
+    { name: 'Home', occupancy: 'self_occupied', interestOnLoan: 250000 }
+  ]);
+  assert.equal(comparison.oldRegime.houseProperty?.chargeableIncome, -200000);
+  assert.equal(comparison.oldRegime.taxableIncome, 1500000 - 50000 - 200000);
+  assert.equal(comparison.newRegime.taxableIncome, 1500000 - 75000);
+});
+
+test('tax suggestions for a non-resident do not count on the 87A rebate', () => {
+  const regimeSuggestion = (isNonResident: boolean) => calculator
+    .generateTaxSuggestions(700000, 700000, {}, '2024-25', { isNonResident })
+    .find(suggestion => suggestion.section === 'REGIME');
+
+  // A resident pays nothing in the new regime and is told to switch; a
+  // non-resident pays tax in both regimes
+  const resident = regimeSuggestion(false);
+  assert.ok(resident);
+  const nonResident = calculator.compareRegimes(700000, {}, { salary: 700000 }, true, '2024-25');
+  assert.ok(nonResident.newRegime.totalTax > 0);
+  assert.notEqual(regimeSuggestion(true)?.potentialSaving, resident.potentialSaving);
+});
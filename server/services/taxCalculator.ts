@@ -1,137 +1,414 @@
-export interface TaxSlabRate {
-  min: number;
-  max: number | null;
-  rate: number;
-}
+import {
+  getTaxRules,
+  DEFAULT_ASSESSMENT_YEAR,
+  type TaxSlabRate,
+  type RegimeRules,
+  type RebateRule,
+  type SurchargeBand
+} from "./taxRules";
+import {
+  DeductionValidatorService,
+  type DeductionLine,
+  type DeductionProfile,
+  type NewRegimeDeductionInput
+} from "./deductionValidator";
+import type { CapitalGainsSummary, SpecialRateIncome } from "./capitalGains";
+import { HousePropertyService, type HousePropertyComputation, type HousePropertyInput } from "./houseProperty";
+import { IncomeComputationService, type IncomeComputationInput, type ComputationSheet } from "./incomeComputation";
 
 export interface TaxCalculationResult {
-  grossIncome: number;
+  grossIncome: number; // As passed in, before house property and capital gains
+  totalIncome: number; // Gross income plus house property and capital gains, before deductions
   totalDeductions: number;
+  deductionDetails?: DeductionLine[]; // Claimed vs allowed per section
+  houseProperty?: HousePropertyComputation;
   taxableIncome: number;
-  taxLiability: number;
-  cess: number;
+  taxLiability: number; // Slab plus special rate tax, before rebate
+  specialRateIncome: number;
+  specialRateTax: number;
+  specialRateDetails?: SpecialRateTaxLine[]; // Capital gains taxed under 111A, 112A and 112
+  rebate87A: number;
+  marginalRelief: number;
+  surchargeRate: number;
+  surcharge: number; // Net of marginal relief at the band boundary
+  surchargeRelief: number;
+  cess: number; // On income tax plus surcharge
   totalTax: number;
   effectiveRate: number;
   marginalRate: number;
 }
 
+export interface SpecialRateTaxLine extends SpecialRateIncome {
+  basicExemptionAdjusted: number; // Unused basic exemption set against this income
+  tax: number;
+}
+
 export interface RegimeComparison {
+  assessmentYear: string;
   oldRegime: TaxCalculationResult;
   newRegime: TaxCalculationResult;
+  capitalGains?: CapitalGainsSummary;
+  computation?: { oldRegime: ComputationSheet; newRegime: ComputationSheet };
   savings: number;
   recommendedRegime: 'old' | 'new';
 }
 
+export interface TaxSuggestionResult {
+  section: string;
+  suggestion: string;
+  currentAmount: number;
+  maxAmount: number;
+  potentialSaving: number;
+  priority: number;
+  category: 'investment' | 'insurance' | 'loan' | 'savings' | 'strategy';
+  urgency: 'high' | 'medium' | 'low';
+}
+
 export class TaxCalculatorService {
-  // Old regime tax slabs for AY 2024-25
-  private oldRegimeSlabs: TaxSlabRate[] = [
-    { min: 0, max: 250000, rate: 0 },
-    { min: 250000, max: 500000, rate: 5 },
-    { min: 500000, max: 1000000, rate: 20 },
-    { min: 1000000, max: null, rate: 30 }
-  ];
-
-  // New regime tax slabs for AY 2024-25
-  private newRegimeSlabs: TaxSlabRate[] = [
-    { min: 0, max: 300000, rate: 0 },
-    { min: 300000, max: 600000, rate: 5 },
-    { min: 600000, max: 900000, rate: 10 },
-    { min: 900000, max: 1200000, rate: 15 },
-    { min: 1200000, max: 1500000, rate: 20 },
-    { min: 1500000, max: null, rate: 30 }
-  ];
-
-  // Standard deduction for new regime
-  private readonly NEW_REGIME_STANDARD_DEDUCTION = 50000;
-  
-  // Health and education cess
-  private readonly CESS_RATE = 4; // 4% on income tax
+  private deductionValidator = new DeductionValidatorService();
+  private housePropertyService = new HousePropertyService();
+  private incomeComputation = new IncomeComputationService();
 
   calculateOldRegimeTax(
     grossIncome: number,
     deductions: { [section: string]: number } = {},
-    isNonResident: boolean = false
+    isNonResident: boolean = false,
+    assessmentYear: string = DEFAULT_ASSESSMENT_YEAR,
+    deductionProfile: DeductionProfile = {},
+    capitalGains?: CapitalGainsSummary,
+    houseProperty?: HousePropertyComputation,
+    salaryIncome: number = 0 // The part of gross income that is salary; 0 when the standard deduction is already allowed
   ): TaxCalculationResult {
-    const totalDeductions = Object.values(deductions).reduce((sum, amount) => sum + amount, 0);
-    const taxableIncome = Math.max(0, grossIncome - totalDeductions);
-    
-    let slabs = this.oldRegimeSlabs;
+    const rules = getTaxRules(assessmentYear);
+    const housePropertyIncome = houseProperty?.chargeableIncome ?? 0;
+
+    // Standard deduction on salary, as validateNewRegime allows it in the new regime
+    const salary = Math.max(0, salaryIncome);
+    const standardDeductionLimit = rules.oldRegime.standardDeduction;
+    const standardDeduction = Math.min(standardDeductionLimit, salary);
+    const standardDeductionLines: DeductionLine[] = salary > 0 && standardDeductionLimit > 0
+      ? [{
+        section: 'Standard Deduction',
+        claimed: standardDeductionLimit,
+        allowed: standardDeduction,
+        ...(salary < standardDeductionLimit ? { reason: 'Standard deduction cannot exceed salary income' } : {})
+      }]
+      : [];
+
+    const validation = this.deductionValidator.validate(
+      deductions,
+      {
+        grossTotalIncome: grossIncome - standardDeduction + housePropertyIncome + this.totalCapitalGains(capitalGains),
+        ...deductionProfile
+      },
+      assessmentYear
+    );
+    const totalDeductions = standardDeduction + validation.totalAllowed;
     
-    // Non-residents don't get basic exemption
-    if (isNonResident) {
-      slabs = [
-        { min: 0, max: null, rate: 30 }
-      ];
+    // Higher exemption limits for resident senior (60+) and super senior (80+)
+    // citizens; non-residents use the general slabs whatever their age
+    let slabs = rules.oldRegime.slabs;
+    const age = deductionProfile.age ?? 0;
+    if (!isNonResident && age >= 80 && rules.oldRegime.superSeniorCitizenSlabs) {
+      slabs = rules.oldRegime.superSeniorCitizenSlabs;
+    } else if (!isNonResident && age >= 60 && rules.oldRegime.seniorCitizenSlabs) {
+      slabs = rules.oldRegime.seniorCitizenSlabs;
     }
     
-    const taxLiability = this.calculateTaxFromSlabs(taxableIncome, slabs);
-    const cess = (taxLiability * this.CESS_RATE) / 100;
-    const totalTax = taxLiability + cess;
-    
     return {
-      grossIncome,
-      totalDeductions,
-      taxableIncome,
-      taxLiability,
-      cess,
-      totalTax,
-      effectiveRate: grossIncome > 0 ? (totalTax / grossIncome) * 100 : 0,
-      marginalRate: this.getMarginalRate(taxableIncome, slabs)
+      ...this.computeRegimeTax(grossIncome, housePropertyIncome, totalDeductions, slabs, rules.oldRegime, rules.cessRate, isNonResident, capitalGains, {
+        maxSurchargeRate: rules.capitalGains.maxSurchargeRate,
+        rebateOnSpecialRateTax: rules.capitalGains.rebateOnSpecialRateTax.old
+      }),
+      deductionDetails: [...standardDeductionLines, ...validation.lines],
+      ...(houseProperty ? { houseProperty } : {})
     };
   }
 
   calculateNewRegimeTax(
     grossIncome: number,
-    additionalDeductions: number = 0,
-    isNonResident: boolean = false
+    deductions: NewRegimeDeductionInput = {},
+    isNonResident: boolean = false,
+    assessmentYear: string = DEFAULT_ASSESSMENT_YEAR,
+    capitalGains?: CapitalGainsSummary,
+    houseProperty?: HousePropertyComputation
   ): TaxCalculationResult {
+    const rules = getTaxRules(assessmentYear);
+    const housePropertyIncome = houseProperty?.chargeableIncome ?? 0;
     // New regime only allows standard deduction and few specific deductions
-    const standardDeduction = isNonResident ? 0 : this.NEW_REGIME_STANDARD_DEDUCTION;
-    const totalDeductions = standardDeduction + additionalDeductions;
-    const taxableIncome = Math.max(0, grossIncome - totalDeductions);
+    const validation = this.deductionValidator.validateNewRegime(deductions, assessmentYear);
+    const totalDeductions = validation.totalAllowed;
     
-    let slabs = this.newRegimeSlabs;
-    
-    // Non-residents have different slabs
-    if (isNonResident) {
-      slabs = [
-        { min: 0, max: null, rate: 30 }
-      ];
-    }
-    
-    const taxLiability = this.calculateTaxFromSlabs(taxableIncome, slabs);
-    const cess = (taxLiability * this.CESS_RATE) / 100;
-    const totalTax = taxLiability + cess;
+    // The new regime has one set of slabs for residents and non-residents alike
+    const slabs = rules.newRegime.slabs;
     
     return {
-      grossIncome,
-      totalDeductions,
-      taxableIncome,
-      taxLiability,
-      cess,
-      totalTax,
-      effectiveRate: grossIncome > 0 ? (totalTax / grossIncome) * 100 : 0,
-      marginalRate: this.getMarginalRate(taxableIncome, slabs)
+      ...this.computeRegimeTax(grossIncome, housePropertyIncome, totalDeductions, slabs, rules.newRegime, rules.cessRate, isNonResident, capitalGains, {
+        maxSurchargeRate: rules.capitalGains.maxSurchargeRate,
+        rebateOnSpecialRateTax: rules.capitalGains.rebateOnSpecialRateTax.new
+      }),
+      deductionDetails: validation.lines,
+      ...(houseProperty ? { houseProperty } : {})
     };
   }
 
   compareRegimes(
     grossIncome: number,
     oldRegimeDeductions: { [section: string]: number } = {},
-    newRegimeAdditionalDeductions: number = 0,
-    isNonResident: boolean = false
+    newRegimeDeductions: NewRegimeDeductionInput = {},
+    isNonResident: boolean = false,
+    assessmentYear: string = DEFAULT_ASSESSMENT_YEAR,
+    deductionProfile: DeductionProfile = {},
+    capitalGains?: CapitalGainsSummary,
+    houseProperties: HousePropertyInput[] = []
   ): RegimeComparison {
-    const oldRegime = this.calculateOldRegimeTax(grossIncome, oldRegimeDeductions, isNonResident);
-    const newRegime = this.calculateNewRegimeTax(grossIncome, newRegimeAdditionalDeductions, isNonResident);
+    // House property losses are treated differently in each regime
+    const houseProperty = (regime: 'old' | 'new') => houseProperties.length > 0
+      ? this.housePropertyService.compute(houseProperties, regime, assessmentYear)
+      : undefined;
+    
+    const oldRegime = this.calculateOldRegimeTax(
+      grossIncome, oldRegimeDeductions, isNonResident, assessmentYear,
+      { ...deductionProfile, housePropertyInterest: this.carriesLoanInterest(houseProperties) }, capitalGains, houseProperty('old'),
+      newRegimeDeductions.salary ?? 0
+    );
+    
+    // Employer NPS and Agniveer claims entered alongside old regime deductions count in both regimes
+    const newRegimeInput = {
+      basicSalary: deductionProfile.salary,
+      ...this.deductionValidator.extractNewRegimeDeductions(oldRegimeDeductions),
+      ...newRegimeDeductions
+    };
+    const newRegime = this.calculateNewRegimeTax(
+      grossIncome, newRegimeInput, isNonResident, assessmentYear, capitalGains, houseProperty('new')
+    );
     
     const savings = oldRegime.totalTax - newRegime.totalTax;
     const recommendedRegime = savings > 0 ? 'new' : 'old';
     
     return {
+      assessmentYear: getTaxRules(assessmentYear).assessmentYear,
       oldRegime,
       newRegime,
       savings,
-      recommendedRegime
+      recommendedRegime,
+      ...(capitalGains ? { capitalGains } : {})
+    };
+  }
+
+  // Compare regimes on a head-wise computation of total income. Each regime
+  // gets its own sheet because standard deduction and loss set-off differ.
+  compareComputation(
+    input: IncomeComputationInput,
+    oldRegimeDeductions: { [section: string]: number } = {},
+    newRegimeDeductions: NewRegimeDeductionInput = {},
+    isNonResident: boolean = false,
+    assessmentYear: string = DEFAULT_ASSESSMENT_YEAR,
+    deductionProfile: DeductionProfile = {}
+  ): RegimeComparison {
+    const oldSheet = this.incomeComputation.compute(input, 'old', assessmentYear);
+    const newSheet = this.incomeComputation.compute(input, 'new', assessmentYear);
+    
+    // The sheets have already allowed the standard deduction under the salary head
+    const oldRegime = this.calculateOldRegimeTax(
+      oldSheet.incomeExcludingCapitalGains, oldRegimeDeductions, isNonResident, assessmentYear,
+      { ...deductionProfile, housePropertyInterest: this.carriesLoanInterest(input.houseProperties) }, oldSheet.capitalGains,
+      undefined, 0
+    );
+    
+    const newRegimeInput = {
+      basicSalary: deductionProfile.salary,
+      ...this.deductionValidator.extractNewRegimeDeductions(oldRegimeDeductions),
+      ...newRegimeDeductions,
+      salary: 0
+    };
+    const newRegime = this.calculateNewRegimeTax(
+      newSheet.incomeExcludingCapitalGains, newRegimeInput, isNonResident, assessmentYear, newSheet.capitalGains
+    );
+    
+    const savings = oldRegime.totalTax - newRegime.totalTax;
+    
+    return {
+      assessmentYear: getTaxRules(assessmentYear).assessmentYear,
+      oldRegime: { ...oldRegime, ...(oldSheet.houseProperty ? { houseProperty: oldSheet.houseProperty } : {}) },
+      newRegime: { ...newRegime, ...(newSheet.houseProperty ? { houseProperty: newSheet.houseProperty } : {}) },
+      computation: { oldRegime: oldSheet, newRegime: newSheet },
+      savings,
+      recommendedRegime: savings > 0 ? 'new' : 'old'
+    };
+  }
+
+  // Slab tax on normal income (including short-term gains taxed at slab
+  // rates) plus flat-rate tax on 111A, 112A and 112 gains
+  private computeRegimeTax(
+    grossIncome: number,
+    housePropertyIncome: number,
+    totalDeductions: number,
+    slabs: TaxSlabRate[],
+    regime: RegimeRules,
+    cessRate: number,
+    isNonResident: boolean,
+    capitalGains?: CapitalGainsSummary,
+    specialRateRules: { maxSurchargeRate: number; rebateOnSpecialRateTax: boolean } = { maxSurchargeRate: 15, rebateOnSpecialRateTax: true }
+  ): TaxCalculationResult {
+    // Chapter VI-A deductions cannot reduce special rate income
+    const normalIncome = Math.max(0, grossIncome + housePropertyIncome + (capitalGains?.slabIncome ?? 0) - totalDeductions);
+    const specialIncome = capitalGains?.specialRateIncome ?? [];
+    const specialRateIncome = specialIncome.reduce((sum, line) => sum + line.income, 0);
+    const taxableIncome = normalIncome + specialRateIncome;
+    
+    const { slabTax, specialTax, specialRateDetails } = this.calculateTaxOnIncome(normalIncome, specialIncome, slabs, isNonResident);
+    const taxLiability = slabTax + specialTax;
+    
+    // Section 87A is available to resident individuals only, and never against 112A tax
+    const rebatableTax = slabTax + (specialRateRules.rebateOnSpecialRateTax
+      ? specialRateDetails.filter(line => line.section !== '112A').reduce((sum, line) => sum + line.tax, 0)
+      : 0);
+    const { rebate87A, marginalRelief } = isNonResident
+      ? { rebate87A: 0, marginalRelief: 0 }
+      : this.calculateRebate(taxableIncome, rebatableTax, regime.rebate);
+    
+    // The rebate is used against slab tax before special rate tax
+    const taxAfterRebate = taxLiability - rebate87A - marginalRelief;
+    const slabTaxAfterRebate = Math.max(0, slabTax - rebate87A - marginalRelief);
+    const { surchargeRate, surcharge, surchargeRelief } = this.calculateSurcharge(
+      taxableIncome,
+      slabTaxAfterRebate,
+      taxAfterRebate - slabTaxAfterRebate,
+      (income: number) => {
+        // Tax at a lower total income, trimming normal income first
+        const trimmedNormal = Math.max(0, Math.min(normalIncome, income - specialRateIncome));
+        let specialRemaining = income - trimmedNormal;
+        const trimmedSpecial = specialIncome.map(line => {
+          const kept = Math.min(line.income, Math.max(0, specialRemaining));
+          specialRemaining -= kept;
+          return { ...line, income: kept };
+        });
+        const { slabTax, specialTax } = this.calculateTaxOnIncome(trimmedNormal, trimmedSpecial, slabs, isNonResident);
+        return { slabTax, specialTax };
+      },
+      regime.surchargeBands,
+      specialRateRules.maxSurchargeRate
+    );
+    const cess = Math.round(((taxAfterRebate + surcharge) * cessRate) / 100);
+    const totalTax = taxAfterRebate + surcharge + cess;
+    const totalIncome = grossIncome + housePropertyIncome + this.totalCapitalGains(capitalGains);
+    
+    return {
+      grossIncome,
+      totalIncome,
+      totalDeductions,
+      taxableIncome,
+      taxLiability,
+      specialRateIncome,
+      specialRateTax: specialTax,
+      ...(specialRateDetails.length > 0 ? { specialRateDetails } : {}),
+      rebate87A,
+      marginalRelief,
+      surchargeRate,
+      surcharge,
+      surchargeRelief,
+      cess,
+      totalTax,
+      effectiveRate: totalIncome > 0 ? (totalTax / totalIncome) * 100 : 0,
+      marginalRate: this.getMarginalRate(normalIncome, slabs)
+    };
+  }
+
+  // Residents can set any unused basic exemption against special rate income,
+  // highest rate first
+  private calculateTaxOnIncome(
+    normalIncome: number,
+    specialIncome: SpecialRateIncome[],
+    slabs: TaxSlabRate[],
+    isNonResident: boolean
+  ): { slabTax: number; specialTax: number; specialRateDetails: SpecialRateTaxLine[] } {
+    const basicExemption = slabs[0]?.rate === 0 ? slabs[0].max ?? 0 : 0;
+    let unusedExemption = isNonResident ? 0 : Math.max(0, basicExemption - normalIncome);
+    
+    const specialRateDetails = [...specialIncome]
+      .sort((a, b) => b.rate - a.rate)
+      .map(line => {
+        const basicExemptionAdjusted = Math.min(line.income, unusedExemption);
+        unusedExemption -= basicExemptionAdjusted;
+        return {
+          ...line,
+          basicExemptionAdjusted,
+          tax: Math.round(((line.income - basicExemptionAdjusted) * line.rate) / 100)
+        };
+      });
+    
+    return {
+      slabTax: this.calculateTaxFromSlabs(normalIncome, slabs),
+      specialTax: specialRateDetails.reduce((sum, line) => sum + line.tax, 0),
+      specialRateDetails
+    };
+  }
+
+  // Section 24(b) interest is allowed per property once any property records it
+  private carriesLoanInterest(properties: HousePropertyInput[] = []): boolean {
+    return properties.some(property => (Number(property.interestOnLoan) || 0) > 0);
+  }
+
+  private totalCapitalGains(capitalGains?: CapitalGainsSummary): number {
+    if (!capitalGains) return 0;
+    return capitalGains.slabIncome
+      + capitalGains.specialRateIncome.reduce((sum, line) => sum + line.income, 0)
+      + capitalGains.exemption112A;
+  }
+
+  // Section 87A rebate, plus relief so that tax just above the limit never
+  // exceeds the income above the limit
+  private calculateRebate(
+    taxableIncome: number,
+    taxLiability: number,
+    rule: RebateRule
+  ): { rebate87A: number; marginalRelief: number } {
+    if (taxableIncome <= rule.incomeLimit) {
+      return { rebate87A: Math.min(taxLiability, rule.maxRebate), marginalRelief: 0 };
+    }
+    
+    if (rule.marginalRelief) {
+      const excessIncome = taxableIncome - rule.incomeLimit;
+      return { rebate87A: 0, marginalRelief: Math.max(0, taxLiability - excessIncome) };
+    }
+    
+    return { rebate87A: 0, marginalRelief: 0 };
+  }
+
+  // Surcharge for the highest band crossed, capped on special rate tax. Relief
+  // caps tax plus surcharge so it never rises by more than the income earned
+  // above the band threshold.
+  private calculateSurcharge(
+    taxableIncome: number,
+    slabTax: number,
+    specialTax: number,
+    taxAt: (income: number) => { slabTax: number; specialTax: number },
+    bands: SurchargeBand[],
+    maxSpecialRate: number
+  ): { surchargeRate: number; surcharge: number; surchargeRelief: number } {
+    const incomeTax = slabTax + specialTax;
+    const bandIndex = bands.reduce((found, band, index) => taxableIncome > band.threshold ? index : found, -1);
+    if (bandIndex === -1 || incomeTax <= 0) {
+      return { surchargeRate: 0, surcharge: 0, surchargeRelief: 0 };
+    }
+    
+    const surchargeOn = (tax: { slabTax: number; specialTax: number }, rate: number) =>
+      (tax.slabTax * rate + tax.specialTax * Math.min(rate, maxSpecialRate)) / 100;
+    
+    const band = bands[bandIndex];
+    const previousRate = bandIndex > 0 ? bands[bandIndex - 1].rate : 0;
+    const grossSurcharge = surchargeOn({ slabTax, specialTax }, band.rate);
+    
+    const taxAtThreshold = taxAt(band.threshold);
+    const maxTaxWithSurcharge = taxAtThreshold.slabTax + taxAtThreshold.specialTax
+      + surchargeOn(taxAtThreshold, previousRate) + (taxableIncome - band.threshold);
+    const surchargeRelief = Math.round(Math.min(grossSurcharge, Math.max(0, incomeTax + grossSurcharge - maxTaxWithSurcharge)));
+    
+    return {
+      surchargeRate: band.rate,
+      surcharge: Math.round(grossSurcharge) - surchargeRelief,
+      surchargeRelief
     };
   }
 
@@ -170,31 +447,26 @@ export class TaxCalculatorService {
   // Calculate tax suggestions based on current income and deductions
   generateTaxSuggestions(
     grossIncome: number,
+    salaryIncome: number,
     currentDeductions: { [section: string]: number } = {},
     assessmentYear: string,
     userProfile?: {
       age?: number;
+      isNonResident?: boolean;
       hasParents?: boolean;
       isMetroCity?: boolean;
       hasHomeLoan?: boolean;
       investmentRiskProfile?: 'conservative' | 'moderate' | 'aggressive';
     }
-  ): Array<{
-    section: string;
-    suggestion: string;
-    currentAmount: number;
-    maxAmount: number;
-    potentialSaving: number;
-    priority: number;
-    category: 'investment' | 'insurance' | 'loan' | 'savings' | 'strategy';
-    urgency: 'high' | 'medium' | 'low';
-  }> {
-    const suggestions = [];
-    const currentYear = parseInt(assessmentYear.split('-')[0]);
+  ): TaxSuggestionResult[] {
+    const suggestions: TaxSuggestionResult[] = [];
+    const caps = getTaxRules(assessmentYear).sectionCaps;
     const isSeniorCitizen = userProfile?.age && userProfile.age >= 60;
     
     // First, analyze which tax regime is better
-    const regimeComparison = this.compareRegimes(grossIncome, currentDeductions);
+    const regimeComparison = this.compareRegimes(grossIncome, currentDeductions, { salary: salaryIncome }, userProfile?.isNonResident ?? false, assessmentYear, {
+      age: userProfile?.age
+    });
     if (regimeComparison.savings > 5000) {
       suggestions.push({
         section: 'REGIME',
@@ -210,10 +482,10 @@ export class TaxCalculatorService {
 
     // Section 80C suggestions with intelligent recommendations
     const current80C = currentDeductions['80C'] || 0;
-    const max80C = 150000;
+    const max80C = caps.section80C;
     if (current80C < max80C) {
       const additionalAmount = max80C - current80C;
-      const potentialSaving = this.calculateSavingFromDeduction(grossIncome, additionalAmount, currentDeductions);
+      const potentialSaving = this.calculateSavingFromDeduction(grossIncome, salaryIncome, '80C', additionalAmount, currentDeductions, assessmentYear, userProfile?.age, userProfile?.isNonResident);
       
       let investmentSuggestion = '';
       if (userProfile?.investmentRiskProfile === 'aggressive' && grossIncome > 1000000) {
@@ -238,13 +510,13 @@ export class TaxCalculatorService {
 
     // Section 80D suggestions with age-based limits
     const current80D = currentDeductions['80D'] || 0;
-    let max80D = 25000; // For individual + family
-    if (isSeniorCitizen) max80D = 50000;
-    if (userProfile?.hasParents && isSeniorCitizen) max80D = 75000;
+    let max80D = caps.section80D.self; // For individual + family
+    if (isSeniorCitizen) max80D = caps.section80D.selfSenior;
+    if (userProfile?.hasParents && isSeniorCitizen) max80D = caps.section80D.selfSenior + caps.section80D.parents;
     
     if (current80D < max80D) {
       const additionalAmount = max80D - current80D;
-      const potentialSaving = this.calculateSavingFromDeduction(grossIncome, additionalAmount, currentDeductions);
+      const potentialSaving = this.calculateSavingFromDeduction(grossIncome, salaryIncome, '80D', additionalAmount, currentDeductions, assessmentYear, userProfile?.age, userProfile?.isNonResident);
       
       let healthSuggestion = '';
       if (userProfile?.hasParents) {
@@ -267,10 +539,10 @@ export class TaxCalculatorService {
 
     // NPS suggestions (80CCD(1B))
     const current80CCD1B = currentDeductions['80CCD1B'] || 0;
-    const max80CCD1B = 50000;
+    const max80CCD1B = caps.section80CCD1B;
     if (current80CCD1B < max80CCD1B) {
       const additionalAmount = max80CCD1B - current80CCD1B;
-      const potentialSaving = this.calculateSavingFromDeduction(grossIncome, additionalAmount, currentDeductions);
+      const potentialSaving = this.calculateSavingFromDeduction(grossIncome, salaryIncome, '80CCD1B', additionalAmount, currentDeductions, assessmentYear, userProfile?.age, userProfile?.isNonResident);
       
       suggestions.push({
         section: '80CCD1B',
@@ -288,7 +560,7 @@ export class TaxCalculatorService {
     const current80G = currentDeductions['80G'] || 0;
     if (grossIncome > 1500000 && current80G < 50000) {
       const suggestedAmount = Math.min(50000, grossIncome * 0.1);
-      const potentialSaving = this.calculateSavingFromDeduction(grossIncome, suggestedAmount, currentDeductions);
+      const potentialSaving = this.calculateSavingFromDeduction(grossIncome, salaryIncome, '80G', suggestedAmount, currentDeductions, assessmentYear, userProfile?.age, userProfile?.isNonResident);
       
       suggestions.push({
         section: '80G',
@@ -304,12 +576,12 @@ export class TaxCalculatorService {
 
     // Section 80TTA/80TTB (Interest on Savings)
     const current80TTA = currentDeductions['80TTA'] || 0;
-    const max80TTA = isSeniorCitizen ? 50000 : 10000;
+    const max80TTA = isSeniorCitizen ? caps.section80TTB : caps.section80TTA;
     const section = isSeniorCitizen ? '80TTB' : '80TTA';
     
     if (current80TTA < max80TTA && grossIncome > 300000) {
       const requiredDeposit = max80TTA / 0.04; // Assuming 4% interest rate
-      const potentialSaving = this.calculateSavingFromDeduction(grossIncome, max80TTA, currentDeductions);
+      const potentialSaving = this.calculateSavingFromDeduction(grossIncome, salaryIncome, section, max80TTA, currentDeductions, assessmentYear, userProfile?.age, userProfile?.isNonResident);
       
       suggestions.push({
         section,
@@ -326,10 +598,10 @@ export class TaxCalculatorService {
     // Home Loan Interest (Section 24)
     if (userProfile?.hasHomeLoan) {
       const currentHomeLoan = currentDeductions['24'] || 0;
-      const maxHomeLoan = 200000;
+      const maxHomeLoan = caps.section24bSelfOccupied;
       if (currentHomeLoan < maxHomeLoan) {
         const additionalAmount = maxHomeLoan - currentHomeLoan;
-        const potentialSaving = this.calculateSavingFromDeduction(grossIncome, additionalAmount, currentDeductions);
+        const potentialSaving = this.calculateSavingFromDeduction(grossIncome, salaryIncome, '24', additionalAmount, currentDeductions, assessmentYear, userProfile?.age, userProfile?.isNonResident);
         
         suggestions.push({
           section: '24',
@@ -351,7 +623,7 @@ export class TaxCalculatorService {
         suggestion: `Consider home loan for first-time purchase to claim ₹50,000 additional deduction under Section 80EE`,
         currentAmount: 0,
         maxAmount: 50000,
-        potentialSaving: this.calculateSavingFromDeduction(grossIncome, 50000, currentDeductions),
+        potentialSaving: this.calculateSavingFromDeduction(grossIncome, salaryIncome, '80EE', 50000, currentDeductions, assessmentYear, userProfile?.age, userProfile?.isNonResident),
         priority: 9,
         category: 'loan',
         urgency: 'low'
@@ -376,13 +648,13 @@ export class TaxCalculatorService {
     const currentMonth = new Date().getMonth() + 1;
     if (currentMonth >= 12 || currentMonth <= 3) { // Dec-Mar (financial year ending)
       const totalCurrentDeductions = Object.values(currentDeductions).reduce((sum, val) => sum + val, 0);
-      if (totalCurrentDeductions < 150000) {
+      if (totalCurrentDeductions < caps.section80C) {
         suggestions.push({
           section: 'URGENT',
-          suggestion: `Financial year ending soon! Complete pending tax-saving investments of ₹${(150000 - totalCurrentDeductions).toLocaleString()} before March 31st`,
+          suggestion: `Financial year ending soon! Complete pending tax-saving investments of ₹${(caps.section80C - totalCurrentDeductions).toLocaleString()} before March 31st`,
           currentAmount: totalCurrentDeductions,
-          maxAmount: 150000,
-          potentialSaving: this.calculateSavingFromDeduction(grossIncome, 150000 - totalCurrentDeductions, currentDeductions),
+          maxAmount: caps.section80C,
+          potentialSaving: this.calculateSavingFromDeduction(grossIncome, salaryIncome, '80C', caps.section80C - totalCurrentDeductions, currentDeductions, assessmentYear, userProfile?.age, userProfile?.isNonResident),
           priority: 0,
           category: 'strategy',
           urgency: 'high'
@@ -402,17 +674,21 @@ export class TaxCalculatorService {
       });
   }
 
+  // Tax saved in the old regime by claiming more under one section, with the
+  // section's limit applied to the existing and the additional claim together
   private calculateSavingFromDeduction(
     grossIncome: number,
+    salaryIncome: number,
+    section: string,
     additionalDeduction: number,
-    currentDeductions: { [section: string]: number }
+    currentDeductions: { [section: string]: number },
+    assessmentYear: string,
+    age?: number,
+    isNonResident: boolean = false
   ): number {
-    const currentTax = this.calculateOldRegimeTax(grossIncome, currentDeductions);
-    const newDeductions = { ...currentDeductions };
-    
-    // Add the additional deduction to appropriate section
-    const existingAmount = Object.values(currentDeductions).reduce((sum, amount) => sum + amount, 0);
-    const newTax = this.calculateOldRegimeTax(grossIncome, { total: existingAmount + additionalDeduction });
+    const withAddition = { ...currentDeductions, [section]: (currentDeductions[section] || 0) + additionalDeduction };
+    const currentTax = this.calculateOldRegimeTax(grossIncome, currentDeductions, isNonResident, assessmentYear, { age }, undefined, undefined, salaryIncome);
+    const newTax = this.calculateOldRegimeTax(grossIncome, withAddition, isNonResident, assessmentYear, { age }, undefined, undefined, salaryIncome);
     
     return Math.round(currentTax.totalTax - newTax.totalTax);
   }
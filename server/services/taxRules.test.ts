@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getTaxRules, SUPPORTED_ASSESSMENT_YEARS, assessmentYearStart, ageForAssessmentYear } from './taxRules';
+
+test('rule sets cover AY 2023-24 to 2026-27', () => {
+  assert.deepEqual(SUPPORTED_ASSESSMENT_YEARS, ['2023-24', '2024-25', '2025-26', '2026-27']);
+});
+
+for (const assessmentYear of SUPPORTED_ASSESSMENT_YEARS) {
+  test(`rule set for AY ${assessmentYear} is complete`, () => {
+    const rules = getTaxRules(assessmentYear);
+    assert.equal(rules.assessmentYear, assessmentYear);
+    assert.equal(rules.cessRate, 4);
+
+    for (const regime of [rules.oldRegime, rules.newRegime]) {
+      // Slabs run from zero without gaps and end open
+      assert.equal(regime.slabs[0].min, 0);
+      for (let i = 1; i < regime.slabs.length; i++) {
+        assert.equal(regime.slabs[i].min, regime.slabs[i - 1].max);
+      }
+      assert.equal(regime.slabs[regime.slabs.length - 1].max, null);
+      assert.deepEqual(regime.surchargeBands.map(band => band.threshold).slice(0, 3), [5000000, 10000000, 20000000]);
+    }
+
+    assert.equal(rules.oldRegime.standardDeduction, 50000);
+    assert.deepEqual(rules.oldRegime.rebate, { incomeLimit: 500000, maxRebate: 12500, marginalRelief: false });
+    assert.equal(rules.sectionCaps.section80C, 150000);
+    assert.equal(rules.sectionCaps.housePropertyLossSetOff, 200000);
+    assert.equal(rules.capitalGains.maxSurchargeRate, 15);
+  });
+}
+
+test('year-specific new regime rules', () => {
+  const byYear = Object.fromEntries(SUPPORTED_ASSESSMENT_YEARS.map(year => [year, getTaxRules(year)]));
+
+  assert.deepEqual(SUPPORTED_ASSESSMENT_YEARS.map(year => byYear[year].newRegime.standardDeduction), [0, 50000, 75000, 75000]);
+  assert.deepEqual(SUPPORTED_ASSESSMENT_YEARS.map(year => byYear[year].newRegime.rebate.incomeLimit), [500000, 700000, 700000, 1200000]);
+  assert.deepEqual(SUPPORTED_ASSESSMENT_YEARS.map(year => byYear[year].capitalGains.exemption112A), [100000, 100000, 125000, 125000]);
+  assert.deepEqual(SUPPORTED_ASSESSMENT_YEARS.map(year => byYear[year].sectionCaps.familyPensionDeduction.new), [0, 15000, 25000, 25000]);
+  assert.deepEqual(SUPPORTED_ASSESSMENT_YEARS.map(year => byYear[year].capitalGains.rebateOnSpecialRateTax.new), [true, true, true, false]);
+});
+
+test('unsupported years are clamped to the nearest supported year', () => {
+  assert.equal(getTaxRules('2019-20').assessmentYear, '2023-24');
+  assert.equal(getTaxRules('2030-31').assessmentYear, '2026-27');
+  assert.equal(getTaxRules('not a year').assessmentYear, '2024-25');
+  assert.equal(assessmentYearStart('2030-31'), 2030);
+});
+
+test('age is taken on 31 March of the previous year', () => {
+  assert.equal(ageForAssessmentYear('1965-03-31', '2025-26'), 60);
+  // Attains 60 on the day before the birthday
+  assert.equal(ageForAssessmentYear('1965-04-01', '2025-26'), 60);
+  assert.equal(ageForAssessmentYear('1965-04-02', '2025-26'), 59);
+});
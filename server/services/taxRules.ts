@@ -0,0 +1,347 @@
+export interface TaxSlabRate {
+  min: number;
+  max: number | null;
+  rate: number;
+}
+
+export interface SurchargeBand {
+  threshold: number; // Applies when total income exceeds this amount
+  rate: number;
+}
+
+export interface RebateRule {
+  incomeLimit: number; // Section 87A applies up to this total income
+  maxRebate: number;
+  marginalRelief: boolean; // Relief for income marginally above the limit
+}
+
+export interface RegimeRules {
+  slabs: TaxSlabRate[];
+  seniorCitizenSlabs?: TaxSlabRate[]; // Resident individuals aged 60 to 79
+  superSeniorCitizenSlabs?: TaxSlabRate[]; // Resident individuals aged 80 or more
+  standardDeduction: number;
+  rebate: RebateRule;
+  surchargeBands: SurchargeBand[];
+}
+
+export interface SectionCaps {
+  section80C: number; // Combined limit for 80C + 80CCC + 80CCD(1)
+  section80CCD1B: number;
+  section80D: {
+    self: number;
+    selfSenior: number;
+    parents: number;
+    parentsSenior: number;
+    preventiveCheckup: number;
+  };
+  section80TTA: number;
+  section80TTB: number;
+  section80EEA: number;
+  section80EE: number;
+  section80EEB: number;
+  section80DD: { normal: number; severe: number }; // Fixed deduction for a disabled dependant; severe is 80% or more
+  section80U: { normal: number; severe: number }; // The same for the taxpayer's own disability
+  section80DDB: { normal: number; senior: number };
+  section80GG: { annual: number; incomePercent: number }; // Rent paid without HRA
+  section80QQB: number;
+  section80RRB: number;
+  professionalTax: number; // Article 276(2) ceiling on tax on employment
+  section24bSelfOccupied: number;
+  housePropertyLossSetOff: number; // Section 71(3A) limit on set-off against other heads
+  section80CCD2SalaryPercent: { old: number; new: number };
+  familyPensionDeduction: { old: number; new: number };
+}
+
+export interface CapitalGainsRules {
+  exemption112A: number; // Annual exemption on listed equity LTCG
+  maxSurchargeRate: number; // Surcharge cap on 111A, 112A and 112 tax
+  rebateOnSpecialRateTax: { old: boolean; new: boolean }; // Whether 87A can absorb 111A/112 tax
+}
+
+export interface PresumptiveRules {
+  section44AD: {
+    turnoverLimit: number;
+    enhancedTurnoverLimit: number; // When cash receipts are within the cash limit
+    digitalRate: number;
+    cashRate: number;
+  };
+  section44ADA: {
+    receiptsLimit: number;
+    enhancedReceiptsLimit: number;
+    rate: number;
+  };
+  cashReceiptsLimitPercent: number; // Cash share of receipts allowed for the enhanced limits
+}
+
+export interface FilingRules {
+  lateFee: { incomeThreshold: number; reducedFee: number; fee: number }; // Section 234F
+  updatedReturnAdditionalTax: { withinMonths: number; percent: number }[]; // Section 140B, by months from the end of the AY
+}
+
+export interface TaxRuleSet {
+  assessmentYear: string;
+  oldRegime: RegimeRules;
+  newRegime: RegimeRules;
+  cessRate: number;
+  sectionCaps: SectionCaps;
+  capitalGains: CapitalGainsRules;
+  presumptive: PresumptiveRules;
+  filing: FilingRules;
+}
+
+// Old regime slabs have been unchanged since AY 2014-15
+const OLD_REGIME_SLABS: TaxSlabRate[] = [
+  { min: 0, max: 250000, rate: 0 },
+  { min: 250000, max: 500000, rate: 5 },
+  { min: 500000, max: 1000000, rate: 20 },
+  { min: 1000000, max: null, rate: 30 }
+];
+
+// Resident senior citizens have a higher exemption limit, and super senior
+// citizens skip the 5% slab altogether
+const SENIOR_CITIZEN_SLABS: TaxSlabRate[] = [
+  { min: 0, max: 300000, rate: 0 },
+  { min: 300000, max: 500000, rate: 5 },
+  { min: 500000, max: 1000000, rate: 20 },
+  { min: 1000000, max: null, rate: 30 }
+];
+
+const SUPER_SENIOR_CITIZEN_SLABS: TaxSlabRate[] = [
+  { min: 0, max: 500000, rate: 0 },
+  { min: 500000, max: 1000000, rate: 20 },
+  { min: 1000000, max: null, rate: 30 }
+];
+
+const FULL_SURCHARGE_BANDS: SurchargeBand[] = [
+  { threshold: 5000000, rate: 10 },
+  { threshold: 10000000, rate: 15 },
+  { threshold: 20000000, rate: 25 },
+  { threshold: 50000000, rate: 37 }
+];
+
+// Finance Act 2023 capped the new regime surcharge at 25%
+const CAPPED_SURCHARGE_BANDS: SurchargeBand[] = FULL_SURCHARGE_BANDS.filter(band => band.rate <= 25);
+
+const OLD_REGIME: RegimeRules = {
+  slabs: OLD_REGIME_SLABS,
+  seniorCitizenSlabs: SENIOR_CITIZEN_SLABS,
+  superSeniorCitizenSlabs: SUPER_SENIOR_CITIZEN_SLABS,
+  standardDeduction: 50000,
+  rebate: { incomeLimit: 500000, maxRebate: 12500, marginalRelief: false },
+  surchargeBands: FULL_SURCHARGE_BANDS
+};
+
+const BASE_SECTION_CAPS: SectionCaps = {
+  section80C: 150000,
+  section80CCD1B: 50000,
+  section80D: {
+    self: 25000,
+    selfSenior: 50000,
+    parents: 25000,
+    parentsSenior: 50000,
+    preventiveCheckup: 5000
+  },
+  section80TTA: 10000,
+  section80TTB: 50000,
+  section80EEA: 150000,
+  section80EE: 50000,
+  section80EEB: 150000,
+  section80DD: { normal: 75000, severe: 125000 },
+  section80U: { normal: 75000, severe: 125000 },
+  section80DDB: { normal: 40000, senior: 100000 },
+  section80GG: { annual: 60000, incomePercent: 25 },
+  section80QQB: 300000,
+  section80RRB: 300000,
+  professionalTax: 2500,
+  section24bSelfOccupied: 200000,
+  housePropertyLossSetOff: 200000,
+  section80CCD2SalaryPercent: { old: 10, new: 10 },
+  familyPensionDeduction: { old: 15000, new: 0 }
+};
+
+const BASE_CAPITAL_GAINS_RULES: CapitalGainsRules = {
+  exemption112A: 100000,
+  maxSurchargeRate: 15,
+  rebateOnSpecialRateTax: { old: true, new: true }
+};
+
+const BASE_PRESUMPTIVE_RULES: PresumptiveRules = {
+  section44AD: { turnoverLimit: 20000000, enhancedTurnoverLimit: 20000000, digitalRate: 6, cashRate: 8 },
+  section44ADA: { receiptsLimit: 5000000, enhancedReceiptsLimit: 5000000, rate: 50 },
+  cashReceiptsLimitPercent: 5
+};
+
+// Finance Act 2023 raised the limits for mostly-digital receipts
+const ENHANCED_PRESUMPTIVE_RULES: PresumptiveRules = {
+  ...BASE_PRESUMPTIVE_RULES,
+  section44AD: { ...BASE_PRESUMPTIVE_RULES.section44AD, enhancedTurnoverLimit: 30000000 },
+  section44ADA: { ...BASE_PRESUMPTIVE_RULES.section44ADA, enhancedReceiptsLimit: 7500000 }
+};
+
+// Finance Act 2025 extended updated returns to 48 months from the end of the AY
+const FILING_RULES: FilingRules = {
+  lateFee: { incomeThreshold: 500000, reducedFee: 1000, fee: 5000 },
+  updatedReturnAdditionalTax: [
+    { withinMonths: 12, percent: 25 },
+    { withinMonths: 24, percent: 50 },
+    { withinMonths: 36, percent: 60 },
+    { withinMonths: 48, percent: 70 }
+  ]
+};
+
+const TAX_RULES: Record<string, TaxRuleSet> = {
+  // FY 2022-23: optional section 115BAC regime, no standard deduction
+  '2023-24': {
+    assessmentYear: '2023-24',
+    oldRegime: OLD_REGIME,
+    newRegime: {
+      slabs: [
+        { min: 0, max: 250000, rate: 0 },
+        { min: 250000, max: 500000, rate: 5 },
+        { min: 500000, max: 750000, rate: 10 },
+        { min: 750000, max: 1000000, rate: 15 },
+        { min: 1000000, max: 1250000, rate: 20 },
+        { min: 1250000, max: 1500000, rate: 25 },
+        { min: 1500000, max: null, rate: 30 }
+      ],
+      standardDeduction: 0,
+      rebate: { incomeLimit: 500000, maxRebate: 12500, marginalRelief: false },
+      surchargeBands: FULL_SURCHARGE_BANDS
+    },
+    cessRate: 4,
+    sectionCaps: BASE_SECTION_CAPS,
+    capitalGains: BASE_CAPITAL_GAINS_RULES,
+    presumptive: BASE_PRESUMPTIVE_RULES,
+    filing: FILING_RULES
+  },
+
+  // FY 2023-24: new regime becomes the default
+  '2024-25': {
+    assessmentYear: '2024-25',
+    oldRegime: OLD_REGIME,
+    newRegime: {
+      slabs: [
+        { min: 0, max: 300000, rate: 0 },
+        { min: 300000, max: 600000, rate: 5 },
+        { min: 600000, max: 900000, rate: 10 },
+        { min: 900000, max: 1200000, rate: 15 },
+        { min: 1200000, max: 1500000, rate: 20 },
+        { min: 1500000, max: null, rate: 30 }
+      ],
+      standardDeduction: 50000,
+      rebate: { incomeLimit: 700000, maxRebate: 25000, marginalRelief: true },
+      surchargeBands: CAPPED_SURCHARGE_BANDS
+    },
+    cessRate: 4,
+    sectionCaps: {
+      ...BASE_SECTION_CAPS,
+      familyPensionDeduction: { old: 15000, new: 15000 }
+    },
+    capitalGains: BASE_CAPITAL_GAINS_RULES,
+    presumptive: ENHANCED_PRESUMPTIVE_RULES,
+    filing: FILING_RULES
+  },
+
+  // FY 2024-25: wider new regime slabs, higher standard deduction
+  '2025-26': {
+    assessmentYear: '2025-26',
+    oldRegime: OLD_REGIME,
+    newRegime: {
+      slabs: [
+        { min: 0, max: 300000, rate: 0 },
+        { min: 300000, max: 700000, rate: 5 },
+        { min: 700000, max: 1000000, rate: 10 },
+        { min: 1000000, max: 1200000, rate: 15 },
+        { min: 1200000, max: 1500000, rate: 20 },
+        { min: 1500000, max: null, rate: 30 }
+      ],
+      standardDeduction: 75000,
+      rebate: { incomeLimit: 700000, maxRebate: 25000, marginalRelief: true },
+      surchargeBands: CAPPED_SURCHARGE_BANDS
+    },
+    cessRate: 4,
+    sectionCaps: {
+      ...BASE_SECTION_CAPS,
+      section80CCD2SalaryPercent: { old: 10, new: 14 },
+      familyPensionDeduction: { old: 15000, new: 25000 }
+    },
+    // Finance (No. 2) Act 2024 raised the 112A exemption for the whole year
+    capitalGains: { ...BASE_CAPITAL_GAINS_RULES, exemption112A: 125000 },
+    presumptive: ENHANCED_PRESUMPTIVE_RULES,
+    filing: FILING_RULES
+  },
+
+  // FY 2025-26: zero tax up to ₹12 lakh through the enhanced rebate
+  '2026-27': {
+    assessmentYear: '2026-27',
+    oldRegime: OLD_REGIME,
+    newRegime: {
+      slabs: [
+        { min: 0, max: 400000, rate: 0 },
+        { min: 400000, max: 800000, rate: 5 },
+        { min: 800000, max: 1200000, rate: 10 },
+        { min: 1200000, max: 1600000, rate: 15 },
+        { min: 1600000, max: 2000000, rate: 20 },
+        { min: 2000000, max: 2400000, rate: 25 },
+        { min: 2400000, max: null, rate: 30 }
+      ],
+      standardDeduction: 75000,
+      rebate: { incomeLimit: 1200000, maxRebate: 60000, marginalRelief: true },
+      surchargeBands: CAPPED_SURCHARGE_BANDS
+    },
+    cessRate: 4,
+    sectionCaps: {
+      ...BASE_SECTION_CAPS,
+      section80CCD2SalaryPercent: { old: 10, new: 14 },
+      familyPensionDeduction: { old: 15000, new: 25000 }
+    },
+    // The enhanced new regime rebate does not extend to special rate income
+    capitalGains: {
+      ...BASE_CAPITAL_GAINS_RULES,
+      exemption112A: 125000,
+      rebateOnSpecialRateTax: { old: true, new: false }
+    },
+    presumptive: ENHANCED_PRESUMPTIVE_RULES,
+    filing: FILING_RULES
+  }
+};
+
+export const SUPPORTED_ASSESSMENT_YEARS = Object.keys(TAX_RULES).sort();
+
+export const DEFAULT_ASSESSMENT_YEAR = '2024-25';
+
+// Resolve the rule set for an assessment year (YYYY-YY). Years outside the
+// supported range are clamped to the nearest year we have rules for.
+export function getTaxRules(assessmentYear: string = DEFAULT_ASSESSMENT_YEAR): TaxRuleSet {
+  const exact = TAX_RULES[assessmentYear];
+  if (exact) return exact;
+
+  const startYear = parseInt(assessmentYear?.split('-')[0] ?? '', 10);
+  if (isNaN(startYear)) {
+    console.warn(`[Tax Rules] Invalid assessment year "${assessmentYear}", using ${DEFAULT_ASSESSMENT_YEAR}`);
+    return TAX_RULES[DEFAULT_ASSESSMENT_YEAR];
+  }
+
+  const earliest = SUPPORTED_ASSESSMENT_YEARS[0];
+  const latest = SUPPORTED_ASSESSMENT_YEARS[SUPPORTED_ASSESSMENT_YEARS.length - 1];
+  const fallback = startYear < parseInt(earliest, 10) ? earliest : latest;
+
+  console.warn(`[Tax Rules] No rules for assessment year ${assessmentYear}, using ${fallback}`);
+  return TAX_RULES[fallback];
+}
+
+// Calendar year in which an assessment year (YYYY-YY) begins. Unlike
+// getTaxRules this is not clamped, so dates stay right for any year.
+export function assessmentYearStart(assessmentYear: string = DEFAULT_ASSESSMENT_YEAR): number {
+  const startYear = parseInt(assessmentYear?.split('-')[0] ?? '', 10);
+  return isNaN(startYear) ? parseInt(DEFAULT_ASSESSMENT_YEAR, 10) : startYear;
+}
+
+// Age at the end of the previous year (31 March). A person is taken to attain
+// an age on the day before the birthday, so someone born on 1 April counts.
+export function ageForAssessmentYear(dateOfBirth: string | Date, assessmentYear: string = DEFAULT_ASSESSMENT_YEAR): number {
+  const birth = typeof dateOfBirth === 'string' ? dateOfBirth.slice(0, 10) : dateOfBirth.toISOString().slice(0, 10);
+  const [birthYear, birthMonth, birthDay] = birth.split('-').map(Number);
+  const hadBirthday = birthMonth <= 3 || (birthMonth === 4 && birthDay === 1);
+  return assessmentYearStart(assessmentYear) - birthYear - (hadBirthday ? 0 : 1);
+}
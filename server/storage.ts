@@ -1,30 +1,52 @@
 import {
   users,
   taxDocuments,
+  extractionJobs,
   incomeSources,
   investments,
+  capitalGainTransactions,
+  houseProperties,
+  taxPayments,
+  tdsCredits,
+  reportedIncomes,
+  residentialStatuses,
   taxCalculations,
   taxSuggestions,
   type User,
   type UpsertUser,
   type TaxDocument,
   type InsertTaxDocument,
+  type ExtractionJob,
+  type InsertExtractionJob,
   type IncomeSource,
   type InsertIncomeSource,
   type Investment,
   type InsertInvestment,
+  type CapitalGainTransaction,
+  type InsertCapitalGainTransaction,
+  type HouseProperty,
+  type InsertHouseProperty,
+  type TaxPayment,
+  type InsertTaxPayment,
+  type TdsCredit,
+  type InsertTdsCredit,
+  type ReportedIncome,
+  type InsertReportedIncome,
+  type ResidentialStatus,
+  type InsertResidentialStatus,
   type TaxCalculation,
   type InsertTaxCalculation,
   type TaxSuggestion,
   type InsertTaxSuggestion,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and } from "drizzle-orm";
+import { eq, desc, and, asc, lt, lte, gte, sql } from "drizzle-orm";
 
 export interface IStorage {
   // User operations (required for Replit Auth)
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
+  updateUserProfile(id: string, updates: Pick<Partial<User>, 'dateOfBirth' | 'pan'>): Promise<User | undefined>;
   
   // Tax document operations
   createTaxDocument(document: InsertTaxDocument): Promise<TaxDocument>;
@@ -32,6 +54,13 @@ export interface IStorage {
   getTaxDocument(id: string, userId: string): Promise<TaxDocument | undefined>;
   updateTaxDocument(id: string, userId: string, updates: Partial<TaxDocument>): Promise<TaxDocument | undefined>;
   
+  // Extraction job queue operations
+  createExtractionJob(job: InsertExtractionJob): Promise<ExtractionJob>;
+  getExtractionJob(id: string, userId: string): Promise<ExtractionJob | undefined>;
+  claimNextExtractionJob(): Promise<ExtractionJob | undefined>;
+  updateExtractionJob(id: string, updates: Partial<ExtractionJob>): Promise<ExtractionJob | undefined>;
+  requeueStaleExtractionJobs(lockedBefore: Date): Promise<ExtractionJob[]>;
+  
   // Income source operations
   createIncomeSource(income: InsertIncomeSource): Promise<IncomeSource>;
   getIncomeSourcesByUser(userId: string, assessmentYear?: string): Promise<IncomeSource[]>;
@@ -44,6 +73,39 @@ export interface IStorage {
   updateInvestment(id: string, userId: string, updates: Partial<Investment>): Promise<Investment | undefined>;
   deleteInvestment(id: string, userId: string): Promise<boolean>;
   
+  // Capital gain transaction operations
+  createCapitalGainTransaction(transaction: InsertCapitalGainTransaction): Promise<CapitalGainTransaction>;
+  getCapitalGainTransactionsByUser(userId: string, assessmentYear?: string): Promise<CapitalGainTransaction[]>;
+  updateCapitalGainTransaction(id: string, userId: string, updates: Partial<CapitalGainTransaction>): Promise<CapitalGainTransaction | undefined>;
+  deleteCapitalGainTransaction(id: string, userId: string): Promise<boolean>;
+  
+  // House property operations
+  createHouseProperty(property: InsertHouseProperty): Promise<HouseProperty>;
+  getHousePropertiesByUser(userId: string, assessmentYear?: string): Promise<HouseProperty[]>;
+  updateHouseProperty(id: string, userId: string, updates: Partial<HouseProperty>): Promise<HouseProperty | undefined>;
+  deleteHouseProperty(id: string, userId: string): Promise<boolean>;
+  
+  // Tax payment (challan) operations
+  createTaxPayment(payment: InsertTaxPayment): Promise<TaxPayment>;
+  getTaxPaymentsByUser(userId: string, assessmentYear?: string): Promise<TaxPayment[]>;
+  updateTaxPayment(id: string, userId: string, updates: Partial<TaxPayment>): Promise<TaxPayment | undefined>;
+  deleteTaxPayment(id: string, userId: string): Promise<boolean>;
+  
+  // Annual statement (26AS / AIS / TIS) operations
+  getTdsCreditsByUser(userId: string, assessmentYear?: string): Promise<TdsCredit[]>;
+  getReportedIncomesByUser(userId: string, assessmentYear?: string): Promise<ReportedIncome[]>;
+  replaceAnnualStatement(
+    userId: string,
+    assessmentYear: string,
+    statementType: string,
+    entries: { tdsCredits: InsertTdsCredit[]; reportedIncomes: InsertReportedIncome[] }
+  ): Promise<{ tdsCredits: TdsCredit[]; reportedIncomes: ReportedIncome[] }>;
+  deleteAnnualStatement(userId: string, assessmentYear: string, statementType: string): Promise<boolean>;
+  
+  // Residential status operations
+  getResidentialStatus(userId: string, assessmentYear: string): Promise<ResidentialStatus | undefined>;
+  upsertResidentialStatus(status: InsertResidentialStatus & { status: string }): Promise<ResidentialStatus>;
+  
   // Tax calculation operations
   createTaxCalculation(calculation: InsertTaxCalculation): Promise<TaxCalculation>;
   getTaxCalculationsByUser(userId: string): Promise<TaxCalculation[]>;
@@ -77,6 +139,15 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async updateUserProfile(id: string, updates: Pick<Partial<User>, 'dateOfBirth' | 'pan'>): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
   // Tax document operations
   async createTaxDocument(document: InsertTaxDocument): Promise<TaxDocument> {
     const [created] = await db.insert(taxDocuments).values(document).returning();
@@ -112,6 +183,66 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  // Extraction job queue operations
+  async createExtractionJob(job: InsertExtractionJob): Promise<ExtractionJob> {
+    const [created] = await db.insert(extractionJobs).values(job).returning();
+    return created;
+  }
+
+  async getExtractionJob(id: string, userId: string): Promise<ExtractionJob | undefined> {
+    const [job] = await db
+      .select()
+      .from(extractionJobs)
+      .where(and(eq(extractionJobs.id, id), eq(extractionJobs.userId, userId)));
+    return job;
+  }
+
+  // Lock the oldest due job so that concurrent workers never pick the same one
+  async claimNextExtractionJob(): Promise<ExtractionJob | undefined> {
+    return await db.transaction(async (tx) => {
+      const [due] = await tx
+        .select()
+        .from(extractionJobs)
+        .where(and(eq(extractionJobs.status, 'queued'), lte(extractionJobs.runAt, new Date())))
+        .orderBy(asc(extractionJobs.runAt))
+        .limit(1)
+        .for('update', { skipLocked: true });
+      if (!due) return undefined;
+      const [claimed] = await tx
+        .update(extractionJobs)
+        .set({ status: 'running', attempts: sql`${extractionJobs.attempts} + 1`, lockedAt: new Date() })
+        .where(eq(extractionJobs.id, due.id))
+        .returning();
+      return claimed;
+    });
+  }
+
+  async updateExtractionJob(id: string, updates: Partial<ExtractionJob>): Promise<ExtractionJob | undefined> {
+    const [updated] = await db
+      .update(extractionJobs)
+      .set(updates)
+      .where(eq(extractionJobs.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Jobs left running by a worker that stopped: retried while attempts
+  // remain, failed otherwise
+  async requeueStaleExtractionJobs(lockedBefore: Date): Promise<ExtractionJob[]> {
+    const stale = and(eq(extractionJobs.status, 'running'), lt(extractionJobs.lockedAt, lockedBefore));
+    const requeued = await db
+      .update(extractionJobs)
+      .set({ status: 'queued', lockedAt: null, runAt: new Date() })
+      .where(and(stale, lt(extractionJobs.attempts, extractionJobs.maxAttempts)))
+      .returning();
+    const failed = await db
+      .update(extractionJobs)
+      .set({ status: 'failed', lockedAt: null, lastError: 'Extraction was interrupted too many times' })
+      .where(and(stale, gte(extractionJobs.attempts, extractionJobs.maxAttempts)))
+      .returning();
+    return [...requeued, ...failed];
+  }
+
   // Income source operations
   async createIncomeSource(income: InsertIncomeSource): Promise<IncomeSource> {
     const [created] = await db.insert(incomeSources).values(income).returning();
@@ -188,6 +319,210 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount || 0) > 0;
   }
 
+  // Capital gain transaction operations
+  async createCapitalGainTransaction(transaction: InsertCapitalGainTransaction): Promise<CapitalGainTransaction> {
+    const [created] = await db.insert(capitalGainTransactions).values(transaction).returning();
+    return created;
+  }
+
+  async getCapitalGainTransactionsByUser(userId: string, assessmentYear?: string): Promise<CapitalGainTransaction[]> {
+    const whereCondition = assessmentYear 
+      ? and(eq(capitalGainTransactions.userId, userId), eq(capitalGainTransactions.assessmentYear, assessmentYear))
+      : eq(capitalGainTransactions.userId, userId);
+    
+    return await db
+      .select()
+      .from(capitalGainTransactions)
+      .where(whereCondition)
+      .orderBy(desc(capitalGainTransactions.saleDate));
+  }
+
+  async updateCapitalGainTransaction(
+    id: string,
+    userId: string,
+    updates: Partial<CapitalGainTransaction>
+  ): Promise<CapitalGainTransaction | undefined> {
+    const [updated] = await db
+      .update(capitalGainTransactions)
+      .set(updates)
+      .where(and(eq(capitalGainTransactions.id, id), eq(capitalGainTransactions.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteCapitalGainTransaction(id: string, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(capitalGainTransactions)
+      .where(and(eq(capitalGainTransactions.id, id), eq(capitalGainTransactions.userId, userId)));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // House property operations
+  async createHouseProperty(property: InsertHouseProperty): Promise<HouseProperty> {
+    const [created] = await db.insert(houseProperties).values(property).returning();
+    return created;
+  }
+
+  async getHousePropertiesByUser(userId: string, assessmentYear?: string): Promise<HouseProperty[]> {
+    const whereCondition = assessmentYear 
+      ? and(eq(houseProperties.userId, userId), eq(houseProperties.assessmentYear, assessmentYear))
+      : eq(houseProperties.userId, userId);
+    
+    return await db
+      .select()
+      .from(houseProperties)
+      .where(whereCondition)
+      .orderBy(houseProperties.createdAt);
+  }
+
+  async updateHouseProperty(
+    id: string,
+    userId: string,
+    updates: Partial<HouseProperty>
+  ): Promise<HouseProperty | undefined> {
+    const [updated] = await db
+      .update(houseProperties)
+      .set(updates)
+      .where(and(eq(houseProperties.id, id), eq(houseProperties.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteHouseProperty(id: string, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(houseProperties)
+      .where(and(eq(houseProperties.id, id), eq(houseProperties.userId, userId)));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Tax payment (challan) operations
+  async createTaxPayment(payment: InsertTaxPayment): Promise<TaxPayment> {
+    const [created] = await db.insert(taxPayments).values(payment).returning();
+    return created;
+  }
+
+  async getTaxPaymentsByUser(userId: string, assessmentYear?: string): Promise<TaxPayment[]> {
+    const whereCondition = assessmentYear 
+      ? and(eq(taxPayments.userId, userId), eq(taxPayments.assessmentYear, assessmentYear))
+      : eq(taxPayments.userId, userId);
+    
+    return await db
+      .select()
+      .from(taxPayments)
+      .where(whereCondition)
+      .orderBy(taxPayments.paymentDate);
+  }
+
+  async updateTaxPayment(
+    id: string,
+    userId: string,
+    updates: Partial<TaxPayment>
+  ): Promise<TaxPayment | undefined> {
+    const [updated] = await db
+      .update(taxPayments)
+      .set(updates)
+      .where(and(eq(taxPayments.id, id), eq(taxPayments.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteTaxPayment(id: string, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(taxPayments)
+      .where(and(eq(taxPayments.id, id), eq(taxPayments.userId, userId)));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Annual statement (26AS / AIS / TIS) operations
+  async getTdsCreditsByUser(userId: string, assessmentYear?: string): Promise<TdsCredit[]> {
+    const whereCondition = assessmentYear 
+      ? and(eq(tdsCredits.userId, userId), eq(tdsCredits.assessmentYear, assessmentYear))
+      : eq(tdsCredits.userId, userId);
+    
+    return await db
+      .select()
+      .from(tdsCredits)
+      .where(whereCondition)
+      .orderBy(tdsCredits.deductorName);
+  }
+
+  async getReportedIncomesByUser(userId: string, assessmentYear?: string): Promise<ReportedIncome[]> {
+    const whereCondition = assessmentYear 
+      ? and(eq(reportedIncomes.userId, userId), eq(reportedIncomes.assessmentYear, assessmentYear))
+      : eq(reportedIncomes.userId, userId);
+    
+    return await db
+      .select()
+      .from(reportedIncomes)
+      .where(whereCondition)
+      .orderBy(reportedIncomes.category);
+  }
+
+  // A fresh import of a statement replaces everything from the previous import
+  async replaceAnnualStatement(
+    userId: string,
+    assessmentYear: string,
+    statementType: string,
+    entries: { tdsCredits: InsertTdsCredit[]; reportedIncomes: InsertReportedIncome[] }
+  ): Promise<{ tdsCredits: TdsCredit[]; reportedIncomes: ReportedIncome[] }> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(tdsCredits).where(and(
+        eq(tdsCredits.userId, userId),
+        eq(tdsCredits.assessmentYear, assessmentYear),
+        eq(tdsCredits.statementType, statementType)
+      ));
+      await tx.delete(reportedIncomes).where(and(
+        eq(reportedIncomes.userId, userId),
+        eq(reportedIncomes.assessmentYear, assessmentYear),
+        eq(reportedIncomes.statementType, statementType)
+      ));
+      const credits = entries.tdsCredits.length > 0
+        ? await tx.insert(tdsCredits).values(entries.tdsCredits).returning()
+        : [];
+      const incomes = entries.reportedIncomes.length > 0
+        ? await tx.insert(reportedIncomes).values(entries.reportedIncomes).returning()
+        : [];
+      return { tdsCredits: credits, reportedIncomes: incomes };
+    });
+  }
+
+  async deleteAnnualStatement(userId: string, assessmentYear: string, statementType: string): Promise<boolean> {
+    const credits = await db.delete(tdsCredits).where(and(
+      eq(tdsCredits.userId, userId),
+      eq(tdsCredits.assessmentYear, assessmentYear),
+      eq(tdsCredits.statementType, statementType)
+    ));
+    const incomes = await db.delete(reportedIncomes).where(and(
+      eq(reportedIncomes.userId, userId),
+      eq(reportedIncomes.assessmentYear, assessmentYear),
+      eq(reportedIncomes.statementType, statementType)
+    ));
+    return (credits.rowCount || 0) + (incomes.rowCount || 0) > 0;
+  }
+
+  // Residential status operations
+  async getResidentialStatus(userId: string, assessmentYear: string): Promise<ResidentialStatus | undefined> {
+    const [status] = await db
+      .select()
+      .from(residentialStatuses)
+      .where(and(eq(residentialStatuses.userId, userId), eq(residentialStatuses.assessmentYear, assessmentYear)));
+    return status;
+  }
+
+  async upsertResidentialStatus(status: InsertResidentialStatus & { status: string }): Promise<ResidentialStatus> {
+    const existing = await this.getResidentialStatus(status.userId, status.assessmentYear);
+    if (existing) {
+      const [updated] = await db
+        .update(residentialStatuses)
+        .set({ ...status, updatedAt: new Date() })
+        .where(eq(residentialStatuses.id, existing.id))
+        .returning();
+      return updated;
+    }
+    const [created] = await db.insert(residentialStatuses).values(status).returning();
+    return created;
+  }
+
   // Tax calculation operations
   async createTaxCalculation(calculation: InsertTaxCalculation): Promise<TaxCalculation> {
     const [created] = await db.insert(taxCalculations).values(calculation).returning();
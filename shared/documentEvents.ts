@@ -0,0 +1,8 @@
+// Document lifecycle events sent from the server to the client over server-sent events
+export type DocumentEvent =
+  | { type: 'uploaded'; documentId: string }
+  | { type: 'text_extracted'; documentId: string }
+  | { type: 'ocr_page'; documentId: string; page: number; totalPages: number }
+  | { type: 'parsed'; documentId: string }
+  | { type: 'calculations_created'; documentId: string }
+  | { type: 'failed'; documentId: string; failureReason: string; error: string };
@@ -8,7 +8,8 @@ import {
   text,
   decimal,
   integer,
-  boolean
+  boolean,
+  date
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -32,6 +33,7 @@ export const users = pgTable("users", {
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
   pan: varchar("pan", { length: 10 }),
+  dateOfBirth: date("date_of_birth"), // Decides the senior citizen exemption limits
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -50,6 +52,24 @@ export const taxDocuments = pgTable("tax_documents", {
   processedAt: timestamp("processed_at"),
 });
 
+// Background extraction of an uploaded document; the worker claims queued
+// jobs whose runAt has passed and retries transient failures with backoff
+export const extractionJobs = pgTable("extraction_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  documentId: varchar("document_id").notNull().references(() => taxDocuments.id, { onDelete: "cascade" }),
+  status: varchar("status").notNull().default("queued"), // queued, running, completed, failed
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  createRecords: boolean("create_records").notNull().default(false), // Also save income, investments and the tax calculation
+  progress: jsonb("progress"), // { stage, page, totalPages }
+  lastError: text("last_error"),
+  runAt: timestamp("run_at").notNull().defaultNow(),
+  lockedAt: timestamp("locked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [index("IDX_extraction_jobs_status_run_at").on(table.status, table.runAt)]);
+
 // Income sources
 export const incomeSources = pgTable("income_sources", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -57,6 +77,9 @@ export const incomeSources = pgTable("income_sources", {
   documentId: varchar("document_id").references(() => taxDocuments.id, { onDelete: "cascade" }),
   source: varchar("source").notNull(), // salary, rental, business, capital_gains, other
   amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  presumptiveScheme: varchar("presumptive_scheme"), // 44AD, 44ADA; null when profit is computed from books
+  digitalReceipts: decimal("digital_receipts", { precision: 14, scale: 2 }),
+  cashReceipts: decimal("cash_receipts", { precision: 14, scale: 2 }),
   description: text("description"),
   assessmentYear: varchar("assessment_year").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
@@ -75,6 +98,100 @@ export const investments = pgTable("investments", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Capital gain transactions (share, mutual fund and property sales)
+export const capitalGainTransactions = pgTable("capital_gain_transactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  assetClass: varchar("asset_class").notNull(), // listed_equity, equity_mutual_fund, debt_mutual_fund, listed_bond, unlisted_shares, property, gold, other
+  description: text("description"),
+  purchaseDate: date("purchase_date").notNull(),
+  saleDate: date("sale_date").notNull(),
+  costOfAcquisition: decimal("cost_of_acquisition", { precision: 14, scale: 2 }).notNull(),
+  costOfImprovement: decimal("cost_of_improvement", { precision: 14, scale: 2 }).default('0'),
+  saleValue: decimal("sale_value", { precision: 14, scale: 2 }).notNull(),
+  transferExpenses: decimal("transfer_expenses", { precision: 14, scale: 2 }).default('0'),
+  fairMarketValue2018: decimal("fair_market_value_2018", { precision: 14, scale: 2 }), // FMV on 31-Jan-2018 for grandfathering
+  indexationEligible: boolean("indexation_eligible").notNull().default(false),
+  assessmentYear: varchar("assessment_year").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// House properties (self-occupied or let out)
+export const houseProperties = pgTable("house_properties", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name").notNull(),
+  occupancy: varchar("occupancy").notNull().default("let_out"), // self_occupied, let_out
+  annualRent: decimal("annual_rent", { precision: 12, scale: 2 }).default('0'), // Rent received, or expected rent if deemed let out
+  municipalTaxesPaid: decimal("municipal_taxes_paid", { precision: 12, scale: 2 }).default('0'),
+  interestOnLoan: decimal("interest_on_loan", { precision: 12, scale: 2 }).default('0'),
+  assessmentYear: varchar("assessment_year").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Tax paid by the user through challan ITNS 280
+export const taxPayments = pgTable("tax_payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  paymentType: varchar("payment_type").notNull().default("advance_tax"), // advance_tax, self_assessment
+  paymentDate: date("payment_date").notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  bsrCode: varchar("bsr_code"),
+  challanSerialNumber: varchar("challan_serial_number"),
+  assessmentYear: varchar("assessment_year").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// TDS and TCS credits from Form 26AS or the AIS, one row per deductor TAN and section
+export const tdsCredits = pgTable("tds_credits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  statementType: varchar("statement_type").notNull(), // 26AS, AIS, TIS
+  deductorName: varchar("deductor_name"),
+  deductorTan: varchar("deductor_tan", { length: 10 }),
+  section: varchar("section"), // 192, 194A, 206C, etc.
+  amountPaid: decimal("amount_paid", { precision: 14, scale: 2 }).default('0'),
+  taxDeducted: decimal("tax_deducted", { precision: 12, scale: 2 }).default('0'),
+  taxDeposited: decimal("tax_deposited", { precision: 12, scale: 2 }).default('0'),
+  assessmentYear: varchar("assessment_year").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Income reported to the department by third parties, from the AIS, TIS or 26AS
+export const reportedIncomes = pgTable("reported_incomes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  statementType: varchar("statement_type").notNull(), // 26AS, AIS, TIS
+  category: varchar("category").notNull(), // salary, interest_savings, interest_deposit, dividend, rent, securities_sale, other
+  informationCode: varchar("information_code"), // TDS-194A, SFT-016, etc.
+  description: text("description"),
+  reportedBy: varchar("reported_by"),
+  amount: decimal("amount", { precision: 14, scale: 2 }).notNull(),
+  assessmentYear: varchar("assessment_year").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Residential status questionnaire answers under section 6, one per year
+export const residentialStatuses = pgTable("residential_statuses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  assessmentYear: varchar("assessment_year").notNull(),
+  daysInIndia: integer("days_in_india").notNull(), // In the financial year
+  // Null when not answered, which is not the same as zero days
+  daysInIndiaPrecedingFourYears: integer("days_in_india_preceding_four_years"),
+  daysInIndiaPrecedingSevenYears: integer("days_in_india_preceding_seven_years"),
+  nonResidentYearsOfPrecedingTen: integer("non_resident_years_of_preceding_ten"),
+  isIndianCitizen: boolean("is_indian_citizen").notNull().default(true),
+  isPersonOfIndianOrigin: boolean("is_person_of_indian_origin").notNull().default(false),
+  leftIndiaForEmployment: boolean("left_india_for_employment").notNull().default(false), // Or as crew of an Indian ship
+  visitingIndia: boolean("visiting_india").notNull().default(false), // Lives abroad and came on a visit
+  indianIncome: decimal("indian_income", { precision: 12, scale: 2 }).default('0'), // Total income other than from foreign sources
+  liableToTaxElsewhere: boolean("liable_to_tax_elsewhere").notNull().default(true),
+  status: varchar("status").notNull(), // resident, rnor, nri
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Tax calculations
 export const taxCalculations = pgTable("tax_calculations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -115,6 +232,11 @@ export const insertTaxDocumentSchema = createInsertSchema(taxDocuments).omit({
   processedAt: true,
 });
 
+export const insertExtractionJobSchema = createInsertSchema(extractionJobs).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertIncomeSourceSchema = createInsertSchema(incomeSources).omit({
   id: true,
   createdAt: true,
@@ -125,6 +247,38 @@ export const insertInvestmentSchema = createInsertSchema(investments).omit({
   createdAt: true,
 });
 
+export const insertCapitalGainTransactionSchema = createInsertSchema(capitalGainTransactions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertHousePropertySchema = createInsertSchema(houseProperties).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTaxPaymentSchema = createInsertSchema(taxPayments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTdsCreditSchema = createInsertSchema(tdsCredits).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertReportedIncomeSchema = createInsertSchema(reportedIncomes).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertResidentialStatusSchema = createInsertSchema(residentialStatuses).omit({
+  id: true,
+  status: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertTaxCalculationSchema = createInsertSchema(taxCalculations).omit({
   id: true,
   calculatedAt: true,
@@ -140,10 +294,24 @@ export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
 export type TaxDocument = typeof taxDocuments.$inferSelect;
 export type InsertTaxDocument = z.infer<typeof insertTaxDocumentSchema>;
+export type ExtractionJob = typeof extractionJobs.$inferSelect;
+export type InsertExtractionJob = z.infer<typeof insertExtractionJobSchema>;
 export type IncomeSource = typeof incomeSources.$inferSelect;
 export type InsertIncomeSource = z.infer<typeof insertIncomeSourceSchema>;
 export type Investment = typeof investments.$inferSelect;
 export type InsertInvestment = z.infer<typeof insertInvestmentSchema>;
+export type CapitalGainTransaction = typeof capitalGainTransactions.$inferSelect;
+export type InsertCapitalGainTransaction = z.infer<typeof insertCapitalGainTransactionSchema>;
+export type HouseProperty = typeof houseProperties.$inferSelect;
+export type InsertHouseProperty = z.infer<typeof insertHousePropertySchema>;
+export type TaxPayment = typeof taxPayments.$inferSelect;
+export type InsertTaxPayment = z.infer<typeof insertTaxPaymentSchema>;
+export type TdsCredit = typeof tdsCredits.$inferSelect;
+export type InsertTdsCredit = z.infer<typeof insertTdsCreditSchema>;
+export type ReportedIncome = typeof reportedIncomes.$inferSelect;
+export type InsertReportedIncome = z.infer<typeof insertReportedIncomeSchema>;
+export type ResidentialStatus = typeof residentialStatuses.$inferSelect;
+export type InsertResidentialStatus = z.infer<typeof insertResidentialStatusSchema>;
 export type TaxCalculation = typeof taxCalculations.$inferSelect;
 export type InsertTaxCalculation = z.infer<typeof insertTaxCalculationSchema>;
 export type TaxSuggestion = typeof taxSuggestions.$inferSelect;